@@ -20,6 +20,10 @@ export const PLUGIN_CONFIG: PluginConfig = {
       "https://raw.githubusercontent.com/obsidianmd/obsidian-releases/master/community-plugins.json",
     communityPluginStats:
       "https://raw.githubusercontent.com/obsidianmd/obsidian-releases/master/community-plugin-stats.json",
+    communityPluginDeprecations:
+      "https://raw.githubusercontent.com/obsidianmd/obsidian-releases/master/community-plugin-deprecation.json",
+    communityPluginsRemoved:
+      "https://raw.githubusercontent.com/obsidianmd/obsidian-releases/master/community-plugins-removed.json",
     githubApi: "https://api.github.com",
     githubRaw: "https://raw.githubusercontent.com",
     githubReleases: "https://github.com",
@@ -29,17 +33,63 @@ export const PLUGIN_CONFIG: PluginConfig = {
     errorCacheDuration: 5 * 60 * 1000, // 5 minutes
     backgroundRefreshInterval: 30 * 60 * 1000, // 30 minutes
     viewInitializationDelay: 100, // 100ms
-    batchSize: 10, // Process 10 plugins in parallel per batch
-    batchDelay: 100, // 100ms delay between batches
     debounceDelay: 300, // 300ms debounce delay
     statusCheckBatchSize: 20, // Check 20 plugin statuses at a time
     pluginsPerPage: 100, // Number of plugins to show per page (pagination)
-    /** Number of plugins to process in parallel when fetching release info */
-    releaseInfoBatchSize: 5,
-    /** Delay in milliseconds between batches when processing release info to avoid GitHub API rate limits */
-    releaseInfoBatchDelay: 2000,
+    /** Maximum number of network requests the request scheduler runs at once */
+    maxConcurrentRequests: 6,
+    /** Git ref used for raw files when the registry names no branch (GitHub resolves it to the default branch) */
+    defaultBranchRef: "HEAD",
+    /** Number of releases requested for a plugin's version history (one GitHub API request) */
+    releasesPerPage: 30,
     /** Debounce period in milliseconds for rate limit error notifications to prevent spam */
     rateLimitErrorDebounceMs: 20000,
+    /** Delay in milliseconds before writing changed caches to disk (batches rapid updates) */
+    cachePersistDelay: 2000,
+    /** How often (ms) to probe for connectivity while in offline mode */
+    connectivityCheckInterval: 60 * 1000,
+    /** Delay in milliseconds between README fetches while building the README index */
+    readmeIndexDelay: 1500,
+    /** How long (ms) the README indexer waits before checking for new or stale plugins once done */
+    readmeIndexIdleDelay: 60 * 60 * 1000,
+    /** Age (ms) after which an indexed README is fetched again */
+    readmeIndexMaxAge: 7 * 24 * 60 * 60 * 1000,
+    /** Minimum time (ms) between index writes while READMEs are being indexed; the index is also written when idle or stopped */
+    readmeIndexPersistInterval: 10 * 60 * 1000,
+    /** Number of README characters kept per plugin for search snippets */
+    readmeIndexExcerptLength: 5000,
+    /** Number of compatible versions from versions.json tried before giving up on finding a release */
+    maxCompatibleReleaseAttempts: 3,
+    /** Delay in milliseconds between manifest fetches while prefetching manifests */
+    manifestPrefetchDelay: 500,
+    /** How long (ms) the manifest prefetcher waits before checking for new or stale plugins once done */
+    manifestPrefetchIdleDelay: 60 * 60 * 1000,
+    /** Age (ms) after which a prefetched manifest is fetched again */
+    manifestPrefetchMaxAge: 3 * 24 * 60 * 60 * 1000,
+    /** Number of newly fetched manifests after which the prefetch state is written to disk */
+    manifestPrefetchPersistEvery: 50,
+    /** Delay in milliseconds before the plugin list reflects newly prefetched manifests (batches updates) */
+    manifestPrefetchRefreshDelay: 3000,
+    /** Registry source ID of the official community-plugins.json */
+    officialRegistrySourceId: "official",
+    /** Source ID of plugins installed from a repository that no registry lists */
+    sideloadedSourceId: "sideloaded",
+    /** Minimum time (ms) between notices about available plugin updates */
+    updateNoticeInterval: 24 * 60 * 60 * 1000,
+    /** Number of backups kept per plugin unless configured otherwise */
+    defaultBackupRetention: 3,
+    /** Largest accepted download per release file (bytes); bigger files abort the install */
+    maxReleaseFileSizes: {
+      "main.js": 20 * 1024 * 1024,
+      "manifest.json": 64 * 1024,
+      "styles.css": 5 * 1024 * 1024,
+    },
+    /** Local storage key for the GitHub token (kept out of the synced data.json) */
+    githubTokenStorageKey: "community-plugin-browser-github-token",
+    /** Share of the GitHub API quota reserved for user-initiated requests */
+    rateLimitReserveFraction: 0.1,
+    /** How long (ms) to pause GitHub API requests after a rate limit error without a reset time */
+    rateLimitFallbackPause: 60 * 1000,
     retry: {
       maxRetries: 3, // Maximum number of retry attempts
       initialDelay: 1000, // Initial delay in milliseconds (1 second)
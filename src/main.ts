@@ -2,23 +2,52 @@
  * Main plugin file for Community Plugin Browser
  */
 
-import { Plugin, WorkspaceLeaf } from "obsidian";
+import { Plugin, TFile, WorkspaceLeaf, normalizePath } from "obsidian";
 import { PluginService } from "./services/PluginService";
 import { InstallationService } from "./services/InstallationService";
+import { FileStorageService } from "./services/FileStorageService";
+import { ReadmeIndexService } from "./services/ReadmeIndexService";
+import { ManifestPrefetchService } from "./services/ManifestPrefetchService";
+import { RequestScheduler } from "./services/RequestScheduler";
+import { UpdateService } from "./services/UpdateService";
+import { BackupService } from "./services/BackupService";
+import { HistoryService } from "./services/HistoryService";
+import { PluginSetService } from "./services/PluginSetService";
 import { PluginListView, VIEW_TYPE_PLUGIN_LIST } from "./views/PluginListView";
+import { InstallFromRepositoryModal } from "./views/InstallFromRepositoryModal";
+import { UpdateReviewModal } from "./views/UpdateReviewModal";
+import { PluginSetImportModal } from "./views/PluginSetImportModal";
+import { PluginSetFileSuggestModal } from "./views/PluginSetFileSuggestModal";
+import {
+  PluginHistoryView,
+  VIEW_TYPE_PLUGIN_HISTORY,
+} from "./views/PluginHistoryView";
 import {
   PluginDetailView,
   VIEW_TYPE_PLUGIN_DETAIL,
 } from "./views/PluginDetailView";
 import {
   CommunityPlugin,
+  PluginUpdate,
+  IntegrityReport,
+  PluginSet,
   PluginSettings,
   ViewLocation,
   PluginInfo,
+  RegistrySource,
 } from "./types";
 import { PluginSettingTab } from "./settings/PluginSettingTab";
 import { PLUGIN_CONFIG } from "./config";
-import { isCustomEvent, hasOpenPopoutLeaf } from "./utils";
+import {
+  isCustomEvent,
+  hasOpenPopoutLeaf,
+  showWarning,
+  showInfo,
+  showError,
+  showSuccess,
+  parsePluginSet,
+  pluginSetToNote,
+} from "./utils";
 
 const DEFAULT_SETTINGS: PluginSettings = {
   viewLocation: "right",
@@ -29,13 +58,23 @@ const DEFAULT_SETTINGS: PluginSettings = {
   },
   paginationThreshold: 200, // Default: load more when within 200px of bottom
   dataRefreshIntervalMinutes: 30, // Default: refresh every 30 minutes (2x/hour)
+  readmeIndexEnabled: false, // README index is opt-in (fetches every plugin's README)
+  manifestPrefetchEnabled: false, // Prefetching is opt-in (fetches every plugin's manifest)
+  updateNoticeEnabled: false, // Update notices are opt-in (the status bar always shows the count)
 };
 
 export default class CommunityPluginBrowserPlugin extends Plugin {
   settings!: PluginSettings;
   pluginService!: PluginService; // Made public for settings access
+  readmeIndexService!: ReadmeIndexService; // Public for views and settings access
+  manifestPrefetchService!: ManifestPrefetchService; // Public for views and settings access
   private installationService!: InstallationService;
+  private updateService!: UpdateService;
+  private backupService!: BackupService;
+  private historyService!: HistoryService;
+  private pluginSetService!: PluginSetService;
   private backgroundRefreshIntervalId: number | undefined = undefined;
+  private updateStatusBarEl: HTMLElement | null = null;
   private eventHandlers: Map<WorkspaceLeaf, Record<string, EventListener>> =
     new Map();
 
@@ -50,13 +89,110 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
     // Load settings
     await this.loadSettings();
 
-    // Initialize services
-    this.pluginService = new PluginService();
-    this.installationService = new InstallationService(this.app);
+    // Initialize services (sharing one request queue)
+    const requestScheduler = new RequestScheduler();
+    this.pluginService = new PluginService(requestScheduler);
+    this.pluginService.setRegistrySources(this.settings.registrySources);
+    this.pluginService.setSideloadedPlugins(this.settings.sideloadedPlugins);
+    this.pluginService.setGitHubToken(this.loadGitHubToken());
+    this.installationService = new InstallationService(
+      this.app,
+      requestScheduler,
+    );
+    this.installationService.setPinnedVersions(this.settings.pinnedVersions);
+    this.register(
+      this.installationService.onPinnedVersionsChange((pins) => {
+        this.settings.pinnedVersions = pins;
+        void this.saveSettings();
+      }),
+    );
+    this.installationService.setInstallLedger(this.settings.installLedger);
+    this.register(
+      this.installationService.onInstallLedgerChange((ledger) => {
+        this.settings.installLedger = ledger;
+        void this.saveSettings();
+      }),
+    );
+    this.installationService.setBetaPlugins(this.settings.betaPlugins);
+    this.register(
+      this.installationService.onReleaseChannelsChange((betaPlugins) => {
+        this.settings.betaPlugins = betaPlugins;
+        void this.saveSettings();
+      }),
+    );
+
+    // Installed plugins are backed up before an install overwrites them
+    this.backupService = new BackupService(
+      this.app,
+      `${this.getPluginDataDir()}/backups`,
+      [this.getCacheDirPath(), this.getHistoryFilePath()],
+    );
+    this.backupService.setRetention(
+      this.settings.backupRetention ??
+        PLUGIN_CONFIG.constants.defaultBackupRetention,
+    );
+    this.installationService.setBackupService(this.backupService);
+
+    // Append-only record of installs, updates and uninstalls (synced with the vault)
+    this.historyService = new HistoryService(
+      this.app,
+      this.getHistoryFilePath(),
+    );
+    this.installationService.setHistoryService(this.historyService);
+
+    this.updateService = new UpdateService(
+      this.pluginService,
+      this.installationService,
+    );
+    this.pluginSetService = new PluginSetService(
+      this.pluginService,
+      this.installationService,
+    );
 
     // Update cache duration based on refresh interval setting
     this.updateCacheDuration();
 
+    // Rehydrate caches persisted by the previous session so registry data,
+    // stats, release dates and ETags don't have to be downloaded again
+    const cacheStorage = new FileStorageService(
+      this.app,
+      this.getCacheDirPath(),
+    );
+    this.pluginService.setCacheStorage(cacheStorage);
+    try {
+      await this.pluginService.loadPersistedCache();
+    } catch (error) {
+      console.warn("Failed to load persisted cache:", error);
+    }
+
+    // Local README search index, built in the background when enabled
+    this.readmeIndexService = new ReadmeIndexService(
+      this.pluginService,
+      cacheStorage,
+    );
+    try {
+      await this.readmeIndexService.load();
+    } catch (error) {
+      console.warn("Failed to load README index:", error);
+    }
+    if (this.settings.readmeIndexEnabled) {
+      this.readmeIndexService.start();
+    }
+
+    // Manifests of all plugins, fetched in the background for compatibility badges and filters
+    this.manifestPrefetchService = new ManifestPrefetchService(
+      this.pluginService,
+      cacheStorage,
+    );
+    try {
+      await this.manifestPrefetchService.load();
+    } catch (error) {
+      console.warn("Failed to load manifest prefetch state:", error);
+    }
+    if (this.settings.manifestPrefetchEnabled ?? false) {
+      this.manifestPrefetchService.start();
+    }
+
     // Preload plugin data and stats in the background for faster initial view load
     // This ensures cached data is available immediately when the view opens
     (async () => {
@@ -64,15 +200,24 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
         await Promise.all([
           this.pluginService.fetchCommunityPlugins(),
           this.pluginService.fetchPluginStats(),
+          this.pluginService.fetchRegistryStatus(),
         ]);
       } catch (error) {
         console.warn("Failed to preload plugins or stats:", error);
       }
+      await this.warnAboutRemovedPlugins();
+      await this.detectPluginUpdates();
     })();
 
+    // Show the number of available plugin updates in the status bar
+    this.setupUpdateStatusBar();
+
     // Start background refresh mechanism to proactively update cache
     this.startBackgroundRefresh();
 
+    // Track connectivity so views can switch to offline browsing and back
+    this.registerConnectivityHandlers();
+
     // Register views
     this.registerView(VIEW_TYPE_PLUGIN_LIST, (leaf) => {
       return new PluginListView(
@@ -91,6 +236,10 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
       );
     });
 
+    this.registerView(VIEW_TYPE_PLUGIN_HISTORY, (leaf) => {
+      return new PluginHistoryView(leaf, this.historyService);
+    });
+
     // Add settings tab
     this.addSettingTab(new PluginSettingTab(this));
 
@@ -103,6 +252,74 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
       },
     });
 
+    // Register command to review and install updates of all installed plugins
+    this.addCommand({
+      id: "update-all-plugins",
+      name: "Update all plugins",
+      callback: () => {
+        this.openUpdateReview();
+      },
+    });
+
+    // Register command to open the install history
+    this.addCommand({
+      id: "open-plugin-history",
+      name: "Open plugin install history",
+      callback: () => {
+        void this.openPluginHistoryView();
+      },
+    });
+
+    // Register command to check installed plugin files against the hashes recorded at install time
+    this.addCommand({
+      id: "verify-installed-plugins",
+      name: "Verify installed plugins",
+      callback: () => {
+        void this.verifyInstalledPlugins();
+      },
+    });
+
+    // Register command to install a plugin from a repository outside the registries
+    this.addCommand({
+      id: "install-from-repository",
+      name: "Install plugin from GitHub repository",
+      callback: () => {
+        new InstallFromRepositoryModal(
+          this.app,
+          this.pluginService,
+          this.installationService,
+          (plugin) => this.addSideloadedPlugin(plugin),
+        ).open();
+      },
+    });
+
+    // Register commands to export the installed plugins as a plugin set
+    this.addCommand({
+      id: "export-plugin-set-json",
+      name: "Export installed plugins as plugin set (JSON file)",
+      callback: () => {
+        void this.exportPluginSet("json");
+      },
+    });
+    this.addCommand({
+      id: "export-plugin-set-note",
+      name: "Export installed plugins as plugin set (note)",
+      callback: () => {
+        void this.exportPluginSet("note");
+      },
+    });
+
+    // Register command to install the plugins of an exported plugin set
+    this.addCommand({
+      id: "import-plugin-set",
+      name: "Import plugin set",
+      callback: () => {
+        new PluginSetFileSuggestModal(this.app, (file) => {
+          void this.importPluginSet(file);
+        }).open();
+      },
+    });
+
     // Add ribbon icon (optional)
     this.addRibbonIcon("package", "Community Plugin Browser", () => {
       this.openPluginListView();
@@ -179,6 +396,401 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
 
     // Clear handlers map
     this.eventHandlers.clear();
+
+    // Flush any pending cache write so the next session starts warm
+    await this.pluginService?.persistCache();
+    await this.readmeIndexService?.stop();
+    await this.manifestPrefetchService?.stop();
+  }
+
+  /**
+   * Warn about installed plugins that were removed from the community registry
+   * Each plugin is reported once (tracked in settings) so the warning doesn't repeat on every start
+   */
+  async warnAboutRemovedPlugins(): Promise<void> {
+    try {
+      const { removed } = await this.pluginService.fetchRegistryStatus();
+      const warned = new Set(this.settings.warnedRemovedPlugins ?? []);
+      const newlyRemoved = [];
+      for (const entry of Object.values(removed)) {
+        if (
+          !warned.has(entry.id) &&
+          (await this.installationService.isPluginInstalled(entry.id))
+        ) {
+          newlyRemoved.push(entry);
+        }
+      }
+      if (newlyRemoved.length === 0) return;
+
+      const details = newlyRemoved
+        .map(
+          (entry) =>
+            `${entry.name ?? entry.id}${entry.reason ? ` (${entry.reason})` : ""}`,
+        )
+        .join("; ");
+      showWarning(
+        `Installed ${newlyRemoved.length === 1 ? "plugin was" : "plugins were"} removed from the community plugin registry: ${details}. Consider uninstalling.`,
+      );
+
+      for (const entry of newlyRemoved) {
+        warned.add(entry.id);
+      }
+      this.settings.warnedRemovedPlugins = Array.from(warned);
+      await this.saveSettings();
+    } catch (error) {
+      console.warn(
+        "Failed to check installed plugins against removal list:",
+        error,
+      );
+    }
+  }
+
+  /**
+   * Enable or disable the background README index
+   * Saves the setting and starts or stops the indexer
+   * @param enabled Whether README indexing should run
+   */
+  async setReadmeIndexEnabled(enabled: boolean): Promise<void> {
+    this.settings.readmeIndexEnabled = enabled;
+    await this.saveSettings();
+    if (enabled) {
+      this.readmeIndexService.start();
+    } else {
+      await this.readmeIndexService.stop();
+    }
+  }
+
+  /**
+   * Enable or disable background manifest prefetching
+   * Saves the setting and starts or stops the prefetcher
+   * @param enabled Whether manifests should be prefetched
+   */
+  async setManifestPrefetchEnabled(enabled: boolean): Promise<void> {
+    this.settings.manifestPrefetchEnabled = enabled;
+    await this.saveSettings();
+    if (enabled) {
+      this.manifestPrefetchService.start();
+    } else {
+      await this.manifestPrefetchService.stop();
+    }
+  }
+
+  /**
+   * Set how many backups are kept per plugin
+   * Saves the setting; existing backups beyond the new limit are removed on the plugin's next backup
+   * @param count Number of backups to keep (0 disables backups)
+   */
+  async setBackupRetention(count: number): Promise<void> {
+    this.backupService.setRetention(count);
+    this.settings.backupRetention = this.backupService.getRetention();
+    await this.saveSettings();
+  }
+
+  /**
+   * Save the installed plugins as a plugin set in the vault root
+   * @param format "json" for a JSON file, "note" for a note with a table and the JSON
+   */
+  async exportPluginSet(format: "json" | "note"): Promise<void> {
+    try {
+      const set = await this.pluginSetService.exportPluginSet();
+      const stamp = set.exportedAt.slice(0, 19).replace(/[T:]/g, "-");
+      const path =
+        format === "json"
+          ? `plugin-set-${stamp}.json`
+          : `plugin-set-${stamp}.md`;
+      const content =
+        format === "json" ? JSON.stringify(set, null, 2) : pluginSetToNote(set);
+      await this.app.vault.create(path, content);
+      showSuccess(
+        `Exported ${set.plugins.length} ${set.plugins.length === 1 ? "plugin" : "plugins"} to ${path}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      showError(`Failed to export plugin set: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Read a plugin set from a vault file and open the import review
+   * @param file JSON file or note containing the plugin set
+   */
+  async importPluginSet(file: TFile): Promise<void> {
+    let set: PluginSet;
+    try {
+      set = parsePluginSet(await this.app.vault.read(file));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      showError(`Failed to read ${file.path}: ${errorMessage}`);
+      return;
+    }
+    new PluginSetImportModal(
+      this.app,
+      this.pluginService,
+      this.pluginSetService,
+      set,
+      (plugin) => this.addSideloadedPlugin(plugin),
+    ).open();
+  }
+
+  /**
+   * Re-hash the files of plugins installed through the plugin browser and report changes
+   * Files that differ from the hashes recorded at install time were modified or
+   * replaced outside the plugin browser (e.g. by Obsidian's own updater, a sync
+   * conflict or tampering).
+   */
+  async verifyInstalledPlugins(): Promise<void> {
+    let reports: IntegrityReport[];
+    try {
+      reports = await this.installationService.verifyInstalledPlugins();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      showError(`Failed to verify installed plugins: ${errorMessage}`);
+      return;
+    }
+
+    if (reports.length === 0) {
+      showInfo(
+        "No plugins to verify. File hashes are recorded when plugins are installed or updated through the plugin browser.",
+      );
+      return;
+    }
+    const changed = reports.filter(
+      (report) =>
+        report.modifiedFiles.length > 0 || report.missingFiles.length > 0,
+    );
+    if (changed.length === 0) {
+      showSuccess(
+        `Verified ${reports.length} ${reports.length === 1 ? "plugin" : "plugins"}: all files match what was installed.`,
+      );
+      return;
+    }
+
+    const lines = changed.map((report) => {
+      const problems = [
+        ...report.modifiedFiles.map((file) => `${file} changed`),
+        ...report.missingFiles.map((file) => `${file} missing`),
+      ];
+      const versionNote =
+        report.installedVersion && report.installedVersion !== report.version
+          ? ` (now ${report.installedVersion}, installed ${report.version})`
+          : "";
+      return `${report.pluginId}${versionNote}: ${problems.join(", ")}`;
+    });
+    console.warn("Installed plugin files changed since install:", changed);
+    showWarning(
+      `${changed.length} of ${reports.length} verified plugins changed since they were installed: ${lines.join("; ")}`,
+    );
+  }
+
+  /**
+   * Load the GitHub personal access token
+   * The token is kept in this device's local storage rather than in data.json,
+   * so it isn't synced along with the vault
+   * @returns The token, or null if none is set
+   */
+  loadGitHubToken(): string | null {
+    const key = PLUGIN_CONFIG.constants.githubTokenStorageKey;
+    // App.loadLocalStorage is only available in Obsidian 1.8.7+
+    const value =
+      typeof this.app.loadLocalStorage === "function"
+        ? this.app.loadLocalStorage(key)
+        : window.localStorage.getItem(key);
+    return typeof value === "string" && value ? value : null;
+  }
+
+  /**
+   * Save the GitHub personal access token and use it for API requests
+   * @param token The token, or null/empty to remove it
+   */
+  setGitHubToken(token: string | null): void {
+    const key = PLUGIN_CONFIG.constants.githubTokenStorageKey;
+    const value = token?.trim() || null;
+    if (typeof this.app.saveLocalStorage === "function") {
+      this.app.saveLocalStorage(key, value);
+    } else if (value) {
+      window.localStorage.setItem(key, value);
+    } else {
+      window.localStorage.removeItem(key);
+    }
+    this.pluginService.setGitHubToken(value);
+  }
+
+  /**
+   * Update the registry sources merged into the plugin list
+   * Saves the setting and reloads open plugin list views with the new sources
+   * @param sources Registry sources in priority order
+   */
+  async setRegistrySources(sources: RegistrySource[]): Promise<void> {
+    this.pluginService.setRegistrySources(sources);
+    this.settings.registrySources = this.pluginService.getRegistrySources();
+    await this.saveSettings();
+    await this.reloadListViews();
+  }
+
+  /**
+   * Create the status bar item showing the number of available plugin updates
+   * Hidden while there are none; clicking it opens the update review.
+   */
+  private setupUpdateStatusBar(): void {
+    const statusBarEl = this.addStatusBarItem();
+    statusBarEl.addClass("plugin-updates-status", "mod-clickable", "hidden");
+    statusBarEl.setAttribute("role", "button");
+    this.updateStatusBarEl = statusBarEl;
+
+    this.registerDomEvent(statusBarEl, "click", async () => {
+      this.openUpdateReview(await this.updateService.refreshAvailableUpdates());
+    });
+    this.register(
+      this.updateService.onUpdatesChange((updates) => {
+        this.renderUpdateStatus(updates.length);
+      }),
+    );
+  }
+
+  /**
+   * Show the number of available updates in the status bar item
+   * @param count Number of available updates
+   */
+  private renderUpdateStatus(count: number): void {
+    if (!this.updateStatusBarEl) return;
+    const text = count === 1 ? "1 plugin update" : `${count} plugin updates`;
+    this.updateStatusBarEl.setText(text);
+    this.updateStatusBarEl.setAttribute(
+      "aria-label",
+      `${text} available. Click to review.`,
+    );
+    this.updateStatusBarEl.toggleClass("hidden", count === 0);
+  }
+
+  /**
+   * Detect updates of installed plugins in the background
+   * Uses the stats file's version lists so only plugins that may have an update
+   * are checked over the network. Shows the optional daily notice.
+   */
+  async detectPluginUpdates(): Promise<void> {
+    if (this.pluginService.isOffline()) return;
+    try {
+      const updates = await this.updateService.checkForUpdates({
+        priority: "background",
+        useStats: true,
+      });
+      await this.showUpdateNotice(updates.length);
+    } catch (error) {
+      console.warn("Failed to detect plugin updates:", error);
+    }
+  }
+
+  /**
+   * Show a notice about available updates if enabled and none was shown today
+   * @param count Number of available updates
+   */
+  private async showUpdateNotice(count: number): Promise<void> {
+    if (!this.settings.updateNoticeEnabled || count === 0) return;
+    const now = Date.now();
+    if (
+      now - (this.settings.lastUpdateNoticeAt ?? 0) <
+      PLUGIN_CONFIG.constants.updateNoticeInterval
+    ) {
+      return;
+    }
+
+    showInfo(
+      `${count === 1 ? "1 plugin update is" : `${count} plugin updates are`} available. Click the status bar item or run "Update all plugins" to review.`,
+    );
+    this.settings.lastUpdateNoticeAt = now;
+    await this.saveSettings();
+  }
+
+  /**
+   * Open the update review modal
+   * Installed plugins are checked for updates when the modal opens unless
+   * the updates of an earlier check are passed in. Open plugin list views are
+   * reloaded after updates were installed.
+   * @param updates Updates found by an earlier check (optional)
+   */
+  openUpdateReview(updates: PluginUpdate[] | null = null): void {
+    new UpdateReviewModal(
+      this.app,
+      this.pluginService,
+      this.updateService,
+      updates,
+      () => {
+        void this.reloadListViews();
+      },
+    ).open();
+  }
+
+  /**
+   * Reload open plugin list views (e.g. after installed plugins changed)
+   */
+  private async reloadListViews(): Promise<void> {
+    for (const leaf of this.app.workspace.getLeavesOfType(
+      VIEW_TYPE_PLUGIN_LIST,
+    )) {
+      if (leaf.view instanceof PluginListView) {
+        await leaf.view.reloadPlugins();
+      }
+    }
+  }
+
+  /**
+   * Remember a plugin installed from a repository outside the registries
+   * Saves it in settings and reloads open plugin list views so it's listed and
+   * checked for updates like registry plugins
+   * @param plugin The sideloaded plugin
+   */
+  async addSideloadedPlugin(plugin: CommunityPlugin): Promise<void> {
+    this.pluginService.addSideloadedPlugin(plugin);
+    await this.saveSideloadedPlugins();
+  }
+
+  /**
+   * Forget a sideloaded plugin (the installed plugin is left untouched)
+   * @param pluginId The plugin ID
+   */
+  async removeSideloadedPlugin(pluginId: string): Promise<void> {
+    this.pluginService.removeSideloadedPlugin(pluginId);
+    await this.saveSideloadedPlugins();
+  }
+
+  /**
+   * Save the sideloaded plugins and reload open plugin list views
+   */
+  private async saveSideloadedPlugins(): Promise<void> {
+    this.settings.sideloadedPlugins = this.pluginService.getSideloadedPlugins();
+    await this.saveSettings();
+    await this.reloadListViews();
+  }
+
+  /**
+   * Get the plugin's own folder (relative to vault root)
+   * Falls back to the conventional location if the manifest doesn't provide it
+   * @returns The normalized path to the plugin folder
+   */
+  getPluginDataDir(): string {
+    return normalizePath(
+      this.manifest.dir ??
+        `${this.app.vault.configDir}/plugins/${this.manifest.id}`,
+    );
+  }
+
+  /**
+   * Get the folder of the persisted caches (relative to vault root)
+   * @returns The normalized path to the cache folder
+   */
+  private getCacheDirPath(): string {
+    return normalizePath(`${this.getPluginDataDir()}/cache`);
+  }
+
+  /**
+   * Get the path of the install history file (relative to vault root)
+   * @returns The normalized path to history.jsonl
+   */
+  private getHistoryFilePath(): string {
+    return normalizePath(`${this.getPluginDataDir()}/history.jsonl`);
   }
 
   /**
@@ -239,12 +851,15 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
     // Uses conditional requests (ETags) so only downloads if data changed
     const intervalId = window.setInterval(async () => {
       try {
-        if (this.pluginService) {
+        // Skip while offline - the connectivity check brings us back online
+        if (this.pluginService && !this.pluginService.isOffline()) {
           // Refresh both plugins and stats in parallel
           await Promise.all([
             this.pluginService.refreshPluginsIfChanged(),
             this.pluginService.fetchPluginStats(false), // Uses conditional request
+            this.pluginService.fetchRegistryStatus(), // Uses conditional requests
           ]);
+          await this.detectPluginUpdates();
         }
       } catch (error) {
         console.warn("Background refresh failed:", error);
@@ -256,6 +871,32 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
     this.registerInterval(intervalId);
   }
 
+  /**
+   * Register connectivity handlers for offline mode
+   * Enters offline mode when the browser reports losing the network, and
+   * periodically probes the registry while offline to switch back automatically.
+   */
+  private registerConnectivityHandlers(): void {
+    if (!navigator.onLine) {
+      this.pluginService.setOffline(true);
+    }
+
+    this.registerDomEvent(window, "offline", () => {
+      this.pluginService.setOffline(true);
+    });
+    this.registerDomEvent(window, "online", () => {
+      this.pluginService.checkConnectivity();
+    });
+
+    this.registerInterval(
+      window.setInterval(() => {
+        if (this.pluginService.isOffline()) {
+          this.pluginService.checkConnectivity();
+        }
+      }, PLUGIN_CONFIG.constants.connectivityCheckInterval),
+    );
+  }
+
   /**
    * Register a custom event listener for a workspace leaf
    *
@@ -370,6 +1011,28 @@ export default class CommunityPluginBrowserPlugin extends Plugin {
     }
   }
 
+  /**
+   * Open the plugin history view
+   * Activates an open history view or creates one in the configured location.
+   */
+  private async openPluginHistoryView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null =
+      workspace.getLeavesOfType(VIEW_TYPE_PLUGIN_HISTORY)[0] ?? null;
+    if (!leaf) {
+      leaf = await this.createLeafInLocation(this.settings.viewLocation);
+      if (leaf) {
+        await leaf.setViewState({
+          type: VIEW_TYPE_PLUGIN_HISTORY,
+          active: true,
+        });
+      }
+    }
+    if (leaf) {
+      workspace.setActiveLeaf(leaf, { focus: true });
+    }
+  }
+
   /**
    * Create a leaf in the specified location
    * Creates a new workspace leaf in the requested location (main, right sidebar, or new window)
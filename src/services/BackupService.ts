@@ -0,0 +1,306 @@
+/**
+ * Service for backing up installed plugins before they are overwritten
+ * Each backup is a copy of the plugin folder (including data.json) stored under
+ * "<backup dir>/<plugin id>/<timestamp>-<version>" with a backup.json describing it.
+ */
+
+import { App, normalizePath } from "obsidian";
+import { PluginBackup } from "../types";
+import { PLUGIN_CONFIG } from "../config";
+
+const BACKUP_INFO_FILE = "backup.json";
+
+export class BackupService {
+  private retention: number = PLUGIN_CONFIG.constants.defaultBackupRetention;
+  private excludedPaths: Set<string>; // Never copied into backups or removed on restore
+
+  /**
+   * Create a new BackupService instance
+   * @param app Reference to the Obsidian App instance
+   * @param dirPath Directory (relative to vault root) where backups are stored,
+   *                e.g. ".obsidian/plugins/community-plugin-browser/backups"
+   * @param excludedPaths Other files and folders (relative to vault root) to leave
+   *                      out of backups, e.g. this plugin's cache folder
+   */
+  constructor(
+    private app: App,
+    private dirPath: string,
+    excludedPaths: string[] = [],
+  ) {
+    this.excludedPaths = new Set(
+      [dirPath, ...excludedPaths].map((path) => normalizePath(path)),
+    );
+  }
+
+  /**
+   * Set how many backups are kept per plugin
+   * @param count Number of backups to keep (0 disables backups)
+   */
+  setRetention(count: number): void {
+    this.retention = Math.max(0, Math.floor(count));
+  }
+
+  /**
+   * Get how many backups are kept per plugin
+   * @returns Number of backups kept (0 when backups are disabled)
+   */
+  getRetention(): number {
+    return this.retention;
+  }
+
+  /**
+   * Copy an installed plugin's folder into a new backup
+   * Uses the adapter API because the config directory is hidden from the vault index.
+   * Older backups aren't removed here; call pruneBackups() once the install succeeded.
+   * @param pluginId The plugin ID
+   * @param pluginDirPath The plugin's folder
+   * @returns The new backup, or null if backups are disabled or the plugin isn't installed
+   * @throws Error if the files can't be copied
+   */
+  async createBackup(
+    pluginId: string,
+    pluginDirPath: string,
+  ): Promise<PluginBackup | null> {
+    const adapter = this.app.vault.adapter;
+    const sourceDir = normalizePath(pluginDirPath);
+    if (this.retention === 0 || !(await adapter.exists(sourceDir))) {
+      return null;
+    }
+
+    const version = await this.readInstalledVersion(sourceDir);
+    const createdAt = Date.now();
+    const backupPath = normalizePath(
+      `${this.getPluginBackupDir(pluginId)}/${createdAt}-${version.replace(/[^\w.-]/g, "_")}`,
+    );
+
+    try {
+      const files = await this.copyDir(sourceDir, backupPath);
+      const backup: PluginBackup = {
+        pluginId,
+        version,
+        createdAt,
+        path: backupPath,
+        files,
+      };
+      await adapter.write(
+        `${backupPath}/${BACKUP_INFO_FILE}`,
+        JSON.stringify(backup),
+      );
+      return backup;
+    } catch (error) {
+      // Don't leave a partial backup that could be restored later
+      await this.removeDir(backupPath);
+      throw error;
+    }
+  }
+
+  /**
+   * List the backups of a plugin
+   * @param pluginId The plugin ID
+   * @returns Backups, newest first
+   */
+  async listBackups(pluginId: string): Promise<PluginBackup[]> {
+    const adapter = this.app.vault.adapter;
+    const pluginBackupDir = this.getPluginBackupDir(pluginId);
+    try {
+      if (!(await adapter.exists(pluginBackupDir))) {
+        return [];
+      }
+      const { folders } = await adapter.list(pluginBackupDir);
+      const backups: PluginBackup[] = [];
+      for (const folder of folders) {
+        const backup = await this.readBackupInfo(folder);
+        if (backup && backup.pluginId === pluginId) {
+          backups.push({ ...backup, path: normalizePath(folder) });
+        }
+      }
+      return backups.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.warn(`Failed to list backups of ${pluginId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore a backup into the plugin's folder
+   * Files the backed-up version didn't have (e.g. a styles.css added by the
+   * update) are removed so the folder matches the backup.
+   * @param backup The backup to restore
+   * @param pluginDirPath The plugin's folder
+   * @throws Error if the files can't be copied
+   */
+  async restoreBackup(
+    backup: PluginBackup,
+    pluginDirPath: string,
+  ): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const targetDir = normalizePath(pluginDirPath);
+    const backupFiles = new Set(backup.files);
+
+    if (await adapter.exists(targetDir)) {
+      const { files } = await adapter.list(targetDir);
+      for (const file of files) {
+        const relative = file.slice(targetDir.length + 1);
+        if (!backupFiles.has(relative) && !this.isExcluded(file)) {
+          await adapter.remove(file);
+        }
+      }
+    }
+    for (const relative of backup.files) {
+      const target = normalizePath(`${targetDir}/${relative}`);
+      await this.ensureDir(target.slice(0, target.lastIndexOf("/")));
+      await adapter.writeBinary(
+        target,
+        await adapter.readBinary(normalizePath(`${backup.path}/${relative}`)),
+      );
+    }
+  }
+
+  /**
+   * Remove a single backup
+   * @param backup The backup to remove
+   */
+  async deleteBackup(backup: PluginBackup): Promise<void> {
+    await this.removeDir(backup.path);
+  }
+
+  /**
+   * Remove backups beyond the retention limit, oldest first
+   * Called after an install succeeded, so a failed install doesn't remove the
+   * backups of versions that worked.
+   * @param pluginId The plugin ID
+   */
+  async pruneBackups(pluginId: string): Promise<void> {
+    const backups = await this.listBackups(pluginId);
+    for (const backup of backups.slice(this.retention)) {
+      await this.removeDir(backup.path);
+    }
+  }
+
+  /**
+   * Get the folder holding a plugin's backups
+   * @param pluginId The plugin ID
+   * @returns The normalized folder path
+   */
+  private getPluginBackupDir(pluginId: string): string {
+    const safeId = pluginId.replace(/\.\./g, "").replace(/[/\\]/g, "");
+    return normalizePath(`${this.dirPath}/${safeId}`);
+  }
+
+  /**
+   * Check whether a file or folder is left out of backups
+   * @param path Path relative to vault root
+   * @returns True for the backup folder and the excluded paths
+   */
+  private isExcluded(path: string): boolean {
+    return this.excludedPaths.has(normalizePath(path));
+  }
+
+  /**
+   * Read the version from an installed plugin's manifest.json
+   * @param pluginDir The plugin's folder
+   * @returns The version, or "unknown" if the manifest is missing or invalid
+   */
+  private async readInstalledVersion(pluginDir: string): Promise<string> {
+    try {
+      const manifest = JSON.parse(
+        await this.app.vault.adapter.read(`${pluginDir}/manifest.json`),
+      );
+      return typeof manifest?.version === "string" && manifest.version
+        ? manifest.version
+        : "unknown";
+    } catch {
+      return "unknown";
+    }
+  }
+
+  /**
+   * Read the description of a backup
+   * @param backupPath The backup's folder
+   * @returns The backup, or null if backup.json is missing or invalid
+   */
+  private async readBackupInfo(
+    backupPath: string,
+  ): Promise<PluginBackup | null> {
+    try {
+      const backup = JSON.parse(
+        await this.app.vault.adapter.read(
+          normalizePath(`${backupPath}/${BACKUP_INFO_FILE}`),
+        ),
+      ) as PluginBackup;
+      if (
+        typeof backup?.pluginId !== "string" ||
+        typeof backup.createdAt !== "number" ||
+        !Array.isArray(backup.files)
+      ) {
+        return null;
+      }
+      return backup;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Copy a folder recursively, skipping the excluded paths
+   * @param sourceDir Folder to copy
+   * @param targetDir Destination folder (created if missing)
+   * @returns Paths of the copied files, relative to the source folder
+   */
+  private async copyDir(
+    sourceDir: string,
+    targetDir: string,
+  ): Promise<string[]> {
+    const adapter = this.app.vault.adapter;
+    const copied: string[] = [];
+    const copy = async (dir: string) => {
+      const relativeDir = dir.slice(sourceDir.length + 1);
+      await this.ensureDir(
+        relativeDir ? `${targetDir}/${relativeDir}` : targetDir,
+      );
+      const { files, folders } = await adapter.list(dir);
+      for (const file of files) {
+        if (this.isExcluded(file)) continue;
+        const relative = file.slice(sourceDir.length + 1);
+        await adapter.writeBinary(
+          `${targetDir}/${relative}`,
+          await adapter.readBinary(file),
+        );
+        copied.push(relative);
+      }
+      for (const folder of folders) {
+        // Backups and caches live inside this plugin's own folder - don't back them up
+        if (this.isExcluded(folder)) continue;
+        await copy(folder);
+      }
+    };
+    await copy(sourceDir);
+    return copied;
+  }
+
+  /**
+   * Create a folder and its parents if they don't exist
+   * @param dir The folder path
+   */
+  private async ensureDir(dir: string): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(dir))) {
+      await adapter.mkdir(dir);
+    }
+  }
+
+  /**
+   * Remove a folder and everything in it
+   * Missing folders and errors are ignored
+   * @param dir The folder path
+   */
+  private async removeDir(dir: string): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(dir)) {
+        await this.app.vault.adapter.rmdir(dir, true);
+      }
+    } catch (error) {
+      console.warn(`Failed to remove ${dir}:`, error);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Service for reading and writing JSON files in the plugin's data folder
+ */
+
+import { App, normalizePath } from "obsidian";
+
+export class FileStorageService {
+  /**
+   * Create a new FileStorageService instance
+   * @param app Reference to the Obsidian App instance
+   * @param dirPath Directory (relative to vault root) where files are stored,
+   *                e.g. ".obsidian/plugins/community-plugin-browser/cache"
+   */
+  constructor(
+    private app: App,
+    private dirPath: string,
+  ) {}
+
+  /**
+   * Get the full path for a file in the storage directory
+   * Uses normalizePath() for cross-platform compatibility
+   * @param fileName Name of the file (without directory)
+   * @returns The normalized path to the file
+   */
+  private getFilePath(fileName: string): string {
+    // Strip path separators to keep files inside the storage directory
+    const safeName = fileName.replace(/\.\./g, "").replace(/[/\\]/g, "");
+    return normalizePath(`${this.dirPath}/${safeName}`);
+  }
+
+  /**
+   * Ensure the storage directory exists
+   * Uses the adapter API because the config directory is hidden from the vault index
+   */
+  private async ensureDir(): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const dir = normalizePath(this.dirPath);
+    if (!(await adapter.exists(dir))) {
+      await adapter.mkdir(dir);
+    }
+  }
+
+  /**
+   * Read and parse a JSON file from the storage directory
+   * @param fileName Name of the file to read
+   * @returns The parsed JSON content, or null if the file is missing or invalid
+   */
+  async readJson<T>(fileName: string): Promise<T | null> {
+    const filePath = this.getFilePath(fileName);
+    try {
+      if (!(await this.app.vault.adapter.exists(filePath))) {
+        return null;
+      }
+      const content = await this.app.vault.adapter.read(filePath);
+      return JSON.parse(content) as T;
+    } catch (error) {
+      console.warn(`Failed to read ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Serialize data as JSON and write it to the storage directory
+   * Creates the storage directory if it does not exist yet
+   * @param fileName Name of the file to write
+   * @param data Data to serialize
+   * @throws Error if the file cannot be written
+   */
+  async writeJson(fileName: string, data: unknown): Promise<void> {
+    await this.ensureDir();
+    await this.app.vault.adapter.write(
+      this.getFilePath(fileName),
+      JSON.stringify(data),
+    );
+  }
+
+  /**
+   * Remove a file from the storage directory
+   * Missing files are ignored
+   * @param fileName Name of the file to remove
+   */
+  async remove(fileName: string): Promise<void> {
+    const filePath = this.getFilePath(fileName);
+    try {
+      if (await this.app.vault.adapter.exists(filePath)) {
+        await this.app.vault.adapter.remove(filePath);
+      }
+    } catch (error) {
+      console.warn(`Failed to remove ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Remove the storage directory and everything in it
+   * Missing directories are ignored
+   */
+  async clear(): Promise<void> {
+    const dir = normalizePath(this.dirPath);
+    try {
+      if (await this.app.vault.adapter.exists(dir)) {
+        await this.app.vault.adapter.rmdir(dir, true);
+      }
+    } catch (error) {
+      console.warn(`Failed to clear ${dir}:`, error);
+    }
+  }
+}
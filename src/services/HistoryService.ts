@@ -0,0 +1,91 @@
+/**
+ * Service for the install history ledger
+ * Every install, update, downgrade and uninstall is appended as one JSON line to
+ * the history file. Entries are never rewritten, so the file syncs with the vault
+ * and keeps a record of changes made from every device.
+ */
+
+import { App, normalizePath } from "obsidian";
+import { HistoryEntry } from "../types";
+import { parseHistory } from "../utils";
+
+export class HistoryService {
+  private listeners: Set<(entry: HistoryEntry) => void> = new Set();
+  private writeQueue: Promise<void> = Promise.resolve(); // Keeps appends in order
+
+  /**
+   * Create a new HistoryService instance
+   * @param app Reference to the Obsidian App instance
+   * @param filePath History file (relative to vault root),
+   *                 e.g. ".obsidian/plugins/community-plugin-browser/history.jsonl"
+   */
+  constructor(
+    private app: App,
+    private filePath: string,
+  ) {}
+
+  /**
+   * Append an entry to the history
+   * @param entry The entry to append
+   * @throws Error if the history file can't be written
+   */
+  async record(entry: HistoryEntry): Promise<void> {
+    const write = this.writeQueue.then(() => this.append(entry));
+    // A failed write must not block later entries
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.warn("History listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Read all history entries
+   * @returns Entries, newest first (empty if there is no history yet)
+   */
+  async getEntries(): Promise<HistoryEntry[]> {
+    const adapter = this.app.vault.adapter;
+    const path = normalizePath(this.filePath);
+    try {
+      if (!(await adapter.exists(path))) {
+        return [];
+      }
+      return parseHistory(await adapter.read(path));
+    } catch (error) {
+      console.warn("Failed to read install history:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Subscribe to new history entries (e.g. to refresh the history view)
+   * @param listener Called with every entry after it was recorded
+   * @returns Function that removes the listener
+   */
+  onEntryAdded(listener: (entry: HistoryEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Append one JSON line to the history file, creating it if needed
+   * @param entry The entry to append
+   */
+  private async append(entry: HistoryEntry): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const path = normalizePath(this.filePath);
+    const line = `${JSON.stringify(entry)}\n`;
+    if (await adapter.exists(path)) {
+      await adapter.append(path, line);
+    } else {
+      await adapter.write(path, line);
+    }
+  }
+}
@@ -2,8 +2,17 @@
  * Service for installing and managing plugins
  */
 
-import { App, requestUrl, TFile, TFolder, normalizePath } from "obsidian";
-import { PluginManifest, InstallationStatus } from "../types";
+import { App, Platform, normalizePath } from "obsidian";
+import {
+  PluginManifest,
+  InstallationStatus,
+  ReleaseChannel,
+  PluginBackup,
+  InstallLedgerEntry,
+  IntegrityReport,
+  HistoryEntry,
+  HistoryAction,
+} from "../types";
 import {
   getGitHubReleaseUrl,
   showError,
@@ -11,20 +20,368 @@ import {
   isCompatible,
   compareVersions,
   isValidRepoFormat,
+  isValidPluginId,
   debugLog,
   hasAppVersion,
   hasEnablePlugin,
   retryRequest,
   shouldRetryHttpError,
+  sha256Hex,
+  formatFileSize,
 } from "../utils";
 import { PLUGIN_CONFIG } from "../config";
+import { RequestScheduler } from "./RequestScheduler";
+import { BackupService } from "./BackupService";
+import { HistoryService } from "./HistoryService";
+
+// Files a plugin release ships; styles.css is optional
+const RELEASE_FILES = ["main.js", "manifest.json", "styles.css"];
+// Files whose hashes are recorded in the install ledger
+const LEDGER_FILES = ["main.js", "styles.css"];
 
 export class InstallationService {
+  private pinnedVersions: Map<string, string> = new Map(); // Versions the user chose to stay on, by plugin ID
+  private pinnedVersionsListeners: Set<(pins: Record<string, string>) => void> =
+    new Set();
+  private betaPlugins: Set<string> = new Set(); // IDs of plugins on the beta channel
+  private releaseChannelListeners: Set<(betaPlugins: string[]) => void> =
+    new Set();
+  private backupService: BackupService | null = null; // Backs up installed plugins before they are overwritten
+  private historyService: HistoryService | null = null; // Records every install, update and uninstall
+  private installLedger: Map<string, InstallLedgerEntry> = new Map(); // Hashes of the files installed, by plugin ID
+  private installLedgerListeners: Set<
+    (ledger: Record<string, InstallLedgerEntry>) => void
+  > = new Set();
+
   /**
    * Create a new InstallationService instance
    * @param app Reference to the Obsidian App instance
+   * @param requestScheduler Scheduler downloads go through (a new one is created if omitted)
+   */
+  constructor(
+    private app: App,
+    private requestScheduler: RequestScheduler = new RequestScheduler(),
+  ) {}
+
+  /**
+   * Set the pinned versions loaded from settings
+   * @param pins Pinned version by plugin ID
+   */
+  setPinnedVersions(pins: Record<string, string> | undefined): void {
+    this.pinnedVersions = new Map(
+      Object.entries(pins ?? {}).filter(
+        ([, version]) => typeof version === "string" && version.length > 0,
+      ),
+    );
+  }
+
+  /**
+   * Get the version a plugin is pinned to
+   * A plugin is pinned when the user installed a specific older version; update
+   * checks stay quiet while that version is installed.
+   * @param pluginId The plugin ID
+   * @returns The pinned version, or null if the plugin isn't pinned
+   */
+  getPinnedVersion(pluginId: string): string | null {
+    return this.pinnedVersions.get(pluginId) ?? null;
+  }
+
+  /**
+   * Remove the pin of a plugin so update checks offer newer versions again
+   * @param pluginId The plugin ID
+   */
+  unpinVersion(pluginId: string): void {
+    this.setPinnedVersion(pluginId, null);
+  }
+
+  /**
+   * Subscribe to changes of the pinned versions (e.g. to save them in settings)
+   * @param listener Called with all pinned versions after every change
+   * @returns Function that removes the listener
+   */
+  onPinnedVersionsChange(
+    listener: (pins: Record<string, string>) => void,
+  ): () => void {
+    this.pinnedVersionsListeners.add(listener);
+    return () => {
+      this.pinnedVersionsListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pin or unpin a plugin version and notify listeners if it changed
+   * @param pluginId The plugin ID
+   * @param version The version to pin, or null to unpin
+   */
+  private setPinnedVersion(pluginId: string, version: string | null): void {
+    if ((this.pinnedVersions.get(pluginId) ?? null) === version) {
+      return;
+    }
+    if (version) {
+      this.pinnedVersions.set(pluginId, version);
+    } else {
+      this.pinnedVersions.delete(pluginId);
+    }
+    const pins = Object.fromEntries(this.pinnedVersions);
+    for (const listener of this.pinnedVersionsListeners) {
+      try {
+        listener(pins);
+      } catch (error) {
+        console.warn("Pinned versions listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Set the plugins following the beta channel, as loaded from settings
+   * @param pluginIds IDs of plugins on the beta channel
+   */
+  setBetaPlugins(pluginIds: string[] | undefined): void {
+    this.betaPlugins = new Set(
+      (pluginIds ?? []).filter((id) => typeof id === "string" && id),
+    );
+  }
+
+  /**
+   * Get the release channel a plugin follows
+   * @param pluginId The plugin ID
+   * @returns "beta" if the plugin was switched to the beta channel, "stable" otherwise
+   */
+  getReleaseChannel(pluginId: string): ReleaseChannel {
+    return this.betaPlugins.has(pluginId) ? "beta" : "stable";
+  }
+
+  /**
+   * Switch the release channel a plugin follows
+   * Installing the channel's release is up to the caller.
+   * @param pluginId The plugin ID
+   * @param channel The channel to follow
+   */
+  setReleaseChannel(pluginId: string, channel: ReleaseChannel): void {
+    if (this.getReleaseChannel(pluginId) === channel) {
+      return;
+    }
+    if (channel === "beta") {
+      this.betaPlugins.add(pluginId);
+    } else {
+      this.betaPlugins.delete(pluginId);
+    }
+    const betaPlugins = Array.from(this.betaPlugins);
+    for (const listener of this.releaseChannelListeners) {
+      try {
+        listener(betaPlugins);
+      } catch (error) {
+        console.warn("Release channel listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to release channel changes (e.g. to save them in settings)
+   * @param listener Called with the IDs of all beta plugins after every change
+   * @returns Function that removes the listener
+   */
+  onReleaseChannelsChange(
+    listener: (betaPlugins: string[]) => void,
+  ): () => void {
+    this.releaseChannelListeners.add(listener);
+    return () => {
+      this.releaseChannelListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Set the service that records installs, updates and uninstalls in the history
+   * @param historyService The history service, or null to keep no history
+   */
+  setHistoryService(historyService: HistoryService | null): void {
+    this.historyService = historyService;
+  }
+
+  /**
+   * Append an entry to the install history
+   * History failures are logged but never fail the install itself.
+   * @param entry The entry to record (timestamped now)
+   */
+  private async recordHistory(
+    entry: Omit<HistoryEntry, "timestamp">,
+  ): Promise<void> {
+    if (!this.historyService) {
+      return;
+    }
+    try {
+      await this.historyService.record({ timestamp: Date.now(), ...entry });
+    } catch (error) {
+      console.warn("Failed to record install history:", error);
+    }
+  }
+
+  /**
+   * Classify an install by the installed version it replaces
+   * @param fromVersion Installed version before the install (null if not installed)
+   * @param toVersion Version being installed
+   * @returns The history action
+   */
+  private getInstallAction(
+    fromVersion: string | null,
+    toVersion: string,
+  ): HistoryAction {
+    if (!fromVersion) {
+      return "install";
+    }
+    const comparison = compareVersions(toVersion, fromVersion);
+    return comparison > 0
+      ? "update"
+      : comparison < 0
+        ? "downgrade"
+        : "reinstall";
+  }
+
+  /**
+   * Set the install ledger loaded from settings
+   * @param ledger Hashes of the installed files by plugin ID
+   */
+  setInstallLedger(
+    ledger: Record<string, InstallLedgerEntry> | undefined,
+  ): void {
+    this.installLedger = new Map(
+      Object.entries(ledger ?? {}).filter(
+        ([, entry]) =>
+          typeof entry?.version === "string" &&
+          !!entry.files &&
+          typeof entry.files === "object",
+      ),
+    );
+  }
+
+  /**
+   * Subscribe to changes of the install ledger (e.g. to save it in settings)
+   * @param listener Called with the whole ledger after every change
+   * @returns Function that removes the listener
+   */
+  onInstallLedgerChange(
+    listener: (ledger: Record<string, InstallLedgerEntry>) => void,
+  ): () => void {
+    this.installLedgerListeners.add(listener);
+    return () => {
+      this.installLedgerListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record or remove a plugin's ledger entry and notify listeners
+   * @param pluginId The plugin ID
+   * @param entry The hashes of the installed files, or null to remove the entry
+   */
+  private setLedgerEntry(
+    pluginId: string,
+    entry: InstallLedgerEntry | null,
+  ): void {
+    if (entry) {
+      this.installLedger.set(pluginId, entry);
+    } else if (!this.installLedger.delete(pluginId)) {
+      return;
+    }
+    const ledger = Object.fromEntries(this.installLedger);
+    for (const listener of this.installLedgerListeners) {
+      try {
+        listener(ledger);
+      } catch (error) {
+        console.warn("Install ledger listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Hash the installed main.js and styles.css and record them in the ledger
+   * @param pluginId The plugin ID
+   * @param version The installed version
+   * @param files Contents of the installed files by file name
+   */
+  private async recordInstalledFiles(
+    pluginId: string,
+    version: string,
+    files: Map<string, ArrayBuffer>,
+  ): Promise<void> {
+    const hashes: Record<string, string> = {};
+    for (const fileName of LEDGER_FILES) {
+      const data = files.get(fileName);
+      if (data) {
+        hashes[fileName] = await sha256Hex(data);
+      }
+    }
+    this.setLedgerEntry(pluginId, {
+      version,
+      installedAt: Date.now(),
+      files: hashes,
+    });
+  }
+
+  /**
+   * Re-hash the files of every plugin in the install ledger
+   * Plugins that were removed outside the plugin browser are dropped from the ledger.
+   * @returns One report per verified plugin, including plugins whose files are unchanged
+   */
+  async verifyInstalledPlugins(): Promise<IntegrityReport[]> {
+    const adapter = this.app.vault.adapter;
+    const reports: IntegrityReport[] = [];
+
+    for (const [pluginId, entry] of [...this.installLedger]) {
+      const pluginDirPath = this.getPluginDirPath(pluginId);
+      if (!(await adapter.exists(`${pluginDirPath}/manifest.json`))) {
+        this.setLedgerEntry(pluginId, null);
+        continue;
+      }
+
+      const report: IntegrityReport = {
+        pluginId,
+        version: entry.version,
+        installedVersion: null,
+        modifiedFiles: [],
+        missingFiles: [],
+      };
+      try {
+        const manifest = JSON.parse(
+          await adapter.read(`${pluginDirPath}/manifest.json`),
+        );
+        if (typeof manifest?.version === "string") {
+          report.installedVersion = manifest.version;
+        }
+      } catch (error) {
+        console.warn(`Failed to read manifest of ${pluginId}:`, error);
+      }
+
+      for (const [fileName, hash] of Object.entries(entry.files)) {
+        const filePath = `${pluginDirPath}/${fileName}`;
+        if (!(await adapter.exists(filePath))) {
+          report.missingFiles.push(fileName);
+        } else if (
+          (await sha256Hex(await adapter.readBinary(filePath))) !== hash
+        ) {
+          report.modifiedFiles.push(fileName);
+        }
+      }
+      // A styles.css that appeared after the install is a change as well
+      for (const fileName of LEDGER_FILES) {
+        if (
+          !(fileName in entry.files) &&
+          (await adapter.exists(`${pluginDirPath}/${fileName}`))
+        ) {
+          report.modifiedFiles.push(fileName);
+        }
+      }
+      reports.push(report);
+    }
+    return reports;
+  }
+
+  /**
+   * Set the service used to back up installed plugins before they are overwritten
+   * @param backupService The backup service, or null to install without backups
    */
-  constructor(private app: App) {}
+  setBackupService(backupService: BackupService | null): void {
+    this.backupService = backupService;
+  }
 
   /**
    * Get the plugins directory path
@@ -51,14 +408,18 @@ export class InstallationService {
 
   /**
    * Check if a plugin is installed by looking for its manifest.json file
+   * Goes through the adapter: the vault index doesn't include the config folder.
    * @param pluginId The ID of the plugin to check
    * @returns True if the plugin is installed (manifest.json exists), false otherwise
    */
   async isPluginInstalled(pluginId: string): Promise<boolean> {
-    const pluginDirPath = this.getPluginDirPath(pluginId);
-    const manifestPath = `${pluginDirPath}/manifest.json`;
-    const manifestFile = this.app.vault.getAbstractFileByPath(manifestPath);
-    return manifestFile instanceof TFile;
+    const manifestPath = `${this.getPluginDirPath(pluginId)}/manifest.json`;
+    try {
+      return await this.app.vault.adapter.exists(manifestPath);
+    } catch (error) {
+      console.warn(`Failed to check whether ${pluginId} is installed:`, error);
+      return false;
+    }
   }
 
   /**
@@ -67,29 +428,95 @@ export class InstallationService {
    * @returns The installed version string from manifest.json, or null if the plugin is not installed or manifest cannot be read
    */
   async getInstalledVersion(pluginId: string): Promise<string | null> {
-    const pluginDirPath = this.getPluginDirPath(pluginId);
-    const manifestPath = `${pluginDirPath}/manifest.json`;
-    const manifestFile = this.app.vault.getAbstractFileByPath(manifestPath);
+    const adapter = this.app.vault.adapter;
+    const manifestPath = `${this.getPluginDirPath(pluginId)}/manifest.json`;
+    try {
+      if (!(await adapter.exists(manifestPath))) {
+        return null;
+      }
+      const manifest: PluginManifest = JSON.parse(
+        await adapter.read(manifestPath),
+      );
+      return manifest.version ?? null;
+    } catch (error) {
+      console.error(`Failed to read manifest for ${pluginId}:`, error);
+      return null;
+    }
+  }
 
-    if (manifestFile instanceof TFile) {
+  /**
+   * Read the manifests of all installed plugins
+   * Lists the plugins folder, so plugins installed outside the plugin browser are
+   * included. Folders without a readable manifest.json are skipped.
+   * @returns Installed plugin manifests, sorted by name
+   */
+  async getInstalledManifests(): Promise<PluginManifest[]> {
+    const adapter = this.app.vault.adapter;
+    const pluginsDir = this.getPluginsDir();
+    if (!(await adapter.exists(pluginsDir))) {
+      return [];
+    }
+
+    const manifests: PluginManifest[] = [];
+    const { folders } = await adapter.list(pluginsDir);
+    for (const folder of folders) {
+      const folderName = folder.split("/").pop() ?? "";
+      if (folderName.startsWith(".")) {
+        continue; // Staging and other internal folders
+      }
+      const manifestPath = normalizePath(`${folder}/manifest.json`);
       try {
-        const content = await this.app.vault.read(manifestFile);
-        const manifest: PluginManifest = JSON.parse(content);
-        return manifest.version;
+        if (!(await adapter.exists(manifestPath))) {
+          continue;
+        }
+        const manifest = JSON.parse(
+          await adapter.read(manifestPath),
+        ) as PluginManifest;
+        if (manifest?.id && manifest.version) {
+          manifests.push(manifest);
+        }
       } catch (error) {
-        console.error(`Failed to read manifest for ${pluginId}:`, error);
-        return null;
+        console.warn(`Failed to read ${manifestPath}:`, error);
+      }
+    }
+    return manifests.sort((a, b) =>
+      (a.name ?? a.id).localeCompare(b.name ?? b.id),
+    );
+  }
+
+  /**
+   * Get the IDs of the enabled community plugins
+   * Reads community-plugins.json, where Obsidian keeps the enabled plugins.
+   * @returns Enabled plugin IDs (empty if the file is missing or invalid)
+   */
+  async getEnabledPluginIds(): Promise<Set<string>> {
+    const adapter = this.app.vault.adapter;
+    const path = normalizePath(
+      `${this.app.vault.configDir}/community-plugins.json`,
+    );
+    try {
+      if (!(await adapter.exists(path))) {
+        return new Set();
       }
+      const ids: unknown = JSON.parse(await adapter.read(path));
+      return new Set(
+        Array.isArray(ids)
+          ? ids.filter((id): id is string => typeof id === "string")
+          : [],
+      );
+    } catch (error) {
+      console.warn("Failed to read the enabled plugins:", error);
+      return new Set();
     }
-    return null;
   }
 
   /**
    * Check if an installed plugin has an update available
-   * Compares the installed version with the latest available version using semantic versioning
+   * Compares the installed version with the latest available version using semantic versioning.
+   * Plugins pinned to their installed version never report updates.
    * @param pluginId The ID of the plugin to check
    * @param latestVersion The latest available version from the repository
-   * @returns True if an update is available (latestVersion > installedVersion), false if already up to date or not installed
+   * @returns True if an update is available (latestVersion > installedVersion), false if already up to date, pinned or not installed
    */
   async hasUpdateAvailable(
     pluginId: string,
@@ -99,20 +526,42 @@ export class InstallationService {
     if (!installedVersion) {
       return false; // Not installed
     }
+    if (this.pinnedVersions.get(pluginId) === installedVersion) {
+      return false; // The user chose to stay on this version
+    }
 
     // Use proper semantic version comparison
     return compareVersions(latestVersion, installedVersion) > 0;
   }
 
+  /**
+   * Get the version of the running Obsidian app
+   * @returns The app version, or "0.0.0" if it can't be determined
+   */
+  getAppVersion(): string {
+    // Access app.version safely - it exists but may not be in types
+    return hasAppVersion(this.app) ? this.app.version : "0.0.0";
+  }
+
   /**
    * Check if plugin is compatible with current Obsidian version
    * @param manifest The plugin manifest containing minimum app version requirement
    * @returns True if the plugin is compatible with the current Obsidian version
    */
-  private checkCompatibility(manifest: PluginManifest): boolean {
-    // Access app.version safely - it exists but may not be in types
-    const currentVersion = hasAppVersion(this.app) ? this.app.version : "0.0.0";
-    return isCompatible(manifest.minAppVersion, currentVersion);
+  checkCompatibility(manifest: Pick<PluginManifest, "minAppVersion">): boolean {
+    return isCompatible(manifest.minAppVersion, this.getAppVersion());
+  }
+
+  /**
+   * Check whether a plugin can't run on this device
+   * Desktop-only plugins use Node.js or Electron APIs that don't exist on mobile.
+   * @param manifest The plugin manifest
+   * @returns True when running on mobile and the plugin is desktop-only
+   */
+  isUnavailableOnThisDevice(
+    manifest: Pick<PluginManifest, "isDesktopOnly">,
+  ): boolean {
+    return Platform.isMobile && manifest.isDesktopOnly === true;
   }
 
   /**
@@ -126,10 +575,13 @@ export class InstallationService {
     try {
       const response = await retryRequest(
         () =>
-          requestUrl({
-            url: url,
-            method: "GET",
-          }),
+          this.requestScheduler.request(
+            {
+              url: url,
+              method: "GET",
+            },
+            { priority: "user" },
+          ),
         {
           maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
           initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
@@ -147,26 +599,264 @@ export class InstallationService {
   }
 
   /**
-   * Ensure the plugin directory exists
-   * Note: Directories are created automatically when writing files via the adapter,
-   * so this method is intentionally empty. Kept for potential future use.
+   * Create a folder if it doesn't exist
+   * Uses the adapter API because the config directory is hidden from the vault index.
+   * @param dirPath The folder path
+   * @returns True if the folder was created, false if it already existed
    */
-  private async ensurePluginDir(): Promise<void> {
-    // Directories will be created automatically when we write files
-    // No need to check or create them explicitly
+  private async ensureDir(dirPath: string): Promise<boolean> {
+    const adapter = this.app.vault.adapter;
+    if (await adapter.exists(dirPath)) {
+      return false;
+    }
+    await adapter.mkdir(dirPath);
+    return true;
+  }
+
+  /**
+   * Get the folder a plugin's release files are staged in while it's installed
+   * Lives in a dot-folder of the plugins directory so Obsidian never loads it as a plugin.
+   * @param pluginId The ID of the plugin
+   * @returns The normalized path to the plugin's staging folder
+   */
+  private getStagingDirPath(pluginId: string): string {
+    return normalizePath(`${this.getPluginsDir()}/.staging/${pluginId}`);
+  }
+
+  /**
+   * Download all release files of a version into memory and validate them
+   * Nothing is written to disk, so a failed or invalid download leaves the
+   * installed plugin untouched.
+   * @param repo Repository string in format "owner/name"
+   * @param version Version tag of the release
+   * @param manifest Plugin manifest the release is expected to contain
+   * @returns File contents by file name (styles.css is omitted when the release has none)
+   * @throws Error if a required file can't be downloaded or a file is invalid
+   */
+  private async downloadReleaseFiles(
+    repo: string,
+    version: string,
+    manifest: PluginManifest,
+  ): Promise<Map<string, ArrayBuffer>> {
+    const files = new Map<string, ArrayBuffer>();
+    for (const fileName of RELEASE_FILES) {
+      try {
+        files.set(
+          fileName,
+          await this.downloadFile(getGitHubReleaseUrl(repo, version, fileName)),
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        // styles.css is optional; any other failure aborts the install
+        if (fileName === "styles.css" && errorMessage.includes("404")) {
+          debugLog(`styles.css not found for ${manifest.id}, skipping`);
+          continue;
+        }
+        throw error;
+      }
+    }
+    this.validateReleaseFiles(files, version, manifest);
+    return files;
+  }
+
+  /**
+   * Check that downloaded release files form an installable plugin
+   * @param files File contents by file name
+   * @param version Version tag the files were downloaded from
+   * @param manifest Plugin manifest the release is expected to contain
+   * @throws Error if a file is too large, main.js is empty, or manifest.json is invalid,
+   *         belongs to another plugin, declares a different version than the tag or
+   *         marks the plugin desktop-only while running on mobile
+   */
+  private validateReleaseFiles(
+    files: Map<string, ArrayBuffer>,
+    version: string,
+    manifest: PluginManifest,
+  ): void {
+    for (const [fileName, data] of files) {
+      const maxSize = PLUGIN_CONFIG.constants.maxReleaseFileSizes[fileName];
+      if (maxSize !== undefined && data.byteLength > maxSize) {
+        throw new Error(
+          `The release's ${fileName} is ${formatFileSize(data.byteLength)}, more than the ${formatFileSize(maxSize)} limit`,
+        );
+      }
+    }
+    if (!files.get("main.js")?.byteLength) {
+      throw new Error("The release's main.js is empty");
+    }
+
+    let releaseManifest: unknown;
+    try {
+      releaseManifest = JSON.parse(
+        new TextDecoder().decode(files.get("manifest.json")),
+      );
+    } catch {
+      throw new Error("The release's manifest.json is not valid JSON");
+    }
+    const {
+      id: releaseId,
+      version: releaseVersion,
+      isDesktopOnly,
+    } = releaseManifest && typeof releaseManifest === "object"
+      ? (releaseManifest as Record<string, unknown>)
+      : ({} as Record<string, unknown>);
+    if (releaseId !== manifest.id) {
+      throw new Error(
+        `The release's manifest.json belongs to plugin "${String(releaseId)}", not "${manifest.id}"`,
+      );
+    }
+    // Obsidian requires the release tag to be the manifest version
+    if (releaseVersion !== version.replace(/^v/, "")) {
+      throw new Error(
+        `The release's manifest.json declares version ${String(releaseVersion)}, not ${version}`,
+      );
+    }
+    // The release can be desktop-only even when the listed manifest isn't
+    if (
+      this.isUnavailableOnThisDevice({ isDesktopOnly: isDesktopOnly === true })
+    ) {
+      throw new Error(
+        `The release's manifest.json marks ${manifest.name} as desktop-only, so it can't run on mobile`,
+      );
+    }
+  }
+
+  /**
+   * Write release files to the staging folder
+   * Writing them all before touching the plugin folder makes disk errors
+   * (e.g. a full disk) surface while the installed version is still intact.
+   * @param stagingDir The plugin's staging folder
+   * @param files File contents by file name
+   * @returns The folder holding the staged files
+   */
+  private async stageReleaseFiles(
+    stagingDir: string,
+    files: Map<string, ArrayBuffer>,
+  ): Promise<string> {
+    const adapter = this.app.vault.adapter;
+    const stagedDir = `${stagingDir}/new`;
+    await this.removeDir(stagingDir); // Leftovers of an interrupted install
+    await this.ensureDir(stagedDir);
+    for (const [fileName, data] of files) {
+      await adapter.writeBinary(`${stagedDir}/${fileName}`, data);
+    }
+    return stagedDir;
+  }
+
+  /**
+   * Replace the release files in the plugin folder with the staged ones
+   * Uses adapter renames, so each file is swapped in one step. The replaced
+   * files are moved aside first and moved back if any rename fails; other files
+   * in the plugin folder (e.g. data.json) are left alone. A styles.css the new
+   * release doesn't ship is removed.
+   * @param pluginDirPath The plugin's folder
+   * @param stagingDir The plugin's staging folder
+   * @param stagedDir The folder holding the staged files
+   * @param fileNames Names of the staged files
+   * @throws Error if the files can't be swapped (the previous files are restored)
+   */
+  private async swapInReleaseFiles(
+    pluginDirPath: string,
+    stagingDir: string,
+    stagedDir: string,
+    fileNames: string[],
+  ): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const previousDir = `${stagingDir}/previous`;
+    const movedAside: string[] = [];
+    const swappedIn: string[] = [];
+
+    try {
+      await this.ensureDir(previousDir);
+      for (const fileName of RELEASE_FILES) {
+        if (await adapter.exists(`${pluginDirPath}/${fileName}`)) {
+          await adapter.rename(
+            `${pluginDirPath}/${fileName}`,
+            `${previousDir}/${fileName}`,
+          );
+          movedAside.push(fileName);
+        }
+      }
+      for (const fileName of fileNames) {
+        await adapter.rename(
+          `${stagedDir}/${fileName}`,
+          `${pluginDirPath}/${fileName}`,
+        );
+        swappedIn.push(fileName);
+      }
+    } catch (error) {
+      for (const fileName of swappedIn) {
+        try {
+          await adapter.remove(`${pluginDirPath}/${fileName}`);
+        } catch (rollbackError) {
+          console.warn(`Failed to remove ${fileName}:`, rollbackError);
+        }
+      }
+      for (const fileName of movedAside) {
+        try {
+          await adapter.rename(
+            `${previousDir}/${fileName}`,
+            `${pluginDirPath}/${fileName}`,
+          );
+        } catch (rollbackError) {
+          console.warn(`Failed to restore ${fileName}:`, rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a folder and everything in it
+   * Missing folders and errors are ignored
+   * @param dirPath The folder path
+   */
+  private async removeDir(dirPath: string): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(dirPath)) {
+        await this.app.vault.adapter.rmdir(dirPath, true);
+      }
+    } catch (error) {
+      console.warn(`Failed to remove ${dirPath}:`, error);
+    }
+  }
+
+  /**
+   * Remove the staging folder of an install, and the staging root once it's empty
+   * @param stagingDir The plugin's staging folder
+   */
+  private async cleanUpStaging(stagingDir: string): Promise<void> {
+    await this.removeDir(stagingDir);
+    const stagingRoot = `${this.getPluginsDir()}/.staging`;
+    try {
+      if (await this.app.vault.adapter.exists(stagingRoot)) {
+        const { files, folders } =
+          await this.app.vault.adapter.list(stagingRoot);
+        if (files.length === 0 && folders.length === 0) {
+          await this.app.vault.adapter.rmdir(stagingRoot, false);
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to remove the staging folder:", error);
+    }
   }
 
   /**
    * Install a plugin from GitHub release
    * @param repo Repository string in format "owner/name"
    * @param version Version tag (e.g., "1.0.0")
-   * @param manifest Plugin manifest with id matching the plugin being installed
+   * @param manifest Plugin manifest of that release, with id matching the plugin being installed
+   * @param options.pinVersion Keep the plugin on this version: update checks stay quiet
+   *                           until a different version is installed (default: false, removes any pin)
+   * @param options.silent Don't show notices; the caller reports the returned status (default: false)
    * @returns Installation status
    */
   async installPlugin(
     repo: string,
     version: string,
     manifest: PluginManifest,
+    options: { pinVersion?: boolean; silent?: boolean } = {},
   ): Promise<InstallationStatus> {
     // Validate inputs
     if (!isValidRepoFormat(repo)) {
@@ -199,94 +889,106 @@ export class InstallationService {
       };
     }
 
-    // Track files written for rollback
-    const writtenFiles: string[] = [];
-    const adapter = this.app.vault.adapter;
+    if (!isValidPluginId(manifest.id)) {
+      const error = `Invalid plugin ID "${manifest.id}"`;
+      showError(`Failed to install plugin: ${error}`);
+      return {
+        success: false,
+        error,
+        pluginId: manifest.id,
+      };
+    }
+
     const pluginDirPath = this.getPluginDirPath(manifest.id);
+    const stagingDir = this.getStagingDirPath(manifest.id);
+    let createdPluginDir = false;
+    const fromVersion = await this.getInstalledVersion(manifest.id);
+    const historyEntry = {
+      action: this.getInstallAction(fromVersion, manifest.version),
+      pluginId: manifest.id,
+      fromVersion,
+      toVersion: manifest.version,
+      repo,
+    };
 
     try {
       // Check compatibility
       if (!this.checkCompatibility(manifest)) {
-        const currentVersion = hasAppVersion(this.app)
-          ? this.app.version
-          : "0.0.0";
         throw new Error(
-          `Plugin requires Obsidian ${manifest.minAppVersion} or higher, but you have ${currentVersion}`,
+          `Plugin requires Obsidian ${manifest.minAppVersion} or higher, but you have ${this.getAppVersion()}`,
         );
       }
 
-      // Ensure plugin directory exists (will be created when writing files)
-      await this.ensurePluginDir();
-
-      // Download and write main.js
-      const mainJsUrl = getGitHubReleaseUrl(repo, version, "main.js");
-      const mainJsBuffer = await this.downloadFile(mainJsUrl);
-      const mainJsPath = `${pluginDirPath}/main.js`;
-      await adapter.writeBinary(mainJsPath, mainJsBuffer);
-      writtenFiles.push(mainJsPath);
+      if (this.isUnavailableOnThisDevice(manifest)) {
+        throw new Error(
+          `${manifest.name} is desktop-only and can't run on mobile`,
+        );
+      }
 
-      // Download and write manifest.json
-      const manifestUrl = getGitHubReleaseUrl(repo, version, "manifest.json");
-      const manifestBuffer = await this.downloadFile(manifestUrl);
-      const manifestPath = `${pluginDirPath}/manifest.json`;
-      await adapter.writeBinary(manifestPath, manifestBuffer);
-      writtenFiles.push(manifestPath);
+      // Download and validate every file before anything is written
+      const files = await this.downloadReleaseFiles(repo, version, manifest);
+      const stagedDir = await this.stageReleaseFiles(stagingDir, files);
 
-      // Try to download styles.css if it exists
-      try {
-        const stylesUrl = getGitHubReleaseUrl(repo, version, "styles.css");
-        const stylesBuffer = await this.downloadFile(stylesUrl);
-        const stylesPath = `${pluginDirPath}/styles.css`;
-        await adapter.writeBinary(stylesPath, stylesBuffer);
-        writtenFiles.push(stylesPath);
-      } catch {
-        // styles.css is optional, so we ignore errors
-        debugLog(`styles.css not found for ${manifest.id}, skipping`);
+      // Keep a copy of the installed version (including data.json) so it can be restored
+      if (this.backupService) {
+        try {
+          await this.backupService.createBackup(manifest.id, pluginDirPath);
+        } catch (backupError) {
+          const backupErrorMessage =
+            backupError instanceof Error
+              ? backupError.message
+              : String(backupError);
+          throw new Error(
+            `Failed to back up the installed version: ${backupErrorMessage}`,
+          );
+        }
       }
 
-      showSuccess(`Plugin ${manifest.name} installed successfully!`);
+      createdPluginDir = await this.ensureDir(pluginDirPath);
+      await this.swapInReleaseFiles(pluginDirPath, stagingDir, stagedDir, [
+        ...files.keys(),
+      ]);
+      await this.recordInstalledFiles(manifest.id, manifest.version, files);
+      await this.recordHistory({ ...historyEntry, success: true });
+      // Only now that the new version is in place can older backups go
+      await this.backupService?.pruneBackups(manifest.id);
+
+      this.setPinnedVersion(
+        manifest.id,
+        options.pinVersion ? manifest.version : null,
+      );
+      if (!options.silent) {
+        showSuccess(`Plugin ${manifest.name} installed successfully!`);
+      }
       return {
         success: true,
         pluginId: manifest.id,
       };
     } catch (error) {
-      // Rollback: delete any files that were written
-      for (const filePath of writtenFiles) {
-        try {
-          const file = this.app.vault.getAbstractFileByPath(filePath);
-          if (file) {
-            await this.app.vault.delete(file);
-          }
-        } catch (rollbackError) {
-          console.warn(`Failed to rollback file ${filePath}:`, rollbackError);
-        }
-      }
-
-      // Try to remove plugin directory if it's empty
-      try {
-        const pluginDirFile =
-          this.app.vault.getAbstractFileByPath(pluginDirPath);
-        if (pluginDirFile instanceof TFolder) {
-          const children = pluginDirFile.children;
-          if (!children || children.length === 0) {
-            await adapter.rmdir(pluginDirPath, true);
-          }
-        }
-      } catch (rollbackError) {
-        // Ignore rollback errors for directory cleanup
-        console.warn(`Failed to cleanup plugin directory:`, rollbackError);
+      // A fresh install leaves no empty plugin folder behind
+      if (createdPluginDir) {
+        await this.removeDir(pluginDirPath);
       }
 
       const errorMessage =
         error instanceof Error
           ? error.message
           : String(error) || "Unknown error occurred";
-      showError(`Failed to install plugin: ${errorMessage}`);
+      await this.recordHistory({
+        ...historyEntry,
+        success: false,
+        error: errorMessage,
+      });
+      if (!options.silent) {
+        showError(`Failed to install plugin: ${errorMessage}`);
+      }
       return {
         success: false,
         error: errorMessage,
         pluginId: manifest.id,
       };
+    } finally {
+      await this.cleanUpStaging(stagingDir);
     }
   }
 
@@ -294,14 +996,28 @@ export class InstallationService {
    * Uninstall a plugin by removing its directory
    * Deletes the entire plugin directory from the vault's plugins folder
    * @param pluginId The ID of the plugin to uninstall
+   * @param repo Repository the plugin was installed from, recorded in the history (optional)
    * @returns Installation status indicating success or failure with error message if applicable
    */
-  async uninstallPlugin(pluginId: string): Promise<InstallationStatus> {
+  async uninstallPlugin(
+    pluginId: string,
+    repo: string | null = null,
+  ): Promise<InstallationStatus> {
+    // The ID becomes a folder path that is removed recursively
+    if (!isValidPluginId(pluginId)) {
+      const error = `Invalid plugin ID "${pluginId}"`;
+      showError(`Failed to uninstall plugin: ${error}`);
+      return {
+        success: false,
+        error,
+        pluginId,
+      };
+    }
+
+    const fromVersion = await this.getInstalledVersion(pluginId);
     try {
       const pluginDirPath = this.getPluginDirPath(pluginId);
-      const pluginDirFile = this.app.vault.getAbstractFileByPath(pluginDirPath);
-
-      if (!pluginDirFile) {
+      if (!(await this.app.vault.adapter.exists(pluginDirPath))) {
         throw new Error("Plugin not found");
       }
 
@@ -320,6 +1036,17 @@ export class InstallationService {
         }
       }
 
+      this.setPinnedVersion(pluginId, null);
+      this.setReleaseChannel(pluginId, "stable");
+      this.setLedgerEntry(pluginId, null);
+      await this.recordHistory({
+        action: "uninstall",
+        pluginId,
+        fromVersion,
+        toVersion: null,
+        repo,
+        success: true,
+      });
       showSuccess(`Plugin ${pluginId} uninstalled successfully!`);
       return {
         success: true,
@@ -330,6 +1057,15 @@ export class InstallationService {
         error instanceof Error
           ? error.message
           : String(error) || "Unknown error occurred";
+      await this.recordHistory({
+        action: "uninstall",
+        pluginId,
+        fromVersion,
+        toVersion: null,
+        repo,
+        success: false,
+        error: errorMessage,
+      });
       showError(`Failed to uninstall plugin: ${errorMessage}`);
       return {
         success: false,
@@ -339,29 +1075,136 @@ export class InstallationService {
     }
   }
 
+  /**
+   * List the backups of a plugin taken before it was updated
+   * @param pluginId The plugin ID
+   * @returns Backups, newest first (empty if backups are disabled)
+   */
+  async getBackups(pluginId: string): Promise<PluginBackup[]> {
+    if (!this.backupService) {
+      return [];
+    }
+    return this.backupService.listBackups(pluginId);
+  }
+
+  /**
+   * Revert a plugin to the version it had before its last update
+   * Restores the newest backup (including data.json) and pins the restored
+   * version so update checks don't immediately offer the update again.
+   * The used backup is removed afterwards.
+   * @param pluginId The plugin ID
+   * @param repo Repository the plugin was installed from, recorded in the history (optional)
+   * @returns Installation status indicating success or failure with error message if applicable
+   */
+  async revertToPreviousVersion(
+    pluginId: string,
+    repo: string | null = null,
+  ): Promise<InstallationStatus> {
+    const fromVersion = await this.getInstalledVersion(pluginId);
+    let toVersion: string | null = null;
+    // Reverting goes back to an older version unless both versions say otherwise
+    const getAction = (): HistoryAction =>
+      fromVersion && toVersion && toVersion !== "unknown"
+        ? this.getInstallAction(fromVersion, toVersion)
+        : "downgrade";
+    try {
+      const [backup] = await this.getBackups(pluginId);
+      if (!backup || !this.backupService) {
+        throw new Error("No backup of a previous version found");
+      }
+      toVersion = backup.version;
+
+      const pluginDirPath = this.getPluginDirPath(pluginId);
+      await this.backupService.restoreBackup(backup, pluginDirPath);
+      await this.backupService.deleteBackup(backup);
+
+      // The restored files become the reference for integrity checks
+      const restoredFiles = new Map<string, ArrayBuffer>();
+      for (const fileName of LEDGER_FILES) {
+        if (backup.files.includes(fileName)) {
+          restoredFiles.set(
+            fileName,
+            await this.app.vault.adapter.readBinary(
+              `${pluginDirPath}/${fileName}`,
+            ),
+          );
+        }
+      }
+      await this.recordInstalledFiles(pluginId, backup.version, restoredFiles);
+      this.setPinnedVersion(
+        pluginId,
+        backup.version !== "unknown" ? backup.version : null,
+      );
+      await this.recordHistory({
+        action: getAction(),
+        pluginId,
+        fromVersion,
+        toVersion,
+        repo,
+        success: true,
+      });
+      showSuccess(`Reverted ${pluginId} to version ${backup.version}.`);
+      return {
+        success: true,
+        pluginId,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : String(error) || "Unknown error occurred";
+      await this.recordHistory({
+        action: getAction(),
+        pluginId,
+        fromVersion,
+        toVersion,
+        repo,
+        success: false,
+        error: errorMessage,
+      });
+      showError(`Failed to revert plugin: ${errorMessage}`);
+      return {
+        success: false,
+        error: errorMessage,
+        pluginId,
+      };
+    }
+  }
+
   /**
    * Enable a plugin after installation
    * Note: Obsidian's plugin management API is not publicly exposed.
    * This method attempts to enable the plugin using internal APIs if available,
    * otherwise shows a message asking the user to enable manually in Settings.
    * @param pluginId The ID of the plugin to enable
+   * @param options.silent Don't show notices; the caller reports the result (default: false)
+   * @returns True if the plugin was enabled
    * @throws Does not throw, but logs warnings if enabling fails
    */
-  async enablePlugin(pluginId: string): Promise<void> {
+  async enablePlugin(
+    pluginId: string,
+    options: { silent?: boolean } = {},
+  ): Promise<boolean> {
     try {
       // Try to access Obsidian's internal plugin manager
       if (hasEnablePlugin(this.app)) {
         await this.app.plugins.enablePlugin(pluginId);
-        showSuccess(`Plugin ${pluginId} installed and enabled successfully!`);
-        return;
+        if (!options.silent) {
+          showSuccess(`Plugin ${pluginId} installed and enabled successfully!`);
+        }
+        return true;
       }
     } catch (error) {
       console.warn(`Failed to enable plugin programmatically:`, error);
     }
 
+    if (options.silent) {
+      return false;
+    }
     // Fallback: show message asking user to enable manually
     showSuccess(
       `Plugin ${pluginId} installed. Please enable it in Settings > Community plugins.`,
     );
+    return false;
   }
 }
@@ -0,0 +1,289 @@
+/**
+ * Service for prefetching plugin manifests in the background
+ * The registry doesn't list a plugin's minimum Obsidian version or whether it's
+ * desktop-only, so manifests are fetched one at a time and handed to the plugin
+ * service, letting the list view filter and badge plugins before they're opened.
+ * The manifests are saved in their own file together with the prefetch state.
+ */
+
+import {
+  CommunityPlugin,
+  ManifestPrefetchSnapshot,
+  PrefetchedManifestsSnapshot,
+} from "../types";
+import { PluginService } from "./PluginService";
+import { FileStorageService } from "./FileStorageService";
+import { PLUGIN_CONFIG } from "../config";
+
+/** File name of the prefetch state inside the cache storage directory */
+const STATE_FILE_NAME = "manifest-prefetch.json";
+
+/** File name of the prefetched manifests inside the cache storage directory */
+const MANIFESTS_FILE_NAME = "prefetched-manifests.json";
+
+/** Version of the state format; bump when the structure changes to discard old files */
+const STATE_VERSION = 1;
+
+export class ManifestPrefetchService {
+  private pluginService: PluginService;
+  private storage: FileStorageService | null;
+  private fetchedAt: Record<string, number> = {}; // Plugin ID -> last fetch attempt (ms since epoch)
+  private queue: CommunityPlugin[] = [];
+  private totalPlugins = 0;
+  private running = false;
+  private timeoutId: number | undefined = undefined;
+  private unsavedChanges = 0;
+  private progressListeners: Set<() => void> = new Set();
+
+  /**
+   * Create a new ManifestPrefetchService instance
+   * @param pluginService Service used to fetch the registry and manifests
+   * @param storage Storage for the prefetch state (null to keep it in memory only)
+   */
+  constructor(
+    pluginService: PluginService,
+    storage: FileStorageService | null = null,
+  ) {
+    this.pluginService = pluginService;
+    this.storage = storage;
+  }
+
+  /**
+   * Load the fetch times and manifests persisted by a previous session
+   * @returns True if state was loaded
+   */
+  async load(): Promise<boolean> {
+    if (!this.storage) return false;
+
+    const manifests =
+      await this.storage.readJson<PrefetchedManifestsSnapshot>(
+        MANIFESTS_FILE_NAME,
+      );
+    if (manifests?.version === STATE_VERSION && manifests.manifests) {
+      this.pluginService.restorePrefetchedManifests(manifests.manifests);
+    }
+
+    const snapshot =
+      await this.storage.readJson<ManifestPrefetchSnapshot>(STATE_FILE_NAME);
+    if (!snapshot || snapshot.version !== STATE_VERSION) {
+      return false;
+    }
+    this.fetchedAt = snapshot.fetchedAt ?? {};
+    this.notifyProgress();
+    return true;
+  }
+
+  /**
+   * Write the fetch times and manifests to disk
+   * Called every manifestPrefetchPersistEvery manifests and when prefetching
+   * goes idle or stops, rather than once per manifest.
+   * Errors are logged but not thrown; manifests are fetched again if they can't be saved
+   */
+  async persist(): Promise<void> {
+    if (!this.storage) return;
+
+    const savedAt = Date.now();
+    const manifests: PrefetchedManifestsSnapshot = {
+      version: STATE_VERSION,
+      savedAt,
+      manifests: this.pluginService.getPrefetchedManifests(),
+    };
+    const snapshot: ManifestPrefetchSnapshot = {
+      version: STATE_VERSION,
+      savedAt,
+      fetchedAt: this.fetchedAt,
+    };
+    try {
+      // Manifests first, so saved fetch times never point at unsaved manifests
+      await this.storage.writeJson(MANIFESTS_FILE_NAME, manifests);
+      await this.storage.writeJson(STATE_FILE_NAME, snapshot);
+      this.unsavedChanges = 0;
+    } catch (error) {
+      console.warn(
+        "Failed to persist manifest prefetch state:",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Start prefetching manifests in the background
+   * Does nothing if prefetching is already running
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Stop background prefetching and save progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timeoutId !== undefined) {
+      window.clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+    if (this.unsavedChanges > 0) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Check whether background prefetching is running
+   * @returns True if prefetching is active
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Forget which manifests were fetched and remove the saved manifests
+   * (e.g. after the manifest cache was cleared)
+   * A running prefetcher starts over with the next plugin
+   */
+  async clear(): Promise<void> {
+    this.fetchedAt = {};
+    this.queue = [];
+    this.unsavedChanges = 0;
+    await this.storage?.remove(STATE_FILE_NAME);
+    await this.storage?.remove(MANIFESTS_FILE_NAME);
+    this.notifyProgress();
+  }
+
+  /**
+   * Get prefetch progress
+   * @returns Number of plugins whose manifest was fetched and total number of plugins (0 until the registry is known)
+   */
+  getProgress(): { fetched: number; total: number } {
+    const fetched = Object.keys(this.fetchedAt).length;
+    return { fetched, total: Math.max(this.totalPlugins, fetched) };
+  }
+
+  /**
+   * Subscribe to prefetch progress updates
+   * @param listener Called after each manifest is fetched or the state is loaded/cleared
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: () => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Schedule the next prefetch step
+   * @param delay Delay in milliseconds
+   */
+  private scheduleNext(delay: number): void {
+    if (!this.running) return;
+    this.timeoutId = window.setTimeout(() => {
+      this.timeoutId = undefined;
+      this.prefetchNext().catch((error) => {
+        console.warn(
+          "Manifest prefetch step failed:",
+          error instanceof Error ? error.message : String(error),
+        );
+        this.scheduleNext(PLUGIN_CONFIG.constants.manifestPrefetchDelay);
+      });
+    }, delay);
+  }
+
+  /**
+   * Fetch the next manifest in the queue
+   * Refills the queue with new or stale plugins when it runs empty and pauses while offline
+   */
+  private async prefetchNext(): Promise<void> {
+    const {
+      manifestPrefetchDelay,
+      manifestPrefetchIdleDelay,
+      manifestPrefetchPersistEvery,
+      connectivityCheckInterval,
+    } = PLUGIN_CONFIG.constants;
+
+    if (this.pluginService.isOffline()) {
+      this.scheduleNext(connectivityCheckInterval);
+      return;
+    }
+
+    if (this.queue.length === 0) {
+      await this.refillQueue();
+      if (this.queue.length === 0) {
+        // Everything is fetched; save and check again later
+        if (this.unsavedChanges > 0) {
+          await this.persist();
+        }
+        this.scheduleNext(manifestPrefetchIdleDelay);
+        return;
+      }
+    }
+
+    const plugin = this.queue.shift();
+    if (plugin) {
+      const manifest = await this.pluginService.prefetchManifest(plugin);
+      if (!this.running) return; // Stopped or cleared while fetching
+
+      if (manifest === null && this.pluginService.isOffline()) {
+        this.queue.unshift(plugin); // Retry once back online
+      } else {
+        // Plugins without a manifest are recorded too, so they aren't fetched again until stale
+        this.fetchedAt[plugin.id] = Date.now();
+        this.unsavedChanges++;
+        this.notifyProgress();
+        if (this.unsavedChanges >= manifestPrefetchPersistEvery) {
+          await this.persist();
+        }
+      }
+    }
+
+    this.scheduleNext(manifestPrefetchDelay);
+  }
+
+  /**
+   * Queue plugins whose manifest has not been fetched yet or is stale
+   * Plugins without a cached manifest come first, since nothing is known about them
+   */
+  private async refillQueue(): Promise<void> {
+    const plugins = await this.pluginService.fetchCommunityPlugins();
+    this.totalPlugins = plugins.length;
+
+    const registryIds = new Set(plugins.map((plugin) => plugin.id));
+    for (const id of Object.keys(this.fetchedAt)) {
+      if (!registryIds.has(id)) {
+        delete this.fetchedAt[id];
+        this.unsavedChanges++;
+      }
+    }
+
+    const staleBefore =
+      Date.now() - PLUGIN_CONFIG.constants.manifestPrefetchMaxAge;
+    const due = plugins.filter((plugin) => {
+      const fetchedAt = this.fetchedAt[plugin.id];
+      return fetchedAt === undefined || fetchedAt < staleBefore;
+    });
+    this.queue = [
+      ...due.filter(
+        (plugin) => !this.pluginService.getCachedManifest(plugin.id),
+      ),
+      ...due.filter((plugin) =>
+        this.pluginService.getCachedManifest(plugin.id),
+      ),
+    ];
+  }
+
+  /**
+   * Notify progress listeners
+   * Listener errors are logged so one failing view doesn't break prefetching
+   */
+  private notifyProgress(): void {
+    for (const listener of this.progressListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn("Manifest prefetch progress listener failed:", error);
+      }
+    }
+  }
+}
@@ -2,16 +2,35 @@
  * Service for fetching and managing plugin data from obsidian-releases
  */
 
-import { requestUrl } from "obsidian";
+import { RequestUrlResponse } from "obsidian";
 import {
   CommunityPlugin,
   PluginInfo,
   PluginManifest,
   PluginStatsData,
+  PersistedCacheSnapshot,
+  PersistedReleaseDate,
+  PluginRegistryStatus,
+  RegistryStatusData,
+  RegistrySource,
+  RemovedPlugin,
+  GitHubRateLimit,
+  RequestOptions,
+  GitHubTokenValidation,
+  ManifestResolution,
+  PluginRelease,
+  ChannelRelease,
+  SideloadCandidate,
+  CompatibleRelease,
 } from "../types";
 import {
   getGitHubRawUrl,
+  getGitHubLatestReleaseUrl,
+  getGitHubReleaseUrl,
+  debugLog,
   parseRepo,
+  isValidRepoFormat,
+  isValidPluginId,
   showError,
   getResponseStatus,
   getResponseHeaders,
@@ -20,8 +39,27 @@ import {
   shouldRetryHttpError,
   checkRateLimit,
   showRateLimitError,
+  isNetworkError,
+  rankPlugins,
+  tokenizeSearchText,
+  PluginSearchResult,
+  getOfficialRegistrySource,
+  normalizeRegistrySources,
+  mergeRegistryPlugins,
+  parseRateLimitHeaders,
+  parseGitHubReleases,
+  getCompatibleVersions,
+  isCompatible,
 } from "../utils";
 import { PLUGIN_CONFIG } from "../config";
+import { FileStorageService } from "./FileStorageService";
+import { RateLimitTracker } from "./RateLimitTracker";
+import { RequestScheduler } from "./RequestScheduler";
+
+/** File name of the persisted cache snapshot inside the cache storage directory */
+const CACHE_FILE_NAME = "registry-cache.json";
+/** Bump when the snapshot format changes so stale files are ignored */
+const CACHE_SNAPSHOT_VERSION = 1;
 
 export class PluginService {
   private cachedPlugins: CommunityPlugin[] | null = null;
@@ -35,8 +73,50 @@ export class PluginService {
   private releaseDateCacheTimestamps: Map<string, number> = new Map();
   private releaseDateETags: Map<string, string | null> = new Map(); // ETags for release date API calls
   private releaseDateErrorCache: Map<string, number> = new Map(); // Cache for error timestamps
+  private apiReleaseDateKeys: Set<string> = new Set(); // Release dates obtained from the GitHub API (persisted)
   private readonly ERROR_CACHE_DURATION =
     PLUGIN_CONFIG.constants.errorCacheDuration;
+  private manifestCache: Map<string, PluginManifest> = new Map(); // Last fetched manifests (offline browsing)
+  private prefetchedManifests: Map<string, PluginManifest> = new Map(); // Manifests from background prefetching, persisted by ManifestPrefetchService
+  private readmeCache: Map<string, string> = new Map(); // Last fetched READMEs (offline browsing)
+  private releasesCache: Map<
+    string,
+    { data: PluginRelease[]; timestamp: number; etag: string | null }
+  > = new Map(); // Release history per plugin ID (persisted)
+  private cacheStorage: FileStorageService | null = null; // Disk storage for caches (optional)
+  private persistTimeoutId: number | null = null; // Pending debounced cache write
+  private offline = false; // True while the network is unreachable
+  private connectivityListeners: Set<(offline: boolean) => void> = new Set();
+  private registryStatus: RegistryStatusData | null = null; // Removal and deprecation lists
+  private registryStatusTimestamp = 0;
+  private removedETag: string | null = null; // ETag for community-plugins-removed.json
+  private deprecationsETag: string | null = null; // ETag for community-plugin-deprecation.json
+  private registrySources: RegistrySource[] = [getOfficialRegistrySource()]; // In priority order
+  private sourceCaches: Map<
+    string,
+    { data: CommunityPlugin[]; timestamp: number; etag: string | null }
+  > = new Map(); // Plugin lists of additional registry sources
+  private sideloadedPlugins: CommunityPlugin[] = []; // Plugins installed from repositories no registry lists
+  private mergedPlugins: {
+    inputs: CommunityPlugin[][];
+    result: CommunityPlugin[];
+  } | null = null; // Last merged list, reused while no source list changed
+  private githubToken: string | null = null; // Personal access token for GitHub API requests
+  private requestScheduler: RequestScheduler; // Shared queue for all network requests
+  private rateLimitTracker: RateLimitTracker; // Shared GitHub API budget
+
+  /**
+   * Create a new PluginService instance
+   * @param requestScheduler Scheduler all requests go through (a new one is created if omitted)
+   * @param rateLimitTracker Tracker for the GitHub API budget (a new one is created if omitted)
+   */
+  constructor(
+    requestScheduler: RequestScheduler = new RequestScheduler(),
+    rateLimitTracker: RateLimitTracker = new RateLimitTracker(),
+  ) {
+    this.requestScheduler = requestScheduler;
+    this.rateLimitTracker = rateLimitTracker;
+  }
 
   /**
    * Check if cached plugins should be used
@@ -86,6 +166,7 @@ export class PluginService {
   private handle304Response(): CommunityPlugin[] | null {
     if (this.cachedPlugins) {
       this.cacheTimestamp = Date.now();
+      this.schedulePersist();
       return this.cachedPlugins;
     }
     return null;
@@ -180,6 +261,10 @@ export class PluginService {
       }
     }
 
+    if (isNetworkError(error)) {
+      this.setOffline(true);
+    }
+
     if (this.cachedPlugins) {
       // Return stale cache if available
       console.warn("Failed to fetch plugins, using cached data:", error);
@@ -191,12 +276,87 @@ export class PluginService {
 
   /**
    * Fetch the list of community plugins
-   * Uses ETags to check if data has changed without downloading if unchanged
+   * Merges the official registry with any additional enabled registry sources;
+   * plugin ID collisions are resolved by source priority. Sideloaded plugins
+   * come last, so a registry listing takes over once the plugin is published,
+   * except for sideloaded forks: when no registry lists the sideloaded
+   * repository for that ID, the sideloaded entry wins so updates keep coming
+   * from the repository the user chose.
    * @param forceRefresh If true, bypasses cache and forces a fresh fetch
    * @returns Array of community plugins
    */
   async fetchCommunityPlugins(
     forceRefresh = false,
+  ): Promise<CommunityPlugin[]> {
+    const additionalSources = this.getAdditionalSources();
+    if (additionalSources.length === 0 && this.sideloadedPlugins.length === 0) {
+      return this.fetchOfficialPlugins(forceRefresh);
+    }
+
+    const [officialPlugins, ...sourcePlugins] = await Promise.all([
+      this.fetchOfficialPlugins(forceRefresh),
+      ...additionalSources.map((source) =>
+        this.fetchSourcePlugins(source, forceRefresh),
+      ),
+    ]);
+
+    const officialId = PLUGIN_CONFIG.constants.officialRegistrySourceId;
+    const lists = this.registrySources
+      .filter((source) => source.enabled)
+      .map((source) => ({
+        sourceId: source.id,
+        plugins:
+          source.id === officialId
+            ? officialPlugins
+            : sourcePlugins[additionalSources.indexOf(source)],
+      }));
+
+    // Reuse the previous merge when no list changed so callers get a stable array
+    const inputs = [
+      ...lists.map((list) => list.plugins),
+      this.sideloadedPlugins,
+    ];
+    if (
+      this.mergedPlugins &&
+      this.mergedPlugins.inputs.length === inputs.length &&
+      this.mergedPlugins.inputs.every((list, i) => list === inputs[i])
+    ) {
+      return this.mergedPlugins.result;
+    }
+
+    const registryRepos = new Map<string, Set<string>>(); // Plugin ID -> listed repositories
+    for (const list of lists) {
+      for (const plugin of list.plugins) {
+        const repos = registryRepos.get(plugin.id) ?? new Set<string>();
+        repos.add(plugin.repo.toLowerCase());
+        registryRepos.set(plugin.id, repos);
+      }
+    }
+    const isFork = (plugin: CommunityPlugin) => {
+      const repos = registryRepos.get(plugin.id);
+      return !!repos && !repos.has(plugin.repo.toLowerCase());
+    };
+    const sideloadedId = PLUGIN_CONFIG.constants.sideloadedSourceId;
+    const result = mergeRegistryPlugins([
+      {
+        sourceId: sideloadedId,
+        plugins: this.sideloadedPlugins.filter(isFork),
+      },
+      ...lists,
+      { sourceId: sideloadedId, plugins: this.sideloadedPlugins },
+    ]);
+    this.mergedPlugins = { inputs, result };
+    return result;
+  }
+
+  /**
+   * Fetch the official community plugin list
+   * Uses ETags to check if data has changed without downloading if unchanged
+   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @returns Array of community plugins
+   */
+  private async fetchOfficialPlugins(
+    forceRefresh: boolean,
   ): Promise<CommunityPlugin[]> {
     // Return cached data if still valid and not forcing refresh
     const cached = this.getCachedPluginsIfValid(forceRefresh);
@@ -204,17 +364,25 @@ export class PluginService {
       return cached;
     }
 
+    // While offline, serve the last snapshot instead of hitting the network
+    if (this.offline && this.cachedPlugins) {
+      return this.cachedPlugins;
+    }
+
     try {
       // Prepare headers for conditional request
       const headers = this.prepareRequestHeaders(forceRefresh);
 
       const response = await retryRequest(
         () =>
-          requestUrl({
-            url: PLUGIN_CONFIG.urls.communityPlugins,
-            method: "GET",
-            headers: Object.keys(headers).length > 0 ? headers : undefined,
-          }),
+          this.requestScheduler.request(
+            {
+              url: PLUGIN_CONFIG.urls.communityPlugins,
+              method: "GET",
+              headers: Object.keys(headers).length > 0 ? headers : undefined,
+            },
+            { priority: "visible" },
+          ),
         {
           maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
           initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
@@ -258,6 +426,7 @@ export class PluginService {
       // Update cache
       this.cachedPlugins = validPlugins;
       this.cacheTimestamp = Date.now();
+      this.schedulePersist();
       return validPlugins;
     } catch (error) {
       return this.handleFetchError(error);
@@ -265,23 +434,219 @@ export class PluginService {
   }
 
   /**
-   * Fetch plugin manifest.json from GitHub
-   * @param plugin The plugin to fetch the manifest for
-   * @returns The plugin manifest, or null if fetch fails or manifest is invalid
+   * Fetch the plugin list of an additional registry source
+   * Failures never throw: the last fetched list (or an empty list) is returned so
+   * an unreachable self-hosted registry doesn't hide the official plugins
+   * @param source The registry source to fetch
+   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @returns Array of plugins listed by the source
    */
-  async fetchPluginManifest(
-    plugin: CommunityPlugin,
-  ): Promise<PluginManifest | null> {
+  private async fetchSourcePlugins(
+    source: RegistrySource,
+    forceRefresh: boolean,
+  ): Promise<CommunityPlugin[]> {
+    const cached = this.sourceCaches.get(source.id);
+    if (
+      cached &&
+      (this.offline ||
+        (!forceRefresh && Date.now() - cached.timestamp < this.CACHE_DURATION))
+    ) {
+      return cached.data;
+    }
+    if (this.offline) {
+      return [];
+    }
+
     try {
-      const branch = plugin.branch || "master";
-      const manifestUrl = getGitHubRawUrl(plugin.repo, branch, "manifest.json");
+      const result = await this.fetchRegistryList(
+        source.url,
+        forceRefresh ? null : (cached?.etag ?? null),
+      );
+      if (result.data === null && cached) {
+        cached.timestamp = Date.now();
+        this.schedulePersist();
+        return cached.data;
+      }
+
+      const plugins = this.validateAndParsePlugins({ json: result.data });
+      this.sourceCaches.set(source.id, {
+        data: plugins,
+        timestamp: Date.now(),
+        etag: result.etag,
+      });
+      this.schedulePersist();
+      return plugins;
+    } catch (error) {
+      console.warn(
+        `Failed to fetch plugins from registry source "${source.name}":`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return cached?.data ?? [];
+    }
+  }
+
+  /**
+   * Get the enabled registry sources other than the official registry
+   * @returns Additional sources in priority order
+   */
+  private getAdditionalSources(): RegistrySource[] {
+    return this.registrySources.filter(
+      (source) =>
+        source.enabled &&
+        source.id !== PLUGIN_CONFIG.constants.officialRegistrySourceId,
+    );
+  }
+
+  /**
+   * Set the registry sources to merge, in priority order
+   * Missing or invalid entries are corrected (the official registry is always included).
+   * Cached lists of sources that are no longer configured are dropped.
+   * @param sources Registry sources from settings
+   */
+  setRegistrySources(sources: RegistrySource[] | undefined): void {
+    this.registrySources = normalizeRegistrySources(sources);
+    const ids = new Set(this.registrySources.map((source) => source.id));
+    for (const id of this.sourceCaches.keys()) {
+      if (!ids.has(id)) {
+        this.sourceCaches.delete(id);
+      }
+    }
+    this.mergedPlugins = null;
+  }
+
+  /**
+   * Get the configured registry sources
+   * @returns Registry sources in priority order
+   */
+  getRegistrySources(): RegistrySource[] {
+    return this.registrySources.map((source) => ({ ...source }));
+  }
+
+  /**
+   * Set the plugins installed from repositories outside the registries, as loaded from settings
+   * Malformed entries are dropped.
+   * @param plugins Sideloaded plugins
+   */
+  setSideloadedPlugins(plugins: CommunityPlugin[] | undefined): void {
+    const seen = new Set<string>();
+    this.sideloadedPlugins = (plugins ?? []).filter((plugin) => {
+      if (
+        !plugin ||
+        typeof plugin.id !== "string" ||
+        !plugin.id ||
+        seen.has(plugin.id) ||
+        !isValidRepoFormat(plugin.repo)
+      ) {
+        return false;
+      }
+      seen.add(plugin.id);
+      return true;
+    });
+  }
+
+  /**
+   * Get the plugins installed from repositories outside the registries
+   * @returns Sideloaded plugins
+   */
+  getSideloadedPlugins(): CommunityPlugin[] {
+    return this.sideloadedPlugins.map((plugin) => ({ ...plugin }));
+  }
+
+  /**
+   * Remember a sideloaded plugin so it's listed and updated like registry plugins
+   * Replaces an earlier entry with the same ID (e.g. after installing from a fork).
+   * @param plugin The sideloaded plugin
+   */
+  addSideloadedPlugin(plugin: CommunityPlugin): void {
+    this.setSideloadedPlugins([
+      ...this.sideloadedPlugins.filter((entry) => entry.id !== plugin.id),
+      {
+        id: plugin.id,
+        name: plugin.name,
+        author: plugin.author,
+        description: plugin.description,
+        repo: plugin.repo,
+        isDesktopOnly: plugin.isDesktopOnly,
+      },
+    ]);
+  }
+
+  /**
+   * Forget a sideloaded plugin
+   * @param pluginId The plugin ID
+   */
+  removeSideloadedPlugin(pluginId: string): void {
+    this.setSideloadedPlugins(
+      this.sideloadedPlugins.filter((plugin) => plugin.id !== pluginId),
+    );
+  }
+
+  /**
+   * Check whether a plugin is desktop-only
+   * Registry entries don't say, so this relies on the last fetched manifest and is
+   * false for plugins whose manifest hasn't been fetched yet.
+   * @param plugin The plugin to check
+   * @returns True if the plugin's manifest marks it as desktop-only
+   */
+  isDesktopOnly(plugin: CommunityPlugin): boolean {
+    return (
+      this.getCachedManifest(plugin.id)?.isDesktopOnly ??
+      plugin.isDesktopOnly ??
+      false
+    );
+  }
+
+  /**
+   * Get the display name of the registry a plugin was listed by
+   * @param plugin The plugin to check
+   * @returns The source name, or null when only the official registry is in use
+   */
+  getPluginSourceName(plugin: CommunityPlugin): string | null {
+    if (plugin.source === PLUGIN_CONFIG.constants.sideloadedSourceId) {
+      return "Sideloaded";
+    }
+    if (this.getAdditionalSources().length === 0) {
+      return null;
+    }
+    const sourceId =
+      plugin.source ?? PLUGIN_CONFIG.constants.officialRegistrySourceId;
+    return (
+      this.registrySources.find((source) => source.id === sourceId)?.name ??
+      sourceId
+    );
+  }
+
+  /**
+   * Get the git ref raw files of a plugin are read from
+   * @param plugin The plugin
+   * @returns The branch from the registry, or a ref GitHub resolves to the repo's default branch
+   */
+  private getPluginBranch(plugin: CommunityPlugin): string {
+    return plugin.branch || PLUGIN_CONFIG.constants.defaultBranchRef;
+  }
 
+  /**
+   * Fetch and validate a manifest.json file
+   * @param url URL of the manifest file
+   * @param pluginId Plugin ID, used in log messages
+   * @param options Request priority and a signal to cancel the request
+   * @returns The manifest, or null if the file is missing, invalid or the request failed
+   */
+  private async fetchManifestFile(
+    url: string,
+    pluginId: string,
+    options: RequestOptions,
+  ): Promise<PluginManifest | null> {
+    try {
       const response = await retryRequest(
         () =>
-          requestUrl({
-            url: manifestUrl,
-            method: "GET",
-          }),
+          this.requestScheduler.request(
+            {
+              url,
+              method: "GET",
+            },
+            options,
+          ),
         {
           maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
           initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
@@ -302,150 +667,213 @@ export class PluginService {
       }
 
       // Validate manifest has required fields
-      if (!manifest.id || !manifest.name || !manifest.version) {
+      if (!manifest || !manifest.id || !manifest.name || !manifest.version) {
         throw new Error("Invalid manifest format: missing required fields");
       }
-
       return manifest;
     } catch (error) {
-      console.warn(`Failed to fetch manifest for ${plugin.id}:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("404")) {
+        // No release (or no manifest in it) - not an error
+        debugLog(`No manifest at ${url} for ${pluginId}`);
+      } else if (errorMessage !== "Request cancelled") {
+        console.warn(`Failed to fetch manifest for ${pluginId}:`, error);
+      }
       return null;
     }
   }
 
   /**
-   * Fetch plugin README.md from GitHub
-   * @param plugin The plugin to fetch the README for
-   * @returns The README content as a string, or null if fetch fails
+   * Resolve the manifest of the version a plugin install would download
+   * Prefers the manifest.json attached to the latest release, since that's what
+   * gets installed. The manifest on the branch is fetched alongside it to detect
+   * when the two disagree, and is used when the repo has no release manifest.
+   * @param plugin The plugin to resolve the manifest for
+   * @param options Request priority (default: "background") and a signal to cancel the requests
+   * @returns The manifest and where it came from, or null if no manifest is available
    */
-  async fetchPluginReadme(plugin: CommunityPlugin): Promise<string | null> {
-    try {
-      const branch = plugin.branch || "master";
-      const readmeUrl = getGitHubRawUrl(plugin.repo, branch, "README.md");
+  async resolvePluginManifest(
+    plugin: CommunityPlugin,
+    options: RequestOptions = {},
+  ): Promise<ManifestResolution | null> {
+    const cached = this.getCachedManifest(plugin.id);
+    // While offline, only the last fetched manifest is available
+    if (this.offline) {
+      return cached ? { manifest: cached, source: "cache" } : null;
+    }
 
-      const response = await retryRequest(
-        () =>
-          requestUrl({
-            url: readmeUrl,
-            method: "GET",
-          }),
-        {
-          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
-          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
-          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
-          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
-          shouldRetry: shouldRetryHttpError,
-        },
+    let releaseUrl: string;
+    let branchUrl: string;
+    try {
+      releaseUrl = getGitHubLatestReleaseUrl(plugin.repo, "manifest.json");
+      branchUrl = getGitHubRawUrl(
+        plugin.repo,
+        this.getPluginBranch(plugin),
+        "manifest.json",
       );
+    } catch (error) {
+      console.warn(`Failed to fetch manifest for ${plugin.id}:`, error);
+      return cached ? { manifest: cached, source: "cache" } : null;
+    }
 
-      // Validate response has text content
-      if (typeof response.text !== "string") {
-        throw new Error("Invalid README response: expected text content");
-      }
+    const [releaseManifest, branchManifest] = await Promise.all([
+      this.fetchManifestFile(releaseUrl, plugin.id, options),
+      this.fetchManifestFile(branchUrl, plugin.id, options),
+    ]);
 
-      return response.text;
-    } catch (error) {
-      console.warn(`Failed to fetch README for ${plugin.id}:`, error);
-      return null;
+    const manifest = releaseManifest ?? branchManifest;
+    if (!manifest) {
+      // Fall back to the last fetched manifest if we have one
+      return cached ? { manifest: cached, source: "cache" } : null;
+    }
+
+    const resolution: ManifestResolution = {
+      manifest,
+      source: releaseManifest ? "release" : "branch",
+    };
+    if (
+      releaseManifest &&
+      branchManifest &&
+      branchManifest.version !== releaseManifest.version
+    ) {
+      resolution.branchVersion = branchManifest.version;
     }
+
+    this.manifestCache.set(plugin.id, manifest);
+    this.schedulePersist();
+    return resolution;
   }
 
   /**
-   * Get full plugin information including manifest and README
-   * Fetches both manifest and README in parallel for better performance
-   * @param plugin The plugin to get full information for
-   * @returns PluginInfo object with manifest and README populated (if available)
+   * Get the last fetched manifest of a plugin without making a request
+   * @param pluginId The plugin ID
+   * @returns The cached manifest, or null if it hasn't been fetched yet
    */
-  async getPluginInfo(plugin: CommunityPlugin): Promise<PluginInfo> {
-    const [manifest, readme] = await Promise.all([
-      this.fetchPluginManifest(plugin),
-      this.fetchPluginReadme(plugin),
-    ]);
+  getCachedManifest(pluginId: string): PluginManifest | null {
+    return (
+      this.manifestCache.get(pluginId) ??
+      this.prefetchedManifests.get(pluginId) ??
+      null
+    );
+  }
 
-    return {
-      ...plugin,
-      manifest: manifest || undefined,
-      readme: readme || undefined,
-    };
+  /**
+   * Get the manifests fetched by prefetchManifest()
+   * They aren't part of the persisted cache snapshot; ManifestPrefetchService
+   * saves them in its own file.
+   * @returns Prefetched manifests by plugin ID
+   */
+  getPrefetchedManifests(): Record<string, PluginManifest> {
+    return Object.fromEntries(this.prefetchedManifests);
   }
 
   /**
-   * Search plugins by query string
-   * @param plugins Array of plugins to search
-   * @param query Search query string (will be sanitized)
-   * @returns Filtered array of plugins matching the query
+   * Restore manifests prefetched by a previous session
+   * Manifests that were already fetched in this session are kept.
+   * @param manifests Prefetched manifests by plugin ID
    */
-  searchPlugins(plugins: CommunityPlugin[], query: string): CommunityPlugin[] {
-    const sanitizedQuery = query.trim();
-    if (!sanitizedQuery) {
-      return plugins;
+  restorePrefetchedManifests(manifests: Record<string, PluginManifest>): void {
+    for (const [id, manifest] of Object.entries(manifests)) {
+      if (!this.prefetchedManifests.has(id)) {
+        this.prefetchedManifests.set(id, manifest);
+      }
     }
-
-    // Sanitize query to prevent potential issues
-    const lowerQuery = sanitizedQuery.toLowerCase();
-    return plugins.filter(
-      (plugin) =>
-        plugin.name.toLowerCase().includes(lowerQuery) ||
-        plugin.author.toLowerCase().includes(lowerQuery) ||
-        plugin.description.toLowerCase().includes(lowerQuery) ||
-        plugin.id.toLowerCase().includes(lowerQuery),
-    );
   }
 
   /**
-   * Fetch release data from GitHub API for a plugin
-   * Handles common logic: repo parsing, API request, ETags, rate limits, error handling
-   * @param plugin The plugin to fetch release data for
-   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
-   * @param cacheKey Cache key for storing ETag (typically plugin.id)
-   * @returns Release data with published_at and assets, or null if fetch fails
+   * Fetch a plugin's manifest in the background and cache it
+   * Only one request is made when the latest release has a manifest; the branch
+   * manifest is the fallback. Used to learn minAppVersion and isDesktopOnly
+   * for plugins that haven't been opened yet.
+   * The manifest isn't written with the cache snapshot; see getPrefetchedManifests().
+   * @param plugin The plugin to fetch the manifest for
+   * @returns The manifest, or null if none is available or offline
    */
-  private async fetchReleaseFromGitHub(
+  async prefetchManifest(
     plugin: CommunityPlugin,
-    forceRefresh: boolean,
-    cacheKey: string,
-  ): Promise<{
-    published_at?: string;
-    assets?: Array<{ download_count?: number }>;
-  } | null> {
-    try {
-      let owner: string;
-      let name: string;
-
-      try {
-        const parsed = parseRepo(plugin.repo);
-        owner = parsed.owner;
-        name = parsed.name;
-      } catch (error) {
-        console.warn(
-          `Invalid repo format for ${plugin.id}: ${plugin.repo}`,
-          error,
-        );
-        return null;
-      }
+  ): Promise<PluginManifest | null> {
+    if (this.offline) {
+      return null;
+    }
 
-      // Validate parsed components
-      if (!owner || !name) {
-        console.warn(`Invalid repo format for ${plugin.id}: ${plugin.repo}`);
-        return null;
+    let manifest: PluginManifest | null = null;
+    try {
+      manifest =
+        (await this.fetchManifestFile(
+          getGitHubLatestReleaseUrl(plugin.repo, "manifest.json"),
+          plugin.id,
+          { priority: "background" },
+        )) ??
+        (await this.fetchManifestFile(
+          getGitHubRawUrl(
+            plugin.repo,
+            this.getPluginBranch(plugin),
+            "manifest.json",
+          ),
+          plugin.id,
+          { priority: "background" },
+        ));
+    } catch (error) {
+      console.warn(`Failed to prefetch manifest for ${plugin.id}:`, error);
+    }
+    if (manifest) {
+      this.prefetchedManifests.set(plugin.id, manifest);
+      // Keep an older manifest from the details view current; it's saved with the next cache write
+      if (this.manifestCache.has(plugin.id)) {
+        this.manifestCache.set(plugin.id, manifest);
       }
+    }
+    return manifest;
+  }
 
-      const apiUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/${owner}/${name}/releases/latest`;
-
-      // Prepare headers for conditional request
-      const headers: Record<string, string> = {};
-      const cachedETag = this.releaseDateETags.get(cacheKey);
-      if (cachedETag && !forceRefresh) {
-        headers["If-None-Match"] = cachedETag;
-      }
+  /**
+   * Fetch the manifest.json attached to a specific release
+   * Used to check compatibility before installing an older or newer version.
+   * @param plugin The plugin
+   * @param tag Release tag
+   * @param options Request priority (default: "background") and a signal to cancel the request
+   * @returns The release's manifest, or null if the release has no valid manifest
+   */
+  async fetchReleaseManifest(
+    plugin: CommunityPlugin,
+    tag: string,
+    options: RequestOptions = {},
+  ): Promise<PluginManifest | null> {
+    if (this.offline) {
+      return null;
+    }
+    let url: string;
+    try {
+      url = getGitHubReleaseUrl(plugin.repo, tag, "manifest.json");
+    } catch (error) {
+      console.warn(`Failed to fetch manifest for ${plugin.id}:`, error);
+      return null;
+    }
+    return this.fetchManifestFile(url, plugin.id, options);
+  }
 
+  /**
+   * Fetch a plugin's versions.json from its repository branch
+   * @param plugin The plugin
+   * @param options Request priority (default: "background") and a signal to cancel the request
+   * @returns Plugin version -> minimum Obsidian version, or null if the file is missing or invalid
+   */
+  async fetchVersionsJson(
+    plugin: CommunityPlugin,
+    options: RequestOptions = {},
+  ): Promise<Record<string, string> | null> {
+    if (this.offline) {
+      return null;
+    }
+    try {
+      const url = getGitHubRawUrl(
+        plugin.repo,
+        this.getPluginBranch(plugin),
+        "versions.json",
+      );
       const response = await retryRequest(
-        () =>
-          requestUrl({
-            url: apiUrl,
-            method: "GET",
-            headers: Object.keys(headers).length > 0 ? headers : undefined,
-          }),
+        () => this.requestScheduler.request({ url, method: "GET" }, options),
         {
           maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
           initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
@@ -454,13 +882,465 @@ export class PluginService {
           shouldRetry: shouldRetryHttpError,
         },
       );
+      const versions: unknown = response.json;
+      if (
+        !versions ||
+        typeof versions !== "object" ||
+        Array.isArray(versions)
+      ) {
+        throw new Error("Invalid versions.json format: expected an object");
+      }
+      // Skip malformed entries rather than rejecting the whole file
+      return Object.fromEntries(
+        Object.entries(versions).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string",
+        ),
+      );
+    } catch (error) {
+      console.warn(`Failed to fetch versions.json for ${plugin.id}:`, error);
+      return null;
+    }
+  }
 
-      // Check if server returned 304 Not Modified
+  /**
+   * Find the newest release of a plugin that runs on an Obsidian version
+   * Used when the latest release needs a newer Obsidian. Versions are taken from the
+   * plugin's versions.json, newest first; each candidate's release manifest is
+   * fetched to confirm the release exists and really is compatible.
+   * @param plugin The plugin
+   * @param appVersion The running Obsidian version
+   * @param options Request priority (default: "background") and a signal to cancel the requests
+   * @returns The release tag and its manifest, or null if no compatible release was found
+   */
+  async findCompatibleRelease(
+    plugin: CommunityPlugin,
+    appVersion: string,
+    options: RequestOptions = {},
+  ): Promise<CompatibleRelease | null> {
+    const versions = await this.fetchVersionsJson(plugin, options);
+    if (!versions) {
+      return null;
+    }
+
+    const candidates = getCompatibleVersions(versions, appVersion).slice(
+      0,
+      PLUGIN_CONFIG.constants.maxCompatibleReleaseAttempts,
+    );
+    for (const version of candidates) {
+      // Release tags are the version, but some plugins prefix them with "v"
+      for (const tag of [version, `v${version}`]) {
+        if (options.signal?.aborted) {
+          return null;
+        }
+        const manifest = await this.fetchReleaseManifest(plugin, tag, options);
+        if (!manifest) {
+          continue;
+        }
+        if (
+          manifest.id === plugin.id &&
+          (!manifest.minAppVersion ||
+            isCompatible(manifest.minAppVersion, appVersion))
+        ) {
+          return { tag, manifest };
+        }
+        break; // The release exists but versions.json was wrong about it
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the release to install from a repository that no registry lists
+   * Looks up the repository's latest release (one GitHub API request), checks
+   * that it ships main.js and manifest.json, and reads its manifest.
+   * @param repo Repository in "owner/repo" format
+   * @param options Request priority (default: "user") and a signal to cancel the requests
+   * @returns The plugin entry, release tag and manifest to confirm
+   * @throws Error with a message for the user if the repository can't be installed
+   */
+  async findInstallableRelease(
+    repo: string,
+    options: RequestOptions = { priority: "user" },
+  ): Promise<SideloadCandidate> {
+    if (this.offline) {
+      throw new Error("Repositories can't be checked while offline.");
+    }
+    const { owner, name } = parseRepo(repo);
+    const apiUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/${owner}/${name}/releases/latest`;
+
+    await this.rateLimitTracker.acquire(options.priority, options.signal);
+    let response: RequestUrlResponse;
+    try {
+      const headers = this.getGitHubAuthHeaders();
+      response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: apiUrl,
+              method: "GET",
+              headers: Object.keys(headers).length > 0 ? headers : undefined,
+            },
+            options,
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+    } catch (error) {
+      const rateLimitInfo = checkRateLimit(error);
+      if (rateLimitInfo?.isRateLimit) {
+        this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
+        throw new Error(
+          rateLimitInfo.message ?? "GitHub API rate limit exceeded.",
+        );
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("404")) {
+        throw new Error(`${repo} doesn't exist or has no published release.`);
+      }
+      throw error;
+    }
+
+    const responseStatus = getResponseStatus(response);
+    const responseHeaders = getResponseHeaders(response);
+    this.rateLimitTracker.recordResponse(responseHeaders, responseStatus);
+    const rateLimitInfo = checkRateLimit(null, {
+      status: responseStatus,
+      headers: responseHeaders,
+    });
+    if (rateLimitInfo?.isRateLimit) {
+      this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
+      throw new Error(
+        rateLimitInfo.message ?? "GitHub API rate limit exceeded.",
+      );
+    }
+
+    const [release] = parseGitHubReleases([response.json]);
+    if (!release) {
+      throw new Error(`${repo} has no published release.`);
+    }
+    const missing = ["main.js", "manifest.json"].filter(
+      (asset) => !release.assetNames.includes(asset),
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `The latest release of ${repo} (${release.tagName}) doesn't include ${missing.join(" or ")}.`,
+      );
+    }
+
+    const manifest = await this.fetchManifestFile(
+      getGitHubReleaseUrl(repo, release.tagName, "manifest.json"),
+      repo,
+      options,
+    );
+    if (!manifest) {
+      throw new Error(
+        `The manifest.json of ${repo} ${release.tagName} couldn't be read.`,
+      );
+    }
+    if (!isValidPluginId(manifest.id)) {
+      throw new Error(
+        `The manifest.json of ${repo} ${release.tagName} has an invalid plugin ID "${manifest.id}".`,
+      );
+    }
+
+    return {
+      plugin: {
+        id: manifest.id,
+        name: manifest.name,
+        author: manifest.author || owner,
+        description: manifest.description || "",
+        repo,
+        isDesktopOnly: manifest.isDesktopOnly,
+        source: PLUGIN_CONFIG.constants.sideloadedSourceId,
+      },
+      tag: release.tagName,
+      manifest,
+    };
+  }
+
+  /**
+   * Resolve the release the beta channel of a plugin points to
+   * A manifest-beta.json on the branch names the beta version (the convention
+   * beta testers already use); otherwise the newest release, including
+   * pre-releases, that ships main.js and manifest.json is used.
+   * @param plugin The plugin
+   * @param options Request priority (default: "background") and a signal to cancel the requests
+   * @returns The beta release with its manifest, or null if none is available
+   */
+  async resolveBetaRelease(
+    plugin: CommunityPlugin,
+    options: RequestOptions = {},
+  ): Promise<ChannelRelease | null> {
+    if (this.offline) {
+      return null;
+    }
+
+    let betaManifestUrl: string;
+    try {
+      betaManifestUrl = getGitHubRawUrl(
+        plugin.repo,
+        this.getPluginBranch(plugin),
+        "manifest-beta.json",
+      );
+    } catch (error) {
+      console.warn(`Failed to resolve beta release for ${plugin.id}:`, error);
+      return null;
+    }
+
+    const betaManifest = await this.fetchManifestFile(
+      betaManifestUrl,
+      plugin.id,
+      options,
+    );
+    if (betaManifest) {
+      const manifest = await this.fetchReleaseManifest(
+        plugin,
+        betaManifest.version,
+        options,
+      );
+      if (manifest) {
+        return { tag: betaManifest.version, manifest };
+      }
+      // The release for the beta version isn't published (yet) - use the release list
+    }
+
+    const releases = await this.fetchPluginReleases(plugin, false, options);
+    const newest = releases?.find(
+      (release) =>
+        release.assetNames.includes("main.js") &&
+        release.assetNames.includes("manifest.json"),
+    );
+    if (!newest) {
+      return null;
+    }
+    const manifest = await this.fetchReleaseManifest(
+      plugin,
+      newest.tagName,
+      options,
+    );
+    return manifest ? { tag: newest.tagName, manifest } : null;
+  }
+
+  /**
+   * Fetch plugin manifest.json from GitHub
+   * Uses the latest release's manifest when available (see resolvePluginManifest)
+   * @param plugin The plugin to fetch the manifest for
+   * @param options Request priority (default: "background") and a signal to cancel the request
+   * @returns The plugin manifest, or null if fetch fails or manifest is invalid
+   */
+  async fetchPluginManifest(
+    plugin: CommunityPlugin,
+    options: RequestOptions = {},
+  ): Promise<PluginManifest | null> {
+    const resolution = await this.resolvePluginManifest(plugin, options);
+    return resolution?.manifest ?? null;
+  }
+
+  /**
+   * Fetch plugin README.md from GitHub
+   * @param plugin The plugin to fetch the README for
+   * @param options.cache Keep the README for offline browsing (default: true).
+   *                      Bulk fetches such as README indexing pass false to keep the persisted cache small.
+   * @param options.priority Request priority (default: "background")
+   * @param options.signal Signal to cancel the request
+   * @returns The README content as a string, or null if fetch fails
+   */
+  async fetchPluginReadme(
+    plugin: CommunityPlugin,
+    options: { cache?: boolean } & RequestOptions = {},
+  ): Promise<string | null> {
+    const { cache = true, ...requestOptions } = options;
+    // While offline, only the last fetched README is available
+    if (this.offline) {
+      return this.readmeCache.get(plugin.id) ?? null;
+    }
+
+    try {
+      const readmeUrl = getGitHubRawUrl(
+        plugin.repo,
+        this.getPluginBranch(plugin),
+        "README.md",
+      );
+
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: readmeUrl,
+              method: "GET",
+            },
+            requestOptions,
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+
+      // Validate response has text content
+      if (typeof response.text !== "string") {
+        throw new Error("Invalid README response: expected text content");
+      }
+
+      if (cache) {
+        this.readmeCache.set(plugin.id, response.text);
+        this.schedulePersist();
+      }
+      return response.text;
+    } catch (error) {
+      console.warn(`Failed to fetch README for ${plugin.id}:`, error);
+      // Fall back to the last fetched README if we have one
+      return this.readmeCache.get(plugin.id) ?? null;
+    }
+  }
+
+  /**
+   * Get full plugin information including manifest and README
+   * Fetches both manifest and README in parallel for better performance
+   * @param plugin The plugin to get full information for
+   * @param signal Signal to cancel the requests (e.g. when another plugin is opened)
+   * @returns PluginInfo object with manifest and README populated (if available)
+   */
+  async getPluginInfo(
+    plugin: CommunityPlugin,
+    signal?: AbortSignal,
+  ): Promise<PluginInfo> {
+    const [resolution, readme] = await Promise.all([
+      this.resolvePluginManifest(plugin, { priority: "user", signal }),
+      this.fetchPluginReadme(plugin, { priority: "user", signal }),
+    ]);
+
+    return {
+      ...plugin,
+      manifest: resolution?.manifest,
+      manifestSource: resolution?.source,
+      branchManifestVersion: resolution?.branchVersion,
+      readme: readme || undefined,
+      registryStatus: this.getRegistryStatus(plugin.id) ?? undefined,
+    };
+  }
+
+  /**
+   * Search plugins by query string
+   * @param plugins Array of plugins to search
+   * @param query Search query string (will be sanitized)
+   * @returns Plugins matching the query, most relevant first
+   */
+  searchPlugins(plugins: CommunityPlugin[], query: string): CommunityPlugin[] {
+    if (tokenizeSearchText(query).length === 0) {
+      return plugins;
+    }
+    return this.searchPluginsRanked(plugins, query).map(
+      (result) => result.plugin,
+    );
+  }
+
+  /**
+   * Search plugins and return relevance details for each match
+   * Uses weighted field matching (name and id first), typo tolerance and
+   * diacritic-insensitive comparison; every query term must match
+   * @param plugins Array of plugins to search
+   * @param query Search query string
+   * @returns Search results sorted by descending score
+   */
+  searchPluginsRanked(
+    plugins: CommunityPlugin[],
+    query: string,
+  ): PluginSearchResult[] {
+    return rankPlugins(plugins, query);
+  }
+
+  /**
+   * Fetch release data from GitHub API for a plugin
+   * Handles common logic: repo parsing, API request, ETags, rate limits, error handling
+   * @param plugin The plugin to fetch release data for
+   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @param cacheKey Cache key for storing ETag (typically plugin.id)
+   * @param options Request priority and a signal to cancel the request
+   * @returns Release data with published_at and assets, or null if fetch fails
+   */
+  private async fetchReleaseFromGitHub(
+    plugin: CommunityPlugin,
+    forceRefresh: boolean,
+    cacheKey: string,
+    options: RequestOptions,
+  ): Promise<{
+    published_at?: string;
+    assets?: Array<{ download_count?: number }>;
+  } | null> {
+    // Wait for budget if the rate limit is (nearly) used up
+    try {
+      await this.rateLimitTracker.acquire(options.priority, options.signal);
+    } catch {
+      return null; // Cancelled while waiting, caller falls back to the cache
+    }
+
+    try {
+      let owner: string;
+      let name: string;
+
+      try {
+        const parsed = parseRepo(plugin.repo);
+        owner = parsed.owner;
+        name = parsed.name;
+      } catch (error) {
+        console.warn(
+          `Invalid repo format for ${plugin.id}: ${plugin.repo}`,
+          error,
+        );
+        return null;
+      }
+
+      // Validate parsed components
+      if (!owner || !name) {
+        console.warn(`Invalid repo format for ${plugin.id}: ${plugin.repo}`);
+        return null;
+      }
+
+      const apiUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/${owner}/${name}/releases/latest`;
+
+      // Prepare headers for conditional request
+      const headers: Record<string, string> = this.getGitHubAuthHeaders();
+      const cachedETag = this.releaseDateETags.get(cacheKey);
+      if (cachedETag && !forceRefresh) {
+        headers["If-None-Match"] = cachedETag;
+      }
+
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: apiUrl,
+              method: "GET",
+              headers: Object.keys(headers).length > 0 ? headers : undefined,
+            },
+            options,
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+
+      // Check if server returned 304 Not Modified
       // Note: Obsidian's requestUrl may throw on 304, so we also check in catch block
       const responseStatus = getResponseStatus(response);
 
       // Extract ETag from response headers if present (case-insensitive)
       const responseHeaders = getResponseHeaders(response);
+      this.rateLimitTracker.recordResponse(responseHeaders, responseStatus);
 
       // Check for rate limit errors in response
       const rateLimitInfo = checkRateLimit(null, {
@@ -468,6 +1348,7 @@ export class PluginService {
         headers: responseHeaders,
       });
       if (rateLimitInfo?.isRateLimit) {
+        this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
         showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
         return null;
       }
@@ -510,6 +1391,7 @@ export class PluginService {
       // Check for rate limit errors
       const rateLimitInfo = checkRateLimit(error);
       if (rateLimitInfo?.isRateLimit) {
+        this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
         showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
         return null;
       }
@@ -525,6 +1407,11 @@ export class PluginService {
         return null;
       }
 
+      // Cancelled by the caller - not an error worth logging
+      if (errorMessage === "Request cancelled") {
+        return null;
+      }
+
       // If 404, there are no releases - clear ETag and return null
       if (error instanceof Error && error.message.includes("404")) {
         this.releaseDateETags.set(cacheKey, null);
@@ -539,6 +1426,131 @@ export class PluginService {
     }
   }
 
+  /**
+   * Set the personal access token sent with GitHub API requests
+   * Resets the known quota since authenticated requests have a separate limit
+   * @param token The token, or null/empty to make unauthenticated requests
+   */
+  setGitHubToken(token: string | null): void {
+    const trimmed = token?.trim() || null;
+    if (trimmed !== this.githubToken) {
+      this.githubToken = trimmed;
+      this.rateLimitTracker.reset();
+    }
+  }
+
+  /**
+   * Check whether GitHub API requests are authenticated
+   * @returns True if a token is set
+   */
+  hasGitHubToken(): boolean {
+    return this.githubToken !== null;
+  }
+
+  /**
+   * Get the GitHub API quota reported by the last API response
+   * @returns The quota, or null if no API request was made yet
+   */
+  getGitHubRateLimit(): GitHubRateLimit | null {
+    return this.rateLimitTracker.getRateLimit();
+  }
+
+  /**
+   * Get the shared GitHub API budget tracker
+   * Views use it to show when paused requests resume
+   * @returns The rate limit tracker
+   */
+  getRateLimitTracker(): RateLimitTracker {
+    return this.rateLimitTracker;
+  }
+
+  /**
+   * Get the headers that authenticate a GitHub API request
+   * @param token Token to use instead of the configured one (optional)
+   * @returns Authorization header if a token is available, otherwise an empty object
+   */
+  private getGitHubAuthHeaders(
+    token: string | null = this.githubToken,
+  ): Record<string, string> {
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  /**
+   * Check a GitHub personal access token and report its quota
+   * Uses the /rate_limit endpoint, which doesn't count against the quota.
+   * The checked token becomes the known quota only if it's the configured one.
+   * @param token The token to check, or null to check the unauthenticated quota
+   * @returns Whether the token was accepted and the quota GitHub reported
+   */
+  async validateGitHubToken(
+    token: string | null,
+  ): Promise<GitHubTokenValidation> {
+    const trimmed = token?.trim() || null;
+    try {
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: `${PLUGIN_CONFIG.urls.githubApi}/rate_limit`,
+              method: "GET",
+              headers: this.getGitHubAuthHeaders(trimmed),
+            },
+            { priority: "user" },
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+
+      const status = getResponseStatus(response);
+      if (status === 401) {
+        return {
+          valid: false,
+          rateLimit: null,
+          error: "GitHub rejected the token (401)",
+        };
+      }
+
+      const core = (
+        response.json as {
+          resources?: {
+            core?: { limit?: number; remaining?: number; reset?: number };
+          };
+        }
+      )?.resources?.core;
+      const rateLimit =
+        core &&
+        typeof core.limit === "number" &&
+        typeof core.remaining === "number" &&
+        typeof core.reset === "number"
+          ? {
+              limit: core.limit,
+              remaining: core.remaining,
+              reset: new Date(core.reset * 1000),
+            }
+          : parseRateLimitHeaders(getResponseHeaders(response));
+
+      if (trimmed === this.githubToken && rateLimit) {
+        this.rateLimitTracker.recordRateLimit(rateLimit);
+      }
+      return { valid: true, rateLimit };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        valid: false,
+        rateLimit: null,
+        error: errorMessage.includes("401")
+          ? "GitHub rejected the token (401)"
+          : `Could not reach GitHub: ${errorMessage}`,
+      };
+    }
+  }
+
   /**
    * Get release date from pre-loaded stats data
    * This is an optimized version that uses already-loaded stats to avoid re-parsing
@@ -596,11 +1608,13 @@ export class PluginService {
    * Uses ETags to check if data has changed without downloading if unchanged
    * @param plugin The plugin to get the release date for
    * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @param options Priority of the GitHub API request (default: "background") and a signal to cancel it
    * @returns The date of the latest release, or null if no releases found or error occurs
    */
   async getLatestReleaseDate(
     plugin: CommunityPlugin,
     forceRefresh = false,
+    options: RequestOptions = {},
   ): Promise<Date | null> {
     const cacheKey = plugin.id;
 
@@ -655,11 +1669,17 @@ export class PluginService {
       }
     }
 
+    // No API calls while offline - use whatever is cached (even if expired)
+    if (this.offline) {
+      return this.releaseDateCache.get(cacheKey) ?? null;
+    }
+
     // Last resort: Fetch release data from GitHub API (only if stats and cache don't have it)
     const release = await this.fetchReleaseFromGitHub(
       plugin,
       forceRefresh,
       cacheKey,
+      options,
     );
 
     // Handle 304 response (data hasn't changed)
@@ -671,68 +1691,416 @@ export class PluginService {
         this.releaseDateCacheTimestamps.set(cacheKey, Date.now());
         return cachedDate;
       }
-      // No cache available, return null
-      return null;
-    }
+      // No cache available, return null
+      return null;
+    }
+
+    // Process release data
+    if (release.published_at) {
+      const releaseDate = new Date(release.published_at);
+      // Validate date is valid
+      if (isNaN(releaseDate.getTime())) {
+        console.warn(
+          `Invalid release date format for ${plugin.id}: ${release.published_at}`,
+        );
+        // Cache null to avoid repeated requests
+        this.setApiReleaseDate(cacheKey, null);
+        return null;
+      }
+      this.setApiReleaseDate(cacheKey, releaseDate);
+      // Clear error cache on success
+      this.releaseDateErrorCache.delete(cacheKey);
+      return releaseDate;
+    }
+
+    // No releases found, cache null to avoid repeated requests
+    this.setApiReleaseDate(cacheKey, null);
+    return null;
+  }
+
+  /**
+   * Cache a release date obtained from the GitHub API
+   * These entries are persisted to disk because they cost API calls to obtain
+   * @param cacheKey Cache key (typically plugin.id)
+   * @param date The release date, or null if the plugin has no releases
+   */
+  private setApiReleaseDate(cacheKey: string, date: Date | null): void {
+    this.releaseDateCache.set(cacheKey, date);
+    this.releaseDateCacheTimestamps.set(cacheKey, Date.now());
+    this.apiReleaseDateKeys.add(cacheKey);
+    this.schedulePersist();
+  }
+
+  /**
+   * Fetch plugin statistics from community-plugin-stats.json
+   * Uses ETags to check if data has changed without downloading if unchanged
+   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @returns PluginStatsData object mapping plugin IDs to their stats
+   */
+  async fetchPluginStats(
+    forceRefresh = false,
+  ): Promise<PluginStatsData | null> {
+    // Return cached data if still valid and not forcing refresh
+    if (
+      !forceRefresh &&
+      this.cachedStats &&
+      Date.now() - this.statsCacheTimestamp < this.CACHE_DURATION
+    ) {
+      return this.cachedStats;
+    }
+
+    // While offline, serve the last snapshot instead of hitting the network
+    if (this.offline && this.cachedStats) {
+      return this.cachedStats;
+    }
+
+    try {
+      // Prepare headers for conditional request
+      const headers: Record<string, string> = {};
+      if (this.statsETag && !forceRefresh) {
+        headers["If-None-Match"] = this.statsETag;
+      }
+
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: PLUGIN_CONFIG.urls.communityPluginStats,
+              method: "GET",
+              headers: Object.keys(headers).length > 0 ? headers : undefined,
+            },
+            { priority: "visible" },
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+
+      // Check if server returned 304 Not Modified
+      const responseStatus = getResponseStatus(response);
+      if (responseStatus === 304) {
+        // Data hasn't changed, update cache timestamp and return cached data
+        if (this.cachedStats) {
+          this.statsCacheTimestamp = Date.now();
+          this.schedulePersist();
+          return this.cachedStats;
+        }
+      }
+
+      // Extract ETag from response headers if present
+      const responseHeaders = getResponseHeaders(response);
+
+      // Check for rate limit errors in response
+      const rateLimitInfo = checkRateLimit(null, {
+        status: responseStatus,
+        headers: responseHeaders,
+      });
+      if (rateLimitInfo?.isRateLimit) {
+        showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
+        // Return cached stats if available
+        return this.cachedStats;
+      }
+
+      const etag = getHeaderCaseInsensitive(responseHeaders, "etag");
+      if (etag) {
+        this.statsETag = etag;
+      }
+
+      // Validate response is valid JSON
+      let stats: PluginStatsData;
+      try {
+        stats = response.json;
+      } catch (error) {
+        throw new Error(
+          `Failed to parse stats JSON: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      // Validate stats structure
+      if (!stats || typeof stats !== "object") {
+        throw new Error("Invalid stats data structure");
+      }
+
+      // Update cache
+      this.cachedStats = stats;
+      this.statsCacheTimestamp = Date.now();
+      this.schedulePersist();
+
+      return stats;
+    } catch (error) {
+      // Check if it's a 304 response
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (
+        errorMessage.includes("304") ||
+        errorMessage.includes("Not Modified")
+      ) {
+        if (this.cachedStats) {
+          this.statsCacheTimestamp = Date.now();
+          this.schedulePersist();
+          return this.cachedStats;
+        }
+      }
+
+      // Check for rate limit errors
+      const responseHeaders =
+        error instanceof Error && "response" in error
+          ? (
+              error as {
+                response?: {
+                  status?: number;
+                  headers?: Record<string, string>;
+                };
+              }
+            ).response
+          : undefined;
+      const rateLimitInfo = checkRateLimit(error, responseHeaders);
+      if (rateLimitInfo?.isRateLimit) {
+        showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
+        // Return cached stats if available, otherwise null
+        return this.cachedStats;
+      }
+
+      // If 404, stats file doesn't exist (optional file)
+      if (error instanceof Error && error.message.includes("404")) {
+        console.warn("Stats file not found, continuing without stats");
+        return null;
+      }
+
+      // Network unreachable - switch to offline mode and use the last snapshot
+      if (isNetworkError(error)) {
+        this.setOffline(true);
+        return this.cachedStats;
+      }
+
+      // For other errors, log and return null (stats are optional)
+      console.warn("Failed to fetch plugin stats:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a JSON list from the obsidian-releases repository with a conditional request
+   * @param url URL of the JSON file
+   * @param etag ETag from the previous fetch (null to fetch unconditionally)
+   * @returns Parsed JSON (null if unchanged since the ETag) and the response ETag
+   * @throws Error if the request fails
+   */
+  private async fetchRegistryList(
+    url: string,
+    etag: string | null,
+  ): Promise<{ data: unknown; etag: string | null }> {
+    try {
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url,
+              method: "GET",
+              headers: etag ? { "If-None-Match": etag } : undefined,
+            },
+            { priority: "visible" },
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+      if (getResponseStatus(response) === 304) {
+        return { data: null, etag };
+      }
+      const responseEtag = getHeaderCaseInsensitive(
+        getResponseHeaders(response),
+        "etag",
+      );
+      return { data: response.json, etag: responseEtag ?? null };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (
+        etag &&
+        (errorMessage.includes("304") || errorMessage.includes("Not Modified"))
+      ) {
+        return { data: null, etag };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the removal and deprecation lists published alongside community-plugins.json
+   * Uses ETags so unchanged lists aren't downloaded again. On failure the last known
+   * lists are returned (empty lists if none were ever fetched).
+   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
+   * @returns Removed plugins and deprecated versions keyed by plugin ID
+   */
+  async fetchRegistryStatus(forceRefresh = false): Promise<RegistryStatusData> {
+    if (
+      this.registryStatus &&
+      (this.offline ||
+        (!forceRefresh &&
+          Date.now() - this.registryStatusTimestamp < this.CACHE_DURATION))
+    ) {
+      return this.registryStatus;
+    }
+
+    const previous = this.registryStatus ?? { removed: {}, deprecations: {} };
+    try {
+      const [removedResult, deprecationsResult] = await Promise.all([
+        this.fetchRegistryList(
+          PLUGIN_CONFIG.urls.communityPluginsRemoved,
+          forceRefresh || !this.registryStatus ? null : this.removedETag,
+        ),
+        this.fetchRegistryList(
+          PLUGIN_CONFIG.urls.communityPluginDeprecations,
+          forceRefresh || !this.registryStatus ? null : this.deprecationsETag,
+        ),
+      ]);
+
+      let removed = previous.removed;
+      if (removedResult.data !== null) {
+        if (!Array.isArray(removedResult.data)) {
+          throw new Error("Invalid removed plugins data structure");
+        }
+        removed = {};
+        for (const entry of removedResult.data as RemovedPlugin[]) {
+          if (entry && typeof entry.id === "string" && entry.id) {
+            removed[entry.id] = entry;
+          }
+        }
+      }
+
+      let deprecations = previous.deprecations;
+      if (deprecationsResult.data !== null) {
+        const data = deprecationsResult.data;
+        if (!data || typeof data !== "object" || Array.isArray(data)) {
+          throw new Error("Invalid deprecation data structure");
+        }
+        deprecations = {};
+        for (const [id, versions] of Object.entries(data)) {
+          if (Array.isArray(versions)) {
+            deprecations[id] = versions.filter(
+              (version): version is string => typeof version === "string",
+            );
+          }
+        }
+      }
 
-    // Process release data
-    if (release.published_at) {
-      const releaseDate = new Date(release.published_at);
-      // Validate date is valid
-      if (isNaN(releaseDate.getTime())) {
+      this.registryStatus = { removed, deprecations };
+      this.registryStatusTimestamp = Date.now();
+      this.removedETag = removedResult.etag;
+      this.deprecationsETag = deprecationsResult.etag;
+      this.schedulePersist();
+      return this.registryStatus;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        this.setOffline(true);
+      } else {
         console.warn(
-          `Invalid release date format for ${plugin.id}: ${release.published_at}`,
+          "Failed to fetch plugin removal/deprecation lists:",
+          error instanceof Error ? error.message : String(error),
         );
-        // Cache null to avoid repeated requests
-        this.releaseDateCache.set(cacheKey, null);
-        this.releaseDateCacheTimestamps.set(cacheKey, Date.now());
-        return null;
       }
-      this.releaseDateCache.set(cacheKey, releaseDate);
-      this.releaseDateCacheTimestamps.set(cacheKey, Date.now());
-      // Clear error cache on success
-      this.releaseDateErrorCache.delete(cacheKey);
-      return releaseDate;
+      return previous;
     }
+  }
 
-    // No releases found, cache null to avoid repeated requests
-    this.releaseDateCache.set(cacheKey, null);
-    this.releaseDateCacheTimestamps.set(cacheKey, Date.now());
-    return null;
+  /**
+   * Get a plugin's removal and deprecation status from the last fetched lists
+   * Synchronous; call fetchRegistryStatus() first to make sure the lists are loaded
+   * @param pluginId The plugin ID
+   * @param installedVersion Installed version to check against the deprecated versions (optional)
+   * @returns The status, or null if the plugin is neither removed nor has deprecated versions
+   */
+  getRegistryStatus(
+    pluginId: string,
+    installedVersion?: string | null,
+  ): PluginRegistryStatus | null {
+    const removed = this.registryStatus?.removed[pluginId];
+    const deprecatedVersions =
+      this.registryStatus?.deprecations[pluginId] ?? [];
+    if (!removed && deprecatedVersions.length === 0) {
+      return null;
+    }
+    return {
+      removed: !!removed,
+      removalReason: removed?.reason,
+      deprecatedVersions,
+      installedVersionDeprecated:
+        !!installedVersion && deprecatedVersions.includes(installedVersion),
+    };
   }
 
   /**
-   * Fetch plugin statistics from community-plugin-stats.json
-   * Uses ETags to check if data has changed without downloading if unchanged
-   * @param forceRefresh If true, bypasses cache and forces a fresh fetch
-   * @returns PluginStatsData object mapping plugin IDs to their stats
+   * Fetch the release history of a plugin from the GitHub API
+   * Uses ETags so an unchanged list doesn't have to be downloaded again; the
+   * last fetched list is returned while offline, rate limited or on errors.
+   * @param plugin The plugin to fetch releases for
+   * @param forceRefresh If true, bypasses the cache and the ETag
+   * @param options Request priority (default: "background") and a signal to cancel the request
+   * @returns Published releases, newest first, or null if they couldn't be loaded
    */
-  async fetchPluginStats(
+  async fetchPluginReleases(
+    plugin: CommunityPlugin,
     forceRefresh = false,
-  ): Promise<PluginStatsData | null> {
-    // Return cached data if still valid and not forcing refresh
+    options: RequestOptions = {},
+  ): Promise<PluginRelease[] | null> {
+    const cached = this.releasesCache.get(plugin.id);
     if (
       !forceRefresh &&
-      this.cachedStats &&
-      Date.now() - this.statsCacheTimestamp < this.CACHE_DURATION
+      cached &&
+      Date.now() - cached.timestamp < this.CACHE_DURATION
     ) {
-      return this.cachedStats;
+      return cached.data;
+    }
+
+    // No API calls while offline - use whatever is cached (even if expired)
+    if (this.offline) {
+      return cached?.data ?? null;
     }
 
+    let apiUrl: string;
     try {
-      // Prepare headers for conditional request
-      const headers: Record<string, string> = {};
-      if (this.statsETag && !forceRefresh) {
-        headers["If-None-Match"] = this.statsETag;
+      const { owner, name } = parseRepo(plugin.repo);
+      apiUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/${owner}/${name}/releases?per_page=${PLUGIN_CONFIG.constants.releasesPerPage}`;
+    } catch (error) {
+      console.warn(
+        `Invalid repo format for ${plugin.id}: ${plugin.repo}`,
+        error,
+      );
+      return null;
+    }
+
+    // Wait for budget if the rate limit is (nearly) used up
+    try {
+      await this.rateLimitTracker.acquire(options.priority, options.signal);
+    } catch {
+      return cached?.data ?? null; // Cancelled while waiting
+    }
+
+    try {
+      const headers: Record<string, string> = this.getGitHubAuthHeaders();
+      if (cached?.etag && !forceRefresh) {
+        headers["If-None-Match"] = cached.etag;
       }
 
       const response = await retryRequest(
         () =>
-          requestUrl({
-            url: PLUGIN_CONFIG.urls.communityPluginStats,
-            method: "GET",
-            headers: Object.keys(headers).length > 0 ? headers : undefined,
-          }),
+          this.requestScheduler.request(
+            {
+              url: apiUrl,
+              method: "GET",
+              headers: Object.keys(headers).length > 0 ? headers : undefined,
+            },
+            options,
+          ),
         {
           maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
           initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
@@ -742,96 +2110,110 @@ export class PluginService {
         },
       );
 
-      // Check if server returned 304 Not Modified
       const responseStatus = getResponseStatus(response);
-      if (responseStatus === 304) {
-        // Data hasn't changed, update cache timestamp and return cached data
-        if (this.cachedStats) {
-          this.statsCacheTimestamp = Date.now();
-          return this.cachedStats;
-        }
-      }
-
-      // Extract ETag from response headers if present
       const responseHeaders = getResponseHeaders(response);
+      this.rateLimitTracker.recordResponse(responseHeaders, responseStatus);
 
-      // Check for rate limit errors in response
       const rateLimitInfo = checkRateLimit(null, {
         status: responseStatus,
         headers: responseHeaders,
       });
       if (rateLimitInfo?.isRateLimit) {
+        this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
         showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
-        // Return cached stats if available
-        return this.cachedStats;
+        return cached?.data ?? null;
       }
 
-      const etag = getHeaderCaseInsensitive(responseHeaders, "etag");
-      if (etag) {
-        this.statsETag = etag;
+      // Not modified - keep the cached list
+      if (responseStatus === 304 && cached) {
+        this.releasesCache.set(plugin.id, { ...cached, timestamp: Date.now() });
+        this.schedulePersist();
+        return cached.data;
       }
 
-      // Validate response is valid JSON
-      let stats: PluginStatsData;
-      try {
-        stats = response.json;
-      } catch (error) {
-        throw new Error(
-          `Failed to parse stats JSON: ${error instanceof Error ? error.message : String(error)}`,
-        );
+      const releases = parseGitHubReleases(response.json);
+      this.releasesCache.set(plugin.id, {
+        data: releases,
+        timestamp: Date.now(),
+        etag: getHeaderCaseInsensitive(responseHeaders, "etag") ?? null,
+      });
+      this.schedulePersist();
+      return releases;
+    } catch (error) {
+      const rateLimitInfo = checkRateLimit(error);
+      if (rateLimitInfo?.isRateLimit) {
+        this.rateLimitTracker.recordRateLimited(rateLimitInfo.resetTime);
+        showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
+        return cached?.data ?? null;
       }
 
-      // Validate stats structure
-      if (!stats || typeof stats !== "object") {
-        throw new Error("Invalid stats data structure");
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      // Obsidian's requestUrl may throw on 304
+      if (
+        cached &&
+        (errorMessage.includes("304") || errorMessage.includes("Not Modified"))
+      ) {
+        this.releasesCache.set(plugin.id, { ...cached, timestamp: Date.now() });
+        return cached.data;
       }
+      if (errorMessage !== "Request cancelled") {
+        console.warn(`Failed to fetch releases for ${plugin.id}:`, error);
+      }
+      return cached?.data ?? null;
+    }
+  }
 
-      // Update cache
-      this.cachedStats = stats;
-      this.statsCacheTimestamp = Date.now();
+  /**
+   * Fetch CHANGELOG.md from a plugin's repository
+   * Used as the version history when releases have no release notes.
+   * @param plugin The plugin to fetch the changelog for
+   * @param options Request priority (default: "background") and a signal to cancel the request
+   * @returns The changelog content, or null if the repo has none or the fetch fails
+   */
+  async fetchPluginChangelog(
+    plugin: CommunityPlugin,
+    options: RequestOptions = {},
+  ): Promise<string | null> {
+    if (this.offline) {
+      return null;
+    }
 
-      return stats;
+    try {
+      const changelogUrl = getGitHubRawUrl(
+        plugin.repo,
+        this.getPluginBranch(plugin),
+        "CHANGELOG.md",
+      );
+      const response = await retryRequest(
+        () =>
+          this.requestScheduler.request(
+            {
+              url: changelogUrl,
+              method: "GET",
+            },
+            options,
+          ),
+        {
+          maxRetries: PLUGIN_CONFIG.constants.retry.maxRetries,
+          initialDelay: PLUGIN_CONFIG.constants.retry.initialDelay,
+          maxDelay: PLUGIN_CONFIG.constants.retry.maxDelay,
+          backoffMultiplier: PLUGIN_CONFIG.constants.retry.backoffMultiplier,
+          shouldRetry: shouldRetryHttpError,
+        },
+      );
+      return typeof response.text === "string" && response.text.trim()
+        ? response.text
+        : null;
     } catch (error) {
-      // Check if it's a 304 response
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       if (
-        errorMessage.includes("304") ||
-        errorMessage.includes("Not Modified")
+        !errorMessage.includes("404") &&
+        errorMessage !== "Request cancelled"
       ) {
-        if (this.cachedStats) {
-          this.statsCacheTimestamp = Date.now();
-          return this.cachedStats;
-        }
-      }
-
-      // Check for rate limit errors
-      const responseHeaders =
-        error instanceof Error && "response" in error
-          ? (
-              error as {
-                response?: {
-                  status?: number;
-                  headers?: Record<string, string>;
-                };
-              }
-            ).response
-          : undefined;
-      const rateLimitInfo = checkRateLimit(error, responseHeaders);
-      if (rateLimitInfo?.isRateLimit) {
-        showRateLimitError(rateLimitInfo.resetTime, rateLimitInfo.message);
-        // Return cached stats if available, otherwise null
-        return this.cachedStats;
-      }
-
-      // If 404, stats file doesn't exist (optional file)
-      if (error instanceof Error && error.message.includes("404")) {
-        console.warn("Stats file not found, continuing without stats");
-        return null;
+        console.warn(`Failed to fetch changelog for ${plugin.id}:`, error);
       }
-
-      // For other errors, log and return null (stats are optional)
-      console.warn("Failed to fetch plugin stats:", error);
       return null;
     }
   }
@@ -932,9 +2314,19 @@ export class PluginService {
    * Useful for forcing a fresh fetch on the next request.
    */
   clearCache(): void {
+    // Drop any pending write so stale data isn't persisted after clearing
+    if (this.persistTimeoutId !== null) {
+      window.clearTimeout(this.persistTimeoutId);
+      this.persistTimeoutId = null;
+    }
+    this.cacheStorage?.remove(CACHE_FILE_NAME).catch((error) => {
+      console.warn("Failed to remove persisted cache:", error);
+    });
     this.cachedPlugins = null;
     this.cacheTimestamp = 0;
     this.pluginsETag = null;
+    this.sourceCaches.clear();
+    this.mergedPlugins = null;
     this.cachedStats = null;
     this.statsCacheTimestamp = 0;
     this.statsETag = null;
@@ -942,6 +2334,284 @@ export class PluginService {
     this.releaseDateCacheTimestamps.clear();
     this.releaseDateETags.clear();
     this.releaseDateErrorCache.clear();
+    this.apiReleaseDateKeys.clear();
+    this.manifestCache.clear();
+    this.prefetchedManifests.clear();
+    this.readmeCache.clear();
+    this.releasesCache.clear();
+    this.registryStatus = null;
+    this.registryStatusTimestamp = 0;
+    this.removedETag = null;
+    this.deprecationsETag = null;
+  }
+
+  /**
+   * Check whether the service is in offline mode
+   * @returns True if the network was found to be unreachable
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Switch offline mode on or off and notify listeners of the change
+   * While offline, all data is served from the in-memory/persisted snapshot.
+   * @param offline True to enter offline mode, false to leave it
+   */
+  setOffline(offline: boolean): void {
+    if (this.offline === offline) {
+      return;
+    }
+    this.offline = offline;
+    for (const listener of this.connectivityListeners) {
+      try {
+        listener(offline);
+      } catch (error) {
+        console.warn("Connectivity listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to offline/online transitions
+   * @param listener Called with the new offline state whenever it changes
+   * @returns Function that removes the listener
+   */
+  onConnectivityChange(listener: (offline: boolean) => void): () => void {
+    this.connectivityListeners.add(listener);
+    return () => {
+      this.connectivityListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the time the plugin list snapshot was last synced with the server
+   * @returns Timestamp in milliseconds, or null if no plugin data is cached
+   */
+  getSnapshotTimestamp(): number | null {
+    return this.cachedPlugins ? this.cacheTimestamp : null;
+  }
+
+  /**
+   * Probe whether the registry is reachable and update offline mode accordingly
+   * Uses a HEAD request so no data is downloaded.
+   * @returns True if online, false if the network is unreachable
+   */
+  async checkConnectivity(): Promise<boolean> {
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      this.setOffline(true);
+      return false;
+    }
+
+    try {
+      await this.requestScheduler.request(
+        {
+          url: PLUGIN_CONFIG.urls.communityPlugins,
+          method: "HEAD",
+          throw: false,
+        },
+        { priority: "background" },
+      );
+      this.setOffline(false);
+      return true;
+    } catch (error) {
+      // Any HTTP-level failure still means the network is reachable
+      const online = !isNetworkError(error);
+      this.setOffline(!online);
+      return online;
+    }
+  }
+
+  /**
+   * Set the storage used to persist caches across restarts
+   * When set, registry, stats and API release date caches (with their ETags)
+   * are written to disk whenever they change.
+   * @param storage File storage for the cache directory, or null to disable persistence
+   */
+  setCacheStorage(storage: FileStorageService | null): void {
+    this.cacheStorage = storage;
+  }
+
+  /**
+   * Rehydrate caches and ETags from the persisted snapshot
+   * Keeps the original cache timestamps so CACHE_DURATION still applies:
+   * expired entries are revalidated with conditional requests instead of re-downloaded.
+   * In-memory data that is already present is never overwritten.
+   * @returns True if a snapshot was loaded, false otherwise
+   */
+  async loadPersistedCache(): Promise<boolean> {
+    if (!this.cacheStorage) {
+      return false;
+    }
+
+    const snapshot =
+      await this.cacheStorage.readJson<PersistedCacheSnapshot>(CACHE_FILE_NAME);
+    if (!snapshot || snapshot.version !== CACHE_SNAPSHOT_VERSION) {
+      return false;
+    }
+
+    if (
+      snapshot.plugins &&
+      Array.isArray(snapshot.plugins.data) &&
+      this.cachedPlugins === null
+    ) {
+      this.cachedPlugins = snapshot.plugins.data;
+      this.cacheTimestamp = snapshot.plugins.timestamp;
+      this.pluginsETag = snapshot.plugins.etag;
+    }
+
+    if (
+      snapshot.stats &&
+      snapshot.stats.data &&
+      typeof snapshot.stats.data === "object" &&
+      this.cachedStats === null
+    ) {
+      this.cachedStats = snapshot.stats.data;
+      this.statsCacheTimestamp = snapshot.stats.timestamp;
+      this.statsETag = snapshot.stats.etag;
+    }
+
+    for (const [key, entry] of Object.entries(snapshot.releaseDates ?? {})) {
+      if (this.releaseDateCache.has(key)) {
+        continue;
+      }
+      const date = entry.date ? new Date(entry.date) : null;
+      if (date && isNaN(date.getTime())) {
+        continue;
+      }
+      this.releaseDateCache.set(key, date);
+      this.releaseDateCacheTimestamps.set(key, entry.timestamp);
+      this.releaseDateETags.set(key, entry.etag);
+      this.apiReleaseDateKeys.add(key);
+    }
+
+    for (const [key, manifest] of Object.entries(snapshot.manifests ?? {})) {
+      if (!this.manifestCache.has(key)) {
+        this.manifestCache.set(key, manifest);
+      }
+    }
+    for (const [key, readme] of Object.entries(snapshot.readmes ?? {})) {
+      if (!this.readmeCache.has(key)) {
+        this.readmeCache.set(key, readme);
+      }
+    }
+
+    for (const [key, entry] of Object.entries(snapshot.releases ?? {})) {
+      if (!this.releasesCache.has(key) && Array.isArray(entry?.data)) {
+        this.releasesCache.set(key, entry);
+      }
+    }
+
+    for (const [id, entry] of Object.entries(snapshot.sources ?? {})) {
+      if (
+        !this.sourceCaches.has(id) &&
+        this.registrySources.some((source) => source.id === id) &&
+        Array.isArray(entry?.data)
+      ) {
+        this.sourceCaches.set(id, entry);
+      }
+    }
+
+    if (snapshot.registryStatus?.data && this.registryStatus === null) {
+      this.registryStatus = snapshot.registryStatus.data;
+      this.registryStatusTimestamp = snapshot.registryStatus.timestamp;
+      this.removedETag = snapshot.registryStatus.removedETag;
+      this.deprecationsETag = snapshot.registryStatus.deprecationsETag;
+    }
+
+    return true;
+  }
+
+  /**
+   * Write the current caches to disk immediately
+   * Cancels any pending debounced write. Call on unload to avoid losing recent changes.
+   * @returns Promise that resolves when the snapshot is written (errors are logged, not thrown)
+   */
+  async persistCache(): Promise<void> {
+    if (this.persistTimeoutId !== null) {
+      window.clearTimeout(this.persistTimeoutId);
+      this.persistTimeoutId = null;
+    }
+    if (!this.cacheStorage) {
+      return;
+    }
+
+    try {
+      await this.cacheStorage.writeJson(
+        CACHE_FILE_NAME,
+        this.buildCacheSnapshot(),
+      );
+    } catch (error) {
+      console.warn("Failed to persist plugin cache:", error);
+    }
+  }
+
+  /**
+   * Schedule a debounced write of the caches to disk
+   * Batches rapid cache updates (e.g., many release dates) into a single write
+   */
+  private schedulePersist(): void {
+    if (!this.cacheStorage || this.persistTimeoutId !== null) {
+      return;
+    }
+    this.persistTimeoutId = window.setTimeout(() => {
+      this.persistTimeoutId = null;
+      this.persistCache();
+    }, PLUGIN_CONFIG.constants.cachePersistDelay);
+  }
+
+  /**
+   * Build a serializable snapshot of the current caches
+   * Includes fetched manifests and READMEs so plugin details can be browsed offline.
+   * Release dates derived from the stats file are skipped since they're cheap to recompute
+   * @returns Snapshot of registry, stats and API release date caches
+   */
+  private buildCacheSnapshot(): PersistedCacheSnapshot {
+    const releaseDates: Record<string, PersistedReleaseDate> = {};
+    for (const key of this.apiReleaseDateKeys) {
+      const date = this.releaseDateCache.get(key);
+      const timestamp = this.releaseDateCacheTimestamps.get(key);
+      if (date === undefined || timestamp === undefined) {
+        continue;
+      }
+      releaseDates[key] = {
+        date: date ? date.toISOString() : null,
+        timestamp,
+        etag: this.releaseDateETags.get(key) ?? null,
+      };
+    }
+
+    return {
+      version: CACHE_SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      plugins: this.cachedPlugins
+        ? {
+            data: this.cachedPlugins,
+            timestamp: this.cacheTimestamp,
+            etag: this.pluginsETag,
+          }
+        : null,
+      stats: this.cachedStats
+        ? {
+            data: this.cachedStats,
+            timestamp: this.statsCacheTimestamp,
+            etag: this.statsETag,
+          }
+        : null,
+      releaseDates,
+      manifests: Object.fromEntries(this.manifestCache),
+      readmes: Object.fromEntries(this.readmeCache),
+      sources: Object.fromEntries(this.sourceCaches),
+      releases: Object.fromEntries(this.releasesCache),
+      registryStatus: this.registryStatus
+        ? {
+            data: this.registryStatus,
+            timestamp: this.registryStatusTimestamp,
+            removedETag: this.removedETag,
+            deprecationsETag: this.deprecationsETag,
+          }
+        : null,
+    };
   }
 
   /**
@@ -951,10 +2621,13 @@ export class PluginService {
    */
   async refreshPluginsIfChanged(): Promise<boolean> {
     try {
-      const beforePlugins = this.cachedPlugins ? [...this.cachedPlugins] : [];
+      const current =
+        this.getAdditionalSources().length > 0
+          ? (this.mergedPlugins?.result ?? null)
+          : this.cachedPlugins;
+      const beforePlugins = current ? [...current] : [];
       const beforeIds = new Set(beforePlugins.map((p) => p.id));
-      await this.fetchCommunityPlugins(false); // Uses conditional request
-      const afterPlugins = this.cachedPlugins || [];
+      const afterPlugins = await this.fetchCommunityPlugins(false); // Uses conditional request
       const afterIds = new Set(afterPlugins.map((p) => p.id));
 
       // Check if plugin IDs changed (plugins added/removed)
@@ -0,0 +1,251 @@
+/**
+ * Service for exporting and importing plugin sets
+ * A plugin set lists the installed plugins with their repository, version and
+ * enabled state, so a new vault can be set up with the same plugins.
+ */
+
+import {
+  CommunityPlugin,
+  PluginManifest,
+  PluginSet,
+  PluginSetEntry,
+  PluginSetImportItem,
+  PluginSetImportResult,
+  RequestOptions,
+} from "../types";
+import { PLUGIN_SET_VERSION, isValidRepoFormat, parseRepo } from "../utils";
+import { PLUGIN_CONFIG } from "../config";
+import { PluginService } from "./PluginService";
+import { InstallationService } from "./InstallationService";
+
+export class PluginSetService {
+  private pluginService: PluginService;
+  private installationService: InstallationService;
+
+  /**
+   * Create a new PluginSetService instance
+   * @param pluginService Service for looking up plugins and their releases
+   * @param installationService Service for reading and installing plugins
+   */
+  constructor(
+    pluginService: PluginService,
+    installationService: InstallationService,
+  ) {
+    this.pluginService = pluginService;
+    this.installationService = installationService;
+  }
+
+  /**
+   * Build a plugin set from the installed plugins
+   * Repositories come from the registries and sideloaded plugins; plugins none of
+   * them list are exported without a repository.
+   * @returns The plugin set
+   */
+  async exportPluginSet(): Promise<PluginSet> {
+    const manifests = await this.installationService.getInstalledManifests();
+    const enabledIds = await this.installationService.getEnabledPluginIds();
+
+    let registry: CommunityPlugin[] = [];
+    try {
+      registry = await this.pluginService.fetchCommunityPlugins();
+    } catch (error) {
+      console.warn(
+        "Failed to load the registry for the plugin set export:",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    const repos = new Map(registry.map((plugin) => [plugin.id, plugin.repo]));
+
+    const plugins: PluginSetEntry[] = manifests.map((manifest) => ({
+      id: manifest.id,
+      name: manifest.name || manifest.id,
+      version: manifest.version,
+      repo: repos.get(manifest.id) ?? null,
+      enabled: enabledIds.has(manifest.id),
+    }));
+
+    return {
+      version: PLUGIN_SET_VERSION,
+      exportedAt: new Date().toISOString(),
+      plugins,
+    };
+  }
+
+  /**
+   * Work out what importing a plugin set would do
+   * Plugins that are already installed are skipped. For the others, the release
+   * of the exported version is looked up and checked against this device.
+   * @param set The plugin set to import
+   * @param options Request priority (default: "background") and a signal to cancel the requests
+   * @returns One item per plugin of the set, in order
+   */
+  async resolvePluginSet(
+    set: PluginSet,
+    options: RequestOptions = {},
+  ): Promise<PluginSetImportItem[]> {
+    const [registry, manifests] = await Promise.all([
+      this.pluginService.fetchCommunityPlugins(),
+      this.installationService.getInstalledManifests(),
+    ]);
+    const registryById = new Map(registry.map((plugin) => [plugin.id, plugin]));
+    const installedIds = new Set(manifests.map((manifest) => manifest.id));
+
+    // The request scheduler limits how many of these run at once
+    return Promise.all(
+      set.plugins.map((entry) =>
+        installedIds.has(entry.id)
+          ? { entry, status: "present" as const }
+          : this.resolveEntry(
+              entry,
+              registryById.get(entry.id) ?? null,
+              options,
+            ),
+      ),
+    );
+  }
+
+  /**
+   * Resolve one plugin of an imported set that isn't installed
+   * @param entry The plugin set entry
+   * @param registryPlugin The registry entry with the same ID, if any
+   * @param options Request priority and a signal to cancel the requests
+   * @returns The import item
+   */
+  private async resolveEntry(
+    entry: PluginSetEntry,
+    registryPlugin: CommunityPlugin | null,
+    options: RequestOptions,
+  ): Promise<PluginSetImportItem> {
+    let plugin = registryPlugin;
+    if (!plugin) {
+      if (!entry.repo || !isValidRepoFormat(entry.repo)) {
+        return {
+          entry,
+          status: "unavailable",
+          reason:
+            "No registry lists this plugin and the set has no repository for it",
+        };
+      }
+      plugin = {
+        id: entry.id,
+        name: entry.name,
+        author: parseRepo(entry.repo).owner,
+        description: "",
+        repo: entry.repo,
+        source: PLUGIN_CONFIG.constants.sideloadedSourceId,
+      };
+    }
+
+    let tag: string | null = null;
+    let manifest: PluginManifest | null = null;
+    // Release tags are the version, but some plugins prefix them with "v"
+    for (const candidate of [entry.version, `v${entry.version}`]) {
+      manifest = await this.pluginService.fetchReleaseManifest(
+        plugin,
+        candidate,
+        options,
+      );
+      if (manifest) {
+        tag = candidate;
+        break;
+      }
+    }
+    if (!tag || !manifest) {
+      return {
+        entry,
+        status: "unavailable",
+        plugin,
+        reason: `Release ${entry.version} not found in ${plugin.repo}`,
+      };
+    }
+    if (manifest.id !== entry.id) {
+      return {
+        entry,
+        status: "unavailable",
+        plugin,
+        reason: `The release belongs to "${manifest.id}"`,
+      };
+    }
+    if (this.installationService.isUnavailableOnThisDevice(manifest)) {
+      return {
+        entry,
+        status: "unavailable",
+        plugin,
+        reason: "Desktop-only plugin",
+      };
+    }
+    if (!this.installationService.checkCompatibility(manifest)) {
+      return {
+        entry,
+        status: "unavailable",
+        plugin,
+        reason: `Requires Obsidian ${manifest.minAppVersion}+`,
+      };
+    }
+
+    return {
+      entry,
+      status: "install",
+      plugin: registryPlugin
+        ? plugin
+        : {
+            ...plugin,
+            author: manifest.author || plugin.author,
+            description: manifest.description || "",
+            isDesktopOnly: manifest.isDesktopOnly,
+          },
+      sideloaded: !registryPlugin,
+      tag,
+      manifest,
+    };
+  }
+
+  /**
+   * Install the plugins of an imported set one after another
+   * Plugins that were enabled when the set was exported are enabled after install.
+   * Failures don't stop the remaining plugins; they're reported in the results.
+   * @param items Items with status "install" (others are ignored)
+   * @param onProgress Called before each plugin and once more when all are done (optional)
+   * @returns Installation status of each plugin, in order
+   */
+  async installPluginSet(
+    items: PluginSetImportItem[],
+    onProgress?: (
+      completed: number,
+      current: PluginSetImportItem | null,
+    ) => void,
+  ): Promise<PluginSetImportResult[]> {
+    const results: PluginSetImportResult[] = [];
+    for (const item of items) {
+      if (
+        item.status !== "install" ||
+        !item.plugin ||
+        !item.tag ||
+        !item.manifest
+      ) {
+        continue;
+      }
+      onProgress?.(results.length, item);
+      const status = await this.installationService.installPlugin(
+        item.plugin.repo,
+        item.tag,
+        item.manifest,
+        { silent: true },
+      );
+      const enabled =
+        status.success && item.entry.enabled
+          ? await this.installationService.enablePlugin(item.entry.id, {
+              silent: true,
+            })
+          : false;
+      results.push({
+        item,
+        success: status.success,
+        enabled,
+        error: status.error,
+      });
+    }
+    onProgress?.(results.length, null);
+    return results;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Shared GitHub API rate limit budget
+ * Records the quota reported by every GitHub API response and holds back
+ * requests until the quota resets. Part of the budget is reserved for
+ * user-initiated requests so background fetching can't use it all up.
+ */
+
+import { GitHubRateLimit, RequestPriority } from "../types";
+import { PLUGIN_CONFIG } from "../config";
+import { parseRateLimitHeaders } from "../utils";
+
+export class RateLimitTracker {
+  private rateLimit: GitHubRateLimit | null = null; // Last quota reported by GitHub (decremented locally between responses)
+  private pausedUntil: number | null = null; // Set when GitHub rejected a request because of the rate limit
+  private listeners: Set<() => void> = new Set();
+  private waiters: Set<() => void> = new Set(); // Wake-up callbacks of requests waiting for budget
+
+  /**
+   * Record the quota from a GitHub API response
+   * @param headers Response headers
+   * @param status Response status, used to detect rate limit rejections (optional)
+   */
+  recordResponse(
+    headers: Record<string, string> | undefined,
+    status?: number,
+  ): void {
+    const rateLimit = parseRateLimitHeaders(headers);
+    if (rateLimit) {
+      this.rateLimit = rateLimit;
+    }
+    if ((status === 403 || status === 429) && rateLimit?.remaining === 0) {
+      this.pausedUntil = rateLimit.reset.getTime();
+    }
+    this.notify();
+  }
+
+  /**
+   * Record a quota reported outside of response headers (e.g. the /rate_limit endpoint)
+   * @param rateLimit The reported quota
+   */
+  recordRateLimit(rateLimit: GitHubRateLimit): void {
+    this.rateLimit = rateLimit;
+    this.notify();
+  }
+
+  /**
+   * Record that GitHub rejected a request because of the rate limit
+   * Used when only the error is available (Obsidian's requestUrl throws without headers)
+   * @param resetTime When the quota resets, if known
+   */
+  recordRateLimited(resetTime?: Date): void {
+    this.pausedUntil =
+      resetTime?.getTime() ??
+      this.rateLimit?.reset.getTime() ??
+      Date.now() + PLUGIN_CONFIG.constants.rateLimitFallbackPause;
+    if (this.rateLimit) {
+      this.rateLimit = { ...this.rateLimit, remaining: 0 };
+    }
+    this.notify();
+  }
+
+  /**
+   * Get the last known quota
+   * @returns The quota, or null if no GitHub API response was seen yet
+   */
+  getRateLimit(): GitHubRateLimit | null {
+    return this.rateLimit;
+  }
+
+  /**
+   * Get the number of requests held back for user-initiated actions
+   * @returns Reserved request count (0 while the limit is unknown)
+   */
+  getReserve(): number {
+    if (!this.rateLimit) {
+      return 0;
+    }
+    return Math.ceil(
+      this.rateLimit.limit * PLUGIN_CONFIG.constants.rateLimitReserveFraction,
+    );
+  }
+
+  /**
+   * Get when requests of the given priority may be made again
+   * @param priority Request priority (user actions may use the reserved budget)
+   * @returns The time requests resume, or null if they may be made now
+   */
+  getResumeTime(priority: RequestPriority = "background"): Date | null {
+    const now = Date.now();
+    if (this.pausedUntil !== null) {
+      if (this.pausedUntil > now) {
+        return new Date(this.pausedUntil);
+      }
+      this.pausedUntil = null;
+    }
+
+    if (!this.rateLimit || this.rateLimit.reset.getTime() <= now) {
+      return null;
+    }
+    const minimum = priority === "user" ? 0 : this.getReserve();
+    return this.rateLimit.remaining > minimum ? null : this.rateLimit.reset;
+  }
+
+  /**
+   * Check whether requests of the given priority are currently held back
+   * @param priority Request priority
+   * @returns True if requests have to wait for the quota to reset
+   */
+  isPaused(priority: RequestPriority = "background"): boolean {
+    return this.getResumeTime(priority) !== null;
+  }
+
+  /**
+   * Wait until a request of the given priority fits in the budget, then claim it
+   * Resolves immediately while budget is available.
+   * @param priority Request priority
+   * @param signal Abort signal to stop waiting (optional)
+   * @returns Promise that resolves when the request may be made
+   * @throws Error if the signal is aborted while waiting
+   */
+  async acquire(
+    priority: RequestPriority = "background",
+    signal?: AbortSignal,
+  ): Promise<void> {
+    let resumeTime = this.getResumeTime(priority);
+    while (resumeTime !== null) {
+      await this.waitUntil(resumeTime, signal);
+      resumeTime = this.getResumeTime(priority);
+    }
+    if (signal?.aborted) {
+      throw new Error("Request cancelled");
+    }
+
+    // Claim one request so concurrent callers don't overshoot before the next response arrives
+    if (this.rateLimit && this.rateLimit.reset.getTime() > Date.now()) {
+      this.rateLimit = {
+        ...this.rateLimit,
+        remaining: Math.max(0, this.rateLimit.remaining - 1),
+      };
+    }
+  }
+
+  /**
+   * Forget the known quota (e.g. after the GitHub token changed)
+   * Waiting requests are re-evaluated immediately.
+   */
+  reset(): void {
+    this.rateLimit = null;
+    this.pausedUntil = null;
+    this.notify();
+  }
+
+  /**
+   * Subscribe to quota and pause changes
+   * @param listener Called after every change
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until the given time, a state change, or cancellation
+   * @param time Time to wait for
+   * @param signal Abort signal (optional)
+   * @returns Promise that resolves when waiting should be re-evaluated
+   */
+  private waitUntil(time: Date, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error("Request cancelled"));
+        return;
+      }
+      const done = () => {
+        window.clearTimeout(timeoutId);
+        this.waiters.delete(wake);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const wake = () => {
+        done();
+        resolve();
+      };
+      const onAbort = () => {
+        done();
+        reject(new Error("Request cancelled"));
+      };
+      const timeoutId = window.setTimeout(
+        wake,
+        Math.max(0, time.getTime() - Date.now()),
+      );
+      this.waiters.add(wake);
+      signal?.addEventListener("abort", onAbort);
+    });
+  }
+
+  /**
+   * Notify listeners and wake waiting requests so they re-check the budget
+   */
+  private notify(): void {
+    for (const wake of Array.from(this.waiters)) {
+      wake();
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn("Rate limit listener failed:", error);
+      }
+    }
+  }
+}
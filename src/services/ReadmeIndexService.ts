@@ -0,0 +1,487 @@
+/**
+ * Service for building and querying a local full-text index of plugin READMEs
+ * READMEs are fetched slowly in the background and stored as an inverted index on disk
+ */
+
+import {
+  CommunityPlugin,
+  ReadmeIndexSnapshot,
+  ReadmeSearchResult,
+} from "../types";
+import { PluginService } from "./PluginService";
+import { FileStorageService } from "./FileStorageService";
+import { tokenizeSearchText, findHighlightRanges } from "../utils";
+import { PLUGIN_CONFIG } from "../config";
+
+/** File name of the README index inside the cache storage directory */
+const INDEX_FILE_NAME = "readme-index.json";
+
+/** Version of the index format; bump when the structure changes to discard old files */
+const INDEX_VERSION = 1;
+
+/** Common words that would match almost every README */
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "this",
+  "that",
+  "you",
+  "your",
+  "are",
+  "can",
+  "from",
+  "will",
+  "not",
+  "use",
+  "plugin",
+  "obsidian",
+]);
+
+/** Terms shorter or longer than this are not indexed */
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_LENGTH = 40;
+
+/** Number of characters of context shown on each side of a snippet match */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Convert README markdown to plain text for indexing and snippets
+ * Drops code blocks, images, HTML tags and link targets
+ * @param markdown The README markdown
+ * @returns Plain text with collapsed whitespace
+ */
+export function readmeToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ") // Fenced code blocks
+    .replace(/<!--[\s\S]*?-->/g, " ") // HTML comments
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ") // Images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // Links -> link text
+    .replace(/<[^>]+>/g, " ") // HTML tags
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "") // Headings, quotes, list markers
+    .replace(/[*_`~|]/g, "") // Emphasis, inline code and table markup
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Extract the unique index terms from plain text
+ * @param text Plain text
+ * @returns Set of normalized terms
+ */
+export function extractIndexTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const token of tokenizeSearchText(text)) {
+    if (
+      token.length >= MIN_TERM_LENGTH &&
+      token.length <= MAX_TERM_LENGTH &&
+      !/^\d+$/.test(token) &&
+      !STOP_WORDS.has(token)
+    ) {
+      terms.add(token);
+    }
+  }
+  return terms;
+}
+
+export class ReadmeIndexService {
+  private pluginService: PluginService;
+  private storage: FileStorageService | null;
+  private documents: ReadmeIndexSnapshot["documents"] = {};
+  private postings: Map<string, Set<string>> = new Map(); // Term -> plugin IDs
+  private documentTerms: Map<string, Set<string>> = new Map(); // Plugin ID -> terms (for re-indexing)
+  private queue: CommunityPlugin[] = [];
+  private totalPlugins = 0;
+  private running = false;
+  private timeoutId: number | undefined = undefined;
+  private unsavedChanges = 0;
+  private lastPersistedAt = Date.now(); // Limits how often the full snapshot is rewritten
+  private generation = 0; // Bumped by clear() so READMEs fetched before it are dropped
+  private progressListeners: Set<() => void> = new Set();
+
+  /**
+   * Create a new ReadmeIndexService instance
+   * @param pluginService Service used to fetch the registry and READMEs
+   * @param storage Storage for the index file (null to keep the index in memory only)
+   */
+  constructor(
+    pluginService: PluginService,
+    storage: FileStorageService | null = null,
+  ) {
+    this.pluginService = pluginService;
+    this.storage = storage;
+  }
+
+  /**
+   * Load the index persisted by a previous session
+   * Files written by an incompatible version are ignored
+   * @returns True if an index was loaded
+   */
+  async load(): Promise<boolean> {
+    if (!this.storage) return false;
+
+    const snapshot =
+      await this.storage.readJson<ReadmeIndexSnapshot>(INDEX_FILE_NAME);
+    if (!snapshot || snapshot.version !== INDEX_VERSION) {
+      return false;
+    }
+
+    this.documents = snapshot.documents ?? {};
+    this.postings.clear();
+    this.documentTerms.clear();
+    for (const [term, ids] of Object.entries(snapshot.postings ?? {})) {
+      this.postings.set(term, new Set(ids));
+      for (const id of ids) {
+        let terms = this.documentTerms.get(id);
+        if (!terms) {
+          terms = new Set();
+          this.documentTerms.set(id, terms);
+        }
+        terms.add(term);
+      }
+    }
+    this.notifyProgress();
+    return true;
+  }
+
+  /**
+   * Write the index to disk
+   * Every write rewrites the whole snapshot, so background indexing writes at
+   * most once per readmeIndexPersistInterval.
+   * Errors are logged but not thrown; the index is rebuilt if it can't be saved
+   */
+  async persist(): Promise<void> {
+    if (!this.storage) return;
+
+    const snapshot: ReadmeIndexSnapshot = {
+      version: INDEX_VERSION,
+      savedAt: Date.now(),
+      documents: this.documents,
+      postings: Object.fromEntries(
+        Array.from(this.postings, ([term, ids]) => [term, Array.from(ids)]),
+      ),
+    };
+    try {
+      await this.storage.writeJson(INDEX_FILE_NAME, snapshot);
+      this.unsavedChanges = 0;
+      this.lastPersistedAt = Date.now();
+    } catch (error) {
+      console.warn(
+        "Failed to persist README index:",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Start indexing READMEs in the background
+   * Does nothing if the indexer is already running
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Stop background indexing and save progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timeoutId !== undefined) {
+      window.clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+    if (this.unsavedChanges > 0) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Check whether the background indexer is running
+   * @returns True if indexing is active
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Remove the index from memory and disk
+   * A running indexer starts over with the next plugin
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    this.documents = {};
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.queue = [];
+    this.unsavedChanges = 0;
+    await this.storage?.remove(INDEX_FILE_NAME);
+    this.notifyProgress();
+  }
+
+  /**
+   * Get indexing progress
+   * @returns Number of indexed READMEs and total number of plugins (0 until the registry is known)
+   */
+  getProgress(): { indexed: number; total: number } {
+    return {
+      indexed: Object.keys(this.documents).length,
+      total: Math.max(this.totalPlugins, Object.keys(this.documents).length),
+    };
+  }
+
+  /**
+   * Subscribe to indexing progress updates
+   * @param listener Called after each README is indexed or the index is loaded/cleared
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: () => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add or replace a README in the index
+   * @param pluginId The plugin the README belongs to
+   * @param markdown The README markdown (empty when the plugin has no README)
+   */
+  indexDocument(pluginId: string, markdown: string): void {
+    this.removeDocument(pluginId);
+
+    const text = readmeToPlainText(markdown);
+    const terms = extractIndexTerms(text);
+    for (const term of terms) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(pluginId);
+    }
+    this.documentTerms.set(pluginId, terms);
+    this.documents[pluginId] = {
+      indexedAt: Date.now(),
+      excerpt: text.slice(0, PLUGIN_CONFIG.constants.readmeIndexExcerptLength),
+    };
+  }
+
+  /**
+   * Search the README index
+   * Every query term must appear in the README; terms also match as prefixes
+   * of indexed words (e.g. "sync" matches "synchronization")
+   * @param query Free-text search query
+   * @returns Matching plugins sorted by descending score
+   */
+  search(query: string): ReadmeSearchResult[] {
+    const queryTerms = tokenizeSearchText(query).filter(
+      (term) => term.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(term),
+    );
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const documentCount = Math.max(Object.keys(this.documents).length, 1);
+    let scores: Map<string, number> | null = null;
+
+    for (const term of queryTerms) {
+      const termScores = new Map<string, number>();
+      for (const [indexedTerm, ids] of this.postings) {
+        if (!indexedTerm.startsWith(term)) continue;
+        // Rare terms are more meaningful than common ones
+        const idf = Math.log(1 + documentCount / ids.size);
+        const weight = indexedTerm === term ? idf : idf * 0.5;
+        for (const id of ids) {
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, weight));
+        }
+      }
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        // All terms must match
+        const combined = new Map<string, number>();
+        for (const [id, score] of scores) {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) {
+            combined.set(id, score + termScore);
+          }
+        }
+        scores = combined;
+      }
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    return Array.from(scores ?? [], ([pluginId, score]) => ({
+      pluginId,
+      score,
+    })).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Get a short excerpt of a plugin's README around the first query term match
+   * @param pluginId The plugin ID
+   * @param query Free-text search query
+   * @returns Snippet text (with ellipses when truncated), or null if no term appears in the stored excerpt
+   */
+  getSnippet(pluginId: string, query: string): string | null {
+    const excerpt = this.documents[pluginId]?.excerpt;
+    if (!excerpt) return null;
+
+    const ranges = findHighlightRanges(excerpt, tokenizeSearchText(query));
+    if (ranges.length === 0) return null;
+
+    const position = ranges[0][0];
+    let start = Math.max(0, position - SNIPPET_CONTEXT);
+    let end = Math.min(excerpt.length, position + SNIPPET_CONTEXT * 2);
+    // Avoid cutting words in half
+    if (start > 0) {
+      const space = excerpt.indexOf(" ", start);
+      if (space !== -1 && space < position) start = space + 1;
+    }
+    if (end < excerpt.length) {
+      const space = excerpt.lastIndexOf(" ", end);
+      if (space > position) end = space;
+    }
+
+    return `${start > 0 ? "…" : ""}${excerpt.slice(start, end)}${end < excerpt.length ? "…" : ""}`;
+  }
+
+  /**
+   * Remove a plugin's README from the index
+   * @param pluginId The plugin ID
+   */
+  private removeDocument(pluginId: string): void {
+    for (const term of this.documentTerms.get(pluginId) ?? []) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      ids.delete(pluginId);
+      if (ids.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documentTerms.delete(pluginId);
+    delete this.documents[pluginId];
+  }
+
+  /**
+   * Schedule the next indexing step
+   * @param delay Delay in milliseconds
+   */
+  private scheduleNext(delay: number): void {
+    if (!this.running) return;
+    this.timeoutId = window.setTimeout(() => {
+      this.timeoutId = undefined;
+      this.indexNext().catch((error) => {
+        console.warn(
+          "README indexing step failed:",
+          error instanceof Error ? error.message : String(error),
+        );
+        this.scheduleNext(PLUGIN_CONFIG.constants.readmeIndexDelay);
+      });
+    }, delay);
+  }
+
+  /**
+   * Index the next README in the queue
+   * Refills the queue with new or stale plugins when it runs empty and pauses while offline
+   */
+  private async indexNext(): Promise<void> {
+    const {
+      readmeIndexDelay,
+      readmeIndexIdleDelay,
+      connectivityCheckInterval,
+    } = PLUGIN_CONFIG.constants;
+
+    if (this.pluginService.isOffline()) {
+      this.scheduleNext(connectivityCheckInterval);
+      return;
+    }
+
+    if (this.queue.length === 0) {
+      await this.refillQueue();
+      if (this.queue.length === 0) {
+        // Everything is indexed; save and check again later
+        if (this.unsavedChanges > 0) {
+          await this.persist();
+        }
+        this.scheduleNext(readmeIndexIdleDelay);
+        return;
+      }
+    }
+
+    const plugin = this.queue.shift();
+    if (plugin) {
+      const generation = this.generation;
+      const readme = await this.pluginService.fetchPluginReadme(plugin, {
+        cache: false,
+        priority: "background",
+      });
+      if (!this.running) return; // Stopped while fetching
+      if (generation !== this.generation) {
+        // Cleared while fetching; start over with the next plugin
+        this.scheduleNext(PLUGIN_CONFIG.constants.readmeIndexDelay);
+        return;
+      }
+
+      if (readme === null && this.pluginService.isOffline()) {
+        this.queue.unshift(plugin); // Retry once back online
+      } else {
+        // Plugins without a README are recorded too, so they aren't fetched again until stale
+        this.indexDocument(plugin.id, readme ?? "");
+        this.unsavedChanges++;
+        this.notifyProgress();
+        if (
+          Date.now() - this.lastPersistedAt >=
+          PLUGIN_CONFIG.constants.readmeIndexPersistInterval
+        ) {
+          await this.persist();
+        }
+      }
+    }
+
+    this.scheduleNext(readmeIndexDelay);
+  }
+
+  /**
+   * Queue plugins that have not been indexed yet or whose README is stale
+   * Drops index entries for plugins that were removed from the registry
+   */
+  private async refillQueue(): Promise<void> {
+    const plugins = await this.pluginService.fetchCommunityPlugins();
+    this.totalPlugins = plugins.length;
+
+    const registryIds = new Set(plugins.map((plugin) => plugin.id));
+    for (const id of Object.keys(this.documents)) {
+      if (!registryIds.has(id)) {
+        this.removeDocument(id);
+        this.unsavedChanges++;
+      }
+    }
+
+    const staleBefore = Date.now() - PLUGIN_CONFIG.constants.readmeIndexMaxAge;
+    this.queue = plugins.filter((plugin) => {
+      const document = this.documents[plugin.id];
+      return !document || document.indexedAt < staleBefore;
+    });
+  }
+
+  /**
+   * Notify progress listeners
+   * Listener errors are logged so one failing view doesn't break indexing
+   */
+  private notifyProgress(): void {
+    for (const listener of this.progressListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn("README index progress listener failed:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Shared scheduler for network requests
+ * Every request made by the plugin goes through one queue so that user actions
+ * run before requests for visible cards, which run before background prefetching.
+ * Limits how many requests run at once, shares identical in-flight GET requests
+ * between callers and lets each caller cancel its interest in a request.
+ */
+
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from "obsidian";
+import { RequestOptions, RequestPriority } from "../types";
+import { PLUGIN_CONFIG } from "../config";
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  user: 0,
+  visible: 1,
+  background: 2,
+};
+
+/**
+ * A caller waiting for a scheduled request
+ */
+interface RequestSubscriber {
+  resolve: (response: RequestUrlResponse) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * A request that is queued or running, shared by all identical callers
+ */
+interface ScheduledRequest {
+  key: string | null; // De-duplication key (null for requests that can't be shared)
+  params: RequestUrlParam;
+  priority: RequestPriority;
+  sequence: number; // Keeps requests of the same priority in FIFO order
+  running: boolean;
+  subscribers: Set<RequestSubscriber>;
+}
+
+export class RequestScheduler {
+  private queue: ScheduledRequest[] = []; // Requests waiting for a free slot
+  private inFlight: Map<string, ScheduledRequest> = new Map(); // Queued or running shareable requests by key
+  private runningCount = 0;
+  private sequence = 0;
+  private maxConcurrent: number;
+
+  /**
+   * @param maxConcurrent Maximum number of requests running at once (defaults to the configured limit)
+   */
+  constructor(
+    maxConcurrent: number = PLUGIN_CONFIG.constants.maxConcurrentRequests,
+  ) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * Schedule a request
+   * Identical GET requests that are already queued or running are shared, and
+   * joining with a higher priority moves a queued request forward.
+   * @param params Request parameters passed to Obsidian's requestUrl
+   * @param options Priority and abort signal (optional)
+   * @returns Promise that resolves with the response
+   * @throws Error "Request cancelled" if the signal is aborted before the response arrives
+   */
+  request(
+    params: RequestUrlParam,
+    options: RequestOptions = {},
+  ): Promise<RequestUrlResponse> {
+    const priority = options.priority ?? "background";
+    const signal = options.signal;
+
+    return new Promise<RequestUrlResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error("Request cancelled"));
+        return;
+      }
+
+      const key = this.getRequestKey(params);
+      let entry = key !== null ? this.inFlight.get(key) : undefined;
+      if (entry) {
+        if (PRIORITY_RANK[priority] < PRIORITY_RANK[entry.priority]) {
+          entry.priority = priority;
+        }
+      } else {
+        entry = {
+          key,
+          params,
+          priority,
+          sequence: this.sequence++,
+          running: false,
+          subscribers: new Set(),
+        };
+        if (key !== null) {
+          this.inFlight.set(key, entry);
+        }
+        this.queue.push(entry);
+      }
+
+      const scheduled = entry;
+      const subscriber: RequestSubscriber = { resolve, reject, signal };
+      if (signal) {
+        subscriber.onAbort = () => {
+          this.unsubscribe(scheduled, subscriber);
+          reject(new Error("Request cancelled"));
+        };
+        signal.addEventListener("abort", subscriber.onAbort);
+      }
+      scheduled.subscribers.add(subscriber);
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Get the current queue state
+   * @returns Number of queued and running requests
+   */
+  getStats(): { queued: number; running: number } {
+    return { queued: this.queue.length, running: this.runningCount };
+  }
+
+  /**
+   * Build the de-duplication key for a request
+   * @param params Request parameters
+   * @returns Key shared by identical requests, or null if the request must not be shared
+   */
+  private getRequestKey(params: RequestUrlParam): string | null {
+    const method = (params.method ?? "GET").toUpperCase();
+    if (method !== "GET" || params.body !== undefined) {
+      return null;
+    }
+    return `${method} ${params.url} ${JSON.stringify(params.headers ?? {})}`;
+  }
+
+  /**
+   * Remove a caller from a request
+   * Queued requests nobody is waiting for any more are dropped; running requests
+   * are left to finish because requestUrl can't be aborted.
+   * @param entry The scheduled request
+   * @param subscriber The caller to remove
+   */
+  private unsubscribe(
+    entry: ScheduledRequest,
+    subscriber: RequestSubscriber,
+  ): void {
+    entry.subscribers.delete(subscriber);
+    if (entry.subscribers.size > 0 || entry.running) {
+      return;
+    }
+    this.queue = this.queue.filter((queued) => queued !== entry);
+    if (entry.key !== null && this.inFlight.get(entry.key) === entry) {
+      this.inFlight.delete(entry.key);
+    }
+  }
+
+  /**
+   * Start queued requests while there are free slots, highest priority first
+   */
+  private pump(): void {
+    while (this.runningCount < this.maxConcurrent && this.queue.length > 0) {
+      let nextIndex = 0;
+      for (let i = 1; i < this.queue.length; i++) {
+        const candidate = this.queue[i];
+        const best = this.queue[nextIndex];
+        const rankDiff =
+          PRIORITY_RANK[candidate.priority] - PRIORITY_RANK[best.priority];
+        if (
+          rankDiff < 0 ||
+          (rankDiff === 0 && candidate.sequence < best.sequence)
+        ) {
+          nextIndex = i;
+        }
+      }
+      const [entry] = this.queue.splice(nextIndex, 1);
+      void this.run(entry);
+    }
+  }
+
+  /**
+   * Run a request and settle every caller still waiting for it
+   * @param entry The scheduled request
+   */
+  private async run(entry: ScheduledRequest): Promise<void> {
+    entry.running = true;
+    this.runningCount++;
+
+    let response: RequestUrlResponse | undefined;
+    let failure: unknown;
+    let failed = false;
+    try {
+      response = await requestUrl(entry.params);
+    } catch (error) {
+      failed = true;
+      failure = error;
+    }
+
+    this.runningCount--;
+    // Remove the entry before settling so requests made from the callbacks start fresh
+    if (entry.key !== null && this.inFlight.get(entry.key) === entry) {
+      this.inFlight.delete(entry.key);
+    }
+
+    for (const subscriber of entry.subscribers) {
+      if (subscriber.signal && subscriber.onAbort) {
+        subscriber.signal.removeEventListener("abort", subscriber.onAbort);
+      }
+      if (failed) {
+        subscriber.reject(failure);
+      } else {
+        subscriber.resolve(response as RequestUrlResponse);
+      }
+    }
+    entry.subscribers.clear();
+
+    this.pump();
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Service for finding and installing updates of installed plugins
+ * Keeps the updates found by the last check so the status bar and the update
+ * review can show them without checking again.
+ */
+
+import {
+  CommunityPlugin,
+  PluginManifest,
+  PluginStatsData,
+  PluginUpdate,
+  RequestOptions,
+  UpdateResult,
+} from "../types";
+import { getLatestStatsVersion } from "../utils";
+import { PluginService } from "./PluginService";
+import { InstallationService } from "./InstallationService";
+
+export class UpdateService {
+  private pluginService: PluginService;
+  private installationService: InstallationService;
+  private availableUpdates: PluginUpdate[] = []; // Updates found by the last check
+  private updatesListeners: Set<(updates: PluginUpdate[]) => void> = new Set();
+
+  /**
+   * Create a new UpdateService instance
+   * @param pluginService Service for fetching plugin data
+   * @param installationService Service for managing plugin installations
+   */
+  constructor(
+    pluginService: PluginService,
+    installationService: InstallationService,
+  ) {
+    this.pluginService = pluginService;
+    this.installationService = installationService;
+  }
+
+  /**
+   * Check every installed plugin against the newest release of its channel
+   * Only plugins listed by a registry (or sideloaded) can be checked. Pinned
+   * plugins are skipped, like in the detail view. The result replaces the
+   * available updates.
+   * @param options Request priority (default: "background"), a signal to cancel the requests,
+   *                and useStats to skip stable plugins the stats file lists no newer version for
+   * @returns Available updates, sorted by plugin name
+   */
+  async checkForUpdates(
+    options: RequestOptions & { useStats?: boolean } = {},
+  ): Promise<PluginUpdate[]> {
+    const { useStats, ...requestOptions } = options;
+    const [plugins, manifests] = await Promise.all([
+      this.pluginService.fetchCommunityPlugins(),
+      this.installationService.getInstalledManifests(),
+    ]);
+    const installedVersions = new Map(
+      manifests.map((manifest) => [manifest.id, manifest.version]),
+    );
+    const installed = plugins.filter((plugin) =>
+      installedVersions.has(plugin.id),
+    );
+
+    let stats: PluginStatsData | null = null;
+    if (useStats) {
+      try {
+        stats = await this.pluginService.fetchPluginStats();
+      } catch (error) {
+        console.warn("Failed to load stats for update detection:", error);
+      }
+    }
+
+    // The request scheduler limits how many of these run at once
+    const updates = await Promise.all(
+      installed.map(async (plugin) => {
+        if (stats && !(await this.mayHaveUpdate(plugin, stats))) {
+          return null;
+        }
+        return this.checkPlugin(
+          plugin,
+          installedVersions.get(plugin.id) ?? "",
+          requestOptions,
+        );
+      }),
+    );
+    if (requestOptions.signal?.aborted) {
+      return this.availableUpdates;
+    }
+    const result = updates
+      .filter((update): update is PluginUpdate => update !== null)
+      .sort((a, b) => a.plugin.name.localeCompare(b.plugin.name));
+    this.setAvailableUpdates(result);
+    return result;
+  }
+
+  /**
+   * Decide from the stats file whether a plugin needs a network check
+   * Only stable plugins the stats file knows are decided; everything else is checked.
+   * @param plugin The installed plugin
+   * @param stats Parsed community-plugin-stats.json
+   * @returns False if the stats file lists no version newer than the installed one
+   */
+  private async mayHaveUpdate(
+    plugin: CommunityPlugin,
+    stats: PluginStatsData,
+  ): Promise<boolean> {
+    if (this.installationService.getReleaseChannel(plugin.id) !== "stable") {
+      return true;
+    }
+    const statsVersion = getLatestStatsVersion(stats[plugin.id]);
+    if (!statsVersion) {
+      return true;
+    }
+    return this.installationService.hasUpdateAvailable(plugin.id, statsVersion);
+  }
+
+  /**
+   * Get the updates found by the last check
+   * @returns Available updates, sorted by plugin name
+   */
+  getAvailableUpdates(): PluginUpdate[] {
+    return [...this.availableUpdates];
+  }
+
+  /**
+   * Drop available updates that no longer apply
+   * Covers plugins updated, pinned, uninstalled or switched to another channel
+   * since the last check. Only reads installed manifests (no network requests).
+   * @returns The remaining available updates
+   */
+  async refreshAvailableUpdates(): Promise<PluginUpdate[]> {
+    const remaining: PluginUpdate[] = [];
+    for (const update of this.availableUpdates) {
+      if (
+        this.installationService.getReleaseChannel(update.plugin.id) ===
+          update.channel &&
+        (await this.installationService.hasUpdateAvailable(
+          update.plugin.id,
+          update.newVersion,
+        ))
+      ) {
+        remaining.push(update);
+      }
+    }
+    if (remaining.length !== this.availableUpdates.length) {
+      this.setAvailableUpdates(remaining);
+    }
+    return this.getAvailableUpdates();
+  }
+
+  /**
+   * Subscribe to changes of the available updates (e.g. to update the status bar)
+   * @param listener Called with the available updates after every change
+   * @returns Function that removes the listener
+   */
+  onUpdatesChange(listener: (updates: PluginUpdate[]) => void): () => void {
+    this.updatesListeners.add(listener);
+    return () => {
+      this.updatesListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace the available updates and notify listeners
+   * @param updates The available updates
+   */
+  private setAvailableUpdates(updates: PluginUpdate[]): void {
+    this.availableUpdates = updates;
+    for (const listener of this.updatesListeners) {
+      try {
+        listener(this.getAvailableUpdates());
+      } catch (error) {
+        console.warn("Plugin updates listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Check one installed plugin for an update on its release channel
+   * When the channel's release needs a newer Obsidian, the newest compatible
+   * release from the plugin's versions.json is offered instead.
+   * @param plugin The installed plugin
+   * @param currentVersion Version in the installed manifest.json
+   * @param options Request priority and a signal to cancel the requests
+   * @returns The available update, or null if the plugin is up to date, pinned or couldn't be checked
+   */
+  async checkPlugin(
+    plugin: CommunityPlugin,
+    currentVersion: string,
+    options: RequestOptions = {},
+  ): Promise<PluginUpdate | null> {
+    try {
+      if (!currentVersion) {
+        return null;
+      }
+
+      const channel = this.installationService.getReleaseChannel(plugin.id);
+      let tag: string;
+      let manifest: PluginManifest;
+      if (channel === "beta") {
+        const betaRelease = await this.pluginService.resolveBetaRelease(
+          plugin,
+          options,
+        );
+        if (!betaRelease) return null;
+        ({ tag, manifest } = betaRelease);
+      } else {
+        const resolution = await this.pluginService.resolvePluginManifest(
+          plugin,
+          options,
+        );
+        if (!resolution) return null;
+        manifest = resolution.manifest;
+        tag = manifest.version;
+      }
+
+      if (manifest.id !== plugin.id) {
+        console.warn(
+          `Skipping update check for ${plugin.id}: the release belongs to "${manifest.id}"`,
+        );
+        return null;
+      }
+      // A release that needs a newer Obsidian would fail to install; offer the
+      // newest release that runs on this version instead, if it's still an update
+      if (!this.installationService.checkCompatibility(manifest)) {
+        const compatible = await this.pluginService.findCompatibleRelease(
+          plugin,
+          this.installationService.getAppVersion(),
+          options,
+        );
+        if (!compatible) return null;
+        ({ tag, manifest } = compatible);
+      }
+      if (
+        !(await this.installationService.hasUpdateAvailable(
+          plugin.id,
+          manifest.version,
+        ))
+      ) {
+        return null;
+      }
+
+      return {
+        plugin,
+        currentVersion,
+        newVersion: manifest.version,
+        tag,
+        manifest,
+        channel,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (errorMessage !== "Request cancelled") {
+        console.warn(`Failed to check ${plugin.id} for updates:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Install updates one after another
+   * Failures don't stop the remaining updates; they're reported in the results.
+   * Installed updates are removed from the available updates.
+   * @param updates Updates to install
+   * @param onProgress Called before each update and once more when all are done (optional)
+   * @returns Installation status of each update, in order
+   */
+  async installUpdates(
+    updates: PluginUpdate[],
+    onProgress?: (completed: number, current: PluginUpdate | null) => void,
+  ): Promise<UpdateResult[]> {
+    const results: UpdateResult[] = [];
+    for (const update of updates) {
+      onProgress?.(results.length, update);
+      const status = await this.installationService.installPlugin(
+        update.plugin.repo,
+        update.tag,
+        update.manifest,
+        { silent: true },
+      );
+      results.push({ update, success: status.success, error: status.error });
+    }
+    onProgress?.(results.length, null);
+
+    const installed = new Set(
+      results
+        .filter((result) => result.success)
+        .map((result) => result.update.plugin.id),
+    );
+    if (installed.size > 0) {
+      this.setAvailableUpdates(
+        this.availableUpdates.filter(
+          (update) => !installed.has(update.plugin.id),
+        ),
+      );
+    }
+    return results;
+  }
+}
@@ -7,8 +7,15 @@ import {
   Setting,
 } from "obsidian";
 import CommunityPluginBrowserPlugin from "../main";
-import { ViewLocation } from "../types";
-import { showSuccess } from "../utils";
+import { GitHubRateLimit, RegistrySource, ViewLocation } from "../types";
+import {
+  formatRateLimit,
+  showError,
+  showSuccess,
+  createRegistrySourceId,
+  isValidRegistryUrl,
+} from "../utils";
+import { PLUGIN_CONFIG } from "../config";
 import { VIEW_TYPE_PLUGIN_LIST } from "../views/PluginListView";
 import { PluginListView } from "../views/PluginListView";
 
@@ -137,13 +144,106 @@ export class PluginSettingTab extends ObsidianPluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName("Daily Update Notice")
+      .setDesc(
+        "Show a notice when installed plugins have updates, at most once a day. " +
+          "The status bar always shows the number of available updates.",
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.updateNoticeEnabled ?? false)
+          .onChange(async (value) => {
+            this.plugin.settings.updateNoticeEnabled = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    const defaultRetention = PLUGIN_CONFIG.constants.defaultBackupRetention;
+    new Setting(containerEl)
+      .setName("Backups to Keep")
+      .setDesc(
+        "Before a plugin is updated or reinstalled, its folder (including its settings) is backed up " +
+          "so the plugin details can revert to the previous version. " +
+          "Number of backups kept per plugin; 0 disables backups. " +
+          `Default: ${defaultRetention}`,
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(String(defaultRetention))
+          .setValue(
+            String(this.plugin.settings.backupRetention ?? defaultRetention),
+          )
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            // Validate: must be a valid number between 0 and 20
+            if (!isNaN(numValue) && numValue >= 0 && numValue <= 20) {
+              await this.plugin.setBackupRetention(numValue);
+            } else if (value !== "") {
+              // Invalid input - reset to current value if not empty
+              text.setValue(
+                String(
+                  this.plugin.settings.backupRetention ?? defaultRetention,
+                ),
+              );
+            }
+          });
+      });
+
+    this.displayGitHubSettings(containerEl);
+
+    this.displayRegistrySources(containerEl);
+
+    this.displaySideloadedPlugins(containerEl);
+
+    // Compatibility section
+    containerEl.createEl("h3", { text: "Compatibility" });
+
+    const { fetched, total: totalManifests } =
+      this.plugin.manifestPrefetchService.getProgress();
+    new Setting(containerEl)
+      .setName("Prefetch Plugin Manifests")
+      .setDesc(
+        "Download plugin manifests in the background, so the plugin browser can show which plugins " +
+          "need a newer Obsidian version or only run on desktop before you open them. " +
+          "This downloads a manifest for every plugin in the registry, about two per second, and again every three days. " +
+          `Fetched so far: ${fetched}${totalManifests > 0 ? ` of ${totalManifests}` : ""} plugins.`,
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.manifestPrefetchEnabled ?? false)
+          .onChange(async (value) => {
+            await this.plugin.setManifestPrefetchEnabled(value);
+          });
+      });
+
+    // README search section
+    containerEl.createEl("h3", { text: "README Search" });
+
+    const { indexed, total } = this.plugin.readmeIndexService.getProgress();
+    new Setting(containerEl)
+      .setName("Index Plugin READMEs")
+      .setDesc(
+        "Download plugin READMEs slowly in the background and build a local search index, " +
+          "so the plugin browser can find plugins by features mentioned only in their README. " +
+          `Indexed so far: ${indexed}${total > 0 ? ` of ${total}` : ""} plugins.`,
+      )
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.readmeIndexEnabled ?? false)
+          .onChange(async (value) => {
+            await this.plugin.setReadmeIndexEnabled(value);
+          });
+      });
+
     // Cache management section
     containerEl.createEl("h3", { text: "Cache Management" });
 
     new Setting(containerEl)
       .setName("Clear Cache")
       .setDesc(
-        "Clear all cached plugin data, stats, and release information. " +
+        "Clear all cached plugin data, stats, and release information, " +
+          "including the copy saved to disk and the README search index. " +
           "This will immediately refresh all data. " +
           "Use this if you're experiencing issues with outdated or corrupted cache.",
       )
@@ -154,6 +254,8 @@ export class PluginSettingTab extends ObsidianPluginSettingTab {
           .onClick(async () => {
             // Clear cache
             this.plugin.pluginService.clearCache();
+            await this.plugin.readmeIndexService.clear();
+            await this.plugin.manifestPrefetchService.clear();
 
             // Refresh data immediately in background
             (async () => {
@@ -184,4 +286,219 @@ export class PluginSettingTab extends ObsidianPluginSettingTab {
           });
       });
   }
+
+  /**
+   * Render the GitHub API section
+   * Lets the user set and validate a personal access token and shows the
+   * remaining API quota
+   * @param containerEl The settings container element
+   */
+  private displayGitHubSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "GitHub API" });
+
+    let token = this.plugin.loadGitHubToken() ?? "";
+    new Setting(containerEl)
+      .setName("Personal Access Token")
+      .setDesc(
+        "Optional. Release dates are fetched from the GitHub API, which allows " +
+          "60 requests per hour without a token and 5,000 with one. " +
+          "A token without any extra permissions is enough. " +
+          "The token is stored in this device's local storage, not in the synced plugin settings.",
+      )
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.inputEl.autocomplete = "off";
+        text
+          .setPlaceholder("github_pat_...")
+          .setValue(token)
+          .onChange((value) => {
+            token = value.trim();
+            this.plugin.setGitHubToken(token);
+          });
+      })
+      .addButton((button) => {
+        button.setButtonText("Validate").onClick(async () => {
+          button.setDisabled(true);
+          const result = await this.plugin.pluginService.validateGitHubToken(
+            token || null,
+          );
+          button.setDisabled(false);
+          if (!result.valid) {
+            showError(`GitHub token check failed: ${result.error}`);
+          } else if (token) {
+            showSuccess("GitHub token is valid.");
+          } else {
+            showSuccess(
+              "No token set. GitHub API requests are unauthenticated.",
+            );
+          }
+          updateQuota(result.rateLimit);
+        });
+      });
+
+    const quotaSetting = new Setting(containerEl).setName("API Quota");
+    const updateQuota = (rateLimit: GitHubRateLimit | null) => {
+      quotaSetting.setDesc(
+        rateLimit
+          ? formatRateLimit(rateLimit)
+          : "Unknown until the next GitHub API request. Click Validate to check now.",
+      );
+    };
+    updateQuota(this.plugin.pluginService.getGitHubRateLimit());
+  }
+
+  /**
+   * Render the registry sources section
+   * Lists sources in priority order with controls to enable, reorder and remove
+   * them, followed by a form to add a new source
+   * @param containerEl The settings container element
+   */
+  private displayRegistrySources(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Registry Sources" });
+    containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        "Additional plugin registries using the community-plugins.json format, " +
+        "e.g. a self-hosted list of internal plugins. When several sources list " +
+        "the same plugin ID, the source higher in this list wins.",
+    });
+
+    const sources = this.plugin.pluginService.getRegistrySources();
+    const officialId = PLUGIN_CONFIG.constants.officialRegistrySourceId;
+    const saveSources = async (updated: RegistrySource[]) => {
+      await this.plugin.setRegistrySources(updated);
+      this.display();
+    };
+    const moveSource = async (index: number, offset: number) => {
+      const updated = [...sources];
+      const [moved] = updated.splice(index, 1);
+      updated.splice(index + offset, 0, moved);
+      await saveSources(updated);
+    };
+
+    sources.forEach((source, index) => {
+      const setting = new Setting(containerEl)
+        .setName(source.name)
+        .setDesc(source.url);
+
+      if (source.id !== officialId) {
+        setting.addToggle((toggle) => {
+          toggle.setValue(source.enabled).onChange(async (value) => {
+            await saveSources(
+              sources.map((s) =>
+                s.id === source.id ? { ...s, enabled: value } : s,
+              ),
+            );
+          });
+        });
+      }
+      setting.addExtraButton((button) => {
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Higher priority")
+          .setDisabled(index === 0)
+          .onClick(() => moveSource(index, -1));
+      });
+      setting.addExtraButton((button) => {
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Lower priority")
+          .setDisabled(index === sources.length - 1)
+          .onClick(() => moveSource(index, 1));
+      });
+      if (source.id !== officialId) {
+        setting.addExtraButton((button) => {
+          button
+            .setIcon("trash")
+            .setTooltip("Remove source")
+            .onClick(() =>
+              saveSources(sources.filter((s) => s.id !== source.id)),
+            );
+        });
+      }
+    });
+
+    let newName = "";
+    let newUrl = "";
+    new Setting(containerEl)
+      .setName("Add Source")
+      .setDesc(
+        "Name and URL of a JSON file in the community-plugins.json format",
+      )
+      .addText((text) => {
+        text.setPlaceholder("Name").onChange((value) => {
+          newName = value.trim();
+        });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder("https://example.com/plugins.json")
+          .onChange((value) => {
+            newUrl = value.trim();
+          });
+      })
+      .addButton((button) => {
+        button.setButtonText("Add").onClick(async () => {
+          if (!isValidRegistryUrl(newUrl)) {
+            showError("Enter a valid http(s) URL for the registry source.");
+            return;
+          }
+          if (sources.some((s) => s.url === newUrl)) {
+            showError("This registry source has already been added.");
+            return;
+          }
+          const name = newName || new URL(newUrl).hostname;
+          await saveSources([
+            ...sources,
+            {
+              id: createRegistrySourceId(name),
+              name,
+              url: newUrl,
+              enabled: true,
+            },
+          ]);
+          showSuccess(`Added registry source "${name}".`);
+        });
+      });
+  }
+
+  /**
+   * Render the sideloaded plugins section
+   * Lists plugins installed from repositories outside the registries with a
+   * button to stop tracking each one
+   * @param containerEl The settings container element
+   */
+  private displaySideloadedPlugins(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Sideloaded Plugins" });
+    containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        'Plugins installed with the "Install plugin from GitHub repository" command. ' +
+        "They are listed in the browser and checked for updates from their repository.",
+    });
+
+    const sideloaded = this.plugin.pluginService.getSideloadedPlugins();
+    if (sideloaded.length === 0) {
+      containerEl.createEl("p", {
+        cls: "setting-item-description",
+        text: "No sideloaded plugins.",
+      });
+      return;
+    }
+
+    for (const plugin of sideloaded) {
+      new Setting(containerEl)
+        .setName(plugin.name)
+        .setDesc(plugin.repo)
+        .addExtraButton((button) => {
+          button
+            .setIcon("trash")
+            .setTooltip("Stop tracking (the plugin stays installed)")
+            .onClick(async () => {
+              await this.plugin.removeSideloadedPlugin(plugin.id);
+              this.display();
+            });
+        });
+    }
+  }
 }
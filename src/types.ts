@@ -13,6 +13,26 @@ export interface CommunityPlugin {
   repo: string;
   branch?: string;
   isDesktopOnly?: boolean;
+  source?: string; // ID of the registry source this entry came from (set when additional sources are configured)
+}
+
+/**
+ * A plugin registry using the community-plugins.json format
+ * Sources are kept in priority order: when several list the same plugin ID, the first wins
+ */
+export interface RegistrySource {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+}
+
+/**
+ * Release that works with the running Obsidian version, found through the plugin's versions.json
+ */
+export interface CompatibleRelease {
+  tag: string; // Release tag (the version, sometimes with a "v" prefix)
+  manifest: PluginManifest; // The release's own manifest
 }
 
 /**
@@ -38,6 +58,66 @@ export interface PluginInfo extends CommunityPlugin {
   readme?: string;
   installed?: boolean;
   installedVersion?: string;
+  registryStatus?: PluginRegistryStatus; // Removal/deprecation status from the official registry
+  manifestSource?: ManifestSource; // Where the manifest was read from
+  branchManifestVersion?: string; // Version on the default branch, set only when it differs from the release
+}
+
+/**
+ * Where a plugin manifest was read from
+ * "release" is the manifest.json asset of the latest release, "branch" the file on the
+ * repository branch (used when there is no release manifest), "cache" the last fetched copy
+ */
+export type ManifestSource = "release" | "branch" | "cache";
+
+/**
+ * A published GitHub release of a plugin
+ */
+export interface PluginRelease {
+  tagName: string;
+  name: string; // Release title (falls back to the tag)
+  publishedAt: string | null; // ISO date
+  body: string; // Release notes (markdown, may be empty)
+  prerelease: boolean;
+  htmlUrl: string; // Release page on GitHub
+  assetNames: string[]; // Names of the attached files
+}
+
+/**
+ * Result of resolving a plugin's manifest
+ */
+export interface ManifestResolution {
+  manifest: PluginManifest;
+  source: ManifestSource;
+  branchVersion?: string; // Version on the branch, set only when it differs from the release
+}
+
+/**
+ * Entry from community-plugins-removed.json
+ */
+export interface RemovedPlugin {
+  id: string;
+  name?: string;
+  author?: string;
+  reason?: string;
+}
+
+/**
+ * Removal and deprecation lists published alongside community-plugins.json
+ */
+export interface RegistryStatusData {
+  removed: Record<string, RemovedPlugin>; // Plugin ID -> removal entry
+  deprecations: Record<string, string[]>; // Plugin ID -> deprecated versions
+}
+
+/**
+ * Registry status of a single plugin
+ */
+export interface PluginRegistryStatus {
+  removed: boolean;
+  removalReason?: string;
+  deprecatedVersions: string[];
+  installedVersionDeprecated: boolean; // True if the given installed version is in deprecatedVersions
 }
 
 /**
@@ -58,9 +138,51 @@ export type DisplayMode = "grid" | "list";
  * Search filter options
  */
 export interface SearchFilters {
-  query: string;
+  query: string; // Raw search bar input, including qualifiers
   showInstalledOnly: boolean;
   updatedAfter?: Date; // Filter plugins updated after this date
+  text?: string; // Free-text part of the query (qualifiers removed)
+  qualifiers?: QueryFilters; // Filters parsed from qualifiers in the query
+  searchReadme?: boolean; // Also match free text against the local README index
+  mobileCompatibleOnly?: boolean; // Hide plugins known to be desktop-only
+  compatibleOnly?: boolean; // Hide plugins known to need a newer Obsidian version
+}
+
+/**
+ * Inclusive numeric range used by qualifiers such as downloads:>1000
+ */
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Date range used by qualifiers such as updated:<90d
+ */
+export interface DateRange {
+  after?: Date;
+  before?: Date;
+}
+
+/**
+ * Filters parsed from search bar qualifiers (e.g. "author:name downloads:>1000")
+ */
+export interface QueryFilters {
+  author?: string;
+  id?: string;
+  downloads?: NumericRange;
+  updated?: DateRange;
+  desktopOnly?: boolean;
+  installed?: boolean;
+}
+
+/**
+ * Result of parsing a structured search query
+ */
+export interface ParsedQuery {
+  text: string; // Free-text terms and quoted phrases
+  qualifiers: QueryFilters;
+  errors: string[]; // Human-readable problems (unknown qualifiers, invalid values)
 }
 
 /**
@@ -78,9 +200,206 @@ export interface PluginSettings {
     query: string;
     showInstalledOnly: boolean;
     updatedAfter?: string; // ISO date string for serialization
+    searchReadme?: boolean;
+    mobileCompatibleOnly?: boolean;
+    compatibleOnly?: boolean;
   };
   paginationThreshold?: number; // Distance from bottom (in pixels) to trigger auto-loading (default: 200)
   dataRefreshIntervalMinutes?: number; // How often to refresh plugin data (default: 30 minutes = 2x/hour)
+  readmeIndexEnabled?: boolean; // Build the local README search index in the background (default: false)
+  manifestPrefetchEnabled?: boolean; // Fetch every plugin's manifest in the background for compatibility badges (default: false)
+  warnedRemovedPlugins?: string[]; // IDs of installed plugins the user was already warned were removed from the registry
+  registrySources?: RegistrySource[]; // Registries to merge, in priority order (includes the official registry)
+  pinnedVersions?: Record<string, string>; // Plugin ID -> version the user chose to stay on (no update prompts)
+  betaPlugins?: string[]; // IDs of plugins following the beta channel
+  sideloadedPlugins?: CommunityPlugin[]; // Plugins installed from repositories outside the registries
+  updateNoticeEnabled?: boolean; // Show a notice about available updates at most once a day (default: false)
+  lastUpdateNoticeAt?: number; // When the last update notice was shown (ms since epoch)
+  backupRetention?: number; // Backups kept per plugin before it's overwritten (0 disables backups)
+  installLedger?: Record<string, InstallLedgerEntry>; // Plugin ID -> hashes of the files the plugin browser installed
+}
+
+/**
+ * Release channel an installed plugin follows
+ * "stable" tracks the latest release, "beta" the newest pre-release or manifest-beta.json
+ */
+export type ReleaseChannel = "stable" | "beta";
+
+/**
+ * Hashes of a plugin's files, recorded when the plugin browser installed it
+ */
+export interface InstallLedgerEntry {
+  version: string; // Installed version
+  installedAt: number; // ms since epoch
+  files: Record<string, string>; // File name (main.js, styles.css) -> SHA-256 (hex)
+}
+
+/**
+ * Result of re-hashing an installed plugin's files
+ */
+export interface IntegrityReport {
+  pluginId: string;
+  version: string; // Version recorded at install time
+  installedVersion: string | null; // Version in the manifest.json on disk now
+  modifiedFiles: string[]; // Files whose hash changed since install
+  missingFiles: string[]; // Files recorded at install time that no longer exist
+}
+
+/**
+ * Kind of change recorded in the install history
+ */
+export type HistoryAction =
+  "install" | "update" | "downgrade" | "reinstall" | "uninstall";
+
+/**
+ * One entry of the install history ledger
+ */
+export interface HistoryEntry {
+  timestamp: number; // ms since epoch
+  action: HistoryAction;
+  pluginId: string;
+  fromVersion: string | null; // Installed version before the change (null if not installed)
+  toVersion: string | null; // Version after the change (null for uninstalls)
+  repo: string | null; // Source repository ("owner/name"), if known
+  success: boolean;
+  error?: string; // Why the change failed
+}
+
+/**
+ * Filter applied to the history view and its exports
+ */
+export interface HistoryFilter {
+  query: string; // Matches plugin ID, repository and versions
+  action: HistoryAction | "all";
+  outcome: "all" | "success" | "failure";
+}
+
+/**
+ * A copy of an installed plugin's folder, taken before it was overwritten
+ */
+export interface PluginBackup {
+  pluginId: string;
+  version: string; // Version that was installed when the backup was taken
+  createdAt: number; // ms since epoch
+  path: string; // Backup folder (relative to vault root)
+  files: string[]; // Backed-up files, relative to the plugin folder
+}
+
+/**
+ * An update available for an installed plugin on its release channel
+ */
+export interface PluginUpdate {
+  plugin: CommunityPlugin;
+  currentVersion: string; // Installed version
+  newVersion: string; // Version the update installs
+  tag: string; // Release tag to download from
+  manifest: PluginManifest; // Manifest of the new version
+  channel: ReleaseChannel;
+}
+
+/**
+ * Outcome of installing one update
+ */
+export interface UpdateResult {
+  update: PluginUpdate;
+  success: boolean;
+  error?: string; // Why the install failed
+}
+
+/**
+ * A repository checked for installation from the "Install from repository" dialog
+ */
+export interface SideloadCandidate {
+  plugin: CommunityPlugin; // Registry-style entry remembered for future updates
+  tag: string; // Tag of the repository's latest release
+  manifest: PluginManifest; // manifest.json of that release
+}
+
+/**
+ * An installed plugin listed in an exported plugin set
+ */
+export interface PluginSetEntry {
+  id: string;
+  name: string;
+  version: string; // Installed version when the set was exported
+  repo: string | null; // GitHub repository ("owner/name"), null if no registry lists the plugin
+  enabled: boolean; // Whether the plugin was enabled when the set was exported
+}
+
+/**
+ * Installed plugins exported to set up another vault the same way
+ */
+export interface PluginSet {
+  version: number; // Format version
+  exportedAt: string; // ISO date
+  plugins: PluginSetEntry[];
+}
+
+/**
+ * A plugin of an imported set, resolved for the import review
+ * "install" items carry the plugin entry, tag and manifest to install.
+ */
+export interface PluginSetImportItem {
+  entry: PluginSetEntry;
+  status: "install" | "present" | "unavailable";
+  plugin?: CommunityPlugin; // Registry entry, or a sideloaded entry built from the set's repository
+  sideloaded?: boolean; // No registry lists the plugin; remember it as sideloaded after install
+  tag?: string; // Release tag to download from
+  manifest?: PluginManifest; // manifest.json of that release
+  reason?: string; // Why an "unavailable" plugin can't be installed
+}
+
+/**
+ * Outcome of installing one plugin of an imported set
+ */
+export interface PluginSetImportResult {
+  item: PluginSetImportItem;
+  success: boolean;
+  enabled: boolean; // Whether the plugin was enabled after install
+  error?: string; // Why the install failed
+}
+
+/**
+ * A release resolved for a release channel
+ */
+export interface ChannelRelease {
+  tag: string; // Release tag to download from
+  manifest: PluginManifest; // The release's manifest.json
+}
+
+/**
+ * GitHub API quota as reported by the X-RateLimit-* response headers
+ */
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  reset: Date; // When the quota resets
+}
+
+/**
+ * Priority of a network request
+ * "user" requests (opened details, installs) run first and may use the GitHub API budget
+ * reserved for user actions; "visible" requests fill in what's on screen (cards, filters);
+ * "background" requests (prefetching, indexing) run last. Only "user" requests may use
+ * the reserved GitHub API budget.
+ */
+export type RequestPriority = "user" | "visible" | "background";
+
+/**
+ * Options for a request made through the request scheduler
+ */
+export interface RequestOptions {
+  priority?: RequestPriority; // Defaults to "background"
+  signal?: AbortSignal; // Cancels the request for this caller
+}
+
+/**
+ * Result of checking a GitHub personal access token
+ */
+export interface GitHubTokenValidation {
+  valid: boolean;
+  rateLimit: GitHubRateLimit | null;
+  error?: string;
 }
 
 /**
@@ -98,7 +417,8 @@ export interface ExtendedRequestUrlResponse {
 /**
  * Plugin sorting options
  */
-export type PluginSortOption = "name" | "author" | "updated" | "installed";
+export type PluginSortOption =
+  "relevance" | "name" | "author" | "updated" | "installed";
 
 /**
  * Plugin statistics from community-plugin-stats.json
@@ -118,6 +438,96 @@ export interface PluginStatsData {
   [pluginId: string]: PluginStats;
 }
 
+/**
+ * Cached release date entry as stored on disk
+ */
+export interface PersistedReleaseDate {
+  date: string | null; // ISO date string, or null when the plugin has no releases
+  timestamp: number;
+  etag: string | null;
+}
+
+/**
+ * Snapshot of PluginService caches persisted to the plugin's data folder
+ * Rehydrated on load so registry data and ETags survive restarts
+ */
+export interface PersistedCacheSnapshot {
+  version: number;
+  savedAt: number;
+  plugins: {
+    data: CommunityPlugin[];
+    timestamp: number;
+    etag: string | null;
+  } | null;
+  stats: {
+    data: PluginStatsData;
+    timestamp: number;
+    etag: string | null;
+  } | null;
+  releaseDates: Record<string, PersistedReleaseDate>;
+  manifests?: Record<string, PluginManifest>; // Last fetched manifest per plugin ID (for offline browsing)
+  readmes?: Record<string, string>; // Last fetched README per plugin ID (for offline browsing)
+  sources?: Record<
+    string,
+    { data: CommunityPlugin[]; timestamp: number; etag: string | null }
+  >; // Additional registry sources by source ID
+  registryStatus?: {
+    data: RegistryStatusData;
+    timestamp: number;
+    removedETag: string | null;
+    deprecationsETag: string | null;
+  } | null;
+  releases?: Record<
+    string,
+    { data: PluginRelease[]; timestamp: number; etag: string | null }
+  >; // Release history per plugin ID
+}
+
+/**
+ * README index entry for a single plugin
+ */
+export interface ReadmeIndexDocument {
+  indexedAt: number; // When the README was last fetched (ms), also set when no README exists
+  excerpt: string; // Plain-text start of the README, used for snippets
+}
+
+/**
+ * README full-text index as persisted to the plugin's cache folder
+ */
+export interface ReadmeIndexSnapshot {
+  version: number;
+  savedAt: number;
+  documents: Record<string, ReadmeIndexDocument>;
+  postings: Record<string, string[]>; // Term -> IDs of plugins whose README contains it
+}
+
+/**
+ * Manifest prefetch state as persisted to the plugin's cache folder
+ */
+export interface ManifestPrefetchSnapshot {
+  version: number;
+  savedAt: number;
+  fetchedAt: Record<string, number>; // Plugin ID -> last fetch attempt (ms since epoch)
+}
+
+/**
+ * Prefetched plugin manifests as persisted to the plugin's cache folder
+ * Kept apart from the registry cache so prefetching doesn't rewrite it.
+ */
+export interface PrefetchedManifestsSnapshot {
+  version: number;
+  savedAt: number;
+  manifests: Record<string, PluginManifest>; // Plugin ID -> prefetched manifest
+}
+
+/**
+ * Plugin matching a README search
+ */
+export interface ReadmeSearchResult {
+  pluginId: string;
+  score: number; // Sum of inverse document frequencies of the matched terms
+}
+
 /**
  * Configuration constants
  */
@@ -125,6 +535,8 @@ export interface PluginConfig {
   urls: {
     communityPlugins: string;
     communityPluginStats: string;
+    communityPluginDeprecations: string;
+    communityPluginsRemoved: string;
     githubApi: string;
     githubRaw: string;
     githubReleases: string;
@@ -134,14 +546,34 @@ export interface PluginConfig {
     errorCacheDuration: number;
     backgroundRefreshInterval: number;
     viewInitializationDelay: number;
-    batchSize: number;
-    batchDelay: number;
     debounceDelay: number;
     statusCheckBatchSize: number;
     pluginsPerPage: number;
-    releaseInfoBatchSize: number;
-    releaseInfoBatchDelay: number;
+    maxConcurrentRequests: number;
+    defaultBranchRef: string;
+    releasesPerPage: number;
     rateLimitErrorDebounceMs: number;
+    cachePersistDelay: number;
+    connectivityCheckInterval: number;
+    readmeIndexDelay: number;
+    readmeIndexIdleDelay: number;
+    readmeIndexMaxAge: number;
+    readmeIndexPersistInterval: number;
+    readmeIndexExcerptLength: number;
+    maxCompatibleReleaseAttempts: number;
+    manifestPrefetchDelay: number;
+    manifestPrefetchIdleDelay: number;
+    manifestPrefetchMaxAge: number;
+    manifestPrefetchPersistEvery: number;
+    manifestPrefetchRefreshDelay: number;
+    officialRegistrySourceId: string;
+    sideloadedSourceId: string;
+    updateNoticeInterval: number;
+    defaultBackupRetention: number;
+    maxReleaseFileSizes: Record<string, number>;
+    githubTokenStorageKey: string;
+    rateLimitReserveFraction: number;
+    rateLimitFallbackPause: number;
     retry: {
       maxRetries: number;
       initialDelay: number;
@@ -3,9 +3,45 @@
  */
 
 import { Notice, WorkspaceLeaf } from "obsidian";
-import { CommunityPlugin, PluginInfo } from "./types";
+import {
+  CommunityPlugin,
+  GitHubRateLimit,
+  PluginInfo,
+  PluginStats,
+} from "./types";
 import { PLUGIN_CONFIG } from "./config";
 export { debugLog, debugLogLabel } from "./utils/debug";
+export {
+  normalizeSearchText,
+  tokenizeSearchText,
+  levenshteinDistance,
+  rankPlugins,
+  findHighlightRanges,
+} from "./utils/search";
+export type { PluginSearchResult } from "./utils/search";
+export {
+  QUERY_QUALIFIERS,
+  parseSearchQuery,
+  matchesQueryFilters,
+  getQualifierSuggestions,
+  applyQualifierSuggestion,
+} from "./utils/queryParser";
+export type { QueryQualifierInfo } from "./utils/queryParser";
+export {
+  getOfficialRegistrySource,
+  isValidRegistryUrl,
+  createRegistrySourceId,
+  normalizeRegistrySources,
+  mergeRegistryPlugins,
+} from "./utils/registrySources";
+export { parseGitHubReleases, hasReleaseNotes } from "./utils/releases";
+export { sha256Hex, formatFileSize } from "./utils/integrity";
+export { parseHistory, filterHistory, historyToCsv } from "./utils/history";
+export {
+  PLUGIN_SET_VERSION,
+  parsePluginSet,
+  pluginSetToNote,
+} from "./utils/pluginSets";
 
 /**
  * Format a date string to a relative time (e.g., "2 hours ago")
@@ -62,6 +98,24 @@ export function showError(message: string): void {
   new Notice(`Error: ${message}`, 5000);
 }
 
+/**
+ * Show a warning notification
+ * Stays visible longer than success messages since it usually needs action
+ * @param message The warning message to display
+ */
+export function showWarning(message: string): void {
+  new Notice(`Warning: ${message}`, 10000);
+}
+
+/**
+ * Show an informational notification
+ * Stays visible long enough to read a pointer to a command
+ * @param message The message to display
+ */
+export function showInfo(message: string): void {
+  new Notice(message, 8000);
+}
+
 /**
  * Show a success notification
  * @param message The success message to display
@@ -178,6 +232,42 @@ export function showRateLimitError(
   showError(message);
 }
 
+/**
+ * Check if an error was caused by a network failure (no connection, DNS, timeout)
+ * rather than an HTTP error response from the server
+ * @param error The error to check
+ * @returns True if the error indicates the network is unreachable
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = (
+    error instanceof Error ? error.message : String(error)
+  ).toLowerCase();
+  return [
+    "net::",
+    "network",
+    "internet_disconnected",
+    "failed to fetch",
+    "getaddrinfo",
+    "enotfound",
+    "econnrefused",
+    "econnreset",
+    "etimedout",
+  ].some((indicator) => message.includes(indicator));
+}
+
+/**
+ * Build the banner text shown while browsing offline
+ * @param snapshotTimestamp Time (ms since epoch) the cached data was last synced, or null if none
+ * @returns Message describing the offline state and the age of the data shown
+ */
+export function getOfflineMessage(snapshotTimestamp: number | null): string {
+  if (!snapshotTimestamp) {
+    return "You're offline and no saved plugin data is available.";
+  }
+  const age = formatRelativeTime(new Date(snapshotTimestamp).toISOString());
+  return `You're offline. Showing plugin data saved ${age}. Installs and updates are unavailable until you reconnect.`;
+}
+
 /**
  * Debounce a function call
  * @param func The function to debounce
@@ -270,6 +360,24 @@ export function getGitHubReleaseUrl(
   return `https://github.com/${owner}/${name}/releases/download/${version}/${safeFilename}`;
 }
 
+/**
+ * Get the download URL of a file attached to a repository's latest release
+ * GitHub redirects this URL to the asset of the newest non-prerelease release,
+ * so it doesn't count against the GitHub API rate limit.
+ * @param repo Repository string in format "owner/name"
+ * @param filename Filename to download (e.g., "manifest.json")
+ * @returns GitHub latest release download URL
+ */
+export function getGitHubLatestReleaseUrl(
+  repo: string,
+  filename: string,
+): string {
+  const { owner, name } = parseRepo(repo);
+  // Validate filename to prevent directory traversal
+  const safeFilename = filename.replace(/\.\./g, "").replace(/\//g, "");
+  return `https://github.com/${owner}/${name}/releases/latest/download/${safeFilename}`;
+}
+
 /**
  * Check if a plugin is compatible with the current Obsidian version
  * @param minAppVersion Minimum required Obsidian version
@@ -292,6 +400,23 @@ export function isCompatible(
   return true; // Equal versions are compatible
 }
 
+/**
+ * Get the plugin versions listed in a versions.json that run on an Obsidian version
+ * versions.json maps each plugin version to the minimum Obsidian version it needs.
+ * @param versions Plugin version -> minimum Obsidian version
+ * @param appVersion The running Obsidian version
+ * @returns Compatible plugin versions, newest first
+ */
+export function getCompatibleVersions(
+  versions: Record<string, string>,
+  appVersion: string,
+): string[] {
+  return Object.entries(versions)
+    .filter(([, minAppVersion]) => isCompatible(minAppVersion, appVersion))
+    .map(([version]) => version)
+    .sort((a, b) => compareVersions(b, a));
+}
+
 /**
  * Type guard to check if plugin has full PluginInfo structure
  * @param plugin Plugin to check
@@ -419,6 +544,57 @@ export function getHeaderCaseInsensitive(
   return undefined;
 }
 
+/**
+ * Parse the GitHub API quota from X-RateLimit-* response headers
+ * @param headers Response headers
+ * @returns The quota, or null if the headers are missing or invalid
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, string> | undefined,
+): GitHubRateLimit | null {
+  const limit = parseInt(
+    getHeaderCaseInsensitive(headers, "x-ratelimit-limit") ?? "",
+    10,
+  );
+  const remaining = parseInt(
+    getHeaderCaseInsensitive(headers, "x-ratelimit-remaining") ?? "",
+    10,
+  );
+  const reset = parseInt(
+    getHeaderCaseInsensitive(headers, "x-ratelimit-reset") ?? "",
+    10,
+  );
+  if (isNaN(limit) || isNaN(remaining) || isNaN(reset)) {
+    return null;
+  }
+  return { limit, remaining, reset: new Date(reset * 1000) }; // Reset is a Unix timestamp in seconds
+}
+
+/**
+ * Format a GitHub API quota for display
+ * @param rateLimit The quota to format
+ * @returns A string like "4,990 of 5,000 requests left (resets at 14:05:00)"
+ */
+export function formatRateLimit(rateLimit: GitHubRateLimit): string {
+  return `${rateLimit.remaining.toLocaleString()} of ${rateLimit.limit.toLocaleString()} requests left (resets at ${rateLimit.reset.toLocaleTimeString()})`;
+}
+
+/**
+ * Format a remaining duration as a countdown
+ * @param ms Remaining time in milliseconds (negative values count as zero)
+ * @returns "m:ss" below an hour, otherwise "1h 05m"
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  }
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
 /**
  * Sanitize search query input
  * Removes potentially dangerous characters and trims whitespace
@@ -446,6 +622,17 @@ export function sanitizeSearchQuery(query: string): string {
     .slice(0, 500); // Limit length
 }
 
+/**
+ * Validate a plugin ID before it's used as a folder name
+ * IDs come from manifests of arbitrary repositories and imported plugin sets, so
+ * anything that could leave or hide in the plugins folder ("../x", "a/b", ".x") is rejected.
+ * @param id Plugin ID to validate
+ * @returns True if the ID only contains letters, digits, "-" and "_" and starts with a letter or digit
+ */
+export function isValidPluginId(id: string): boolean {
+  return typeof id === "string" && /^[a-z0-9][a-z0-9_-]*$/i.test(id);
+}
+
 /**
  * Validate repository string format
  * @param repo Repository string to validate
@@ -464,21 +651,42 @@ export function isValidRepoFormat(repo: string): boolean {
 }
 
 /**
- * Compare semantic versions
- * Handles pre-release versions and build metadata
- * @param version1 First version to compare
- * @param version2 Second version to compare
- * @returns Negative if version1 < version2, positive if version1 > version2, 0 if equal
+ * Parse a repository entered by the user
+ * Accepts "owner/repo" as well as GitHub URLs such as
+ * "https://github.com/owner/repo.git" or a link to a page inside the repository.
+ * @param input Text entered by the user
+ * @returns Repository in "owner/repo" format, or null if the input isn't a GitHub repository
  */
-export function compareVersions(version1: string, version2: string): number {
-  // Remove build metadata (everything after +)
-  const v1 = version1.split("+")[0];
-  const v2 = version2.split("+")[0];
+export function parseGitHubRepoInput(input: string): string | null {
+  if (!input || typeof input !== "string") {
+    return null;
+  }
+
+  let repo = input.trim();
+  const urlMatch = repo.match(
+    /^(?:https?:\/\/)?(?:www\.)?github\.com\/([^/?#\s]+)\/([^/?#\s]+)/i,
+  );
+  if (urlMatch) {
+    repo = `${urlMatch[1]}/${urlMatch[2]}`;
+  }
+  repo = repo.replace(/\.git$/i, "");
 
-  // Split into parts (handle pre-release versions)
-  const parts1 = v1.split(/[.-]/);
-  const parts2 = v2.split(/[.-]/);
+  if (!isValidRepoFormat(repo)) {
+    return null;
+  }
+  // GitHub owner and repository names only use these characters
+  return /^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/.test(repo) ? repo : null;
+}
 
+/**
+ * Compare dot-separated version identifiers
+ * Numeric identifiers compare numerically and sort before alphanumeric ones;
+ * when all shared identifiers are equal, the version with fewer identifiers is smaller.
+ * @param parts1 Identifiers of the first version
+ * @param parts2 Identifiers of the second version
+ * @returns Negative if parts1 < parts2, positive if parts1 > parts2, 0 if equal
+ */
+function compareVersionParts(parts1: string[], parts2: string[]): number {
   const maxLength = Math.max(parts1.length, parts2.length);
 
   for (let i = 0; i < maxLength; i++) {
@@ -489,18 +697,19 @@ export function compareVersions(version1: string, version2: string): number {
     if (part1 === undefined) return -1;
     if (part2 === undefined) return 1;
 
-    // Try to parse as numbers
-    const num1 = parseInt(part1, 10);
-    const num2 = parseInt(part2, 10);
+    const isNum1 = /^\d+$/.test(part1);
+    const isNum2 = /^\d+$/.test(part2);
 
-    // If both are numbers, compare numerically
-    if (!isNaN(num1) && !isNaN(num2)) {
-      if (num1 !== num2) {
-        return num1 - num2;
+    if (isNum1 && isNum2) {
+      // Both are numbers, compare numerically
+      const diff = parseInt(part1, 10) - parseInt(part2, 10);
+      if (diff !== 0) {
+        return diff;
       }
+    } else if (isNum1 !== isNum2) {
+      // Numeric identifiers have lower precedence than alphanumeric ones
+      return isNum1 ? -1 : 1;
     } else {
-      // If not numbers, compare as strings (for pre-release versions)
-      // Pre-release versions are considered smaller
       if (part1 < part2) return -1;
       if (part1 > part2) return 1;
     }
@@ -509,6 +718,66 @@ export function compareVersions(version1: string, version2: string): number {
   return 0;
 }
 
+/**
+ * Compare semantic versions
+ * Handles pre-release versions and build metadata: a pre-release sorts before
+ * its release (1.0.0-beta.2 < 1.0.0), as in semver precedence rules
+ * @param version1 First version to compare
+ * @param version2 Second version to compare
+ * @returns Negative if version1 < version2, positive if version1 > version2, 0 if equal
+ */
+export function compareVersions(version1: string, version2: string): number {
+  // Remove build metadata (everything after +)
+  const v1 = version1.split("+")[0];
+  const v2 = version2.split("+")[0];
+
+  // Separate the version core from the pre-release part (everything after the first -)
+  const dash1 = v1.indexOf("-");
+  const dash2 = v2.indexOf("-");
+  const core1 = dash1 === -1 ? v1 : v1.slice(0, dash1);
+  const core2 = dash2 === -1 ? v2 : v2.slice(0, dash2);
+  const pre1 = dash1 === -1 ? null : v1.slice(dash1 + 1);
+  const pre2 = dash2 === -1 ? null : v2.slice(dash2 + 1);
+
+  const coreDiff = compareVersionParts(core1.split("."), core2.split("."));
+  if (coreDiff !== 0) {
+    return coreDiff;
+  }
+
+  // Same version core: a release is greater than any of its pre-releases
+  if (pre1 === null || pre2 === null) {
+    if (pre1 === pre2) return 0;
+    return pre1 === null ? 1 : -1;
+  }
+  return compareVersionParts(pre1.split("."), pre2.split("."));
+}
+
+/**
+ * Get the newest stable version listed in a plugin's download statistics
+ * community-plugin-stats.json keys each release's download count by its version,
+ * next to "downloads" and "updated".
+ * @param stats The plugin's entry from the stats file
+ * @returns The highest version without a pre-release suffix, or null if none is listed
+ */
+export function getLatestStatsVersion(
+  stats: PluginStats | undefined,
+): string | null {
+  if (!stats) {
+    return null;
+  }
+  let latest: string | null = null;
+  for (const key of Object.keys(stats)) {
+    if (!/^v?\d+(\.\d+)*$/.test(key)) {
+      continue;
+    }
+    const version = key.replace(/^v/, "");
+    if (latest === null || compareVersions(version, latest) > 0) {
+      latest = version;
+    }
+  }
+  return latest;
+}
+
 /**
  * Options for retry logic
  */
@@ -602,6 +871,11 @@ export function shouldRetryHttpError(
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
 
+    // Don't retry requests the caller cancelled
+    if (message === "request cancelled") {
+      return false;
+    }
+
     // Don't retry on 4xx client errors (except 408 Request Timeout and 429 Too Many Requests)
     if (message.includes("400") || message.includes("bad request")) {
       return false;
@@ -0,0 +1,107 @@
+/**
+ * Helpers for the install history ledger
+ * Parses the JSON-lines history file, filters entries for the history view and
+ * converts them to CSV for export.
+ */
+
+import { HistoryAction, HistoryEntry, HistoryFilter } from "../types";
+
+const HISTORY_ACTIONS: HistoryAction[] = [
+  "install",
+  "update",
+  "downgrade",
+  "reinstall",
+  "uninstall",
+];
+
+/**
+ * Parse the history file
+ * Malformed lines (e.g. from an interrupted write or a sync conflict) are skipped.
+ * @param content History file content, one JSON entry per line
+ * @returns Entries, newest first
+ */
+export function parseHistory(content: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as HistoryEntry;
+      if (
+        typeof entry?.timestamp === "number" &&
+        typeof entry.pluginId === "string" &&
+        HISTORY_ACTIONS.includes(entry.action) &&
+        typeof entry.success === "boolean"
+      ) {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Filter history entries
+ * @param entries Entries to filter
+ * @param filter Text query, action and outcome to match
+ * @returns Matching entries in their original order
+ */
+export function filterHistory(
+  entries: HistoryEntry[],
+  filter: HistoryFilter,
+): HistoryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (filter.action !== "all" && entry.action !== filter.action) {
+      return false;
+    }
+    if (
+      filter.outcome !== "all" &&
+      entry.success !== (filter.outcome === "success")
+    ) {
+      return false;
+    }
+    if (!query) {
+      return true;
+    }
+    return [
+      entry.pluginId,
+      entry.repo,
+      entry.fromVersion,
+      entry.toVersion,
+    ].some((value) => value?.toLowerCase().includes(query));
+  });
+}
+
+/**
+ * Convert history entries to CSV
+ * @param entries Entries to export
+ * @returns CSV with a header row and ISO timestamps
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const escape = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = [
+    "timestamp,action,pluginId,fromVersion,toVersion,repo,outcome,error",
+  ];
+  for (const entry of entries) {
+    rows.push(
+      [
+        new Date(entry.timestamp).toISOString(),
+        entry.action,
+        entry.pluginId,
+        entry.fromVersion ?? "",
+        entry.toVersion ?? "",
+        entry.repo ?? "",
+        entry.success ? "success" : "failure",
+        entry.error ?? "",
+      ]
+        .map(escape)
+        .join(","),
+    );
+  }
+  return rows.join("\n") + "\n";
+}
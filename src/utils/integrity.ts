@@ -0,0 +1,36 @@
+/**
+ * Helpers for checking the integrity of plugin files
+ * Hashes downloaded and installed files so changes made after an install can
+ * be detected.
+ */
+
+/**
+ * Compute the SHA-256 hash of file contents
+ * @param data The file contents
+ * @returns The hash as a lowercase hex string
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Format a file size for messages
+ * @param bytes Size in bytes
+ * @returns Size with a unit (e.g., "512 B", "1.5 KB", "20 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB"];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+}
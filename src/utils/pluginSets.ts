@@ -0,0 +1,101 @@
+/**
+ * Helpers for plugin sets
+ * Parses exported plugin sets, from a JSON file or from the JSON block of a
+ * vault note, and renders a set as a note.
+ */
+
+import { PluginSet, PluginSetEntry } from "../types";
+
+/** Version of the plugin set format; bump when the structure changes */
+export const PLUGIN_SET_VERSION = 1;
+
+/**
+ * Parse a plugin set
+ * Entries without an ID or version are skipped, as are repeated IDs.
+ * @param content JSON file content, or a note containing the set in a ```json block
+ * @returns The plugin set
+ * @throws Error with a message for the user if the content isn't a plugin set
+ */
+export function parsePluginSet(content: string): PluginSet {
+  const trimmed = content.trim();
+  const json = trimmed.startsWith("{")
+    ? trimmed
+    : /```json[^\n]*\n([\s\S]*?)\n```/.exec(content)?.[1];
+  if (!json) {
+    throw new Error(
+      "No plugin set found. Expected JSON or a note with a json code block.",
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The plugin set is not valid JSON.");
+  }
+  const set = data as Partial<PluginSet> | null;
+  if (!set || typeof set !== "object" || !Array.isArray(set.plugins)) {
+    throw new Error("The file is not a plugin set.");
+  }
+  if (typeof set.version !== "number" || set.version > PLUGIN_SET_VERSION) {
+    throw new Error(
+      "The plugin set was exported by a newer version of the plugin browser.",
+    );
+  }
+
+  const seen = new Set<string>();
+  const plugins: PluginSetEntry[] = [];
+  for (const value of set.plugins as unknown[]) {
+    const entry = value as Partial<PluginSetEntry> | null;
+    if (
+      !entry ||
+      typeof entry.id !== "string" ||
+      !entry.id ||
+      typeof entry.version !== "string" ||
+      !entry.version ||
+      seen.has(entry.id)
+    ) {
+      continue;
+    }
+    seen.add(entry.id);
+    plugins.push({
+      id: entry.id,
+      name:
+        typeof entry.name === "string" && entry.name ? entry.name : entry.id,
+      version: entry.version,
+      repo: typeof entry.repo === "string" && entry.repo ? entry.repo : null,
+      enabled: entry.enabled === true,
+    });
+  }
+
+  return {
+    version: set.version,
+    exportedAt: typeof set.exportedAt === "string" ? set.exportedAt : "",
+    plugins,
+  };
+}
+
+/**
+ * Render a plugin set as a note
+ * The table is for reading; the json block is what gets imported.
+ * @param set The plugin set
+ * @returns Markdown note content
+ */
+export function pluginSetToNote(set: PluginSet): string {
+  const escape = (value: string) => value.replace(/\|/g, "\\|");
+  const lines = [
+    "# Plugin set",
+    "",
+    `Exported ${set.exportedAt}. Run "Import plugin set" in another vault to install these plugins.`,
+    "",
+    "| Plugin | Version | Enabled | Repository |",
+    "| --- | --- | --- | --- |",
+  ];
+  for (const entry of set.plugins) {
+    lines.push(
+      `| ${escape(entry.name)} | ${escape(entry.version)} | ${entry.enabled ? "Yes" : "No"} | ${entry.repo ? escape(entry.repo) : ""} |`,
+    );
+  }
+  lines.push("", "```json", JSON.stringify(set, null, 2), "```", "");
+  return lines.join("\n");
+}
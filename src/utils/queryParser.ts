@@ -0,0 +1,389 @@
+/**
+ * Structured search query parsing
+ * Supports qualifiers like `author:zsviczian downloads:>10000 updated:<90d`
+ * alongside free text and quoted phrases.
+ */
+
+import {
+  CommunityPlugin,
+  DateRange,
+  NumericRange,
+  ParsedQuery,
+  QueryFilters,
+} from "../types";
+import { getTypoTolerance, levenshteinDistance } from "./search";
+
+/**
+ * Description of a supported qualifier, used for autocomplete and error messages
+ */
+export interface QueryQualifierInfo {
+  name: string;
+  description: string;
+  example: string;
+}
+
+/**
+ * Qualifiers supported in the search bar
+ */
+export const QUERY_QUALIFIERS: QueryQualifierInfo[] = [
+  {
+    name: "author",
+    description: "Author name contains",
+    example: "author:zsviczian",
+  },
+  { name: "id", description: "Plugin ID contains", example: "id:dataview" },
+  {
+    name: "downloads",
+    description: "Download count",
+    example: "downloads:>10000",
+  },
+  {
+    name: "updated",
+    description: "Last release age or date",
+    example: "updated:<90d",
+  },
+  {
+    name: "desktop",
+    description: "Desktop-only plugins",
+    example: "desktop:false",
+  },
+  {
+    name: "installed",
+    description: "Installed in this vault",
+    example: "installed:true",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Number of days represented by each relative duration unit */
+const DURATION_UNITS: Record<string, number> = {
+  d: 1,
+  w: 7,
+  m: 30,
+  y: 365,
+};
+
+/** Multipliers for abbreviated numbers (e.g. 10k) */
+const NUMBER_SUFFIXES: Record<string, number> = {
+  "": 1,
+  k: 1000,
+  m: 1000000,
+};
+
+/**
+ * Split a comparison value such as ">=100" into operator and operand
+ * @param value The raw qualifier value
+ * @returns The operator ("=" if none was given) and the remaining value
+ */
+function splitComparison(value: string): { op: string; operand: string } {
+  const match = value.match(/^(>=|<=|>|<|=)?(.*)$/);
+  return { op: match?.[1] ?? "=", operand: match?.[2] ?? "" };
+}
+
+/**
+ * Parse a boolean qualifier value
+ * @param value The raw qualifier value
+ * @returns The boolean, or null if the value is not recognized
+ */
+function parseBoolean(value: string): boolean | null {
+  const lower = value.toLowerCase();
+  if (lower === "true" || lower === "yes") return true;
+  if (lower === "false" || lower === "no") return false;
+  return null;
+}
+
+/**
+ * Parse a numeric comparison such as ">10000", "<=5k" or "100"
+ * @param value The raw qualifier value
+ * @returns Inclusive range, or null if the value is invalid
+ */
+export function parseNumericRange(value: string): NumericRange | null {
+  const { op, operand } = splitComparison(value);
+  const match = operand.toLowerCase().match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) {
+    return null;
+  }
+  const number = Math.round(parseFloat(match[1]) * NUMBER_SUFFIXES[match[2]]);
+
+  switch (op) {
+    case ">":
+      return { min: number + 1 };
+    case ">=":
+      return { min: number };
+    case "<":
+      return { max: number - 1 };
+    case "<=":
+      return { max: number };
+    default:
+      return { min: number, max: number };
+  }
+}
+
+/**
+ * Parse a date comparison
+ * Relative durations compare the age of the last update: "<90d" means updated
+ * within the last 90 days, ">1y" means not updated for over a year.
+ * Absolute dates (YYYY-MM-DD) compare the date itself: ">2024-01-01" means
+ * updated after January 1st 2024.
+ * @param value The raw qualifier value
+ * @param now Reference time for relative durations (defaults to the current time)
+ * @returns Date range, or null if the value is invalid
+ */
+export function parseDateRange(
+  value: string,
+  now: number = Date.now(),
+): DateRange | null {
+  const { op, operand } = splitComparison(value);
+
+  const relative = operand.toLowerCase().match(/^(\d+)([dwmy])$/);
+  if (relative) {
+    const boundary = new Date(
+      now - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]] * DAY_MS,
+    );
+    // A larger age means an older date, so the operators are inverted
+    return op === ">" || op === ">="
+      ? { before: boundary }
+      : { after: boundary };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(operand)) {
+    const date = new Date(`${operand}T00:00:00Z`);
+    if (isNaN(date.getTime())) {
+      return null;
+    }
+    return op === "<" || op === "<=" ? { before: date } : { after: date };
+  }
+
+  return null;
+}
+
+/**
+ * Split a query into raw tokens, keeping quoted phrases and quoted qualifier values together
+ * @param query The query string
+ * @returns Array of tokens with quotes preserved
+ */
+function splitQueryTokens(query: string): string[] {
+  return query.match(/[^\s"]+:"[^"]*"?|"[^"]*"?|\S+/g) ?? [];
+}
+
+/**
+ * Find the qualifier a mistyped qualifier name was probably meant to be
+ * Names of three or more characters match qualifiers they start (e.g. "auth")
+ * or are a typo of (e.g. "autor"); shorter names never match.
+ * @param name Lowercase name typed before the colon
+ * @returns The intended qualifier name, or null if the name isn't close to one
+ */
+function findSimilarQualifier(name: string): string | null {
+  if (name.length < 3) {
+    return null;
+  }
+  const tolerance = getTypoTolerance(name.length);
+  const similar = QUERY_QUALIFIERS.find(
+    (qualifier) =>
+      qualifier.name.startsWith(name) ||
+      levenshteinDistance(name, qualifier.name, tolerance) <= tolerance,
+  );
+  return similar?.name ?? null;
+}
+
+/**
+ * Parse a search bar query into free text and qualifier filters
+ * Tokens like "todo:list" whose name isn't a qualifier are kept as free text;
+ * near misses of a qualifier name (e.g. "autor:") are also reported in `errors`.
+ * Invalid qualifier values are reported in `errors` and ignored.
+ * Tokens whose value is empty (e.g. "author:" while typing) are ignored silently.
+ * @param query The raw search query
+ * @param now Reference time for relative dates (defaults to the current time)
+ * @returns Parsed query with free text, qualifiers and errors
+ */
+export function parseSearchQuery(
+  query: string,
+  now: number = Date.now(),
+): ParsedQuery {
+  const textParts: string[] = [];
+  const qualifiers: QueryFilters = {};
+  const errors: string[] = [];
+
+  for (const token of splitQueryTokens(query)) {
+    const match = token.match(/^([a-zA-Z]+):(?!\/)(.*)$/);
+    if (!match) {
+      textParts.push(token.replace(/"/g, ""));
+      continue;
+    }
+
+    const name = match[1].toLowerCase();
+    const value = match[2].replace(/"/g, "").trim();
+    if (!QUERY_QUALIFIERS.some((qualifier) => qualifier.name === name)) {
+      const similar = findSimilarQualifier(name);
+      if (similar) {
+        errors.push(
+          `Unknown qualifier "${match[1]}:", searching for it as text. Did you mean "${similar}:"?`,
+        );
+      }
+      textParts.push(token.replace(/"/g, ""));
+      continue;
+    }
+    if (!value) {
+      continue;
+    }
+
+    switch (name) {
+      case "author":
+        qualifiers.author = value;
+        break;
+      case "id":
+        qualifiers.id = value;
+        break;
+      case "downloads": {
+        const range = parseNumericRange(value);
+        if (range) {
+          qualifiers.downloads = range;
+        } else {
+          errors.push(
+            `Invalid value for downloads: "${value}". Use a number like >10000 or <=5k`,
+          );
+        }
+        break;
+      }
+      case "updated": {
+        const range = parseDateRange(value, now);
+        if (range) {
+          qualifiers.updated = range;
+        } else {
+          errors.push(
+            `Invalid value for updated: "${value}". Use an age like <90d, >1y or a date like >2024-01-31`,
+          );
+        }
+        break;
+      }
+      case "desktop":
+      case "installed": {
+        const bool = parseBoolean(value);
+        if (bool === null) {
+          errors.push(
+            `Invalid value for ${name}: "${value}". Use true or false`,
+          );
+        } else if (name === "desktop") {
+          qualifiers.desktopOnly = bool;
+        } else {
+          qualifiers.installed = bool;
+        }
+        break;
+      }
+    }
+  }
+
+  return {
+    text: textParts.join(" ").replace(/\s+/g, " ").trim(),
+    qualifiers,
+    errors,
+  };
+}
+
+/**
+ * Check whether a plugin satisfies the parsed qualifier filters
+ * The installed qualifier is not checked here because it depends on view state
+ * @param plugin The plugin to check
+ * @param filters Qualifier filters from parseSearchQuery
+ * @param data Stats-derived data for the plugin (download count and last update date)
+ *             and whether its manifest is desktop-only, when known
+ * @returns True if the plugin matches all filters
+ */
+export function matchesQueryFilters(
+  plugin: CommunityPlugin,
+  filters: QueryFilters,
+  data: {
+    downloads?: number;
+    updated?: Date | null;
+    isDesktopOnly?: boolean;
+  } = {},
+): boolean {
+  if (
+    filters.author &&
+    !plugin.author.toLowerCase().includes(filters.author.toLowerCase())
+  ) {
+    return false;
+  }
+  if (
+    filters.id &&
+    !plugin.id.toLowerCase().includes(filters.id.toLowerCase())
+  ) {
+    return false;
+  }
+  if (
+    filters.desktopOnly !== undefined &&
+    (data.isDesktopOnly ?? plugin.isDesktopOnly ?? false) !==
+      filters.desktopOnly
+  ) {
+    return false;
+  }
+  if (filters.downloads) {
+    const downloads = data.downloads ?? 0;
+    const { min, max } = filters.downloads;
+    if (
+      (min !== undefined && downloads < min) ||
+      (max !== undefined && downloads > max)
+    ) {
+      return false;
+    }
+  }
+  if (filters.updated) {
+    const updated = data.updated;
+    if (!updated) {
+      return false; // Unknown update date can't satisfy a date filter
+    }
+    const { after, before } = filters.updated;
+    if ((after && updated < after) || (before && updated > before)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Get qualifier autocomplete suggestions for the word at the caret
+ * Suggests qualifier names when the caret is inside a word without a colon
+ * @param input The full search input value
+ * @param caret Caret position within the input
+ * @returns Matching qualifiers and the start index of the word being completed
+ */
+export function getQualifierSuggestions(
+  input: string,
+  caret: number,
+): { suggestions: QueryQualifierInfo[]; tokenStart: number } {
+  const before = input.slice(0, caret);
+  const tokenStart = before.search(/\S*$/);
+  const word = before.slice(tokenStart).toLowerCase();
+
+  if (!word || !/^[a-z]+$/.test(word)) {
+    return { suggestions: [], tokenStart };
+  }
+  return {
+    suggestions: QUERY_QUALIFIERS.filter(
+      (qualifier) => qualifier.name.startsWith(word) && qualifier.name !== word,
+    ),
+    tokenStart,
+  };
+}
+
+/**
+ * Replace the word at the caret with a qualifier name
+ * @param input The full search input value
+ * @param caret Caret position within the input
+ * @param qualifier The qualifier name to insert
+ * @returns The new input value and caret position (right after the colon)
+ */
+export function applyQualifierSuggestion(
+  input: string,
+  caret: number,
+  qualifier: string,
+): { value: string; caret: number } {
+  const { tokenStart } = getQualifierSuggestions(input, caret);
+  const wordEnd = caret + (input.slice(caret).match(/^\S*/)?.[0].length ?? 0);
+  const inserted = `${qualifier}:`;
+  return {
+    value: input.slice(0, tokenStart) + inserted + input.slice(wordEnd),
+    caret: tokenStart + inserted.length,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Helpers for combining plugin registries
+ * Additional registries use the same format as community-plugins.json and are
+ * merged with the official list in a user-defined priority order.
+ */
+
+import { CommunityPlugin, RegistrySource } from "../types";
+import { PLUGIN_CONFIG } from "../config";
+
+/**
+ * Get the built-in source for the official community plugin registry
+ * @returns The official registry source
+ */
+export function getOfficialRegistrySource(): RegistrySource {
+  return {
+    id: PLUGIN_CONFIG.constants.officialRegistrySourceId,
+    name: "Official",
+    url: PLUGIN_CONFIG.urls.communityPlugins,
+    enabled: true,
+  };
+}
+
+/**
+ * Check whether a URL can be used as a registry source
+ * @param url The URL to check
+ * @returns True for absolute http(s) URLs
+ */
+export function isValidRegistryUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === "https:" || parsed.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a unique ID for a new registry source
+ * IDs are never reused so caches of removed sources can't leak into new ones
+ * @param name Display name of the source
+ * @param now Timestamp used to make the ID unique (defaults to the current time)
+ * @returns A source ID such as "team-plugins-lx3k2a"
+ */
+export function createRegistrySourceId(
+  name: string,
+  now: number = Date.now(),
+): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "source"}-${now.toString(36)}`;
+}
+
+/**
+ * Clean up a list of registry sources loaded from settings
+ * Drops malformed or duplicate entries and makes sure the official registry is
+ * present exactly once, enabled and pointing at the official URL.
+ * @param sources Sources in priority order (may be missing the official registry)
+ * @returns Valid sources in priority order
+ */
+export function normalizeRegistrySources(
+  sources: RegistrySource[] | undefined,
+): RegistrySource[] {
+  const official = getOfficialRegistrySource();
+  const seen = new Set<string>();
+  const result: RegistrySource[] = [];
+
+  for (const source of sources ?? []) {
+    if (!source || typeof source.id !== "string" || seen.has(source.id)) {
+      continue;
+    }
+    if (source.id === official.id) {
+      result.push({ ...official, name: source.name || official.name });
+    } else if (
+      typeof source.url === "string" &&
+      isValidRegistryUrl(source.url)
+    ) {
+      result.push({
+        id: source.id,
+        name: source.name || source.url,
+        url: source.url.trim(),
+        enabled: source.enabled !== false,
+      });
+    } else {
+      continue;
+    }
+    seen.add(source.id);
+  }
+
+  if (!seen.has(official.id)) {
+    result.unshift(official);
+  }
+  return result;
+}
+
+/**
+ * Merge plugin lists from several registries
+ * When a plugin ID appears in more than one list, the entry from the first
+ * (highest priority) source wins. Each entry is tagged with its source ID.
+ * @param lists Plugin lists with their source IDs, in priority order
+ * @returns Merged plugin list
+ */
+export function mergeRegistryPlugins(
+  lists: Array<{ sourceId: string; plugins: CommunityPlugin[] }>,
+): CommunityPlugin[] {
+  const seen = new Set<string>();
+  const merged: CommunityPlugin[] = [];
+  for (const { sourceId, plugins } of lists) {
+    for (const plugin of plugins) {
+      if (seen.has(plugin.id)) {
+        continue;
+      }
+      seen.add(plugin.id);
+      merged.push({ ...plugin, source: sourceId });
+    }
+  }
+  return merged;
+}
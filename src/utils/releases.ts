@@ -0,0 +1,61 @@
+/**
+ * Helpers for GitHub release data
+ * Converts the GitHub releases API response into the release entries shown in
+ * the detail view's version history.
+ */
+
+import { PluginRelease } from "../types";
+
+/**
+ * Convert a GitHub releases API response into release entries
+ * Drafts and malformed entries are skipped; the API's newest-first order is kept.
+ * @param data Parsed JSON from GET /repos/{owner}/{repo}/releases
+ * @returns Published releases, newest first
+ */
+export function parseGitHubReleases(data: unknown): PluginRelease[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  const releases: PluginRelease[] = [];
+  for (const entry of data) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const release = entry as Record<string, unknown>;
+    if (typeof release.tag_name !== "string" || release.draft === true) {
+      continue;
+    }
+
+    const assets = Array.isArray(release.assets) ? release.assets : [];
+    releases.push({
+      tagName: release.tag_name,
+      name:
+        typeof release.name === "string" && release.name.trim()
+          ? release.name.trim()
+          : release.tag_name,
+      publishedAt:
+        typeof release.published_at === "string" ? release.published_at : null,
+      body: typeof release.body === "string" ? release.body : "",
+      prerelease: release.prerelease === true,
+      htmlUrl: typeof release.html_url === "string" ? release.html_url : "",
+      assetNames: assets
+        .map((asset: unknown) =>
+          asset && typeof asset === "object"
+            ? (asset as Record<string, unknown>).name
+            : undefined,
+        )
+        .filter((name): name is string => typeof name === "string"),
+    });
+  }
+  return releases;
+}
+
+/**
+ * Check whether any release has release notes
+ * @param releases Releases to check
+ * @returns True if at least one release has a non-empty body
+ */
+export function hasReleaseNotes(releases: PluginRelease[]): boolean {
+  return releases.some((release) => release.body.trim().length > 0);
+}
@@ -0,0 +1,309 @@
+/**
+ * Ranked fuzzy search for community plugins
+ * Scores plugins by weighted field matches with typo tolerance and
+ * diacritic/Unicode normalization, and computes ranges for highlighting.
+ */
+
+import { CommunityPlugin } from "../types";
+
+/**
+ * Searchable plugin fields
+ */
+export type SearchField = "name" | "id" | "author" | "description";
+
+/**
+ * Relative weight of a match in each field (name and id matter most)
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  id: 8,
+  author: 4,
+  description: 2,
+};
+
+/**
+ * Quality multipliers for the different kinds of term matches
+ */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  substring: 0.6,
+  fuzzy: 0.4,
+};
+
+/**
+ * Result of scoring a plugin against a query
+ */
+export interface PluginSearchResult {
+  plugin: CommunityPlugin;
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Normalized text fragments that matched, used for highlighting */
+  highlightTerms: string[];
+}
+
+/**
+ * Normalize text for searching
+ * Removes diacritics (e.g., "é" -> "e"), applies Unicode compatibility
+ * normalization (e.g., full-width letters) and lowercases
+ * @param text Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Split text into normalized search tokens
+ * Tokens are runs of letters and numbers in any script
+ * @param text Text to tokenize
+ * @returns Array of normalized tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Number of typos tolerated for a search term of the given length
+ * Short terms must match exactly to avoid noisy results
+ * @param termLength Length of the search term
+ * @returns Maximum edit distance allowed
+ */
+export function getTypoTolerance(termLength: number): number {
+  if (termLength <= 3) return 0;
+  if (termLength <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ * Stops early once the distance is known to exceed maxDistance
+ * @param a First string
+ * @param b Second string
+ * @param maxDistance Optional upper bound; returns maxDistance + 1 when exceeded
+ * @returns Number of single-character edits needed to turn a into b
+ */
+export function levenshteinDistance(
+  a: string,
+  b: string,
+  maxDistance = Infinity,
+): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a single query term matches a field
+ * @param term Normalized query term
+ * @param fieldText Normalized field text
+ * @param fieldTokens Tokens of the field text
+ * @returns Match quality (0 if no match) and the matched fragment
+ */
+function matchTerm(
+  term: string,
+  fieldText: string,
+  fieldTokens: string[],
+): { quality: number; fragment: string | null } {
+  let best: { quality: number; fragment: string | null } = {
+    quality: 0,
+    fragment: null,
+  };
+  const tolerance = getTypoTolerance(term.length);
+
+  for (const token of fieldTokens) {
+    if (token === term) {
+      return { quality: MATCH_QUALITY.exact, fragment: token };
+    }
+    if (token.startsWith(term) && best.quality < MATCH_QUALITY.prefix) {
+      best = { quality: MATCH_QUALITY.prefix, fragment: term };
+    } else if (tolerance > 0 && best.quality < MATCH_QUALITY.fuzzy) {
+      // Compare against the whole token and against a same-length prefix
+      // so "excalidrw" matches "excalidraw" and "dataviw" matches "dataview"
+      const distance = Math.min(
+        levenshteinDistance(term, token, tolerance),
+        levenshteinDistance(term, token.slice(0, term.length), tolerance),
+      );
+      if (distance <= tolerance) {
+        best = {
+          quality: MATCH_QUALITY.fuzzy - distance * 0.1,
+          fragment: token,
+        };
+      }
+    }
+  }
+
+  if (
+    best.quality < MATCH_QUALITY.substring &&
+    term.length >= 2 &&
+    fieldText.includes(term)
+  ) {
+    best = { quality: MATCH_QUALITY.substring, fragment: term };
+  }
+
+  return best;
+}
+
+/**
+ * Score a plugin against a search query
+ * Every query term must match at least one field. Each term contributes the
+ * best weighted match across fields, with bonuses for whole-phrase matches
+ * on the plugin name.
+ * @param plugin The plugin to score
+ * @param query The raw search query
+ * @returns Search result with score and highlight terms, or null if the plugin doesn't match
+ */
+export function scorePlugin(
+  plugin: CommunityPlugin,
+  query: string,
+): PluginSearchResult | null {
+  const normalizedQuery = normalizeSearchText(query).trim();
+  const terms = tokenizeSearchText(query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const fields: Record<SearchField, string> = {
+    name: normalizeSearchText(plugin.name),
+    id: normalizeSearchText(plugin.id),
+    author: normalizeSearchText(plugin.author),
+    description: normalizeSearchText(plugin.description),
+  };
+  const fieldTokens = Object.fromEntries(
+    (Object.keys(fields) as SearchField[]).map((field) => [
+      field,
+      tokenizeSearchText(fields[field]),
+    ]),
+  ) as Record<SearchField, string[]>;
+
+  let score = 0;
+  const highlightTerms = new Set<string>();
+
+  for (const term of terms) {
+    let bestTermScore = 0;
+    for (const field of Object.keys(fields) as SearchField[]) {
+      const { quality, fragment } = matchTerm(
+        term,
+        fields[field],
+        fieldTokens[field],
+      );
+      if (quality > 0) {
+        bestTermScore = Math.max(bestTermScore, quality * FIELD_WEIGHTS[field]);
+        if (fragment) {
+          highlightTerms.add(fragment);
+        }
+      }
+    }
+    if (bestTermScore === 0) {
+      return null; // All terms must match
+    }
+    score += bestTermScore;
+  }
+
+  // Whole-phrase bonuses so exact name matches rank first
+  if (fields.name === normalizedQuery || fields.id === normalizedQuery) {
+    score += 20;
+  } else if (fields.name.startsWith(normalizedQuery)) {
+    score += 10;
+  } else if (fields.name.includes(normalizedQuery)) {
+    score += 5;
+  }
+
+  return { plugin, score, highlightTerms: [...highlightTerms] };
+}
+
+/**
+ * Search and rank plugins by relevance
+ * @param plugins Plugins to search
+ * @param query The raw search query
+ * @returns Matching plugins sorted by descending score (ties broken by name)
+ */
+export function rankPlugins(
+  plugins: CommunityPlugin[],
+  query: string,
+): PluginSearchResult[] {
+  const results: PluginSearchResult[] = [];
+  for (const plugin of plugins) {
+    const result = scorePlugin(plugin, query);
+    if (result) {
+      results.push(result);
+    }
+  }
+  return results.sort(
+    (a, b) => b.score - a.score || a.plugin.name.localeCompare(b.plugin.name),
+  );
+}
+
+/**
+ * Find ranges of the original text that match the given normalized terms
+ * Handles diacritics by mapping positions in the normalized text back to the original
+ * @param text Original (un-normalized) text
+ * @param terms Normalized terms to highlight
+ * @returns Sorted, non-overlapping [start, end) ranges in the original text
+ */
+export function findHighlightRanges(
+  text: string,
+  terms: string[],
+): Array<[number, number]> {
+  if (terms.length === 0 || !text) {
+    return [];
+  }
+
+  // Build normalized text with a map from normalized index to original range
+  let normalized = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const normalizedChar = normalizeSearchText(char);
+    for (let i = 0; i < normalizedChar.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    normalized += normalizedChar;
+    index += char.length;
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    if (!term) continue;
+    let from = normalized.indexOf(term);
+    while (from !== -1) {
+      ranges.push([starts[from], ends[from + term.length - 1]]);
+      from = normalized.indexOf(term, from + term.length);
+    }
+  }
+
+  // Merge overlapping ranges
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,285 @@
+/**
+ * Install From Repository Modal - installs a plugin from a GitHub repository
+ * that isn't listed in any registry
+ */
+
+import { App, Modal } from "obsidian";
+import { CommunityPlugin, SideloadCandidate } from "../types";
+import { PluginService } from "../services/PluginService";
+import { InstallationService } from "../services/InstallationService";
+import { parseGitHubRepoInput } from "../utils";
+
+export class InstallFromRepositoryModal extends Modal {
+  private pluginService: PluginService;
+  private installationService: InstallationService;
+  private onInstalled: (plugin: CommunityPlugin) => Promise<void>;
+  private inputEl: HTMLInputElement | null = null;
+  private checkButtonEl: HTMLButtonElement | null = null;
+  private messageEl: HTMLElement | null = null;
+  private resultEl: HTMLElement | null = null;
+  private candidate: SideloadCandidate | null = null;
+  private busy = false; // True while a repository is checked or installed
+  private abortController: AbortController | null = null; // Cancels the lookup when the modal closes
+
+  /**
+   * Create a new InstallFromRepositoryModal instance
+   * @param app The Obsidian app instance
+   * @param pluginService Service for looking up the repository's release
+   * @param installationService Service for installing the plugin
+   * @param onInstalled Called after a successful install to remember the plugin as sideloaded
+   */
+  constructor(
+    app: App,
+    pluginService: PluginService,
+    installationService: InstallationService,
+    onInstalled: (plugin: CommunityPlugin) => Promise<void>,
+  ) {
+    super(app);
+    this.pluginService = pluginService;
+    this.installationService = installationService;
+    this.onInstalled = onInstalled;
+  }
+
+  /**
+   * Render the repository input when the modal opens
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("install-from-repository-modal");
+    this.titleEl.setText("Install from repository");
+
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "Install a plugin from a GitHub repository that isn't listed in the plugin registry. The repository is remembered so updates are offered like for other plugins.",
+    });
+
+    const form = contentEl.createDiv("install-from-repository-form");
+    this.inputEl = form.createEl("input", {
+      type: "text",
+      cls: "install-from-repository-input",
+      attr: {
+        placeholder: "owner/repo or https://github.com/owner/repo",
+        "aria-label": "GitHub repository",
+        spellcheck: "false",
+      },
+    });
+    this.checkButtonEl = form.createEl("button", {
+      text: "Check",
+      attr: { type: "button" },
+    });
+
+    this.messageEl = contentEl.createDiv("install-from-repository-message");
+    this.messageEl.setAttribute("aria-live", "polite");
+    this.resultEl = contentEl.createDiv("install-from-repository-result");
+
+    this.inputEl.addEventListener("keydown", (evt: KeyboardEvent) => {
+      if (evt.key === "Enter") {
+        evt.preventDefault();
+        void this.checkRepository();
+      }
+    });
+    // A changed repository invalidates the checked release
+    this.inputEl.addEventListener("input", () => {
+      if (this.candidate && !this.busy) {
+        this.candidate = null;
+        this.resultEl?.empty();
+        this.setMessage("");
+      }
+    });
+    this.checkButtonEl.addEventListener("click", () => {
+      void this.checkRepository();
+    });
+
+    if (this.pluginService.isOffline()) {
+      this.setMessage(
+        "You're offline. Installing from a repository is unavailable until you reconnect.",
+        true,
+      );
+      this.checkButtonEl.setAttr("disabled", "true");
+    }
+    this.inputEl.focus();
+  }
+
+  /**
+   * Cancel a running lookup and clear the content when the modal closes
+   */
+  onClose(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+    this.candidate = null;
+    this.contentEl.empty();
+  }
+
+  /**
+   * Validate the entered repository and look up its latest release
+   * Shows the release's manifest for confirmation when it can be installed.
+   */
+  private async checkRepository(): Promise<void> {
+    if (this.busy || !this.inputEl) return;
+
+    const repo = parseGitHubRepoInput(this.inputEl.value);
+    if (!repo) {
+      this.setMessage(
+        "Enter a repository as owner/repo or as a GitHub URL.",
+        true,
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.candidate = null;
+    this.resultEl?.empty();
+    this.setBusy(true);
+    this.setMessage(`Checking the latest release of ${repo}...`);
+    try {
+      const candidate = await this.pluginService.findInstallableRelease(repo, {
+        priority: "user",
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      this.candidate = candidate;
+      this.setMessage("");
+      await this.renderCandidate(candidate);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.setMessage(`Cannot install from ${repo}: ${errorMessage}`, true);
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+      this.setBusy(false);
+    }
+  }
+
+  /**
+   * Render the manifest of the checked release with install and cancel buttons
+   * @param candidate The checked release
+   */
+  private async renderCandidate(candidate: SideloadCandidate): Promise<void> {
+    if (!this.resultEl) return;
+    const { manifest } = candidate;
+    const installedVersion = await this.installationService.getInstalledVersion(
+      manifest.id,
+    );
+    const resultEl = this.resultEl;
+    resultEl.empty();
+
+    resultEl.createEl("h3", { text: manifest.name });
+    if (manifest.description) {
+      resultEl.createEl("p", { text: manifest.description });
+    }
+
+    const details = resultEl.createDiv("plugin-detail-stats");
+    const addStat = (label: string, value: string) => {
+      const stat = details.createDiv("stat-item");
+      stat.createSpan({ text: `${label}: ` });
+      stat.createEl("strong", { text: value });
+    };
+    addStat("ID", manifest.id);
+    addStat("Version", manifest.version);
+    addStat("Release", candidate.tag);
+    addStat("Author", manifest.author || candidate.plugin.author);
+    addStat("Repository", candidate.plugin.repo);
+    if (manifest.minAppVersion) {
+      addStat("Requires Obsidian", `${manifest.minAppVersion}+`);
+    }
+    if (manifest.isDesktopOnly) {
+      addStat("Platform", "Desktop only");
+    }
+
+    if (installedVersion) {
+      const warning = resultEl.createDiv("install-from-repository-warning");
+      warning.setAttribute("role", "status");
+      warning.setText(
+        `Version ${installedVersion} of ${manifest.id} is already installed and will be replaced.`,
+      );
+    }
+
+    const actions = resultEl.createDiv("modal-button-container");
+    const installBtn = actions.createEl("button", {
+      cls: "mod-cta",
+      text: installedVersion ? "Replace" : "Install",
+      attr: {
+        "aria-label": `Install ${manifest.name} ${manifest.version} from ${candidate.plugin.repo}`,
+        type: "button",
+      },
+    });
+    const cancelBtn = actions.createEl("button", {
+      text: "Cancel",
+      attr: { type: "button" },
+    });
+    installBtn.addEventListener("click", () => {
+      void this.installCandidate(installBtn);
+    });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Install the confirmed release, remember the repository and enable the plugin
+   * @param installBtn The install button (disabled while installing)
+   */
+  private async installCandidate(installBtn: HTMLButtonElement): Promise<void> {
+    const candidate = this.candidate;
+    if (!candidate || this.busy) return;
+
+    this.setBusy(true);
+    installBtn.setAttr("disabled", "true");
+    installBtn.setText("Installing...");
+    try {
+      const result = await this.installationService.installPlugin(
+        candidate.plugin.repo,
+        candidate.tag,
+        candidate.manifest,
+      );
+      if (!result.success) {
+        installBtn.removeAttribute("disabled");
+        installBtn.setText("Install");
+        return;
+      }
+      await this.onInstalled(candidate.plugin);
+      await this.installationService.enablePlugin(candidate.plugin.id);
+      this.close();
+    } finally {
+      this.setBusy(false);
+    }
+  }
+
+  /**
+   * Show a message below the repository input
+   * @param message The message (empty to clear it)
+   * @param isError Whether the message reports a problem
+   */
+  private setMessage(message: string, isError = false): void {
+    if (!this.messageEl) return;
+    this.messageEl.setText(message);
+    this.messageEl.toggleClass("error-message", isError && !!message);
+    this.messageEl.setAttribute("role", isError ? "alert" : "status");
+  }
+
+  /**
+   * Disable the input while a repository is checked or installed
+   * @param busy Whether an operation is running
+   */
+  private setBusy(busy: boolean): void {
+    this.busy = busy;
+    const offline = this.pluginService.isOffline();
+    if (this.inputEl) {
+      this.inputEl.disabled = busy;
+    }
+    if (this.checkButtonEl) {
+      if (busy || offline) {
+        this.checkButtonEl.setAttr("disabled", "true");
+      } else {
+        this.checkButtonEl.removeAttribute("disabled");
+      }
+    }
+  }
+}
@@ -3,10 +3,26 @@
  */
 
 import { ItemView, WorkspaceLeaf, MarkdownRenderer, Component } from "obsidian";
-import { PluginInfo, CommunityPlugin } from "../types";
+import {
+  PluginInfo,
+  CommunityPlugin,
+  PluginRelease,
+  ChannelRelease,
+  PluginBackup,
+  ReleaseChannel,
+  CompatibleRelease,
+} from "../types";
 import { PluginService } from "../services/PluginService";
 import { InstallationService } from "../services/InstallationService";
-import { showSuccess, showError, isPluginInfo } from "../utils";
+import {
+  showSuccess,
+  showError,
+  isPluginInfo,
+  getOfflineMessage,
+  formatRelativeTime,
+  hasReleaseNotes,
+  compareVersions,
+} from "../utils";
 
 /**
  * View type identifier for the plugin detail view
@@ -22,6 +38,21 @@ export class PluginDetailView extends ItemView {
   private markdownContainer: HTMLElement | null = null;
   private markdownComponent: Component | null = null;
   private hasUpdateAvailable = false;
+  private betaRelease: ChannelRelease | null = null; // Newest beta release, resolved for plugins on the beta channel
+  private switchingChannel = false; // True while the release channel is being switched
+  private previousBackup: PluginBackup | null = null; // Newest backup taken before the installed version replaced it
+  private reverting = false; // True while the previous version is restored
+  private compatibleRelease: CompatibleRelease | null = null; // Newest release that works with this Obsidian, when the latest doesn't
+  // Version history (loaded when the Versions section is first expanded)
+  private versions: {
+    releases: PluginRelease[];
+    changelog: string | null;
+  } | null = null;
+  private versionsExpanded = false;
+  private versionsLoading = false;
+  private installingVersion = false; // True while a version picked in the Versions section is installed
+  private unsubscribeConnectivity: (() => void) | null = null;
+  private loadAbortController: AbortController | null = null; // Cancels requests of a superseded load
   // Track event listeners that need manual cleanup (debounced handlers)
   private trackedListeners: Array<{
     element: HTMLElement;
@@ -89,6 +120,11 @@ export class PluginDetailView extends ItemView {
         this.close();
       }
     });
+
+    // Re-render when switching between offline and online mode
+    this.unsubscribeConnectivity = this.pluginService.onConnectivityChange(
+      (offline) => this.handleConnectivityChange(offline),
+    );
   }
 
   /**
@@ -96,6 +132,18 @@ export class PluginDetailView extends ItemView {
    * Unloads markdown renderer components, removes tracked event listeners, and clears references
    */
   async onClose() {
+    // Cancel requests still queued for the displayed plugin
+    if (this.loadAbortController) {
+      this.loadAbortController.abort();
+      this.loadAbortController = null;
+    }
+
+    // Stop listening for connectivity changes
+    if (this.unsubscribeConnectivity) {
+      this.unsubscribeConnectivity();
+      this.unsubscribeConnectivity = null;
+    }
+
     // Remove tracked event listeners (debounced handlers)
     for (const { element, event, handler } of this.trackedListeners) {
       try {
@@ -117,6 +165,9 @@ export class PluginDetailView extends ItemView {
     }
     this.pluginInfo = null;
     this.hasUpdateAvailable = false;
+    this.betaRelease = null;
+    this.previousBackup = null;
+    this.resetVersions();
   }
 
   /**
@@ -127,6 +178,18 @@ export class PluginDetailView extends ItemView {
    * @throws Does not throw, but displays error message if loading fails
    */
   async loadPlugin(plugin: CommunityPlugin | PluginInfo): Promise<void> {
+    // Cancel the requests of a previous load that hasn't finished yet
+    if (this.loadAbortController) {
+      this.loadAbortController.abort();
+    }
+    const controller = new AbortController();
+    this.loadAbortController = controller;
+    this.resetVersions();
+    this.hasUpdateAvailable = false;
+    this.betaRelease = null;
+    this.previousBackup = null;
+    this.compatibleRelease = null;
+
     this.isLoading = true;
     this.renderLoading();
 
@@ -136,7 +199,14 @@ export class PluginDetailView extends ItemView {
       if (isPluginInfo(plugin)) {
         this.pluginInfo = plugin;
       } else {
-        this.pluginInfo = await this.pluginService.getPluginInfo(plugin);
+        const pluginInfo = await this.pluginService.getPluginInfo(
+          plugin,
+          controller.signal,
+        );
+        if (controller.signal.aborted) {
+          return; // Another plugin was opened in the meantime
+        }
+        this.pluginInfo = pluginInfo;
       }
 
       // Check if plugin is installed and if update is available
@@ -150,14 +220,63 @@ export class PluginDetailView extends ItemView {
             this.pluginInfo.id,
           );
           this.pluginInfo.installedVersion = version || undefined;
+          this.pluginInfo.registryStatus =
+            this.pluginService.getRegistryStatus(this.pluginInfo.id, version) ??
+            undefined;
 
-          // Check for updates if manifest is available
-          if (this.pluginInfo.manifest && version) {
-            this.hasUpdateAvailable =
-              await this.installationService.hasUpdateAvailable(
-                this.pluginInfo.id,
-                this.pluginInfo.manifest.version,
+          // Beta channel plugins are updated to the newest beta release
+          if (
+            version &&
+            this.installationService.getReleaseChannel(this.pluginInfo.id) ===
+              "beta"
+          ) {
+            this.betaRelease = await this.pluginService.resolveBetaRelease(
+              this.pluginInfo,
+              { priority: "user", signal: controller.signal },
+            );
+            if (controller.signal.aborted) {
+              return;
+            }
+          }
+
+          // An update that needs a newer Obsidian falls back to the newest compatible release
+          const channelRelease = this.getChannelRelease();
+          if (
+            version &&
+            channelRelease &&
+            !this.installationService.checkCompatibility(
+              channelRelease.manifest,
+            )
+          ) {
+            this.compatibleRelease =
+              await this.pluginService.findCompatibleRelease(
+                this.pluginInfo,
+                this.installationService.getAppVersion(),
+                { priority: "user", signal: controller.signal },
               );
+            if (controller.signal.aborted) {
+              return;
+            }
+          }
+
+          // Check for updates against the plugin's release channel
+          if (version) {
+            await this.refreshUpdateAvailable(this.pluginInfo);
+          }
+          await this.refreshPreviousBackup(this.pluginInfo);
+          if (controller.signal.aborted) {
+            return;
+          }
+        } else if (this.isLatestReleaseIncompatible()) {
+          // Offer the newest release that still supports this Obsidian version
+          this.compatibleRelease =
+            await this.pluginService.findCompatibleRelease(
+              this.pluginInfo,
+              this.installationService.getAppVersion(),
+              { priority: "user", signal: controller.signal },
+            );
+          if (controller.signal.aborted) {
+            return;
           }
         }
       }
@@ -169,7 +288,10 @@ export class PluginDetailView extends ItemView {
       this.renderError(`Failed to load plugin details: ${errorMessage}`);
       console.error("Error loading plugin details:", error);
     } finally {
-      this.isLoading = false;
+      if (this.loadAbortController === controller) {
+        this.loadAbortController = null;
+        this.isLoading = false;
+      }
     }
   }
 
@@ -206,22 +328,27 @@ export class PluginDetailView extends ItemView {
    * @param readmeText The markdown text to render
    * @throws Does not throw, but logs errors and falls back to plain text display
    */
-  private async renderMarkdown(readmeText: string): Promise<void> {
-    if (!this.markdownContainer || !this.markdownComponent) return;
+  private async renderMarkdown(
+    markdown: string,
+    container: HTMLElement,
+  ): Promise<void> {
+    if (!this.markdownComponent) {
+      // Create a component to manage the markdown renderer lifecycle
+      this.markdownComponent = new Component();
+      this.markdownComponent.load();
+    }
 
     try {
       await MarkdownRenderer.render(
         this.app,
-        readmeText,
-        this.markdownContainer,
+        markdown,
+        container,
         "",
         this.markdownComponent,
       );
     } catch (error) {
       console.error("Failed to render markdown:", error);
-      if (this.markdownContainer) {
-        this.markdownContainer.setText(readmeText);
-      }
+      container.setText(markdown);
     }
   }
 
@@ -235,6 +362,11 @@ export class PluginDetailView extends ItemView {
     if (!this.contentEl || !this.pluginInfo) return;
 
     this.contentEl.empty();
+    // Release resources of the previous render's markdown
+    if (this.markdownComponent) {
+      this.markdownComponent.unload();
+      this.markdownComponent = null;
+    }
 
     // Header with back button
     const header = this.contentEl.createDiv("plugin-detail-header");
@@ -266,6 +398,21 @@ export class PluginDetailView extends ItemView {
       this.close();
     });
 
+    // Offline banner - details come from the last saved snapshot
+    const isOffline = this.pluginService.isOffline();
+    if (isOffline) {
+      const banner = this.contentEl.createDiv("offline-banner");
+      banner.setText(
+        getOfflineMessage(this.pluginService.getSnapshotTimestamp()),
+      );
+      banner.setAttribute("role", "status");
+    }
+
+    this.renderRegistryStatusBanner();
+    this.renderManifestMismatchBanner();
+    this.renderDesktopOnlyBanner();
+    this.renderIncompatibleBanner();
+
     // Plugin title
     const titleEl = this.contentEl.createEl("h1", {
       cls: "plugin-detail-title",
@@ -323,6 +470,60 @@ export class PluginDetailView extends ItemView {
           text: this.pluginInfo.manifest.minAppVersion + "+",
         });
       }
+
+      if (this.pluginInfo.manifest.isDesktopOnly) {
+        const platform = stats.createEl("div", {
+          cls: "stat-item",
+        });
+        platform.createSpan({ text: "Platform: " });
+        platform.createEl("strong", {
+          cls: "desktop-only-badge",
+          text: "Desktop only",
+        });
+      }
+    }
+
+    // Installed version, when it differs from the latest release or was pinned by the user
+    const installedVersion = this.pluginInfo.installedVersion;
+    const isPinned = this.isInstalledVersionPinned();
+    if (
+      installedVersion &&
+      (isPinned || installedVersion !== this.pluginInfo.manifest?.version)
+    ) {
+      const installed = stats.createEl("div", {
+        cls: "stat-item",
+      });
+      installed.createSpan({ text: "Installed: " });
+      installed.createEl("strong", {
+        text: isPinned ? `${installedVersion} (pinned)` : installedVersion,
+      });
+    }
+
+    // Release channel (only shown for plugins following the beta channel)
+    const channel = this.getReleaseChannel();
+    if (this.pluginInfo.installed && channel === "beta") {
+      const channelStat = stats.createEl("div", {
+        cls: "stat-item",
+      });
+      channelStat.createSpan({ text: "Channel: " });
+      channelStat.createEl("strong", {
+        cls: "beta-badge",
+        text: "Beta",
+      });
+    }
+
+    // Registry the plugin was listed by (only shown when several sources are merged)
+    const sourceName = this.pluginService.getPluginSourceName(this.pluginInfo);
+    if (sourceName) {
+      const source = stats.createEl("div", {
+        cls: "stat-item",
+      });
+      source.createSpan({ text: "Source: " });
+      source.createEl("strong", {
+        cls: "source-badge",
+        text: sourceName,
+        attr: { "aria-label": `Registry source: ${sourceName}` },
+      });
     }
 
     // Short description
@@ -332,36 +533,141 @@ export class PluginDetailView extends ItemView {
     // Action buttons
     const actions = this.contentEl.createDiv("plugin-detail-actions");
 
+    const isUnavailableOnDevice =
+      !!this.pluginInfo.manifest &&
+      this.installationService.isUnavailableOnThisDevice(
+        this.pluginInfo.manifest,
+      );
+
     // Show update button if update is available
-    if (
-      this.pluginInfo.installed &&
-      this.hasUpdateAvailable &&
-      this.pluginInfo.manifest
-    ) {
+    const updateTarget = this.getUpdateTarget();
+    if (this.pluginInfo.installed && this.hasUpdateAvailable && updateTarget) {
       const updateBtn = actions.createEl("button", {
         cls: "update-button",
-        text: `Update to ${this.pluginInfo.manifest.version}`,
+        text: `Update to ${updateTarget.manifest.version}`,
         attr: {
-          "aria-label": `Update plugin to version ${this.pluginInfo.manifest.version}`,
+          "aria-label": `Update plugin to version ${updateTarget.manifest.version}`,
           type: "button",
         },
       });
+      // Updates need a download, so they're unavailable offline
+      if (isOffline) {
+        updateBtn.setAttr("disabled", "true");
+        updateBtn.setAttr("title", "Unavailable while offline");
+      } else if (isUnavailableOnDevice) {
+        updateBtn.setAttr("disabled", "true");
+        updateBtn.setAttr("title", "Desktop-only plugins can't run on mobile");
+      }
       // Use registerDomEvent for automatic cleanup
       this.registerDomEvent(updateBtn, "click", () => {
         this.handleUpdateClick();
       });
     }
 
+    // Plugins backed up before their last update can go back to that version
+    if (this.pluginInfo.installed && this.previousBackup) {
+      const previousVersion = this.previousBackup.version;
+      const revertBtn = actions.createEl("button", {
+        cls: "revert-button",
+        text: this.reverting ? "Reverting..." : `Revert to ${previousVersion}`,
+        attr: {
+          "aria-label": `Restore ${this.pluginInfo.name} ${previousVersion} and its settings from before the last update`,
+          type: "button",
+        },
+      });
+      if (this.reverting) {
+        revertBtn.setAttr("disabled", "true");
+      }
+      this.registerDomEvent(revertBtn, "click", () => {
+        this.handleRevertClick();
+      });
+    }
+
+    // Pinned plugins don't offer updates until the pin is removed
+    if (isPinned) {
+      const unpinBtn = actions.createEl("button", {
+        cls: "unpin-button",
+        text: "Allow updates",
+        attr: {
+          "aria-label": `Stop keeping ${this.pluginInfo.name} on version ${installedVersion}`,
+          type: "button",
+        },
+      });
+      this.registerDomEvent(unpinBtn, "click", () => {
+        this.handleUnpinClick();
+      });
+    }
+
+    // Installed plugins can switch between stable releases and beta releases
+    if (this.pluginInfo.installed) {
+      const targetChannel: ReleaseChannel =
+        channel === "beta" ? "stable" : "beta";
+      const channelBtn = actions.createEl("button", {
+        cls: "channel-button",
+        text: this.switchingChannel
+          ? "Switching..."
+          : targetChannel === "beta"
+            ? "Switch to beta"
+            : "Switch to stable",
+        attr: {
+          "aria-label":
+            targetChannel === "beta"
+              ? `Follow beta releases of ${this.pluginInfo.name}`
+              : `Follow stable releases of ${this.pluginInfo.name}`,
+          type: "button",
+        },
+      });
+      // Switching to beta looks up (and installs) the beta release
+      if (this.switchingChannel || (isOffline && targetChannel === "beta")) {
+        channelBtn.setAttr("disabled", "true");
+        if (isOffline) {
+          channelBtn.setAttr("title", "Unavailable while offline");
+        }
+      }
+      this.registerDomEvent(channelBtn, "click", () => {
+        this.handleChannelClick(targetChannel);
+      });
+    }
+
+    // When the latest release needs a newer Obsidian, an older compatible release is offered
+    const isIncompatible = this.isLatestReleaseIncompatible();
+    const fallbackVersion = isIncompatible
+      ? this.compatibleRelease?.manifest.version
+      : undefined;
     const installBtn = actions.createEl("button", {
       cls: "install-button",
-      text: this.pluginInfo.installed ? "Uninstall" : "Install",
+      text: this.pluginInfo.installed
+        ? "Uninstall"
+        : fallbackVersion
+          ? `Install ${fallbackVersion}`
+          : "Install",
       attr: {
         "aria-label": this.pluginInfo.installed
           ? `Uninstall ${this.pluginInfo.name}`
-          : `Install ${this.pluginInfo.name}`,
+          : fallbackVersion
+            ? `Install ${this.pluginInfo.name} ${fallbackVersion}, the newest version compatible with your Obsidian`
+            : `Install ${this.pluginInfo.name}`,
         type: "button",
       },
     });
+    // Installs need a download, so they're unavailable offline (uninstall still works)
+    if (isOffline && !this.pluginInfo.installed) {
+      installBtn.setAttr("disabled", "true");
+      installBtn.setAttr("title", "Unavailable while offline");
+    } else if (isUnavailableOnDevice && !this.pluginInfo.installed) {
+      installBtn.setAttr("disabled", "true");
+      installBtn.setAttr("title", "Desktop-only plugins can't run on mobile");
+    } else if (
+      isIncompatible &&
+      !fallbackVersion &&
+      !this.pluginInfo.installed
+    ) {
+      installBtn.setAttr("disabled", "true");
+      installBtn.setAttr(
+        "title",
+        `Requires Obsidian ${this.pluginInfo.manifest?.minAppVersion} or newer`,
+      );
+    }
     // Use registerDomEvent for automatic cleanup
     this.registerDomEvent(installBtn, "click", () => {
       this.handleInstallClick();
@@ -411,39 +717,663 @@ export class PluginDetailView extends ItemView {
       this.markdownContainer = descriptionSection.createDiv("markdown-content");
       const readmeText = this.pluginInfo.readme;
       if (readmeText) {
-        // Create a component to manage the markdown renderer lifecycle
-        this.markdownComponent = new Component();
-        this.markdownComponent.load();
-
         // Render markdown asynchronously
-        this.renderMarkdown(readmeText);
+        this.renderMarkdown(readmeText, this.markdownContainer);
       }
     } else {
       const noReadme = this.contentEl.createDiv("no-readme-message");
       noReadme.setText("No README available for this plugin.");
     }
+
+    this.renderVersionsSection();
+  }
+
+  /**
+   * Forget the loaded version history (e.g. when another plugin is shown)
+   */
+  private resetVersions(): void {
+    this.versions = null;
+    this.versionsExpanded = false;
+    this.versionsLoading = false;
+  }
+
+  /**
+   * Render the collapsible Versions section
+   * Releases cost a GitHub API request, so they're only loaded once the section is expanded.
+   */
+  private renderVersionsSection(): void {
+    if (!this.contentEl || !this.pluginInfo) return;
+
+    const section = this.contentEl.createEl("details", {
+      cls: "plugin-versions",
+    });
+    section.createEl("summary", { text: "Versions" });
+    const body = section.createDiv("plugin-versions-body");
+    body.setAttribute("aria-live", "polite");
+    if (this.versionsExpanded) {
+      section.setAttribute("open", "");
+    }
+
+    this.renderVersionsBody(body);
+    this.registerDomEvent(section, "toggle", () => {
+      this.versionsExpanded = section.hasAttribute("open");
+      if (this.versionsExpanded && !this.versions && !this.versionsLoading) {
+        this.loadVersions();
+      }
+    });
+  }
+
+  /**
+   * Render the content of the Versions section for the current state
+   * @param body Container inside the Versions section
+   */
+  private renderVersionsBody(body: HTMLElement): void {
+    body.empty();
+
+    if (!this.versions) {
+      if (this.versionsLoading) {
+        body.createDiv({
+          cls: "plugin-versions-message",
+          text: "Loading versions...",
+        });
+      }
+      return;
+    }
+
+    const { releases, changelog } = this.versions;
+    if (releases.length === 0 && !changelog) {
+      body.createDiv({
+        cls: "plugin-versions-message",
+        text: this.pluginService.isOffline()
+          ? "Version history is unavailable while offline."
+          : "No releases found for this plugin.",
+      });
+      return;
+    }
+
+    this.renderVersionPicker(body, releases);
+
+    const list = body.createEl("ul", { cls: "plugin-release-list" });
+    for (const release of releases) {
+      this.renderRelease(list, release, changelog === null);
+    }
+
+    // Repos without release notes keep their history in CHANGELOG.md
+    if (changelog) {
+      const changelogEl = body.createDiv("plugin-changelog");
+      changelogEl.createEl("h3", { text: "Changelog" });
+      this.renderMarkdown(changelog, changelogEl.createDiv("markdown-content"));
+    }
+  }
+
+  /**
+   * Render the picker for installing a specific release
+   * Only releases that ship both main.js and manifest.json can be installed.
+   * @param body Container inside the Versions section
+   * @param releases Releases of the plugin, newest first
+   */
+  private renderVersionPicker(
+    body: HTMLElement,
+    releases: PluginRelease[],
+  ): void {
+    const installable = releases.filter(
+      (release) =>
+        release.assetNames.includes("main.js") &&
+        release.assetNames.includes("manifest.json"),
+    );
+    if (installable.length === 0) return;
+
+    const picker = body.createDiv("plugin-version-picker");
+    picker.createEl("label", {
+      text: "Install version: ",
+      attr: { for: "plugin-version-select" },
+    });
+    const select = picker.createEl("select", {
+      cls: "dropdown",
+      attr: { id: "plugin-version-select" },
+    });
+    for (const release of installable) {
+      const labels = [release.tagName];
+      if (release.prerelease) labels.push("pre-release");
+      if (this.isInstalledRelease(release)) {
+        labels.push("installed");
+      }
+      select.createEl("option", {
+        text:
+          labels.length > 1
+            ? `${labels[0]} (${labels.slice(1).join(", ")})`
+            : labels[0],
+        attr: { value: release.tagName },
+      });
+    }
+
+    const installBtn = picker.createEl("button", {
+      cls: "install-version-button",
+      text: this.installingVersion ? "Installing..." : "Install",
+      attr: {
+        "aria-label": "Install the selected version",
+        type: "button",
+      },
+    });
+    // Installs need a download, so they're unavailable offline
+    if (this.pluginService.isOffline() || this.installingVersion) {
+      installBtn.setAttr("disabled", "true");
+      select.setAttr("disabled", "true");
+    }
+    this.registerDomEvent(installBtn, "click", () => {
+      this.handleInstallVersionClick(select.value);
+    });
+  }
+
+  /**
+   * Check whether a release is the installed version
+   * Release tags may carry a "v" prefix that the manifest version doesn't have.
+   * @param release The release
+   * @returns True if the release's tag matches the installed manifest version
+   */
+  private isInstalledRelease(release: PluginRelease): boolean {
+    const installedVersion = this.pluginInfo?.installedVersion;
+    return (
+      !!installedVersion &&
+      release.tagName.replace(/^v/, "") === installedVersion
+    );
+  }
+
+  /**
+   * Render a single release in the version list
+   * @param list The release list element
+   * @param release The release to render
+   * @param showNotes Whether to render the release notes
+   */
+  private renderRelease(
+    list: HTMLElement,
+    release: PluginRelease,
+    showNotes: boolean,
+  ): void {
+    const item = list.createEl("li", { cls: "plugin-release" });
+    const header = item.createDiv("plugin-release-header");
+    header.createEl("strong", { text: release.name });
+    if (release.name !== release.tagName) {
+      header.createSpan({ cls: "plugin-release-tag", text: release.tagName });
+    }
+    if (release.prerelease) {
+      header.createSpan({ cls: "plugin-release-badge", text: "Pre-release" });
+    }
+    if (this.isInstalledRelease(release)) {
+      header.createSpan({ cls: "plugin-release-badge", text: "Installed" });
+    }
+    if (release.publishedAt) {
+      header.createSpan({
+        cls: "plugin-release-date",
+        text: formatRelativeTime(release.publishedAt),
+        attr: { title: new Date(release.publishedAt).toLocaleString() },
+      });
+    }
+    if (release.htmlUrl) {
+      header.createEl("a", {
+        cls: "plugin-release-link",
+        href: release.htmlUrl,
+        text: "View on GitHub",
+        attr: {
+          target: "_blank",
+          rel: "noopener noreferrer",
+          "aria-label": `View release ${release.tagName} on GitHub`,
+        },
+      });
+    }
+
+    if (showNotes && release.body.trim()) {
+      this.renderMarkdown(
+        release.body,
+        item.createDiv("markdown-content plugin-release-notes"),
+      );
+    }
+  }
+
+  /**
+   * Load the release history, falling back to CHANGELOG.md when no release has notes
+   * Re-renders the Versions section when done.
+   */
+  private async loadVersions(): Promise<void> {
+    const plugin = this.pluginInfo;
+    if (!plugin) return;
+
+    this.versionsLoading = true;
+    this.refreshVersionsBody();
+
+    try {
+      const releases =
+        (await this.pluginService.fetchPluginReleases(plugin, false, {
+          priority: "user",
+        })) ?? [];
+      const changelog = hasReleaseNotes(releases)
+        ? null
+        : await this.pluginService.fetchPluginChangelog(plugin, {
+            priority: "user",
+          });
+
+      // Ignore the result if another plugin was opened in the meantime
+      if (this.pluginInfo !== plugin) return;
+      this.versions = { releases, changelog };
+    } catch (error) {
+      console.warn(`Failed to load versions for ${plugin.id}:`, error);
+      if (this.pluginInfo !== plugin) return;
+      this.versions = { releases: [], changelog: null };
+    } finally {
+      if (this.pluginInfo === plugin) {
+        this.versionsLoading = false;
+        this.refreshVersionsBody();
+      }
+    }
+  }
+
+  /**
+   * Re-render the Versions section body in place
+   */
+  private refreshVersionsBody(): void {
+    const body = this.contentEl?.querySelector<HTMLElement>(
+      ".plugin-versions-body",
+    );
+    if (body) {
+      this.renderVersionsBody(body);
+    }
+  }
+
+  /**
+   * Render a warning banner if the plugin was removed from the official registry
+   * or the installed version has been deprecated
+   */
+  private renderRegistryStatusBanner(): void {
+    const status = this.pluginInfo?.registryStatus;
+    if (!status) return;
+
+    const messages: string[] = [];
+    if (status.removed) {
+      messages.push(
+        status.removalReason
+          ? `This plugin was removed from the community plugin registry: ${status.removalReason}`
+          : "This plugin was removed from the community plugin registry.",
+      );
+    }
+    if (status.installedVersionDeprecated) {
+      messages.push(
+        `The installed version (${this.pluginInfo?.installedVersion}) is deprecated. Please update to a newer version.`,
+      );
+    }
+    if (messages.length === 0) return;
+
+    const banner = this.contentEl.createDiv("registry-status-banner");
+    if (status.removed) {
+      banner.addClass("removed");
+    }
+    banner.setAttribute("role", "alert");
+    for (const message of messages) {
+      banner.createEl("p", { text: message });
+    }
+  }
+
+  /**
+   * Render a warning when the default branch and the latest release declare different versions
+   * The release version is the one shown and installed, so users know why it may
+   * not match what the repository's README or branch says.
+   */
+  private renderManifestMismatchBanner(): void {
+    const branchVersion = this.pluginInfo?.branchManifestVersion;
+    const releaseVersion = this.pluginInfo?.manifest?.version;
+    if (!branchVersion || !releaseVersion) return;
+
+    const banner = this.contentEl.createDiv("manifest-mismatch-banner");
+    banner.setAttribute("role", "status");
+    banner.createEl("p", {
+      text: `The repository's branch declares version ${branchVersion}, but the latest release ships ${releaseVersion}. The release version is shown here and will be installed.`,
+    });
+  }
+
+  /**
+   * Explain why the latest release can't be installed on this Obsidian version
+   * Names the older release that will be installed instead, if the plugin's
+   * versions.json lists one that works.
+   */
+  private renderIncompatibleBanner(): void {
+    const manifest = this.pluginInfo?.manifest;
+    if (!manifest || this.pluginInfo?.installed) return;
+    if (!this.isLatestReleaseIncompatible()) return;
+
+    const appVersion = this.installationService.getAppVersion();
+    const banner = this.contentEl.createDiv("incompatible-banner");
+    banner.setAttribute("role", "alert");
+    banner.createEl("p", {
+      text: `The latest version (${manifest.version}) requires Obsidian ${manifest.minAppVersion} or newer, but you have ${appVersion}.`,
+    });
+    const compatible = this.compatibleRelease?.manifest;
+    banner.createEl("p", {
+      text: compatible
+        ? `Version ${compatible.version} is the newest release that works with your Obsidian version${compatible.minAppVersion ? ` (it requires ${compatible.minAppVersion}+)` : ""}, so it will be installed instead. It stays pinned until you allow updates, which you can do after updating Obsidian.`
+        : "None of the releases listed in the plugin's versions.json work with your Obsidian version. Update Obsidian to install this plugin.",
+    });
+  }
+
+  /**
+   * Check whether the latest release needs a newer Obsidian than the running one
+   * @returns True if the displayed manifest's minAppVersion is too high
+   */
+  private isLatestReleaseIncompatible(): boolean {
+    const manifest = this.pluginInfo?.manifest;
+    return (
+      !!manifest?.minAppVersion &&
+      !this.installationService.checkCompatibility(manifest)
+    );
+  }
+
+  /**
+   * Render a warning when the plugin is desktop-only and this device is mobile
+   * Installing and updating are blocked, since the plugin would fail to load.
+   */
+  private renderDesktopOnlyBanner(): void {
+    const manifest = this.pluginInfo?.manifest;
+    if (
+      !manifest ||
+      !this.installationService.isUnavailableOnThisDevice(manifest)
+    ) {
+      return;
+    }
+
+    const banner = this.contentEl.createDiv("desktop-only-banner");
+    banner.setAttribute("role", "alert");
+    banner.createEl("p", {
+      text: "This plugin is desktop-only. It uses features that aren't available on mobile, so it can't be installed or updated on this device.",
+    });
+  }
+
+  /**
+   * Handle switching between offline and online mode
+   * Reloads details when connectivity returns so missing manifest/README data is fetched
+   * @param offline The new offline state
+   */
+  private handleConnectivityChange(offline: boolean): void {
+    if (!this.pluginInfo || this.isLoading) return;
+
+    if (!offline && (!this.pluginInfo.manifest || !this.pluginInfo.readme)) {
+      const {
+        manifest: _manifest,
+        readme: _readme,
+        ...plugin
+      } = this.pluginInfo;
+      this.loadPlugin(plugin);
+      return;
+    }
+    this.renderPluginDetails();
+  }
+
+  /**
+   * Check whether the installed version is pinned (installed on purpose as a specific version)
+   * @returns True if update checks are suppressed for the installed version
+   */
+  private isInstalledVersionPinned(): boolean {
+    const installedVersion = this.pluginInfo?.installedVersion;
+    return (
+      !!this.pluginInfo &&
+      !!installedVersion &&
+      this.installationService.getPinnedVersion(this.pluginInfo.id) ===
+        installedVersion
+    );
+  }
+
+  /**
+   * Install the release picked in the Versions section
+   * Checks compatibility against the release's own manifest. Versions older than the
+   * latest release are pinned so update checks don't immediately offer the latest again.
+   * @param tag Tag of the release to install
+   */
+  private async handleInstallVersionClick(tag: string): Promise<void> {
+    const plugin = this.pluginInfo;
+    if (!plugin || !tag || this.installingVersion) return;
+
+    this.installingVersion = true;
+    this.refreshVersionsBody();
+    try {
+      const manifest = await this.pluginService.fetchReleaseManifest(
+        plugin,
+        tag,
+        { priority: "user" },
+      );
+      if (!manifest) {
+        showError(
+          `Cannot install ${tag}: the release has no valid manifest.json.`,
+        );
+        return;
+      }
+      if (manifest.id !== plugin.id) {
+        showError(
+          `Cannot install ${tag}: the release belongs to plugin "${manifest.id}".`,
+        );
+        return;
+      }
+
+      const latestVersion = plugin.manifest?.version;
+      const result = await this.installationService.installPlugin(
+        plugin.repo,
+        tag,
+        manifest,
+        {
+          pinVersion:
+            !!latestVersion &&
+            compareVersions(manifest.version, latestVersion) < 0,
+        },
+      );
+      if (!result.success) return;
+
+      plugin.installed = true;
+      plugin.installedVersion = manifest.version;
+      await this.refreshUpdateAvailable(plugin);
+      await this.refreshPreviousBackup(plugin);
+      await this.installationService.enablePlugin(plugin.id);
+    } finally {
+      this.installingVersion = false;
+      if (this.pluginInfo === plugin) {
+        this.renderPluginDetails();
+      }
+    }
+  }
+
+  /**
+   * Handle "Allow updates" button click
+   * Removes the pin so the update button reappears when a newer version exists.
+   */
+  private async handleUnpinClick(): Promise<void> {
+    const plugin = this.pluginInfo;
+    if (!plugin) return;
+
+    this.installationService.unpinVersion(plugin.id);
+    await this.refreshUpdateAvailable(plugin);
+    if (this.pluginInfo === plugin) {
+      this.renderPluginDetails();
+    }
+  }
+
+  /**
+   * Get the release channel of the displayed plugin
+   * @returns The channel the plugin follows
+   */
+  private getReleaseChannel(): ReleaseChannel {
+    return this.pluginInfo
+      ? this.installationService.getReleaseChannel(this.pluginInfo.id)
+      : "stable";
+  }
+
+  /**
+   * Get the newest release of the displayed plugin's release channel
+   * @returns The newest beta release for beta channel plugins, the latest release otherwise
+   */
+  private getChannelRelease(): ChannelRelease | null {
+    if (!this.pluginInfo) return null;
+    if (this.getReleaseChannel() === "beta") {
+      return this.betaRelease;
+    }
+    const manifest = this.pluginInfo.manifest;
+    return manifest ? { tag: manifest.version, manifest } : null;
+  }
+
+  /**
+   * Get the release the displayed plugin would be updated to
+   * @returns The channel's newest release, or the newest compatible release if that needs a newer Obsidian
+   */
+  private getUpdateTarget(): ChannelRelease | null {
+    const release = this.getChannelRelease();
+    if (
+      release &&
+      !this.installationService.checkCompatibility(release.manifest)
+    ) {
+      return this.compatibleRelease;
+    }
+    return release;
+  }
+
+  /**
+   * Re-check whether an update is available on the plugin's release channel
+   * @param plugin The displayed plugin
+   */
+  private async refreshUpdateAvailable(plugin: PluginInfo): Promise<void> {
+    const target = this.getUpdateTarget();
+    this.hasUpdateAvailable = target
+      ? await this.installationService.hasUpdateAvailable(
+          plugin.id,
+          target.manifest.version,
+        )
+      : false;
+  }
+
+  /**
+   * Look up the newest backup of the displayed plugin
+   * @param plugin The displayed plugin
+   */
+  private async refreshPreviousBackup(plugin: PluginInfo): Promise<void> {
+    const [backup] = await this.installationService.getBackups(plugin.id);
+    this.previousBackup = backup ?? null;
+  }
+
+  /**
+   * Handle "Revert to {version}" button click
+   * Restores the version (and settings) backed up before the last update. The
+   * restored version is pinned, so the update button stays hidden until the pin is removed.
+   */
+  private async handleRevertClick(): Promise<void> {
+    const plugin = this.pluginInfo;
+    if (!plugin || this.reverting || !this.previousBackup) return;
+
+    this.reverting = true;
+    this.renderPluginDetails();
+    try {
+      const result = await this.installationService.revertToPreviousVersion(
+        plugin.id,
+        plugin.repo,
+      );
+      if (!result.success) return;
+
+      plugin.installedVersion =
+        (await this.installationService.getInstalledVersion(plugin.id)) ??
+        undefined;
+      await this.refreshUpdateAvailable(plugin);
+      await this.refreshPreviousBackup(plugin);
+      await this.installationService.enablePlugin(plugin.id);
+    } finally {
+      this.reverting = false;
+      if (this.pluginInfo === plugin) {
+        this.renderPluginDetails();
+      }
+    }
+  }
+
+  /**
+   * Handle "Switch to beta" / "Switch to stable" button click
+   * Switching to beta installs the newest beta release when it's newer than the
+   * installed version. Switching to stable keeps the installed version; the update
+   * button offers the latest release once it's newer.
+   * @param channel The channel to switch to
+   */
+  private async handleChannelClick(channel: ReleaseChannel): Promise<void> {
+    const plugin = this.pluginInfo;
+    if (!plugin || this.switchingChannel) return;
+
+    this.switchingChannel = true;
+    this.renderPluginDetails();
+    try {
+      if (channel === "stable") {
+        this.installationService.setReleaseChannel(plugin.id, "stable");
+        this.betaRelease = null;
+        await this.refreshUpdateAvailable(plugin);
+        showSuccess(`${plugin.name} now follows stable releases.`);
+        return;
+      }
+
+      const betaRelease = await this.pluginService.resolveBetaRelease(plugin, {
+        priority: "user",
+      });
+      if (!betaRelease) {
+        showError(`${plugin.name} has no beta release to switch to.`);
+        return;
+      }
+      if (betaRelease.manifest.id !== plugin.id) {
+        showError(
+          `Cannot switch to beta: the release belongs to plugin "${betaRelease.manifest.id}".`,
+        );
+        return;
+      }
+
+      this.installationService.setReleaseChannel(plugin.id, "beta");
+      this.betaRelease = betaRelease;
+      const installedVersion = plugin.installedVersion;
+      if (
+        installedVersion &&
+        compareVersions(betaRelease.manifest.version, installedVersion) <= 0
+      ) {
+        // Already on (or past) the newest beta
+        await this.refreshUpdateAvailable(plugin);
+        showSuccess(`${plugin.name} now follows beta releases.`);
+        return;
+      }
+
+      const result = await this.installationService.installPlugin(
+        plugin.repo,
+        betaRelease.tag,
+        betaRelease.manifest,
+      );
+      if (result.success) {
+        plugin.installedVersion = betaRelease.manifest.version;
+        await this.refreshPreviousBackup(plugin);
+        await this.installationService.enablePlugin(plugin.id);
+      }
+      await this.refreshUpdateAvailable(plugin);
+    } finally {
+      this.switchingChannel = false;
+      if (this.pluginInfo === plugin) {
+        this.renderPluginDetails();
+      }
+    }
   }
 
   /**
    * Handle update button click
-   * Updates the plugin to the latest version by reinstalling it.
+   * Updates the plugin to the newest release of its channel by reinstalling it.
    * Enables the plugin after successful update and refreshes the UI.
    */
   private async handleUpdateClick(): Promise<void> {
-    if (!this.pluginInfo || !this.pluginInfo.manifest) {
+    const target = this.getUpdateTarget();
+    if (!this.pluginInfo || !target) {
       showError("Cannot update plugin: manifest information is missing.");
       return;
     }
 
     const result = await this.installationService.installPlugin(
       this.pluginInfo.repo,
-      this.pluginInfo.manifest.version,
-      this.pluginInfo.manifest,
+      target.tag,
+      target.manifest,
     );
 
     if (result.success) {
-      this.pluginInfo.installedVersion = this.pluginInfo.manifest.version;
+      this.pluginInfo.installedVersion = target.manifest.version;
       this.hasUpdateAvailable = false;
+      await this.refreshPreviousBackup(this.pluginInfo);
       await this.installationService.enablePlugin(this.pluginInfo.id);
       this.renderPluginDetails();
     }
@@ -451,7 +1381,9 @@ export class PluginDetailView extends ItemView {
 
   /**
    * Handle install/uninstall button click
-   * Installs or uninstalls the plugin based on current state.
+   * Installs or uninstalls the plugin based on current state. When the latest
+   * release needs a newer Obsidian, the compatible release found through
+   * versions.json is installed and pinned instead.
    * Updates the UI and shows success/error notifications.
    */
   private async handleInstallClick(): Promise<void> {
@@ -461,11 +1393,14 @@ export class PluginDetailView extends ItemView {
       // Uninstall
       const result = await this.installationService.uninstallPlugin(
         this.pluginInfo.id,
+        this.pluginInfo.repo,
       );
       if (result.success) {
         this.pluginInfo.installed = false;
         this.pluginInfo.installedVersion = undefined;
         this.hasUpdateAvailable = false;
+        this.betaRelease = null;
+        this.previousBackup = null;
         this.renderPluginDetails();
       }
     } else {
@@ -477,16 +1412,23 @@ export class PluginDetailView extends ItemView {
         return;
       }
 
+      // An older release is installed (and pinned) when the latest needs a newer Obsidian
+      const fallback = this.isLatestReleaseIncompatible()
+        ? this.compatibleRelease
+        : null;
+      const manifest = fallback?.manifest ?? this.pluginInfo.manifest;
       const result = await this.installationService.installPlugin(
         this.pluginInfo.repo,
-        this.pluginInfo.manifest.version,
-        this.pluginInfo.manifest,
+        fallback?.tag ?? manifest.version,
+        manifest,
+        { pinVersion: !!fallback },
       );
 
       if (result.success) {
         this.pluginInfo.installed = true;
-        this.pluginInfo.installedVersion = this.pluginInfo.manifest.version;
+        this.pluginInfo.installedVersion = manifest.version;
         this.hasUpdateAvailable = false;
+        await this.refreshPreviousBackup(this.pluginInfo);
         await this.installationService.enablePlugin(this.pluginInfo.id);
         this.renderPluginDetails();
       }
@@ -0,0 +1,266 @@
+/**
+ * Plugin History View - lists every install, update, downgrade and uninstall
+ * recorded in the install history, with filters and JSON/CSV export
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { HistoryAction, HistoryEntry, HistoryFilter } from "../types";
+import { HistoryService } from "../services/HistoryService";
+import { filterHistory, historyToCsv, showError, showSuccess } from "../utils";
+
+/**
+ * View type identifier for the plugin history view
+ */
+export const VIEW_TYPE_PLUGIN_HISTORY = "plugin-history-view";
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  install: "Installed",
+  update: "Updated",
+  downgrade: "Downgraded",
+  reinstall: "Reinstalled",
+  uninstall: "Uninstalled",
+};
+
+export class PluginHistoryView extends ItemView {
+  private historyService: HistoryService;
+  private entries: HistoryEntry[] = [];
+  private filter: HistoryFilter = { query: "", action: "all", outcome: "all" };
+  private listEl: HTMLElement | null = null;
+  private countEl: HTMLElement | null = null;
+  private unsubscribeHistory: (() => void) | null = null;
+
+  /**
+   * Create a new PluginHistoryView instance
+   * @param leaf The workspace leaf this view is attached to
+   * @param historyService Service for reading the install history
+   */
+  constructor(leaf: WorkspaceLeaf, historyService: HistoryService) {
+    super(leaf);
+    this.historyService = historyService;
+  }
+
+  /**
+   * Get the view type identifier for this view
+   * @returns The view type string
+   */
+  getViewType(): string {
+    return VIEW_TYPE_PLUGIN_HISTORY;
+  }
+
+  /**
+   * Get the display text shown in the view header
+   * @returns The display text for this view
+   */
+  getDisplayText(): string {
+    return "Plugin History";
+  }
+
+  /**
+   * Get the icon identifier for this view
+   * @returns The icon string identifier
+   */
+  getIcon(): string {
+    return "history";
+  }
+
+  /**
+   * Render the filters and load the history when the view opens
+   * Reloads whenever a new entry is recorded.
+   */
+  async onOpen() {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass("plugin-history-container");
+    container.setAttribute("role", "region");
+    container.setAttribute("aria-label", "Plugin history");
+    this.contentEl = container;
+
+    this.renderToolbar(container);
+    this.countEl = container.createDiv("plugin-count");
+    this.countEl.setAttribute("aria-live", "polite");
+    this.listEl = container.createDiv("plugin-history-list");
+    this.listEl.setAttribute("role", "list");
+
+    this.unsubscribeHistory = this.historyService.onEntryAdded(() => {
+      void this.loadEntries();
+    });
+    await this.loadEntries();
+  }
+
+  /**
+   * Stop listening for new history entries when the view is closed
+   */
+  async onClose() {
+    if (this.unsubscribeHistory) {
+      this.unsubscribeHistory();
+      this.unsubscribeHistory = null;
+    }
+    this.entries = [];
+    this.listEl = null;
+    this.countEl = null;
+  }
+
+  /**
+   * Read the history and render it
+   */
+  private async loadEntries(): Promise<void> {
+    this.entries = await this.historyService.getEntries();
+    this.renderEntries();
+  }
+
+  /**
+   * Render the search input, action and outcome filters and export buttons
+   * @param container The view container
+   */
+  private renderToolbar(container: HTMLElement): void {
+    const header = container.createDiv("plugin-browser-header");
+    const searchContainer = header.createDiv("search-container");
+    const searchInput = searchContainer.createEl("input", {
+      type: "text",
+      placeholder: "Filter by plugin, repository or version...",
+      cls: "search-input",
+      attr: { "aria-label": "Filter history" },
+    });
+    this.registerDomEvent(searchInput, "input", () => {
+      this.filter.query = searchInput.value;
+      this.renderEntries();
+    });
+
+    const controlsRow = header.createDiv("controls-row");
+    const actionSelect = controlsRow.createEl("select", {
+      cls: "history-action-select",
+      attr: { "aria-label": "Filter by action" },
+    });
+    actionSelect.createEl("option", { value: "all", text: "All actions" });
+    for (const [action, label] of Object.entries(ACTION_LABELS)) {
+      actionSelect.createEl("option", { value: action, text: label });
+    }
+    this.registerDomEvent(actionSelect, "change", () => {
+      this.filter.action = actionSelect.value as HistoryFilter["action"];
+      this.renderEntries();
+    });
+
+    const outcomeSelect = controlsRow.createEl("select", {
+      cls: "history-outcome-select",
+      attr: { "aria-label": "Filter by outcome" },
+    });
+    outcomeSelect.createEl("option", { value: "all", text: "All outcomes" });
+    outcomeSelect.createEl("option", { value: "success", text: "Succeeded" });
+    outcomeSelect.createEl("option", { value: "failure", text: "Failed" });
+    this.registerDomEvent(outcomeSelect, "change", () => {
+      this.filter.outcome = outcomeSelect.value as HistoryFilter["outcome"];
+      this.renderEntries();
+    });
+
+    for (const format of ["json", "csv"] as const) {
+      const exportBtn = controlsRow.createEl("button", {
+        cls: "history-export-button",
+        text: `Export ${format.toUpperCase()}`,
+        attr: {
+          "aria-label": `Export the listed entries as ${format.toUpperCase()}`,
+          type: "button",
+        },
+      });
+      this.registerDomEvent(exportBtn, "click", () => {
+        void this.exportEntries(format);
+      });
+    }
+  }
+
+  /**
+   * Render the entries matching the current filter
+   */
+  private renderEntries(): void {
+    if (!this.listEl || !this.countEl) return;
+    const listEl = this.listEl;
+    listEl.empty();
+
+    const entries = filterHistory(this.entries, this.filter);
+    this.countEl.setText(
+      entries.length === this.entries.length
+        ? `${entries.length} ${entries.length === 1 ? "entry" : "entries"}`
+        : `${entries.length} of ${this.entries.length} entries`,
+    );
+
+    if (entries.length === 0) {
+      listEl.createDiv({
+        cls: "empty-message",
+        text:
+          this.entries.length === 0
+            ? "No plugins have been installed, updated or uninstalled through the plugin browser yet."
+            : "No entries match the filters.",
+      });
+      return;
+    }
+
+    for (const entry of entries) {
+      const item = listEl.createDiv(
+        entry.success ? "plugin-history-item" : "plugin-history-item failed",
+      );
+      item.setAttribute("role", "listitem");
+
+      const header = item.createDiv("plugin-history-item-header");
+      header.createEl("strong", { text: entry.pluginId });
+      header.createSpan({
+        cls: "plugin-history-action",
+        text: ACTION_LABELS[entry.action],
+      });
+      header.createSpan({
+        cls: "plugin-history-versions",
+        text: this.formatVersions(entry),
+      });
+
+      const meta = item.createDiv("plugin-meta");
+      meta.createSpan({
+        text: new Date(entry.timestamp).toLocaleString(),
+      });
+      if (entry.repo) {
+        meta.createSpan({ text: ` · ${entry.repo}` });
+      }
+      if (!entry.success) {
+        item.createDiv({
+          cls: "error-message",
+          text: `Failed: ${entry.error ?? "Unknown error"}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Describe the version change of an entry
+   * @param entry The history entry
+   * @returns e.g. "1.0.0 → 1.1.0", "1.1.0" for installs, "1.0.0" for uninstalls
+   */
+  private formatVersions(entry: HistoryEntry): string {
+    if (entry.fromVersion && entry.toVersion) {
+      return entry.fromVersion === entry.toVersion
+        ? entry.toVersion
+        : `${entry.fromVersion} → ${entry.toVersion}`;
+    }
+    return entry.toVersion ?? entry.fromVersion ?? "";
+  }
+
+  /**
+   * Save the entries matching the current filter as a file in the vault root
+   * @param format Export format
+   */
+  private async exportEntries(format: "json" | "csv"): Promise<void> {
+    const entries = filterHistory(this.entries, this.filter);
+    const content =
+      format === "json"
+        ? JSON.stringify(entries, null, 2)
+        : historyToCsv(entries);
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-");
+    const path = `plugin-history-${stamp}.${format}`;
+    try {
+      await this.app.vault.create(path, content);
+      showSuccess(
+        `Exported ${entries.length} history ${entries.length === 1 ? "entry" : "entries"} to ${path}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      showError(`Failed to export history: ${errorMessage}`);
+    }
+  }
+}
@@ -18,6 +18,16 @@ import {
   debugLog,
   formatRelativeTime,
   formatNumber,
+  getOfflineMessage,
+  formatCountdown,
+  findHighlightRanges,
+  PluginSearchResult,
+  parseSearchQuery,
+  matchesQueryFilters,
+  getQualifierSuggestions,
+  applyQualifierSuggestion,
+  QueryQualifierInfo,
+  tokenizeSearchText,
 } from "../utils";
 import CommunityPluginBrowserPlugin from "../main";
 import { PLUGIN_CONFIG } from "../config";
@@ -42,6 +52,10 @@ export class PluginListView extends ItemView {
   private isLoading = false;
   private isFilteringByDate = false;
   private searchInputEl: HTMLInputElement | null = null;
+  private searchErrorsEl: HTMLElement | null = null;
+  private suggestionsEl: HTMLElement | null = null;
+  private suggestions: QueryQualifierInfo[] = [];
+  private activeSuggestionIndex = -1;
   private toggleInstalledEl: HTMLElement | null = null;
   private updatedAfterInputEl: HTMLInputElement | null = null;
   private pluginsContainerEl: HTMLElement | null = null;
@@ -50,7 +64,7 @@ export class PluginListView extends ItemView {
   private installedStatusCache: Map<string, boolean> = new Map();
   private isCheckingInstalledStatus = false; // Prevent concurrent status checks
   private refreshButtonEl: HTMLElement | null = null;
-  private sortOption: PluginSortOption = "name";
+  private sortOption: PluginSortOption = "relevance";
   private sortDirection: "asc" | "desc" = "asc";
   // Track event listeners that need manual cleanup (debounced handlers)
   private trackedListeners: Array<{
@@ -58,19 +72,28 @@ export class PluginListView extends ItemView {
     event: string;
     handler: EventListener;
   }> = [];
-  // Track release info loading to prevent duplicate requests and rate limiting
+  // Track release info loading to prevent duplicate requests
   private releaseInfoLoading = new Set<string>(); // Set of plugin IDs currently loading
-  private releaseInfoQueue: Array<{
-    plugin: CommunityPlugin;
-    card: HTMLElement;
-  }> = [];
-  private releaseInfoProcessing = false;
   // Pagination state
   private visiblePluginsCount: number = 0; // Number of plugins currently visible
   private isLoadingMore: boolean = false; // Prevent multiple simultaneous loads
   private intersectionObserver: IntersectionObserver | null = null; // Observer for auto-loading
   private loadMoreSentinel: HTMLElement | null = null; // Sentinel element for IntersectionObserver
   private loadingIndicatorEl: HTMLElement | null = null; // Loading indicator element
+  // Offline mode state
+  private offlineBannerEl: HTMLElement | null = null;
+  private unsubscribeConnectivity: (() => void) | null = null;
+  private rateLimitBannerEl: HTMLElement | null = null;
+  private unsubscribeRateLimit: (() => void) | null = null;
+  private rateLimitCountdownId: number | null = null;
+  // Search relevance results keyed by plugin ID (empty when no query is active)
+  private searchResults: Map<string, PluginSearchResult> = new Map();
+  // README search state
+  private readmeMatches: Set<string> = new Set(); // IDs of plugins whose README matches the query
+  private readmeIndexStatusEl: HTMLElement | null = null;
+  private unsubscribeReadmeProgress: (() => void) | null = null;
+  private unsubscribeManifestPrefetch: (() => void) | null = null;
+  private manifestRefreshTimeoutId: number | null = null; // Pending update for prefetched manifests
 
   /**
    * Create a new PluginListView instance
@@ -137,12 +160,48 @@ export class PluginListView extends ItemView {
         updatedAfter: this.plugin.settings.searchFilters.updatedAfter
           ? new Date(this.plugin.settings.searchFilters.updatedAfter)
           : undefined,
+        searchReadme: this.plugin.settings.searchFilters.searchReadme || false,
+        mobileCompatibleOnly:
+          this.plugin.settings.searchFilters.mobileCompatibleOnly || false,
+        compatibleOnly:
+          this.plugin.settings.searchFilters.compatibleOnly || false,
       };
     }
 
     // Create header with search and controls
     this.createHeader(container);
 
+    // Offline banner (hidden while online)
+    this.offlineBannerEl = container.createDiv("offline-banner");
+    this.offlineBannerEl.setAttribute("role", "status");
+    this.offlineBannerEl.setAttribute("aria-live", "polite");
+    this.updateOfflineBanner();
+    this.unsubscribeConnectivity = this.pluginService.onConnectivityChange(
+      (offline) => this.handleConnectivityChange(offline),
+    );
+
+    // Rate limit banner with a countdown while GitHub API requests are paused
+    this.rateLimitBannerEl = container.createDiv("rate-limit-banner");
+    this.rateLimitBannerEl.setAttribute("role", "status");
+    this.updateRateLimitBanner();
+    this.unsubscribeRateLimit = this.pluginService
+      .getRateLimitTracker()
+      .onChange(() => this.updateRateLimitBanner());
+    this.updateReadmeIndexStatus();
+    this.unsubscribeReadmeProgress = this.plugin.readmeIndexService.onProgress(
+      () => this.updateReadmeIndexStatus(),
+    );
+    // Prefetched manifests change compatibility badges and filter results;
+    // manifests arrive continuously, so updates are batched rather than debounced
+    this.unsubscribeManifestPrefetch =
+      this.plugin.manifestPrefetchService.onProgress(() => {
+        if (this.manifestRefreshTimeoutId !== null) return;
+        this.manifestRefreshTimeoutId = window.setTimeout(() => {
+          this.manifestRefreshTimeoutId = null;
+          this.handleManifestsPrefetched();
+        }, PLUGIN_CONFIG.constants.manifestPrefetchRefreshDelay);
+      });
+
     // Create plugins container
     this.pluginsContainerEl = container.createDiv("plugins-container");
     this.pluginsContainerEl.addClass(this.displayMode);
@@ -154,6 +213,7 @@ export class PluginListView extends ItemView {
     if (this.searchInputEl && this.searchFilters.query) {
       this.searchInputEl.value = this.searchFilters.query;
     }
+    this.updateQueryFilters();
 
     // Set initial focus to search input for keyboard users
     if (this.searchInputEl) {
@@ -199,6 +259,35 @@ export class PluginListView extends ItemView {
       this.filterAbortController = null;
     }
 
+    // Stop listening for connectivity changes
+    if (this.unsubscribeConnectivity) {
+      this.unsubscribeConnectivity();
+      this.unsubscribeConnectivity = null;
+    }
+
+    // Stop listening for rate limit changes
+    if (this.unsubscribeRateLimit) {
+      this.unsubscribeRateLimit();
+      this.unsubscribeRateLimit = null;
+    }
+    this.stopRateLimitCountdown();
+
+    // Stop listening for README index progress
+    if (this.unsubscribeReadmeProgress) {
+      this.unsubscribeReadmeProgress();
+      this.unsubscribeReadmeProgress = null;
+    }
+
+    // Stop listening for prefetched manifests
+    if (this.unsubscribeManifestPrefetch) {
+      this.unsubscribeManifestPrefetch();
+      this.unsubscribeManifestPrefetch = null;
+    }
+    if (this.manifestRefreshTimeoutId !== null) {
+      window.clearTimeout(this.manifestRefreshTimeoutId);
+      this.manifestRefreshTimeoutId = null;
+    }
+
     // Remove tracked event listeners (debounced handlers)
     for (const { element, event, handler } of this.trackedListeners) {
       try {
@@ -215,10 +304,8 @@ export class PluginListView extends ItemView {
     // Clean up loading indicator if present
     this.hideLoadingIndicator();
 
-    // Clear release info queue and loading state
-    this.releaseInfoQueue = [];
+    // Clear release info loading state
     this.releaseInfoLoading.clear();
-    this.releaseInfoProcessing = false;
 
     // Persist settings
     this.plugin.settings.displayMode = this.displayMode;
@@ -226,6 +313,9 @@ export class PluginListView extends ItemView {
       query: this.searchFilters.query,
       showInstalledOnly: this.searchFilters.showInstalledOnly,
       updatedAfter: this.searchFilters.updatedAfter?.toISOString(),
+      searchReadme: this.searchFilters.searchReadme,
+      mobileCompatibleOnly: this.searchFilters.mobileCompatibleOnly,
+      compatibleOnly: this.searchFilters.compatibleOnly,
     };
     await this.plugin.saveSettings();
   }
@@ -243,17 +333,47 @@ export class PluginListView extends ItemView {
     searchIcon.setAttribute("aria-hidden", "true"); // Decorative icon
     this.searchInputEl = searchContainer.createEl("input", {
       type: "text",
-      placeholder: "Search community plugins...",
+      placeholder:
+        "Search community plugins... (e.g. author:name downloads:>1000)",
       cls: "search-input",
       attr: {
         "aria-label": "Search community plugins",
-        role: "searchbox",
+        role: "combobox",
+        "aria-autocomplete": "list",
+        "aria-controls": "search-suggestions",
+        "aria-expanded": "false",
+      },
+    });
+    // Qualifier autocomplete list
+    this.suggestionsEl = searchContainer.createEl("ul", {
+      cls: "search-suggestions hidden",
+      attr: {
+        id: "search-suggestions",
+        role: "listbox",
+        "aria-label": "Search qualifiers",
+      },
+    });
+    this.registerDomEvent(this.searchInputEl, "input", () => {
+      this.updateSuggestions();
+    });
+    this.registerDomEvent(
+      this.searchInputEl,
+      "keydown",
+      (evt: KeyboardEvent) => {
+        this.handleSuggestionKeydown(evt);
       },
+    );
+    this.registerDomEvent(this.searchInputEl, "blur", () => {
+      this.hideSuggestions();
     });
+    // Inline feedback for unknown qualifiers and invalid values
+    this.searchErrorsEl = header.createDiv("search-query-errors hidden");
+    this.searchErrorsEl.setAttribute("role", "alert");
     // Track debounced handler for manual cleanup
     const searchHandler = debounce(async () => {
       const rawQuery = this.searchInputEl?.value || "";
       this.searchFilters.query = sanitizeSearchQuery(rawQuery);
+      this.updateQueryFilters();
       await this.filterPlugins();
     }, PLUGIN_CONFIG.constants.debounceDelay);
     this.searchInputEl.addEventListener("input", searchHandler);
@@ -276,6 +396,184 @@ export class PluginListView extends ItemView {
     this.registerDomEvent(this.refreshButtonEl, "click", async () => {
       await this.refreshPlugins();
     });
+
+    // Check all installed plugins for updates
+    const updatesButton = searchContainer.createEl("button", {
+      cls: "check-updates-button",
+      text: "Updates",
+      attr: {
+        "aria-label": "Check installed plugins for updates",
+        title: "Check installed plugins for updates",
+      },
+    });
+    this.registerDomEvent(updatesButton, "click", () => {
+      this.plugin.openUpdateReview();
+    });
+  }
+
+  /**
+   * Parse the search query into free text and qualifier filters
+   * Stores the result on searchFilters and shows inline errors for
+   * unknown qualifiers or invalid values
+   * @returns void
+   */
+  private updateQueryFilters(): void {
+    const parsed = parseSearchQuery(this.searchFilters.query);
+    this.searchFilters.text = parsed.text;
+    this.searchFilters.qualifiers = parsed.qualifiers;
+
+    if (this.searchErrorsEl) {
+      this.searchErrorsEl.empty();
+      for (const error of parsed.errors) {
+        this.searchErrorsEl.createDiv({
+          cls: "search-query-error",
+          text: error,
+        });
+      }
+      this.searchErrorsEl.toggleClass("hidden", parsed.errors.length === 0);
+    }
+    this.searchInputEl?.setAttribute(
+      "aria-invalid",
+      parsed.errors.length > 0 ? "true" : "false",
+    );
+  }
+
+  /**
+   * Show qualifier suggestions for the word at the caret
+   * @returns void
+   */
+  private updateSuggestions(): void {
+    const listEl = this.suggestionsEl;
+    if (!this.searchInputEl || !listEl) return;
+
+    const caret =
+      this.searchInputEl.selectionStart ?? this.searchInputEl.value.length;
+    this.suggestions = getQualifierSuggestions(
+      this.searchInputEl.value,
+      caret,
+    ).suggestions;
+    this.activeSuggestionIndex = -1;
+
+    listEl.empty();
+    if (this.suggestions.length === 0) {
+      this.hideSuggestions();
+      return;
+    }
+
+    this.suggestions.forEach((qualifier, index) => {
+      const item = listEl.createEl("li", {
+        cls: "search-suggestion",
+        attr: {
+          id: `search-suggestion-${qualifier.name}`,
+          role: "option",
+          "aria-selected": "false",
+        },
+      });
+      item.createSpan({
+        cls: "search-suggestion-name",
+        text: `${qualifier.name}:`,
+      });
+      item.createSpan({
+        cls: "search-suggestion-description",
+        text: `${qualifier.description} (${qualifier.example})`,
+      });
+      // mousedown fires before the input's blur, so the list is still open
+      this.registerDomEvent(item, "mousedown", (evt: MouseEvent) => {
+        evt.preventDefault();
+        this.acceptSuggestion(index);
+      });
+    });
+    listEl.removeClass("hidden");
+    this.searchInputEl.setAttribute("aria-expanded", "true");
+  }
+
+  /**
+   * Hide the qualifier suggestion list
+   * @returns void
+   */
+  private hideSuggestions(): void {
+    this.suggestions = [];
+    this.activeSuggestionIndex = -1;
+    this.suggestionsEl?.addClass("hidden");
+    this.searchInputEl?.setAttribute("aria-expanded", "false");
+    this.searchInputEl?.removeAttribute("aria-activedescendant");
+  }
+
+  /**
+   * Handle keyboard navigation in the qualifier suggestion list
+   * Arrow keys move the selection, Enter/Tab accept it, Escape closes the list
+   * @param evt The keyboard event from the search input
+   * @returns void
+   */
+  private handleSuggestionKeydown(evt: KeyboardEvent): void {
+    if (this.suggestions.length === 0) return;
+
+    switch (evt.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        evt.preventDefault();
+        const step = evt.key === "ArrowDown" ? 1 : -1;
+        const count = this.suggestions.length;
+        this.setActiveSuggestion(
+          (this.activeSuggestionIndex + step + count) % count,
+        );
+        break;
+      }
+      case "Enter":
+      case "Tab":
+        // Tab accepts the first suggestion; Enter only accepts an explicit selection
+        if (this.activeSuggestionIndex >= 0 || evt.key === "Tab") {
+          evt.preventDefault();
+          this.acceptSuggestion(Math.max(this.activeSuggestionIndex, 0));
+        }
+        break;
+      case "Escape":
+        evt.preventDefault();
+        this.hideSuggestions();
+        break;
+    }
+  }
+
+  /**
+   * Highlight a suggestion in the list
+   * @param index Index of the suggestion to highlight
+   * @returns void
+   */
+  private setActiveSuggestion(index: number): void {
+    if (!this.suggestionsEl || !this.searchInputEl) return;
+
+    this.activeSuggestionIndex = index;
+    const items = this.suggestionsEl.querySelectorAll(".search-suggestion");
+    items.forEach((item, i) => {
+      item.toggleClass("is-selected", i === index);
+      item.setAttribute("aria-selected", i === index ? "true" : "false");
+    });
+    this.searchInputEl.setAttribute(
+      "aria-activedescendant",
+      `search-suggestion-${this.suggestions[index].name}`,
+    );
+  }
+
+  /**
+   * Insert a suggested qualifier into the search input
+   * Replaces the word at the caret with the qualifier name and a colon
+   * @param index Index of the suggestion to accept
+   * @returns void
+   */
+  private acceptSuggestion(index: number): void {
+    const qualifier = this.suggestions[index];
+    if (!qualifier || !this.searchInputEl) return;
+
+    const caret =
+      this.searchInputEl.selectionStart ?? this.searchInputEl.value.length;
+    const result = applyQualifierSuggestion(
+      this.searchInputEl.value,
+      caret,
+      qualifier.name,
+    );
+    this.searchInputEl.value = result.value;
+    this.searchInputEl.setSelectionRange(result.caret, result.caret);
+    this.hideSuggestions();
   }
 
   /**
@@ -341,7 +639,7 @@ export class PluginListView extends ItemView {
   }
 
   /**
-   * Create filter controls (installed toggle and date filter)
+   * Create filter controls (installed, compatibility and README toggles and date filter)
    * Sets up event listeners for filter changes and accessibility attributes
    * @param controlsRow The controls row element to add filters to
    * @returns void
@@ -370,6 +668,80 @@ export class PluginListView extends ItemView {
     });
     labelText.setAttribute("for", "show-installed-only-checkbox");
 
+    // Mobile compatible only toggle
+    const mobileToggleEl = controlsRow
+      .createDiv("toggle-container")
+      .createEl("label", { cls: "toggle-label" });
+    const mobileCheckbox = mobileToggleEl.createEl("input", {
+      type: "checkbox",
+      cls: "toggle-checkbox",
+      attr: {
+        id: "mobile-compatible-only-checkbox",
+        "aria-label": "Hide desktop-only plugins",
+      },
+    });
+    mobileCheckbox.checked = this.searchFilters.mobileCompatibleOnly ?? false;
+    // Use registerDomEvent for automatic cleanup
+    this.registerDomEvent(mobileCheckbox, "change", async () => {
+      this.searchFilters.mobileCompatibleOnly = mobileCheckbox.checked;
+      await this.filterPlugins();
+    });
+    mobileToggleEl.createSpan({ text: "Mobile compatible only" });
+
+    // Compatible with this Obsidian version toggle
+    const compatibleToggleEl = controlsRow
+      .createDiv("toggle-container")
+      .createEl("label", { cls: "toggle-label" });
+    const compatibleCheckbox = compatibleToggleEl.createEl("input", {
+      type: "checkbox",
+      cls: "toggle-checkbox",
+      attr: {
+        id: "compatible-only-checkbox",
+        "aria-label": "Hide plugins that need a newer Obsidian version",
+      },
+    });
+    compatibleCheckbox.checked = this.searchFilters.compatibleOnly ?? false;
+    // Use registerDomEvent for automatic cleanup
+    this.registerDomEvent(compatibleCheckbox, "change", async () => {
+      this.searchFilters.compatibleOnly = compatibleCheckbox.checked;
+      await this.filterPlugins();
+    });
+    compatibleToggleEl.createSpan({
+      text: "Only compatible with my Obsidian version",
+    });
+
+    // Search in README toggle
+    const readmeToggleContainer = controlsRow.createDiv(
+      "toggle-container readme-toggle-container",
+    );
+    const readmeToggleEl = readmeToggleContainer.createEl("label", {
+      cls: "toggle-label",
+    });
+    const readmeCheckbox = readmeToggleEl.createEl("input", {
+      type: "checkbox",
+      cls: "toggle-checkbox",
+      attr: {
+        id: "search-readme-checkbox",
+        "aria-label": "Also search plugin READMEs",
+      },
+    });
+    readmeCheckbox.checked = this.searchFilters.searchReadme ?? false;
+    // Use registerDomEvent for automatic cleanup
+    this.registerDomEvent(readmeCheckbox, "change", async () => {
+      this.searchFilters.searchReadme = readmeCheckbox.checked;
+      // Searching READMEs needs the index, so turn indexing on the first time
+      if (readmeCheckbox.checked && !this.plugin.settings.readmeIndexEnabled) {
+        await this.plugin.setReadmeIndexEnabled(true);
+      }
+      this.updateReadmeIndexStatus();
+      await this.filterPlugins();
+    });
+    readmeToggleEl.createSpan({ text: "In README" });
+    this.readmeIndexStatusEl = readmeToggleContainer.createSpan(
+      "readme-index-status",
+    );
+    this.readmeIndexStatusEl.setAttribute("aria-live", "polite");
+
     // Updated after filter
     const updatedAfterContainer = controlsRow.createDiv(
       "updated-after-container",
@@ -493,6 +865,7 @@ export class PluginListView extends ItemView {
         "aria-label": "Sort plugins by",
       },
     });
+    sortSelect.createEl("option", { value: "relevance", text: "Relevance" });
     sortSelect.createEl("option", { value: "name", text: "Name" });
     sortSelect.createEl("option", { value: "author", text: "Author" });
     sortSelect.createEl("option", { value: "installed", text: "Installed" });
@@ -640,6 +1013,15 @@ export class PluginListView extends ItemView {
     }
   }
 
+  /**
+   * Reload plugins without forcing a refresh
+   * Used when the registry sources change: only sources without cached data are fetched
+   * @returns Promise that resolves when plugins are reloaded
+   */
+  async reloadPlugins(): Promise<void> {
+    await this.loadPlugins(false);
+  }
+
   /**
    * Refresh plugins manually (user-initiated refresh)
    * Forces a refresh even if cache is still valid. Updates the refresh button UI
@@ -699,6 +1081,54 @@ export class PluginListView extends ItemView {
     }
   }
 
+  /**
+   * Add warning badges for plugins removed from the registry or with a deprecated installed version
+   * @param header The card header element to add badges to
+   * @param pluginId The plugin ID
+   * @param isInstalled Whether the plugin is installed (deprecation only matters for installed plugins)
+   * @returns void
+   */
+  private appendRegistryStatusBadges(
+    header: HTMLElement,
+    pluginId: string,
+    isInstalled: boolean,
+  ): void {
+    const status = this.pluginService.getRegistryStatus(pluginId);
+    if (!status) return;
+
+    if (status.removed) {
+      const label = status.removalReason
+        ? `Removed from registry: ${status.removalReason}`
+        : "Removed from registry";
+      const badge = header.createDiv("registry-status-badge removed");
+      badge.setText("REMOVED");
+      badge.setAttribute("title", label);
+      badge.setAttribute("aria-label", label);
+      badge.setAttribute("role", "status");
+    }
+
+    if (isInstalled && status.deprecatedVersions.length > 0) {
+      // Installed version is read from disk, so the badge is added once it resolves
+      this.installationService
+        .getInstalledVersion(pluginId)
+        .then((version) => {
+          if (!version || !status.deprecatedVersions.includes(version)) return;
+          const label = `Installed version ${version} is deprecated`;
+          const badge = header.createDiv("registry-status-badge deprecated");
+          badge.setText("DEPRECATED VERSION");
+          badge.setAttribute("title", label);
+          badge.setAttribute("aria-label", label);
+          badge.setAttribute("role", "status");
+        })
+        .catch((error) => {
+          console.warn(
+            `Failed to check installed version of ${pluginId}:`,
+            error,
+          );
+        });
+    }
+  }
+
   /**
    * Update installed badges on plugin cards after status check completes
    * @returns void
@@ -734,14 +1164,64 @@ export class PluginListView extends ItemView {
 
   /**
    * Apply search query filter to plugins
+   * Stores relevance results for sorting and highlighting matched terms
    * @param plugins Array of plugins to filter
-   * @returns Filtered array of plugins matching the search query
+   * @returns Filtered array of plugins matching the search query, most relevant first
    */
   private applySearchFilter(plugins: CommunityPlugin[]): CommunityPlugin[] {
-    if (!this.searchFilters.query) {
+    this.searchResults.clear();
+    this.readmeMatches.clear();
+    // Qualifiers are handled by applyQualifierFilters; only rank the free text
+    const text = this.searchFilters.text ?? this.searchFilters.query;
+    if (!text) {
       return plugins;
     }
-    return this.pluginService.searchPlugins(plugins, this.searchFilters.query);
+    const results = this.pluginService.searchPluginsRanked(plugins, text);
+    if (this.searchFilters.searchReadme) {
+      results.push(...this.getReadmeOnlyResults(plugins, text, results));
+    }
+    if (results.length === 0) {
+      // Queries without searchable terms (e.g. only punctuation) match everything
+      return this.pluginService.searchPlugins(plugins, text);
+    }
+    for (const result of results) {
+      this.searchResults.set(result.plugin.id, result);
+    }
+    return results.map((result) => result.plugin);
+  }
+
+  /**
+   * Search the README index and collect plugins that only match there
+   * Records every README match (for snippets) and ranks README-only matches
+   * below matches in the name, id, author or description
+   * @param plugins Plugins being searched
+   * @param text Free-text query
+   * @param results Results already matched by the regular search
+   * @returns Search results for plugins matched only by their README
+   */
+  private getReadmeOnlyResults(
+    plugins: CommunityPlugin[],
+    text: string,
+    results: PluginSearchResult[],
+  ): PluginSearchResult[] {
+    const alreadyMatched = new Set(results.map((result) => result.plugin.id));
+    const pluginsById = new Map(plugins.map((plugin) => [plugin.id, plugin]));
+    const readmeOnly: PluginSearchResult[] = [];
+
+    for (const match of this.plugin.readmeIndexService.search(text)) {
+      const plugin = pluginsById.get(match.pluginId);
+      if (!plugin) continue;
+      this.readmeMatches.add(plugin.id);
+      if (!alreadyMatched.has(plugin.id)) {
+        readmeOnly.push({
+          plugin,
+          // Map into (0, 1) so README-only matches rank after field matches
+          score: match.score / (1 + match.score),
+          highlightTerms: [],
+        });
+      }
+    }
+    return readmeOnly;
   }
 
   /**
@@ -755,9 +1235,15 @@ export class PluginListView extends ItemView {
   private async applyInstalledFilter(
     plugins: CommunityPlugin[],
   ): Promise<CommunityPlugin[]> {
-    if (!this.searchFilters.showInstalledOnly) {
+    // The checkbox and the installed: qualifier both filter on installed status
+    const qualifier = this.searchFilters.qualifiers?.installed;
+    if (!this.searchFilters.showInstalledOnly && qualifier === undefined) {
       return plugins;
     }
+    if (this.searchFilters.showInstalledOnly && qualifier === false) {
+      return []; // Contradictory filters
+    }
+    const wantInstalled = this.searchFilters.showInstalledOnly || qualifier;
 
     // If cache is empty, start checking in background but don't wait
     // This prevents blocking the UI - user will see plugins appear as status is checked
@@ -782,10 +1268,162 @@ export class PluginListView extends ItemView {
       return [];
     }
 
-    // Filter to only show installed plugins using cached status
+    // Filter by installed status using cached status
     return plugins.filter((plugin) => {
       const isInstalled = this.installedStatusCache.get(plugin.id) ?? false;
-      return isInstalled;
+      return isInstalled === wantInstalled;
+    });
+  }
+
+  /**
+   * Apply the mobile compatible and Obsidian version filters to plugins
+   * Only plugins whose manifest is known to be desktop-only or to need a newer
+   * Obsidian version are hidden; plugins without a fetched manifest are kept.
+   * @param plugins Array of plugins to filter
+   * @returns Filtered array without incompatible plugins (if a filter is active)
+   */
+  private applyCompatibilityFilters(
+    plugins: CommunityPlugin[],
+  ): CommunityPlugin[] {
+    const { mobileCompatibleOnly, compatibleOnly } = this.searchFilters;
+    if (!mobileCompatibleOnly && !compatibleOnly) {
+      return plugins;
+    }
+    return plugins.filter(
+      (plugin) =>
+        !(mobileCompatibleOnly && this.pluginService.isDesktopOnly(plugin)) &&
+        !(compatibleOnly && this.getRequiredAppVersion(plugin)),
+    );
+  }
+
+  /**
+   * Get the Obsidian version a plugin needs, if this Obsidian is too old for it
+   * @param plugin The plugin to check
+   * @returns The plugin's minAppVersion, or null if it's compatible or its manifest hasn't been fetched
+   */
+  private getRequiredAppVersion(plugin: CommunityPlugin): string | null {
+    const manifest = this.pluginService.getCachedManifest(plugin.id);
+    if (
+      !manifest?.minAppVersion ||
+      this.installationService.checkCompatibility(manifest)
+    ) {
+      return null;
+    }
+    return manifest.minAppVersion;
+  }
+
+  /**
+   * Update the list after manifests were prefetched in the background
+   * Removes plugins that turned out to be incompatible while a compatibility filter
+   * is active and refreshes the badges of the rendered cards. The list isn't
+   * re-rendered, so the scroll position and loaded pages are kept.
+   */
+  private handleManifestsPrefetched(): void {
+    if (!this.pluginsContainerEl) return;
+
+    const compatible = this.applyCompatibilityFilters(this.filteredPlugins);
+    const pluginsById = new Map(
+      compatible.map((plugin) => [plugin.id, plugin]),
+    );
+    const hidesPlugins = compatible.length !== this.filteredPlugins.length;
+    this.filteredPlugins = compatible;
+
+    this.pluginsContainerEl
+      .querySelectorAll<HTMLElement>(".plugin-card")
+      .forEach((card) => {
+        const plugin = pluginsById.get(
+          card.getAttribute("data-plugin-id") ?? "",
+        );
+        if (!plugin) {
+          card.remove();
+          this.visiblePluginsCount = Math.max(0, this.visiblePluginsCount - 1);
+          return;
+        }
+        const header = card.querySelector<HTMLElement>(".plugin-card-header");
+        if (!header) return;
+        header
+          .querySelectorAll(".desktop-only-badge, .incompatible-badge")
+          .forEach((badge) => badge.remove());
+        this.appendCompatibilityBadges(header, plugin);
+      });
+
+    if (hidesPlugins) {
+      this.updatePluginCount();
+    }
+  }
+
+  /**
+   * Add badges for plugins that can't run here: desktop-only plugins and plugins
+   * that need a newer Obsidian version
+   * @param header The card header element to add badges to
+   * @param plugin The plugin shown on the card
+   */
+  private appendCompatibilityBadges(
+    header: HTMLElement,
+    plugin: CommunityPlugin,
+  ): void {
+    if (this.pluginService.isDesktopOnly(plugin)) {
+      const desktopBadge = header.createDiv("desktop-only-badge");
+      desktopBadge.setText("DESKTOP ONLY");
+      desktopBadge.setAttribute("aria-label", "Desktop only");
+      desktopBadge.setAttribute(
+        "title",
+        "Uses desktop features and can't run on mobile",
+      );
+    }
+    const requiredVersion = this.getRequiredAppVersion(plugin);
+    if (requiredVersion) {
+      const label = `Requires Obsidian ${requiredVersion}+`;
+      const incompatibleBadge = header.createDiv("incompatible-badge");
+      incompatibleBadge.setText(label);
+      incompatibleBadge.setAttribute("aria-label", label);
+      incompatibleBadge.setAttribute(
+        "title",
+        "Needs a newer Obsidian version than the one you have",
+      );
+      incompatibleBadge.setAttribute("role", "status");
+    }
+  }
+
+  /**
+   * Apply qualifier filters (author:, id:, desktop:, downloads:, updated:) to plugins
+   * Loads the stats file only when a downloads: or updated: qualifier is present
+   * @param plugins Array of plugins to filter
+   * @param signal AbortSignal to cancel the operation if needed
+   * @returns Filtered array of plugins matching all qualifiers
+   */
+  private async applyQualifierFilters(
+    plugins: CommunityPlugin[],
+    signal: AbortSignal,
+  ): Promise<CommunityPlugin[]> {
+    const qualifiers = this.searchFilters.qualifiers;
+    if (!qualifiers || Object.keys(qualifiers).length === 0) {
+      return plugins;
+    }
+
+    let stats: PluginStatsData | null = null;
+    if (qualifiers.downloads || qualifiers.updated) {
+      stats = await this.pluginService.fetchPluginStats(false);
+      if (signal.aborted) {
+        return [];
+      }
+    }
+
+    return plugins.filter((plugin) => {
+      let updated: Date | null = null;
+      if (qualifiers.updated) {
+        updated = stats
+          ? this.pluginService.getReleaseDateFromStats(plugin, stats)
+          : null;
+        if (!updated) {
+          updated = this.pluginService.getCachedReleaseDate(plugin.id).date;
+        }
+      }
+      return matchesQueryFilters(plugin, qualifiers, {
+        downloads: stats?.[plugin.id]?.downloads,
+        updated,
+        isDesktopOnly: this.pluginService.isDesktopOnly(plugin),
+      });
     });
   }
 
@@ -854,42 +1492,26 @@ export class PluginListView extends ItemView {
       }
     }
 
-    // Second pass: Process plugins that need API calls in batches
-    // This is slower but necessary for plugins not in stats
-    if (pluginsNeedingApiCall.length > 0) {
-      const BATCH_SIZE = PLUGIN_CONFIG.constants.batchSize;
-      const BATCH_DELAY_MS = PLUGIN_CONFIG.constants.batchDelay;
-
-      for (let i = 0; i < pluginsNeedingApiCall.length; i += BATCH_SIZE) {
-        // Check if operation was aborted
-        if (signal.aborted) {
-          return filteredWithDates; // Return what we have so far
-        }
-
-        const batch = pluginsNeedingApiCall.slice(i, i + BATCH_SIZE);
-
-        // Process batch in parallel for better performance
-        const batchResults = await this.processDateFilterBatch(
-          batch,
-          updatedAfterNormalized,
-          stats,
-        );
-
-        // Check again after async operation
-        if (signal.aborted) {
-          return filteredWithDates; // Return what we have so far
-        }
+    // Second pass: Process plugins that need API calls
+    // This is slower but necessary for plugins not in stats. All lookups are
+    // handed over at once; the request scheduler limits how many run in parallel.
+    if (pluginsNeedingApiCall.length > 0 && !signal.aborted) {
+      const results = await this.processDateFilterBatch(
+        pluginsNeedingApiCall,
+        updatedAfterNormalized,
+        stats,
+        signal,
+      );
 
-        // Add valid results to filtered list
-        for (const result of batchResults) {
-          if (result) {
-            filteredWithDates.push(result);
-          }
-        }
+      // Check again after async operation
+      if (signal.aborted) {
+        return filteredWithDates; // Return what we have so far
+      }
 
-        // Add delay between batches to avoid rate limiting (except for last batch)
-        if (i + BATCH_SIZE < pluginsNeedingApiCall.length) {
-          await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+      // Add valid results to filtered list
+      for (const result of results) {
+        if (result) {
+          filteredWithDates.push(result);
         }
       }
     }
@@ -965,12 +1587,14 @@ export class PluginListView extends ItemView {
    * @param batch Array of plugins in the current batch
    * @param updatedAfterNormalized The normalized date (midnight UTC) to compare against
    * @param stats Pre-loaded stats data (optional, will be used if available)
+   * @param signal AbortSignal to cancel queued requests (optional)
    * @returns Array of plugins that match the date filter (updated on or after the date), or null for plugins that don't match or have no release date
    */
   private async processDateFilterBatch(
     batch: CommunityPlugin[],
     updatedAfterNormalized: Date,
     stats: PluginStatsData | null = null,
+    signal?: AbortSignal,
   ): Promise<(CommunityPlugin | null)[]> {
     const batchPromises = batch.map(async (plugin) => {
       try {
@@ -1000,8 +1624,13 @@ export class PluginListView extends ItemView {
         // Last resort: fall back to getLatestReleaseDate (may make API calls)
         // This handles plugins not in stats file or cache
         // Note: getLatestReleaseDate will skip stats fetch since we already checked
+        // API requests wait while the rate limit budget is used up (see RateLimitTracker)
         if (!releaseDate) {
-          releaseDate = await this.pluginService.getLatestReleaseDate(plugin);
+          releaseDate = await this.pluginService.getLatestReleaseDate(
+            plugin,
+            false,
+            { priority: "visible", signal },
+          );
         }
 
         if (releaseDate) {
@@ -1060,6 +1689,7 @@ export class PluginListView extends ItemView {
     // Reset pagination when filters change (renderPlugins will handle this)
     this.renderPlugins(true); // Reset pagination
     this.updatePluginCount();
+    this.updateOfflineBanner();
     debugLog(
       "Filter complete. Displaying",
       this.filteredPlugins.length,
@@ -1105,7 +1735,17 @@ export class PluginListView extends ItemView {
     // Apply filters sequentially
     const searchFiltered = this.applySearchFilter([...this.plugins]);
     debugLog("After search filter:", searchFiltered.length);
-    const installedFiltered = await this.applyInstalledFilter(searchFiltered);
+    const qualifierFiltered = await this.applyQualifierFilters(
+      searchFiltered,
+      signal,
+    );
+    debugLog("After qualifier filters:", qualifierFiltered.length);
+    const compatibilityFiltered =
+      this.applyCompatibilityFilters(qualifierFiltered);
+    debugLog("After compatibility filters:", compatibilityFiltered.length);
+    const installedFiltered = await this.applyInstalledFilter(
+      compatibilityFiltered,
+    );
     debugLog("After installed filter:", installedFiltered.length);
     const dateFiltered = await this.applyDateFilter(installedFiltered, signal);
     debugLog("After date filter:", dateFiltered.length);
@@ -1118,6 +1758,108 @@ export class PluginListView extends ItemView {
     }
   }
 
+  /**
+   * Update the README index progress shown next to the "In README" toggle
+   * Only shown while README search is active and the index is incomplete
+   * @returns void
+   */
+  private updateReadmeIndexStatus(): void {
+    if (!this.readmeIndexStatusEl) return;
+
+    const { indexed, total } = this.plugin.readmeIndexService.getProgress();
+    if (!this.searchFilters.searchReadme || (total > 0 && indexed >= total)) {
+      this.readmeIndexStatusEl.empty();
+      this.readmeIndexStatusEl.addClass("hidden");
+      return;
+    }
+    this.readmeIndexStatusEl.setText(
+      total > 0
+        ? `Indexing READMEs: ${indexed} of ${total}`
+        : "Indexing READMEs…",
+    );
+    this.readmeIndexStatusEl.removeClass("hidden");
+  }
+
+  /**
+   * Show or hide the offline banner based on the service's connectivity state
+   * Includes the age of the snapshot being shown
+   * @returns void
+   */
+  private updateOfflineBanner(): void {
+    if (!this.offlineBannerEl) return;
+
+    if (this.pluginService.isOffline()) {
+      this.offlineBannerEl.setText(
+        getOfflineMessage(this.pluginService.getSnapshotTimestamp()),
+      );
+      this.offlineBannerEl.removeClass("hidden");
+    } else {
+      this.offlineBannerEl.empty();
+      this.offlineBannerEl.addClass("hidden");
+    }
+  }
+
+  /**
+   * Show or hide the rate limit banner based on the shared GitHub API budget
+   * While background requests are paused, the banner counts down to the reset
+   * @returns void
+   */
+  private updateRateLimitBanner(): void {
+    if (!this.rateLimitBannerEl) return;
+
+    const tracker = this.pluginService.getRateLimitTracker();
+    const resumeTime = tracker.getResumeTime("background");
+    if (!resumeTime) {
+      this.stopRateLimitCountdown();
+      this.rateLimitBannerEl.empty();
+      this.rateLimitBannerEl.addClass("hidden");
+      return;
+    }
+
+    const countdown = formatCountdown(resumeTime.getTime() - Date.now());
+    this.rateLimitBannerEl.setText(
+      tracker.isPaused("user")
+        ? `GitHub API rate limit exceeded. Requests resume in ${countdown}.`
+        : `GitHub API limit nearly reached. Release date lookups resume in ${countdown}; ` +
+            "the remaining requests are kept for plugin details and installs.",
+    );
+    this.rateLimitBannerEl.removeClass("hidden");
+
+    if (this.rateLimitCountdownId === null) {
+      this.rateLimitCountdownId = window.setInterval(
+        () => this.updateRateLimitBanner(),
+        1000,
+      );
+      this.registerInterval(this.rateLimitCountdownId);
+    }
+  }
+
+  /**
+   * Stop updating the rate limit countdown
+   * @returns void
+   */
+  private stopRateLimitCountdown(): void {
+    if (this.rateLimitCountdownId !== null) {
+      window.clearInterval(this.rateLimitCountdownId);
+      this.rateLimitCountdownId = null;
+    }
+  }
+
+  /**
+   * Handle switching between offline and online mode
+   * Refreshes the plugin list when connectivity returns
+   * @param offline The new offline state
+   * @returns void
+   */
+  private handleConnectivityChange(offline: boolean): void {
+    this.updateOfflineBanner();
+    if (!offline) {
+      this.refreshPlugins().catch((error) => {
+        console.warn("Failed to refresh plugins after reconnecting:", error);
+      });
+    }
+  }
+
   /**
    * Update plugin count display
    * Updates the count text showing how many plugins are currently displayed
@@ -1195,11 +1937,9 @@ export class PluginListView extends ItemView {
     // If we have plugins to show (even if loading), display them
     // This allows cached data to appear immediately
     if (this.filteredPlugins.length > 0) {
-      // Clear container and reset release info queue (plugins are being re-rendered)
+      // Clear container and reset release info loading state (plugins are being re-rendered)
       this.pluginsContainerEl.empty();
-      this.releaseInfoQueue = [];
       this.releaseInfoLoading.clear();
-      this.releaseInfoProcessing = false;
 
       // Calculate how many plugins to show (pagination)
       const pluginsPerPage = PLUGIN_CONFIG.constants.pluginsPerPage;
@@ -1495,10 +2235,9 @@ export class PluginListView extends ItemView {
 
     // Plugin header
     const header = card.createDiv("plugin-card-header");
-    const titleEl = header.createEl("h3", {
-      cls: "plugin-title",
-      text: plugin.name,
-    });
+    const highlightTerms = this.searchResults.get(plugin.id)?.highlightTerms;
+    const titleEl = header.createEl("h3", { cls: "plugin-title" });
+    this.appendHighlightedText(titleEl, plugin.name, highlightTerms);
     titleEl.setAttribute("id", `plugin-title-${plugin.id}`);
     const installedBadge = header.createDiv("installed-badge");
     installedBadge.setText("INSTALLED");
@@ -1509,79 +2248,86 @@ export class PluginListView extends ItemView {
     if (!isInstalled) {
       installedBadge.addClass("hidden");
     }
+    const sourceName = this.pluginService.getPluginSourceName(plugin);
+    if (sourceName) {
+      const sourceBadge = header.createDiv("source-badge");
+      sourceBadge.setText(sourceName);
+      sourceBadge.setAttribute("aria-label", `Registry source: ${sourceName}`);
+    }
+    if (
+      isInstalled &&
+      this.installationService.getReleaseChannel(plugin.id) === "beta"
+    ) {
+      const betaBadge = header.createDiv("beta-badge");
+      betaBadge.setText("BETA");
+      betaBadge.setAttribute("aria-label", "Follows beta releases");
+    }
+    this.appendCompatibilityBadges(header, plugin);
+    this.appendRegistryStatusBadges(header, plugin.id, isInstalled);
 
     // Plugin meta
     const meta = card.createDiv("plugin-meta");
     const authorEl = meta.createEl("div", {
       cls: "plugin-author",
-      text: `By ${plugin.author}`,
+      text: "By ",
     });
+    this.appendHighlightedText(authorEl, plugin.author, highlightTerms);
     authorEl.setAttribute("aria-label", `Author: ${plugin.author}`);
 
     // Plugin description
     const description = card.createDiv("plugin-description");
-    description.setText(plugin.description);
-
-    // Queue release info loading instead of loading immediately
-    // This prevents overwhelming the GitHub API with hundreds of simultaneous requests
-    // Release info will be loaded lazily in batches
-    this.queueReleaseInfo(plugin, card);
-  }
-
-  /**
-   * Queue release info loading for a plugin card
-   * Adds the plugin to a queue that will be processed in batches to avoid rate limiting
-   * @param plugin The plugin to load release info for
-   * @param card The card element to update
-   * @returns void
-   */
-  private queueReleaseInfo(plugin: CommunityPlugin, card: HTMLElement): void {
-    // Skip if already loading or queued
-    if (this.releaseInfoLoading.has(plugin.id)) {
-      return;
+    this.appendHighlightedText(description, plugin.description, highlightTerms);
+
+    // README snippet for plugins matched by the README search
+    if (this.readmeMatches.has(plugin.id)) {
+      const text = this.searchFilters.text ?? this.searchFilters.query;
+      const snippet = this.plugin.readmeIndexService.getSnippet(
+        plugin.id,
+        text,
+      );
+      if (snippet) {
+        const snippetEl = card.createDiv("plugin-readme-snippet");
+        snippetEl.setAttribute("aria-label", `README excerpt: ${snippet}`);
+        this.appendHighlightedText(
+          snippetEl,
+          snippet,
+          tokenizeSearchText(text),
+        );
+      }
     }
 
-    // Add to queue
-    this.releaseInfoQueue.push({ plugin, card });
-
-    // Start processing queue if not already processing
-    if (!this.releaseInfoProcessing) {
-      this.processReleaseInfoQueue();
-    }
+    // Load release info in the background; any requests go through the
+    // shared request scheduler, which limits how many run at once
+    void this.loadReleaseInfo(plugin, card);
   }
 
   /**
-   * Process the release info queue in batches
-   * Processes plugins in small batches with delays to avoid GitHub API rate limits
+   * Append text to an element, wrapping matched search terms in <mark> elements
+   * Uses text nodes so plugin data is never interpreted as HTML
+   * @param el The element to append to
+   * @param text The text to append
+   * @param terms Normalized search terms to highlight (none if undefined)
    * @returns void
    */
-  private async processReleaseInfoQueue(): Promise<void> {
-    if (this.releaseInfoProcessing) {
-      return;
-    }
-
-    this.releaseInfoProcessing = true;
-    const BATCH_SIZE = PLUGIN_CONFIG.constants.releaseInfoBatchSize;
-    const BATCH_DELAY = PLUGIN_CONFIG.constants.releaseInfoBatchDelay;
-
-    while (this.releaseInfoQueue.length > 0) {
-      // Take a batch from the queue
-      const batch = this.releaseInfoQueue.splice(0, BATCH_SIZE);
-
-      // Process batch in parallel
-      const promises = batch.map(({ plugin, card }) =>
-        this.loadReleaseInfo(plugin, card),
-      );
-
-      await Promise.allSettled(promises);
-
-      // Wait before processing next batch (unless queue is empty)
-      if (this.releaseInfoQueue.length > 0) {
-        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY));
+  private appendHighlightedText(
+    el: HTMLElement,
+    text: string,
+    terms: string[] | undefined,
+  ): void {
+    let position = 0;
+    for (const [start, end] of findHighlightRanges(text, terms ?? [])) {
+      if (start > position) {
+        el.appendText(text.slice(position, start));
       }
+      el.createEl("mark", {
+        cls: "search-highlight",
+        text: text.slice(start, end),
+      });
+      position = end;
+    }
+    if (position < text.length) {
+      el.appendText(text.slice(position));
     }
-
-    this.releaseInfoProcessing = false;
   }
 
   /**
@@ -1701,6 +2447,13 @@ export class PluginListView extends ItemView {
       let comparison = 0;
 
       switch (this.sortOption) {
+        case "relevance": {
+          // Order by search score when a query is active, otherwise by name
+          const aScore = this.searchResults.get(a.id)?.score ?? 0;
+          const bScore = this.searchResults.get(b.id)?.score ?? 0;
+          comparison = bScore - aScore || a.name.localeCompare(b.name);
+          break;
+        }
         case "name":
           comparison = a.name.localeCompare(b.name);
           break;
@@ -0,0 +1,53 @@
+/**
+ * Plugin Set File Suggest Modal - picks the vault file (JSON or note) a plugin
+ * set is imported from
+ */
+
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+export class PluginSetFileSuggestModal extends FuzzySuggestModal<TFile> {
+  private onChoose: (file: TFile) => void;
+
+  /**
+   * Create a new PluginSetFileSuggestModal instance
+   * @param app The Obsidian app instance
+   * @param onChoose Called with the chosen file
+   */
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a plugin set (JSON file or note)...");
+  }
+
+  /**
+   * List the JSON files and notes of the vault, exported plugin sets first
+   * @returns Candidate files
+   */
+  getItems(): TFile[] {
+    const files = this.app.vault
+      .getFiles()
+      .filter((file) => file.extension === "json" || file.extension === "md");
+    const isPluginSet = (file: TFile) => file.basename.startsWith("plugin-set");
+    return [
+      ...files.filter(isPluginSet).sort((a, b) => b.stat.mtime - a.stat.mtime),
+      ...files.filter((file) => !isPluginSet(file)),
+    ];
+  }
+
+  /**
+   * Show the file's path
+   * @param file The file
+   * @returns The path relative to the vault root
+   */
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  /**
+   * Pass the chosen file on
+   * @param file The chosen file
+   */
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Plugin Set Import Modal - reviews an exported plugin set and installs the
+ * plugins that are missing from this vault
+ */
+
+import { App, Modal } from "obsidian";
+import {
+  CommunityPlugin,
+  PluginSet,
+  PluginSetImportItem,
+  PluginSetImportResult,
+} from "../types";
+import { PluginService } from "../services/PluginService";
+import { PluginSetService } from "../services/PluginSetService";
+
+export class PluginSetImportModal extends Modal {
+  private pluginService: PluginService;
+  private pluginSetService: PluginSetService;
+  private set: PluginSet;
+  private onSideloaded: (plugin: CommunityPlugin) => Promise<void>;
+  private items: PluginSetImportItem[] = [];
+  private selected: Set<string> = new Set(); // Plugin IDs selected for installing
+  private abortController: AbortController | null = null; // Cancels the release lookups when the modal closes
+  private installing = false;
+
+  /**
+   * Create a new PluginSetImportModal instance
+   * @param app The Obsidian app instance
+   * @param pluginService Service for checking connectivity
+   * @param pluginSetService Service for resolving and installing the set
+   * @param set The plugin set to import
+   * @param onSideloaded Called after a plugin no registry lists was installed, to remember it as sideloaded
+   */
+  constructor(
+    app: App,
+    pluginService: PluginService,
+    pluginSetService: PluginSetService,
+    set: PluginSet,
+    onSideloaded: (plugin: CommunityPlugin) => Promise<void>,
+  ) {
+    super(app);
+    this.pluginService = pluginService;
+    this.pluginSetService = pluginSetService;
+    this.set = set;
+    this.onSideloaded = onSideloaded;
+  }
+
+  /**
+   * Look up the set's plugins and render the review
+   */
+  onOpen(): void {
+    this.titleEl.setText("Import plugin set");
+    this.contentEl.addClass("plugin-set-import-modal");
+    void this.resolveItems();
+  }
+
+  /**
+   * Cancel running release lookups
+   * Plugins that are already installing continue in the background.
+   */
+  onClose(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+    this.contentEl.empty();
+  }
+
+  /**
+   * Resolve the releases of the set's plugins and render the review
+   */
+  private async resolveItems(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.set.plugins.length === 0) {
+      this.renderMessage("The plugin set doesn't list any plugins.");
+      return;
+    }
+    if (this.pluginService.isOffline()) {
+      this.renderMessage(
+        "You're offline. Plugin sets can be imported once you reconnect.",
+        true,
+      );
+      return;
+    }
+
+    this.renderMessage(
+      `Looking up ${this.set.plugins.length} ${this.set.plugins.length === 1 ? "plugin" : "plugins"}...`,
+    );
+    const controller = new AbortController();
+    this.abortController = controller;
+    try {
+      const items = await this.pluginSetService.resolvePluginSet(this.set, {
+        priority: "user",
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      this.items = items;
+      this.selected = new Set(
+        items
+          .filter((item) => item.status === "install")
+          .map((item) => item.entry.id),
+      );
+      this.renderReview();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      contentEl.empty();
+      this.renderMessage(
+        `Failed to look up the plugins: ${errorMessage}`,
+        true,
+      );
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  /**
+   * Render a status or error message
+   * @param message The message
+   * @param isError Whether the message reports a problem
+   */
+  private renderMessage(message: string, isError = false): void {
+    const messageEl = this.contentEl.createDiv(
+      isError ? "error-message" : "loading-message",
+    );
+    messageEl.setText(message);
+    messageEl.setAttribute("role", isError ? "alert" : "status");
+  }
+
+  /**
+   * Render the plugins to install with checkboxes, followed by the plugins
+   * that are skipped because they're already installed or can't be installed
+   */
+  private renderReview(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const toInstall = this.items.filter((item) => item.status === "install");
+    const present = this.items.filter((item) => item.status === "present");
+    const unavailable = this.items.filter(
+      (item) => item.status === "unavailable",
+    );
+
+    if (this.set.exportedAt) {
+      contentEl.createEl("p", {
+        cls: "setting-item-description",
+        text: `Exported ${new Date(this.set.exportedAt).toLocaleString()}.`,
+      });
+    }
+
+    let list: HTMLElement | null = null;
+    if (toInstall.length === 0) {
+      this.renderMessage(
+        present.length === this.items.length
+          ? "All plugins of this set are already installed."
+          : "None of the missing plugins can be installed.",
+      );
+    } else {
+      list = contentEl.createDiv("plugin-set-import-list");
+      list.setAttribute("role", "list");
+      for (const item of toInstall) {
+        this.renderInstallItem(list, item);
+      }
+    }
+
+    this.renderSkipped(
+      `Already installed (${present.length})`,
+      present.map((item) => `${item.entry.name} ${item.entry.version}`),
+    );
+    this.renderSkipped(
+      `Can't be installed (${unavailable.length})`,
+      unavailable.map(
+        (item) =>
+          `${item.entry.name} ${item.entry.version}: ${item.reason ?? "Unknown reason"}`,
+      ),
+    );
+
+    const actions = contentEl.createDiv("modal-button-container");
+    if (list) {
+      const installBtn = actions.createEl("button", {
+        cls: "mod-cta",
+        attr: { type: "button" },
+      });
+      const refreshInstallButton = () => {
+        const count = this.selected.size;
+        installBtn.setText(
+          count === 1 ? "Install 1 plugin" : `Install ${count} plugins`,
+        );
+        if (count === 0) {
+          installBtn.setAttr("disabled", "true");
+        } else {
+          installBtn.removeAttribute("disabled");
+        }
+      };
+      refreshInstallButton();
+      list.addEventListener("change", refreshInstallButton);
+      installBtn.addEventListener("click", () => {
+        void this.installSelected();
+      });
+    }
+
+    const cancelBtn = actions.createEl("button", {
+      text: list ? "Cancel" : "Close",
+      attr: { type: "button" },
+    });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Render one plugin to install: checkbox, version and whether it gets enabled
+   * @param list The list container
+   * @param item The import item
+   */
+  private renderInstallItem(
+    list: HTMLElement,
+    item: PluginSetImportItem,
+  ): void {
+    const { entry } = item;
+    const row = list.createDiv("plugin-set-import-item");
+    row.setAttribute("role", "listitem");
+
+    const label = row.createEl("label", { cls: "plugin-set-import-label" });
+    const checkbox = label.createEl("input", {
+      type: "checkbox",
+      attr: { "aria-label": `Install ${entry.name} ${entry.version}` },
+    });
+    checkbox.checked = this.selected.has(entry.id);
+    checkbox.addEventListener("change", () => {
+      if (checkbox.checked) {
+        this.selected.add(entry.id);
+      } else {
+        this.selected.delete(entry.id);
+      }
+    });
+    label.createSpan({ cls: "plugin-set-import-name", text: entry.name });
+    label.createSpan({
+      cls: "plugin-set-import-version",
+      text: entry.version,
+    });
+    if (entry.enabled) {
+      label.createSpan({
+        cls: "plugin-set-import-enabled",
+        text: "Enabled after install",
+      });
+    }
+    if (item.sideloaded && item.plugin) {
+      row.createDiv({
+        cls: "plugin-meta",
+        text: `Not in the registry; installed from ${item.plugin.repo}`,
+      });
+    }
+  }
+
+  /**
+   * Render a collapsible list of skipped plugins
+   * @param title Summary text
+   * @param lines One line per plugin (nothing is rendered if empty)
+   */
+  private renderSkipped(title: string, lines: string[]): void {
+    if (lines.length === 0) return;
+    const details = this.contentEl.createEl("details", {
+      cls: "plugin-set-import-skipped",
+    });
+    details.createEl("summary", { text: title });
+    const list = details.createEl("ul");
+    for (const line of lines) {
+      list.createEl("li", { text: line });
+    }
+  }
+
+  /**
+   * Install the selected plugins one after another with a progress bar
+   */
+  private async installSelected(): Promise<void> {
+    if (this.installing) return;
+    const selected = this.items.filter(
+      (item) => item.status === "install" && this.selected.has(item.entry.id),
+    );
+    if (selected.length === 0) return;
+
+    this.installing = true;
+    const { contentEl } = this;
+    contentEl.empty();
+    const progress = contentEl.createEl("progress", {
+      cls: "plugin-set-import-progress",
+      attr: { max: String(selected.length), value: "0" },
+    });
+    const statusEl = contentEl.createDiv("plugin-set-import-status");
+    statusEl.setAttribute("role", "status");
+    statusEl.setAttribute("aria-live", "polite");
+
+    try {
+      const results = await this.pluginSetService.installPluginSet(
+        selected,
+        (completed, current) => {
+          progress.value = completed;
+          statusEl.setText(
+            current
+              ? `Installing ${current.entry.name} (${completed + 1} of ${selected.length})...`
+              : "",
+          );
+        },
+      );
+      for (const result of results) {
+        if (result.success && result.item.sideloaded && result.item.plugin) {
+          await this.onSideloaded(result.item.plugin);
+        }
+      }
+      this.renderSummary(results);
+    } finally {
+      this.installing = false;
+    }
+  }
+
+  /**
+   * Render the final report: installed, enabled, skipped and failed plugins
+   * @param results Installation results
+   */
+  private renderSummary(results: PluginSetImportResult[]): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const succeeded = results.filter((result) => result.success);
+    const enabled = succeeded.filter((result) => result.enabled).length;
+    const notEnabled = succeeded.filter(
+      (result) => result.item.entry.enabled && !result.enabled,
+    );
+    const failed = results.filter((result) => !result.success);
+    const skipped = this.items.length - results.length;
+
+    const summary = contentEl.createDiv("plugin-set-import-summary");
+    summary.setAttribute("role", "status");
+    summary.setText(
+      `Installed ${succeeded.length} of ${results.length} ${results.length === 1 ? "plugin" : "plugins"}` +
+        (enabled > 0 ? ` and enabled ${enabled}` : "") +
+        "." +
+        (skipped > 0
+          ? ` Skipped ${skipped} ${skipped === 1 ? "plugin" : "plugins"} that ${skipped === 1 ? "was" : "were"} already installed, unavailable or not selected.`
+          : ""),
+    );
+
+    if (notEnabled.length > 0) {
+      contentEl.createEl("p", {
+        text: `Enable these in Settings > Community plugins: ${notEnabled
+          .map((result) => result.item.entry.name)
+          .join(", ")}`,
+      });
+    }
+
+    if (failed.length > 0) {
+      contentEl.createEl("p", {
+        cls: "error-message",
+        text: `${failed.length === 1 ? "1 plugin" : `${failed.length} plugins`} failed to install:`,
+        attr: { role: "alert" },
+      });
+      const failures = contentEl.createEl("ul", {
+        cls: "plugin-set-import-failures",
+      });
+      for (const result of failed) {
+        failures.createEl("li", {
+          text: `${result.item.entry.name} ${result.item.entry.version}: ${result.error ?? "Unknown error"}`,
+        });
+      }
+    }
+
+    const actions = contentEl.createDiv("modal-button-container");
+    const closeBtn = actions.createEl("button", {
+      cls: "mod-cta",
+      text: "Close",
+      attr: { type: "button" },
+    });
+    closeBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+}
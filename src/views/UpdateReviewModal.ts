@@ -0,0 +1,353 @@
+/**
+ * Update Review Modal - lists available plugin updates and installs the selected ones
+ */
+
+import { App, Component, MarkdownRenderer, Modal } from "obsidian";
+import { PluginUpdate, UpdateResult } from "../types";
+import { PluginService } from "../services/PluginService";
+import { UpdateService } from "../services/UpdateService";
+
+export class UpdateReviewModal extends Modal {
+  private pluginService: PluginService;
+  private updateService: UpdateService;
+  private updates: PluginUpdate[] | null; // Null until the check finished
+  private selected: Set<string> = new Set(); // Plugin IDs selected for updating
+  private onComplete: ((results: UpdateResult[]) => void) | null;
+  private markdownComponent: Component | null = null;
+  private abortController: AbortController | null = null; // Cancels the update check when the modal closes
+  private updating = false;
+
+  /**
+   * Create a new UpdateReviewModal instance
+   * @param app The Obsidian app instance
+   * @param pluginService Service for fetching release notes
+   * @param updateService Service for checking and installing updates
+   * @param updates Updates found by an earlier check (optional; checked when the modal opens if omitted)
+   * @param onComplete Called with the results after updates were installed (optional)
+   */
+  constructor(
+    app: App,
+    pluginService: PluginService,
+    updateService: UpdateService,
+    updates: PluginUpdate[] | null = null,
+    onComplete: ((results: UpdateResult[]) => void) | null = null,
+  ) {
+    super(app);
+    this.pluginService = pluginService;
+    this.updateService = updateService;
+    this.updates = updates;
+    this.onComplete = onComplete;
+  }
+
+  /**
+   * Check for updates (unless they were passed in) and render the list
+   */
+  onOpen(): void {
+    this.titleEl.setText("Plugin updates");
+    this.contentEl.addClass("update-review-modal");
+    this.markdownComponent = new Component();
+    this.markdownComponent.load();
+
+    if (this.updates) {
+      this.selectAll(this.updates);
+      this.renderUpdates();
+    } else {
+      void this.checkForUpdates();
+    }
+  }
+
+  /**
+   * Cancel a running update check and release rendered release notes
+   * Updates that are already installing continue in the background.
+   */
+  onClose(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+    if (this.markdownComponent) {
+      this.markdownComponent.unload();
+      this.markdownComponent = null;
+    }
+    this.contentEl.empty();
+  }
+
+  /**
+   * Check all installed plugins for updates and render the result
+   */
+  private async checkForUpdates(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.pluginService.isOffline()) {
+      this.renderMessage(
+        "You're offline. Updates can be checked once you reconnect.",
+        true,
+      );
+      return;
+    }
+
+    this.renderMessage("Checking installed plugins for updates...");
+    const controller = new AbortController();
+    this.abortController = controller;
+    try {
+      const updates = await this.updateService.checkForUpdates({
+        priority: "user",
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      this.updates = updates;
+      this.selectAll(updates);
+      this.renderUpdates();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      contentEl.empty();
+      this.renderMessage(`Failed to check for updates: ${errorMessage}`, true);
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  /**
+   * Select every update
+   * @param updates The available updates
+   */
+  private selectAll(updates: PluginUpdate[]): void {
+    this.selected = new Set(updates.map((update) => update.plugin.id));
+  }
+
+  /**
+   * Render a status or error message
+   * @param message The message
+   * @param isError Whether the message reports a problem
+   */
+  private renderMessage(message: string, isError = false): void {
+    const messageEl = this.contentEl.createDiv(
+      isError ? "error-message" : "loading-message",
+    );
+    messageEl.setText(message);
+    messageEl.setAttribute("role", isError ? "alert" : "status");
+  }
+
+  /**
+   * Render the list of available updates with checkboxes and the update button
+   */
+  private renderUpdates(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    const updates = this.updates ?? [];
+
+    if (updates.length === 0) {
+      this.renderMessage("All installed plugins are up to date.");
+      return;
+    }
+
+    const list = contentEl.createDiv("update-review-list");
+    list.setAttribute("role", "list");
+    for (const update of updates) {
+      this.renderUpdateItem(list, update);
+    }
+
+    const actions = contentEl.createDiv("modal-button-container");
+    const updateBtn = actions.createEl("button", {
+      cls: "mod-cta",
+      attr: { type: "button" },
+    });
+    const refreshUpdateButton = () => {
+      const count = this.selected.size;
+      updateBtn.setText(
+        count === 1 ? "Update 1 plugin" : `Update ${count} plugins`,
+      );
+      if (count === 0) {
+        updateBtn.setAttr("disabled", "true");
+      } else {
+        updateBtn.removeAttribute("disabled");
+      }
+    };
+    refreshUpdateButton();
+    list.addEventListener("change", refreshUpdateButton);
+    updateBtn.addEventListener("click", () => {
+      void this.installSelected();
+    });
+
+    const cancelBtn = actions.createEl("button", {
+      text: "Cancel",
+      attr: { type: "button" },
+    });
+    cancelBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Render one update: checkbox, version change and collapsible release notes
+   * @param list The list container
+   * @param update The update to render
+   */
+  private renderUpdateItem(list: HTMLElement, update: PluginUpdate): void {
+    const item = list.createDiv("update-review-item");
+    item.setAttribute("role", "listitem");
+
+    const label = item.createEl("label", { cls: "update-review-label" });
+    const checkbox = label.createEl("input", {
+      type: "checkbox",
+      attr: {
+        "aria-label": `Update ${update.plugin.name} from ${update.currentVersion} to ${update.newVersion}`,
+      },
+    });
+    checkbox.checked = this.selected.has(update.plugin.id);
+    checkbox.addEventListener("change", () => {
+      if (checkbox.checked) {
+        this.selected.add(update.plugin.id);
+      } else {
+        this.selected.delete(update.plugin.id);
+      }
+    });
+    label.createSpan({ cls: "update-review-name", text: update.plugin.name });
+    label.createSpan({
+      cls: "update-review-versions",
+      text: `${update.currentVersion} → ${update.newVersion}`,
+    });
+    if (update.channel === "beta") {
+      label.createSpan({ cls: "beta-badge", text: "BETA" });
+    }
+
+    // Release notes cost a GitHub API request, so they load when expanded
+    const notes = item.createEl("details", { cls: "update-review-notes" });
+    notes.createEl("summary", { text: "Release notes" });
+    const notesBody = notes.createDiv();
+    let loaded = false;
+    notes.addEventListener("toggle", () => {
+      if (!notes.open || loaded) return;
+      loaded = true;
+      void this.loadReleaseNotes(update, notesBody);
+    });
+  }
+
+  /**
+   * Load and render the release notes of an update's release
+   * @param update The update
+   * @param container Element to render the notes into
+   */
+  private async loadReleaseNotes(
+    update: PluginUpdate,
+    container: HTMLElement,
+  ): Promise<void> {
+    container.setText("Loading release notes...");
+    const releases = await this.pluginService.fetchPluginReleases(
+      update.plugin,
+      false,
+      { priority: "user" },
+    );
+    const release = releases?.find((entry) => entry.tagName === update.tag);
+    container.empty();
+    if (!release || !release.body.trim()) {
+      container.setText("No release notes for this version.");
+      return;
+    }
+    if (!this.markdownComponent) return; // Modal was closed
+
+    try {
+      await MarkdownRenderer.render(
+        this.app,
+        release.body,
+        container,
+        "",
+        this.markdownComponent,
+      );
+    } catch (error) {
+      console.error("Failed to render release notes:", error);
+      container.setText(release.body);
+    }
+  }
+
+  /**
+   * Install the selected updates one after another with a progress bar
+   */
+  private async installSelected(): Promise<void> {
+    if (this.updating || !this.updates) return;
+    const selected = this.updates.filter((update) =>
+      this.selected.has(update.plugin.id),
+    );
+    if (selected.length === 0) return;
+
+    this.updating = true;
+    const { contentEl } = this;
+    contentEl.empty();
+    const progress = contentEl.createEl("progress", {
+      cls: "update-review-progress",
+      attr: { max: String(selected.length), value: "0" },
+    });
+    const statusEl = contentEl.createDiv("update-review-status");
+    statusEl.setAttribute("role", "status");
+    statusEl.setAttribute("aria-live", "polite");
+
+    try {
+      const results = await this.updateService.installUpdates(
+        selected,
+        (completed, current) => {
+          progress.value = completed;
+          statusEl.setText(
+            current
+              ? `Updating ${current.plugin.name} (${completed + 1} of ${selected.length})...`
+              : "",
+          );
+        },
+      );
+      this.renderSummary(results);
+      this.onComplete?.(results);
+    } finally {
+      this.updating = false;
+    }
+  }
+
+  /**
+   * Render the result of the installed updates, listing failures
+   * @param results Installation results
+   */
+  private renderSummary(results: UpdateResult[]): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const succeeded = results.filter((result) => result.success).length;
+    const failed = results.filter((result) => !result.success);
+    const summary = contentEl.createDiv("update-review-summary");
+    summary.setAttribute("role", "status");
+    summary.setText(
+      `Updated ${succeeded} of ${results.length} ${results.length === 1 ? "plugin" : "plugins"}.` +
+        (succeeded > 0
+          ? " Reload Obsidian or toggle the updated plugins to run the new versions."
+          : ""),
+    );
+
+    if (failed.length > 0) {
+      contentEl.createEl("p", {
+        cls: "error-message",
+        text: `${failed.length === 1 ? "1 update" : `${failed.length} updates`} failed:`,
+        attr: { role: "alert" },
+      });
+      const failures = contentEl.createEl("ul", {
+        cls: "update-review-failures",
+      });
+      for (const result of failed) {
+        failures.createEl("li", {
+          text: `${result.update.plugin.name} ${result.update.newVersion}: ${result.error ?? "Unknown error"}`,
+        });
+      }
+    }
+
+    const actions = contentEl.createDiv("modal-button-container");
+    const closeBtn = actions.createEl("button", {
+      cls: "mod-cta",
+      text: "Close",
+      attr: { type: "button" },
+    });
+    closeBtn.addEventListener("click", () => {
+      this.close();
+    });
+  }
+}
@@ -11,3 +11,4 @@ export const requestUrl = () => Promise.resolve({});
 export const WorkspaceLeaf = class {};
 export const App = class {};
 export const Vault = class {};
+export const normalizePath = (path: string) => path;
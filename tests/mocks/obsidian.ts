@@ -15,7 +15,15 @@ export const createMockApp = () => ({
     delete: vi.fn(),
     adapter: {
       writeBinary: vi.fn(),
+      readBinary: vi.fn(),
       rmdir: vi.fn(),
+      exists: vi.fn(),
+      read: vi.fn(),
+      write: vi.fn(),
+      remove: vi.fn(),
+      mkdir: vi.fn(),
+      rename: vi.fn(),
+      list: vi.fn(),
     },
   },
   workspace: {
@@ -0,0 +1,254 @@
+/**
+ * Tests for BackupService
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { BackupService } from "../../src/services/BackupService";
+import { App } from "obsidian";
+import { PluginBackup } from "../../src/types";
+
+/**
+ * In-memory stand-in for the vault adapter, keyed by full path
+ */
+function createMemoryAdapter() {
+  const files = new Map<string, string>();
+  const folders = new Set<string>();
+  const children = (dir: string, paths: Iterable<string>) =>
+    [...paths].filter(
+      (path) =>
+        path.startsWith(`${dir}/`) && !path.slice(dir.length + 1).includes("/"),
+    );
+  const text = (data: ArrayBuffer) => new TextDecoder().decode(data);
+
+  return {
+    files,
+    folders,
+    exists: vi.fn(async (path: string) => files.has(path) || folders.has(path)),
+    list: vi.fn(async (dir: string) => ({
+      files: children(dir, files.keys()),
+      folders: children(dir, folders),
+    })),
+    read: vi.fn(async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`${path} does not exist`);
+      return content;
+    }),
+    readBinary: vi.fn(async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`${path} does not exist`);
+      return new TextEncoder().encode(content).buffer as ArrayBuffer;
+    }),
+    write: vi.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    }),
+    writeBinary: vi.fn(async (path: string, data: ArrayBuffer) => {
+      files.set(path, text(data));
+    }),
+    mkdir: vi.fn(async (path: string) => {
+      const parts = path.split("/");
+      for (let i = 1; i <= parts.length; i++) {
+        folders.add(parts.slice(0, i).join("/"));
+      }
+    }),
+    remove: vi.fn(async (path: string) => {
+      files.delete(path);
+    }),
+    rmdir: vi.fn(async (path: string) => {
+      for (const key of [...files.keys()]) {
+        if (key.startsWith(`${path}/`)) files.delete(key);
+      }
+      for (const key of [...folders]) {
+        if (key === path || key.startsWith(`${path}/`)) folders.delete(key);
+      }
+    }),
+  };
+}
+
+describe("BackupService", () => {
+  const pluginDir = ".obsidian/plugins/test-plugin";
+  const ownDir = ".obsidian/plugins/community-plugin-browser";
+  const backupDir = `${ownDir}/backups`;
+  let adapter: ReturnType<typeof createMemoryAdapter>;
+  let backupService: BackupService;
+  let now: number;
+
+  const installPlugin = async (version: string, data = "{}") => {
+    await adapter.mkdir(pluginDir);
+    await adapter.write(
+      `${pluginDir}/manifest.json`,
+      JSON.stringify({ id: "test-plugin", version }),
+    );
+    await adapter.write(`${pluginDir}/main.js`, `// ${version}`);
+    await adapter.write(`${pluginDir}/data.json`, data);
+  };
+
+  const backUp = async () => {
+    const backup = await backupService.createBackup("test-plugin", pluginDir);
+    if (!backup) throw new Error("No backup was created");
+    return backup;
+  };
+
+  beforeEach(() => {
+    adapter = createMemoryAdapter();
+    const app = { vault: { adapter } } as unknown as App;
+    backupService = new BackupService(app, backupDir, [
+      `${ownDir}/cache`,
+      `${ownDir}/history.jsonl`,
+    ]);
+    now = 1700000000000;
+    vi.spyOn(Date, "now").mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("createBackup", () => {
+    it("should copy the plugin folder including data.json", async () => {
+      await installPlugin("1.0.0", '{"setting":true}');
+      await adapter.mkdir(`${pluginDir}/lang`);
+      await adapter.write(`${pluginDir}/lang/de.json`, "{}");
+
+      const backup = await backupService.createBackup("test-plugin", pluginDir);
+
+      expect(backup).toMatchObject({
+        pluginId: "test-plugin",
+        version: "1.0.0",
+        path: `${backupDir}/test-plugin/1700000000000-1.0.0`,
+      });
+      expect([...(backup?.files ?? [])].sort()).toEqual([
+        "data.json",
+        "lang/de.json",
+        "main.js",
+        "manifest.json",
+      ]);
+      expect(adapter.files.get(`${backup?.path}/data.json`)).toBe(
+        '{"setting":true}',
+      );
+      expect(await backupService.listBackups("test-plugin")).toEqual([backup]);
+    });
+
+    it("should return null when the plugin isn't installed", async () => {
+      expect(
+        await backupService.createBackup("test-plugin", pluginDir),
+      ).toBeNull();
+    });
+
+    it("should not back up anything when retention is 0", async () => {
+      await installPlugin("1.0.0");
+      backupService.setRetention(0);
+
+      expect(
+        await backupService.createBackup("test-plugin", pluginDir),
+      ).toBeNull();
+      expect(adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("should keep older backups until they are pruned", async () => {
+      backupService.setRetention(2);
+      for (const version of ["1.0.0", "1.1.0", "1.2.0"]) {
+        await installPlugin(version);
+        await backupService.createBackup("test-plugin", pluginDir);
+      }
+
+      expect(await backupService.listBackups("test-plugin")).toHaveLength(3);
+    });
+
+    it("should not copy its own backups, caches or history into a backup", async () => {
+      await adapter.mkdir(`${backupDir}/other-plugin/1-1.0.0`);
+      await adapter.write(`${backupDir}/other-plugin/1-1.0.0/main.js`, "");
+      await adapter.mkdir(`${ownDir}/cache`);
+      await adapter.write(`${ownDir}/cache/readme-index.json`, "{}");
+      await adapter.write(`${ownDir}/history.jsonl`, "{}\n");
+      await adapter.write(
+        `${ownDir}/manifest.json`,
+        JSON.stringify({ version: "2.0.0" }),
+      );
+
+      const backup = await backupService.createBackup(
+        "community-plugin-browser",
+        ownDir,
+      );
+
+      expect(backup?.files).toEqual(["manifest.json"]);
+    });
+
+    it("should remove a partial backup when copying fails", async () => {
+      await installPlugin("1.0.0");
+      adapter.readBinary.mockRejectedValueOnce(new Error("Disk error"));
+
+      await expect(
+        backupService.createBackup("test-plugin", pluginDir),
+      ).rejects.toThrow("Disk error");
+      expect(await backupService.listBackups("test-plugin")).toEqual([]);
+      expect(
+        [...adapter.folders].some((folder) =>
+          folder.startsWith(`${backupDir}/test-plugin/`),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("restoreBackup", () => {
+    it("should restore the backed-up files and remove files added since", async () => {
+      await installPlugin("1.0.0", '{"old":true}');
+      const backup = await backUp();
+      await installPlugin("2.0.0", '{"new":true}');
+      await adapter.write(`${pluginDir}/styles.css`, "body {}");
+
+      await backupService.restoreBackup(backup, pluginDir);
+
+      expect(
+        JSON.parse(adapter.files.get(`${pluginDir}/manifest.json`) ?? "{}"),
+      ).toMatchObject({ version: "1.0.0" });
+      expect(adapter.files.get(`${pluginDir}/data.json`)).toBe('{"old":true}');
+      expect(adapter.files.has(`${pluginDir}/styles.css`)).toBe(false);
+    });
+
+    it("should keep the excluded files when restoring", async () => {
+      await adapter.mkdir(ownDir);
+      await adapter.write(
+        `${ownDir}/manifest.json`,
+        JSON.stringify({ version: "1.0.0" }),
+      );
+      const backup = await backupService.createBackup(
+        "community-plugin-browser",
+        ownDir,
+      );
+      await adapter.write(`${ownDir}/history.jsonl`, "{}\n");
+
+      await backupService.restoreBackup(backup as PluginBackup, ownDir);
+
+      expect(adapter.files.get(`${ownDir}/history.jsonl`)).toBe("{}\n");
+    });
+  });
+
+  describe("pruneBackups", () => {
+    it("should keep only the newest backups up to the retention limit", async () => {
+      backupService.setRetention(2);
+      for (const version of ["1.0.0", "1.1.0", "1.2.0"]) {
+        await installPlugin(version);
+        await backupService.createBackup("test-plugin", pluginDir);
+      }
+
+      await backupService.pruneBackups("test-plugin");
+
+      const backups = await backupService.listBackups("test-plugin");
+      expect(backups.map((backup) => backup.version)).toEqual([
+        "1.2.0",
+        "1.1.0",
+      ]);
+    });
+  });
+
+  describe("deleteBackup", () => {
+    it("should remove the backup from the list", async () => {
+      await installPlugin("1.0.0");
+      const backup = await backUp();
+
+      await backupService.deleteBackup(backup);
+
+      expect(await backupService.listBackups("test-plugin")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for FileStorageService
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FileStorageService } from "../../src/services/FileStorageService";
+import { App } from "obsidian";
+import { createMockApp } from "../mocks/obsidian";
+
+describe("FileStorageService", () => {
+  let mockApp: App;
+  let storage: FileStorageService;
+  const dir = ".obsidian/plugins/test-plugin/cache";
+
+  beforeEach(() => {
+    mockApp = createMockApp() as unknown as App;
+    storage = new FileStorageService(mockApp, dir);
+    vi.clearAllMocks();
+  });
+
+  describe("readJson", () => {
+    it("should parse JSON from an existing file", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+      vi.mocked(mockApp.vault.adapter.read).mockResolvedValue('{"a":1}');
+
+      const result = await storage.readJson<{ a: number }>("data.json");
+      expect(result).toEqual({ a: 1 });
+      expect(mockApp.vault.adapter.read).toHaveBeenCalledWith(
+        `${dir}/data.json`,
+      );
+    });
+
+    it("should return null when the file does not exist", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(false);
+
+      const result = await storage.readJson("data.json");
+      expect(result).toBeNull();
+      expect(mockApp.vault.adapter.read).not.toHaveBeenCalled();
+    });
+
+    it("should return null for invalid JSON", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+      vi.mocked(mockApp.vault.adapter.read).mockResolvedValue("{not json");
+
+      const result = await storage.readJson("data.json");
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("writeJson", () => {
+    it("should create the directory and write serialized data", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(false);
+
+      await storage.writeJson("data.json", { a: 1 });
+      expect(mockApp.vault.adapter.mkdir).toHaveBeenCalledWith(dir);
+      expect(mockApp.vault.adapter.write).toHaveBeenCalledWith(
+        `${dir}/data.json`,
+        '{"a":1}',
+      );
+    });
+
+    it("should keep file names inside the storage directory", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+
+      await storage.writeJson("../../evil.json", {});
+      expect(mockApp.vault.adapter.write).toHaveBeenCalledWith(
+        `${dir}/evil.json`,
+        "{}",
+      );
+    });
+  });
+
+  describe("remove and clear", () => {
+    it("should remove an existing file", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+
+      await storage.remove("data.json");
+      expect(mockApp.vault.adapter.remove).toHaveBeenCalledWith(
+        `${dir}/data.json`,
+      );
+    });
+
+    it("should remove the whole directory on clear", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+
+      await storage.clear();
+      expect(mockApp.vault.adapter.rmdir).toHaveBeenCalledWith(dir, true);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for HistoryService
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HistoryService } from "../../src/services/HistoryService";
+import { HistoryEntry } from "../../src/types";
+import { App } from "obsidian";
+
+describe("HistoryService", () => {
+  const path = ".obsidian/plugins/community-plugin-browser/history.jsonl";
+  let content: string | null;
+  let adapter: {
+    exists: ReturnType<typeof vi.fn>;
+    read: ReturnType<typeof vi.fn>;
+    write: ReturnType<typeof vi.fn>;
+    append: ReturnType<typeof vi.fn>;
+  };
+  let historyService: HistoryService;
+
+  const entry = (pluginId: string, timestamp: number): HistoryEntry => ({
+    timestamp,
+    action: "install",
+    pluginId,
+    fromVersion: null,
+    toVersion: "1.0.0",
+    repo: `owner/${pluginId}`,
+    success: true,
+  });
+
+  beforeEach(() => {
+    content = null;
+    adapter = {
+      exists: vi.fn(async () => content !== null),
+      read: vi.fn(async () => content ?? ""),
+      write: vi.fn(async (_path: string, data: string) => {
+        content = data;
+      }),
+      append: vi.fn(async (_path: string, data: string) => {
+        content = (content ?? "") + data;
+      }),
+    };
+    historyService = new HistoryService(
+      { vault: { adapter } } as unknown as App,
+      path,
+    );
+  });
+
+  it("should create the history file and append later entries", async () => {
+    await historyService.record(entry("first", 1));
+    await historyService.record(entry("second", 2));
+
+    expect(adapter.write).toHaveBeenCalledTimes(1);
+    expect(adapter.append).toHaveBeenCalledTimes(1);
+    expect(content?.trim().split("\n")).toHaveLength(2);
+    expect(
+      (await historyService.getEntries()).map((item) => item.pluginId),
+    ).toEqual(["second", "first"]);
+  });
+
+  it("should keep recording after a failed write", async () => {
+    adapter.write.mockRejectedValueOnce(new Error("Disk full"));
+
+    await expect(historyService.record(entry("first", 1))).rejects.toThrow(
+      "Disk full",
+    );
+    await historyService.record(entry("second", 2));
+
+    expect(
+      (await historyService.getEntries()).map((item) => item.pluginId),
+    ).toEqual(["second"]);
+  });
+
+  it("should notify listeners of new entries", async () => {
+    const listener = vi.fn();
+    const unsubscribe = historyService.onEntryAdded(listener);
+
+    await historyService.record(entry("first", 1));
+    unsubscribe();
+    await historyService.record(entry("second", 2));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(entry("first", 1));
+  });
+
+  it("should return no entries without a history file", async () => {
+    expect(await historyService.getEntries()).toEqual([]);
+  });
+});
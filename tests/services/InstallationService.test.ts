@@ -4,9 +4,13 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { InstallationService } from "../../src/services/InstallationService";
-import { PluginManifest } from "../../src/types";
-import { App, TFile, TFolder, requestUrl } from "obsidian";
+import { BackupService } from "../../src/services/BackupService";
+import { HistoryService } from "../../src/services/HistoryService";
+import { PluginManifest, PluginBackup } from "../../src/types";
+import { App, Platform, requestUrl } from "obsidian";
 import { createMockApp } from "../mocks/obsidian";
+import { PLUGIN_CONFIG } from "../../src/config";
+import { showSuccess } from "../../src/utils";
 
 // Mock obsidian module
 vi.mock("obsidian", async () => {
@@ -14,9 +18,8 @@ vi.mock("obsidian", async () => {
   return {
     ...actual,
     requestUrl: vi.fn(),
-    TFile: class {},
-    TFolder: class {},
     normalizePath: vi.fn((path: string) => path),
+    Platform: { isMobile: false, isDesktop: true },
   };
 });
 
@@ -42,24 +45,36 @@ describe("InstallationService", () => {
     author: "Test Author",
   };
 
+  const manifestPath = ".obsidian/plugins/test-plugin/manifest.json";
+
   /**
-   * Helper function to create a mock TFile that passes instanceof checks
+   * Serve installed files through the vault adapter, which is how the config
+   * folder is read (the vault index doesn't include it). Folders holding a
+   * listed file exist too; everything else is missing.
    */
-  function createMockTFile(path: string): TFile {
-    const mockFile = Object.create(TFile.prototype);
-    mockFile.path = path;
-    Object.setPrototypeOf(mockFile, TFile.prototype);
-    return mockFile;
+  function mockInstalledFiles(files: Record<string, string>): void {
+    vi.mocked(mockApp.vault.adapter.exists).mockImplementation(
+      async (path: string) =>
+        path in files ||
+        Object.keys(files).some((file) => file.startsWith(`${path}/`)),
+    );
+    vi.mocked(mockApp.vault.adapter.read).mockImplementation(
+      async (path: string) => {
+        if (!(path in files)) {
+          throw new Error(`${path} does not exist`);
+        }
+        return files[path];
+      },
+    );
   }
 
   /**
-   * Helper function to create a mock TFolder that passes instanceof checks
+   * Install test-plugin at a version
    */
-  function createMockTFolder(path: string): TFolder {
-    const mockFolder = Object.create(TFolder.prototype);
-    mockFolder.path = path;
-    Object.setPrototypeOf(mockFolder, TFolder.prototype);
-    return mockFolder;
+  function mockInstalledVersion(version: string): void {
+    mockInstalledFiles({
+      [manifestPath]: JSON.stringify({ ...mockManifest, version }),
+    });
   }
 
   beforeEach(() => {
@@ -70,29 +85,23 @@ describe("InstallationService", () => {
 
   describe("isPluginInstalled", () => {
     it("should return true when manifest.json exists", async () => {
-      const mockFile = createMockTFile(
-        ".obsidian/plugins/test-plugin/manifest.json",
-      );
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(mockFile);
+      mockInstalledVersion("1.0.0");
 
       const result = await installationService.isPluginInstalled("test-plugin");
       expect(result).toBe(true);
+      expect(mockApp.vault.adapter.exists).toHaveBeenCalledWith(manifestPath);
+      expect(mockApp.vault.getAbstractFileByPath).not.toHaveBeenCalled();
     });
 
     it("should return false when manifest.json does not exist", async () => {
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(null);
+      mockInstalledFiles({});
 
       const result = await installationService.isPluginInstalled("test-plugin");
       expect(result).toBe(false);
     });
 
-    it("should return false when path exists but is not a file", async () => {
-      const mockFolder = createMockTFolder(".obsidian/plugins/test-plugin");
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(
-        mockFolder,
-      );
+    it("should return false when the folder has no manifest.json", async () => {
+      mockInstalledFiles({ ".obsidian/plugins/test-plugin/main.js": "" });
 
       const result = await installationService.isPluginInstalled("test-plugin");
       expect(result).toBe(false);
@@ -101,22 +110,16 @@ describe("InstallationService", () => {
 
   describe("getInstalledVersion", () => {
     it("should return version from manifest.json", async () => {
-      const mockFile = createMockTFile(
-        ".obsidian/plugins/test-plugin/manifest.json",
-      );
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(mockFile);
-      vi.mocked(mockApp.vault.read).mockResolvedValue(
-        JSON.stringify(mockManifest),
-      );
+      mockInstalledVersion("1.0.0");
 
       const result =
         await installationService.getInstalledVersion("test-plugin");
       expect(result).toBe("1.0.0");
+      expect(mockApp.vault.adapter.read).toHaveBeenCalledWith(manifestPath);
     });
 
     it("should return null when plugin is not installed", async () => {
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(null);
+      mockInstalledFiles({});
 
       const result =
         await installationService.getInstalledVersion("test-plugin");
@@ -124,29 +127,19 @@ describe("InstallationService", () => {
     });
 
     it("should return null when manifest cannot be read", async () => {
-      const mockFile = createMockTFile(
-        ".obsidian/plugins/test-plugin/manifest.json",
-      );
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(mockFile);
-      vi.mocked(mockApp.vault.read).mockRejectedValue(new Error("Read error"));
+      mockInstalledFiles({ [manifestPath]: "{ not json" });
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
       const result =
         await installationService.getInstalledVersion("test-plugin");
       expect(result).toBeNull();
+      errorSpy.mockRestore();
     });
   });
 
   describe("hasUpdateAvailable", () => {
     it("should return true when update is available", async () => {
-      const mockFile = createMockTFile(
-        ".obsidian/plugins/test-plugin/manifest.json",
-      );
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(mockFile);
-      vi.mocked(mockApp.vault.read).mockResolvedValue(
-        JSON.stringify({ ...mockManifest, version: "0.9.0" }),
-      );
+      mockInstalledVersion("0.9.0");
 
       const result = await installationService.hasUpdateAvailable(
         "test-plugin",
@@ -156,14 +149,7 @@ describe("InstallationService", () => {
     });
 
     it("should return false when already up to date", async () => {
-      const mockFile = createMockTFile(
-        ".obsidian/plugins/test-plugin/manifest.json",
-      );
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(mockFile);
-      vi.mocked(mockApp.vault.read).mockResolvedValue(
-        JSON.stringify(mockManifest),
-      );
+      mockInstalledVersion("1.0.0");
 
       const result = await installationService.hasUpdateAvailable(
         "test-plugin",
@@ -173,7 +159,7 @@ describe("InstallationService", () => {
     });
 
     it("should return false when plugin is not installed", async () => {
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(null);
+      mockInstalledFiles({});
 
       const result = await installationService.hasUpdateAvailable(
         "test-plugin",
@@ -183,37 +169,40 @@ describe("InstallationService", () => {
     });
   });
 
-  describe("installPlugin", () => {
-    const mockArrayBuffer = new ArrayBuffer(8);
-    const mockRepo = "owner/repo";
-    const mockVersion = "1.0.0";
-
-    it("should install plugin successfully", async () => {
-      const mainJsResponse = {
-        status: 200,
-        headers: {},
-        json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
-      };
-      const manifestResponse = {
+  /**
+   * Serve release files by URL; files not listed fail with a 404
+   */
+  function mockReleaseFiles(files: Record<string, string>): void {
+    vi.mocked(requestUrl).mockImplementation((async (request: {
+      url: string;
+    }) => {
+      const fileName = request.url.split("/").pop() ?? "";
+      if (!(fileName in files)) {
+        throw new Error("Request failed, status 404");
+      }
+      return {
         status: 200,
         headers: {},
         json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
+        text: files[fileName],
+        arrayBuffer: new TextEncoder().encode(files[fileName]).buffer,
       };
+    }) as unknown as typeof requestUrl);
+  }
 
-      vi.mocked(requestUrl)
-        .mockResolvedValueOnce(
-          mainJsResponse as Awaited<ReturnType<typeof requestUrl>>,
-        )
-        .mockResolvedValueOnce(
-          manifestResponse as Awaited<ReturnType<typeof requestUrl>>,
-        )
-        .mockRejectedValueOnce(new Error("404")); // styles.css not found
+  const releaseFiles = {
+    "main.js": "module.exports = {};",
+    "manifest.json": JSON.stringify(mockManifest),
+  };
 
-      vi.mocked(mockApp.vault.adapter.writeBinary).mockResolvedValue();
+  describe("installPlugin", () => {
+    const mockRepo = "owner/repo";
+    const mockVersion = "1.0.0";
+    const pluginDir = ".obsidian/plugins/test-plugin";
+    const stagedDir = ".obsidian/plugins/.staging/test-plugin/new";
+
+    it("should install plugin successfully", async () => {
+      mockReleaseFiles(releaseFiles);
 
       const result = await installationService.installPlugin(
         mockRepo,
@@ -222,43 +211,22 @@ describe("InstallationService", () => {
       );
       expect(result.success).toBe(true);
       expect(result.pluginId).toBe("test-plugin");
+      expect(mockApp.vault.adapter.writeBinary).toHaveBeenCalledWith(
+        `${stagedDir}/main.js`,
+        expect.any(ArrayBuffer),
+      );
+      expect(mockApp.vault.adapter.rename).toHaveBeenCalledWith(
+        `${stagedDir}/main.js`,
+        `${pluginDir}/main.js`,
+      );
+      expect(mockApp.vault.adapter.rename).toHaveBeenCalledWith(
+        `${stagedDir}/manifest.json`,
+        `${pluginDir}/manifest.json`,
+      );
     });
 
     it("should download and install styles.css if available", async () => {
-      const mainJsResponse = {
-        status: 200,
-        headers: {},
-        json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
-      };
-      const manifestResponse = {
-        status: 200,
-        headers: {},
-        json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
-      };
-      const stylesResponse = {
-        status: 200,
-        headers: {},
-        json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
-      };
-
-      vi.mocked(requestUrl)
-        .mockResolvedValueOnce(
-          mainJsResponse as Awaited<ReturnType<typeof requestUrl>>,
-        )
-        .mockResolvedValueOnce(
-          manifestResponse as Awaited<ReturnType<typeof requestUrl>>,
-        )
-        .mockResolvedValueOnce(
-          stylesResponse as Awaited<ReturnType<typeof requestUrl>>,
-        );
-
-      vi.mocked(mockApp.vault.adapter.writeBinary).mockResolvedValue();
+      mockReleaseFiles({ ...releaseFiles, "styles.css": "body {}" });
 
       const result = await installationService.installPlugin(
         mockRepo,
@@ -267,6 +235,10 @@ describe("InstallationService", () => {
       );
       expect(result.success).toBe(true);
       expect(requestUrl).toHaveBeenCalledTimes(3); // main.js, manifest.json, styles.css
+      expect(mockApp.vault.adapter.rename).toHaveBeenCalledWith(
+        `${stagedDir}/styles.css`,
+        `${pluginDir}/styles.css`,
+      );
     });
 
     it("should return error for invalid repo format", async () => {
@@ -300,6 +272,22 @@ describe("InstallationService", () => {
       expect(result.error).toContain("Invalid manifest");
     });
 
+    it("should reject plugin IDs that would leave the plugins folder", async () => {
+      mockReleaseFiles(releaseFiles);
+
+      for (const id of ["../evil", "a/b", ".hidden"]) {
+        const result = await installationService.installPlugin(
+          mockRepo,
+          mockVersion,
+          { ...mockManifest, id },
+        );
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("Invalid plugin ID");
+      }
+      expect(requestUrl).not.toHaveBeenCalled();
+      expect(mockApp.vault.adapter.mkdir).not.toHaveBeenCalled();
+    });
+
     it("should check compatibility before installing", async () => {
       const incompatibleManifest = { ...mockManifest, minAppVersion: "99.0.0" };
       // Mock app.version directly
@@ -317,35 +305,45 @@ describe("InstallationService", () => {
       expect(result.error).toContain("requires Obsidian");
     });
 
-    it("should rollback on installation failure", async () => {
-      const mockResponse = {
-        status: 200,
-        headers: {},
-        json: {},
-        text: "",
-        arrayBuffer: mockArrayBuffer,
-      };
-      vi.mocked(requestUrl).mockResolvedValueOnce(
-        mockResponse as Awaited<ReturnType<typeof requestUrl>>,
+    it("should not touch the plugin folder when a download fails", async () => {
+      mockReleaseFiles({ "main.js": releaseFiles["main.js"] });
+
+      const result = await installationService.installPlugin(
+        mockRepo,
+        mockVersion,
+        mockManifest,
       );
+      expect(result.success).toBe(false);
+      expect(mockApp.vault.adapter.writeBinary).not.toHaveBeenCalled();
+      expect(mockApp.vault.adapter.rename).not.toHaveBeenCalled();
+    });
 
-      // First writeBinary call (main.js) succeeds, second (manifest.json) fails
-      vi.mocked(mockApp.vault.adapter.writeBinary)
-        .mockResolvedValueOnce(undefined) // main.js write succeeds
-        .mockRejectedValueOnce(new Error("Write error")); // manifest.json write fails
+    it("should reject a release whose manifest belongs to another plugin", async () => {
+      mockReleaseFiles({
+        ...releaseFiles,
+        "manifest.json": JSON.stringify({ ...mockManifest, id: "other" }),
+      });
 
-      const mockFile = createMockTFile(".obsidian/plugins/test-plugin/main.js");
+      const result = await installationService.installPlugin(
+        mockRepo,
+        mockVersion,
+        mockManifest,
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('belongs to plugin "other"');
+      expect(mockApp.vault.adapter.writeBinary).not.toHaveBeenCalled();
+    });
 
-      // getAbstractFileByPath should return the file when called with the written file path
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockImplementation(
-        (path: string) => {
-          if (path === ".obsidian/plugins/test-plugin/main.js") {
-            return mockFile;
+    it("should restore the previous files when swapping fails", async () => {
+      mockReleaseFiles(releaseFiles);
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+      vi.mocked(mockApp.vault.adapter.rename).mockImplementation(
+        async (from: string) => {
+          if (from === `${stagedDir}/manifest.json`) {
+            throw new Error("Rename error");
           }
-          return null;
         },
       );
-      vi.mocked(mockApp.vault.delete).mockResolvedValue();
 
       const result = await installationService.installPlugin(
         mockRepo,
@@ -353,26 +351,50 @@ describe("InstallationService", () => {
         mockManifest,
       );
       expect(result.success).toBe(false);
-      expect(mockApp.vault.delete).toHaveBeenCalled();
+      expect(mockApp.vault.adapter.remove).toHaveBeenCalledWith(
+        `${pluginDir}/main.js`,
+      );
+      const previousDir = ".obsidian/plugins/.staging/test-plugin/previous";
+      for (const fileName of ["main.js", "manifest.json", "styles.css"]) {
+        expect(mockApp.vault.adapter.rename).toHaveBeenCalledWith(
+          `${previousDir}/${fileName}`,
+          `${pluginDir}/${fileName}`,
+        );
+      }
+      // The staging folder is cleaned up either way
+      expect(mockApp.vault.adapter.rmdir).toHaveBeenCalledWith(
+        ".obsidian/plugins/.staging/test-plugin",
+        true,
+      );
     });
   });
 
   describe("uninstallPlugin", () => {
-    it("should uninstall plugin successfully", async () => {
-      const mockFolder = createMockTFolder(".obsidian/plugins/test-plugin");
+    it("should reject plugin IDs that would leave the plugins folder", async () => {
+      for (const id of ["..", "../evil", "a/b", ""]) {
+        const result = await installationService.uninstallPlugin(id);
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("Invalid plugin ID");
+      }
+      expect(mockApp.vault.adapter.exists).not.toHaveBeenCalled();
+      expect(mockApp.vault.adapter.rmdir).not.toHaveBeenCalled();
+    });
 
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(
-        mockFolder,
-      );
+    it("should uninstall plugin successfully", async () => {
+      mockInstalledVersion("1.0.0");
       vi.mocked(mockApp.vault.adapter.rmdir).mockResolvedValue();
 
       const result = await installationService.uninstallPlugin("test-plugin");
       expect(result.success).toBe(true);
       expect(result.pluginId).toBe("test-plugin");
+      expect(mockApp.vault.adapter.rmdir).toHaveBeenCalledWith(
+        ".obsidian/plugins/test-plugin",
+        true,
+      );
     });
 
     it("should return error when plugin not found", async () => {
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(null);
+      mockInstalledFiles({});
 
       const result = await installationService.uninstallPlugin("test-plugin");
       expect(result.success).toBe(false);
@@ -380,11 +402,7 @@ describe("InstallationService", () => {
     });
 
     it("should handle deletion errors gracefully", async () => {
-      const mockFolder = createMockTFolder(".obsidian/plugins/test-plugin");
-
-      vi.mocked(mockApp.vault.getAbstractFileByPath).mockReturnValue(
-        mockFolder,
-      );
+      mockInstalledVersion("1.0.0");
       vi.mocked(mockApp.vault.adapter.rmdir).mockRejectedValue(
         new Error("Delete error"),
       );
@@ -395,6 +413,616 @@ describe("InstallationService", () => {
     });
   });
 
+  describe("pinned versions", () => {
+    const mockDownloads = () => {
+      mockReleaseFiles(releaseFiles);
+    };
+
+    it("should pin a version installed on purpose and report the change", async () => {
+      const oldManifest = { ...mockManifest, version: "0.9.0" };
+      mockReleaseFiles({
+        ...releaseFiles,
+        "manifest.json": JSON.stringify(oldManifest),
+      });
+      const listener = vi.fn();
+      installationService.onPinnedVersionsChange(listener);
+
+      await installationService.installPlugin(
+        "owner/repo",
+        "0.9.0",
+        oldManifest,
+        {
+          pinVersion: true,
+        },
+      );
+
+      expect(installationService.getPinnedVersion("test-plugin")).toBe("0.9.0");
+      expect(listener).toHaveBeenCalledWith({ "test-plugin": "0.9.0" });
+    });
+
+    it("should not report updates for the pinned version", async () => {
+      installationService.setPinnedVersions({ "test-plugin": "0.9.0" });
+
+      mockInstalledVersion("0.9.0");
+      expect(
+        await installationService.hasUpdateAvailable("test-plugin", "1.0.0"),
+      ).toBe(false);
+
+      // A different installed version (e.g. updated elsewhere) is checked normally
+      mockInstalledVersion("0.8.0");
+      expect(
+        await installationService.hasUpdateAvailable("test-plugin", "1.0.0"),
+      ).toBe(true);
+    });
+
+    it("should remove the pin on a regular install, unpin and uninstall", async () => {
+      mockDownloads();
+      installationService.setPinnedVersions({ "test-plugin": "0.9.0" });
+      await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+      expect(installationService.getPinnedVersion("test-plugin")).toBeNull();
+
+      installationService.setPinnedVersions({ "test-plugin": "0.9.0" });
+      installationService.unpinVersion("test-plugin");
+      expect(installationService.getPinnedVersion("test-plugin")).toBeNull();
+
+      installationService.setPinnedVersions({ "test-plugin": "0.9.0" });
+      mockInstalledVersion("0.9.0");
+      vi.mocked(mockApp.vault.adapter.rmdir).mockResolvedValue();
+      await installationService.uninstallPlugin("test-plugin");
+      expect(installationService.getPinnedVersion("test-plugin")).toBeNull();
+    });
+  });
+
+  describe("release channels", () => {
+    it("should follow the stable channel by default", () => {
+      expect(installationService.getReleaseChannel("test-plugin")).toBe(
+        "stable",
+      );
+    });
+
+    it("should switch channels and report the beta plugins", () => {
+      const listener = vi.fn();
+      installationService.setBetaPlugins(["other-plugin"]);
+      installationService.onReleaseChannelsChange(listener);
+
+      installationService.setReleaseChannel("test-plugin", "beta");
+      expect(installationService.getReleaseChannel("test-plugin")).toBe("beta");
+      expect(listener).toHaveBeenLastCalledWith([
+        "other-plugin",
+        "test-plugin",
+      ]);
+
+      installationService.setReleaseChannel("test-plugin", "stable");
+      expect(listener).toHaveBeenLastCalledWith(["other-plugin"]);
+
+      // Setting the current channel again is not a change
+      installationService.setReleaseChannel("test-plugin", "stable");
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return to the stable channel on uninstall", async () => {
+      installationService.setBetaPlugins(["test-plugin"]);
+      mockInstalledVersion("0.9.0");
+      vi.mocked(mockApp.vault.adapter.rmdir).mockResolvedValue();
+
+      await installationService.uninstallPlugin("test-plugin");
+
+      expect(installationService.getReleaseChannel("test-plugin")).toBe(
+        "stable",
+      );
+    });
+  });
+
+  describe("backups", () => {
+    const backup: PluginBackup = {
+      pluginId: "test-plugin",
+      version: "0.9.0",
+      createdAt: 1700000000000,
+      path: ".obsidian/plugins/community-plugin-browser/backups/test-plugin/1700000000000-0.9.0",
+      files: ["main.js", "manifest.json", "data.json"],
+    };
+    let backupService: BackupService;
+
+    beforeEach(() => {
+      backupService = {
+        createBackup: vi.fn().mockResolvedValue(backup),
+        pruneBackups: vi.fn().mockResolvedValue(undefined),
+        listBackups: vi.fn().mockResolvedValue([backup]),
+        restoreBackup: vi.fn().mockResolvedValue(undefined),
+        deleteBackup: vi.fn().mockResolvedValue(undefined),
+      } as unknown as BackupService;
+      installationService.setBackupService(backupService);
+      mockReleaseFiles(releaseFiles);
+    });
+
+    it("should back up the installed version before overwriting it", async () => {
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(result.success).toBe(true);
+      expect(backupService.createBackup).toHaveBeenCalledWith(
+        "test-plugin",
+        ".obsidian/plugins/test-plugin",
+      );
+      expect(
+        vi.mocked(backupService.createBackup).mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        vi.mocked(mockApp.vault.adapter.rename).mock.invocationCallOrder[0],
+      );
+      expect(backupService.pruneBackups).toHaveBeenCalledWith("test-plugin");
+    });
+
+    it("should keep older backups when the new version can't be swapped in", async () => {
+      vi.mocked(mockApp.vault.adapter.rename).mockRejectedValue(
+        new Error("Rename error"),
+      );
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(result.success).toBe(false);
+      expect(backupService.createBackup).toHaveBeenCalled();
+      expect(backupService.pruneBackups).not.toHaveBeenCalled();
+    });
+
+    it("should not overwrite the plugin when the backup fails", async () => {
+      vi.mocked(backupService.createBackup).mockRejectedValue(
+        new Error("Disk full"),
+      );
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "Failed to back up the installed version: Disk full",
+      );
+      expect(mockApp.vault.adapter.rename).not.toHaveBeenCalled();
+    });
+
+    it("should restore the newest backup and pin its version", async () => {
+      vi.mocked(mockApp.vault.adapter.readBinary).mockResolvedValue(
+        new TextEncoder().encode("// 0.9.0").buffer,
+      );
+
+      const result =
+        await installationService.revertToPreviousVersion("test-plugin");
+
+      expect(result.success).toBe(true);
+      expect(backupService.restoreBackup).toHaveBeenCalledWith(
+        backup,
+        ".obsidian/plugins/test-plugin",
+      );
+      expect(backupService.deleteBackup).toHaveBeenCalledWith(backup);
+      expect(installationService.getPinnedVersion("test-plugin")).toBe("0.9.0");
+    });
+
+    it("should fail to revert without a backup", async () => {
+      vi.mocked(backupService.listBackups).mockResolvedValue([]);
+
+      const result =
+        await installationService.revertToPreviousVersion("test-plugin");
+
+      expect(result.success).toBe(false);
+      expect(backupService.restoreBackup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("desktop-only plugins", () => {
+    const desktopManifest = { ...mockManifest, isDesktopOnly: true };
+
+    beforeEach(() => {
+      Platform.isMobile = true;
+      return () => {
+        Platform.isMobile = false;
+      };
+    });
+
+    it("should block installing a desktop-only plugin on mobile", async () => {
+      mockReleaseFiles(releaseFiles);
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        desktopManifest,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "Test Plugin is desktop-only and can't run on mobile",
+      );
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+
+    it("should block a release whose manifest is desktop-only on mobile", async () => {
+      mockReleaseFiles({
+        ...releaseFiles,
+        "manifest.json": JSON.stringify(desktopManifest),
+      });
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("marks Test Plugin as desktop-only");
+      expect(mockApp.vault.adapter.writeBinary).not.toHaveBeenCalled();
+    });
+
+    it("should install desktop-only plugins on desktop", async () => {
+      Platform.isMobile = false;
+      mockReleaseFiles({
+        ...releaseFiles,
+        "manifest.json": JSON.stringify(desktopManifest),
+      });
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        desktopManifest,
+      );
+
+      expect(result.success).toBe(true);
+      expect(
+        installationService.isUnavailableOnThisDevice(desktopManifest),
+      ).toBe(false);
+    });
+  });
+
+  describe("integrity", () => {
+    // SHA-256 of "abc"
+    const abcHash =
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+    it("should reject a manifest.json whose version differs from the tag", async () => {
+      mockReleaseFiles({
+        ...releaseFiles,
+        "manifest.json": JSON.stringify({ ...mockManifest, version: "1.1.0" }),
+      });
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("declares version 1.1.0, not 1.0.0");
+    });
+
+    it("should reject files larger than the size limit", async () => {
+      const limits = PLUGIN_CONFIG.constants.maxReleaseFileSizes;
+      const mainJsLimit = limits["main.js"];
+      limits["main.js"] = 8;
+      try {
+        mockReleaseFiles(releaseFiles);
+
+        const result = await installationService.installPlugin(
+          "owner/repo",
+          "1.0.0",
+          mockManifest,
+        );
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("main.js is 20 B, more than the 8 B");
+        expect(mockApp.vault.adapter.writeBinary).not.toHaveBeenCalled();
+      } finally {
+        limits["main.js"] = mainJsLimit;
+      }
+    });
+
+    it("should record the hashes of the installed files", async () => {
+      mockReleaseFiles({ ...releaseFiles, "main.js": "abc" });
+      const listener = vi.fn();
+      installationService.onInstallLedgerChange(listener);
+
+      await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(listener).toHaveBeenCalledWith({
+        "test-plugin": {
+          version: "1.0.0",
+          installedAt: expect.any(Number),
+          files: { "main.js": abcHash },
+        },
+      });
+    });
+
+    it("should report files changed since install and forget removed plugins", async () => {
+      const pluginDir = ".obsidian/plugins/test-plugin";
+      const disk: Record<string, string> = {
+        [`${pluginDir}/manifest.json`]: JSON.stringify({
+          ...mockManifest,
+          version: "1.1.0",
+        }),
+        [`${pluginDir}/main.js`]: "changed",
+      };
+      vi.mocked(mockApp.vault.adapter.exists).mockImplementation(
+        async (path: string) => path in disk,
+      );
+      vi.mocked(mockApp.vault.adapter.read).mockImplementation(
+        async (path: string) => disk[path],
+      );
+      vi.mocked(mockApp.vault.adapter.readBinary).mockImplementation(
+        async (path: string) => new TextEncoder().encode(disk[path]).buffer,
+      );
+      installationService.setInstallLedger({
+        "test-plugin": {
+          version: "1.0.0",
+          installedAt: 1,
+          files: { "main.js": abcHash, "styles.css": abcHash },
+        },
+        "removed-plugin": {
+          version: "2.0.0",
+          installedAt: 1,
+          files: { "main.js": abcHash },
+        },
+      });
+      const listener = vi.fn();
+      installationService.onInstallLedgerChange(listener);
+
+      const reports = await installationService.verifyInstalledPlugins();
+
+      expect(reports).toEqual([
+        {
+          pluginId: "test-plugin",
+          version: "1.0.0",
+          installedVersion: "1.1.0",
+          modifiedFiles: ["main.js"],
+          missingFiles: ["styles.css"],
+        },
+      ]);
+      expect(listener).toHaveBeenCalledWith({
+        "test-plugin": expect.any(Object),
+      });
+    });
+
+    it("should report unchanged files as verified", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockImplementation(
+        async (path: string) => !path.endsWith("styles.css"),
+      );
+      vi.mocked(mockApp.vault.adapter.read).mockResolvedValue(
+        JSON.stringify(mockManifest),
+      );
+      vi.mocked(mockApp.vault.adapter.readBinary).mockResolvedValue(
+        new TextEncoder().encode("abc").buffer,
+      );
+      installationService.setInstallLedger({
+        "test-plugin": {
+          version: "1.0.0",
+          installedAt: 1,
+          files: { "main.js": abcHash },
+        },
+      });
+
+      const [report] = await installationService.verifyInstalledPlugins();
+
+      expect(report.modifiedFiles).toEqual([]);
+      expect(report.missingFiles).toEqual([]);
+    });
+  });
+
+  describe("history", () => {
+    let historyService: HistoryService;
+
+    beforeEach(() => {
+      historyService = {
+        record: vi.fn().mockResolvedValue(undefined),
+      } as unknown as HistoryService;
+      installationService.setHistoryService(historyService);
+    });
+
+    it("should record installs as updates when a version is installed", async () => {
+      mockReleaseFiles(releaseFiles);
+      mockInstalledVersion("0.9.0");
+
+      await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(historyService.record).toHaveBeenCalledWith({
+        timestamp: expect.any(Number),
+        action: "update",
+        pluginId: "test-plugin",
+        fromVersion: "0.9.0",
+        toVersion: "1.0.0",
+        repo: "owner/repo",
+        success: true,
+      });
+    });
+
+    it("should read the installed version from the config folder through the adapter", async () => {
+      mockReleaseFiles(releaseFiles);
+      mockInstalledVersion("1.2.0");
+
+      await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      // The vault index doesn't list files in the config folder
+      expect(mockApp.vault.getAbstractFileByPath).not.toHaveBeenCalled();
+      expect(mockApp.vault.adapter.read).toHaveBeenCalledWith(manifestPath);
+      expect(historyService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "downgrade",
+          fromVersion: "1.2.0",
+          toVersion: "1.0.0",
+        }),
+      );
+    });
+
+    it("should record reverts as downgrades from the installed version", async () => {
+      mockInstalledVersion("1.0.0");
+      vi.mocked(mockApp.vault.adapter.readBinary).mockResolvedValue(
+        new TextEncoder().encode("// 0.9.0").buffer,
+      );
+      installationService.setBackupService({
+        listBackups: vi.fn().mockResolvedValue([
+          {
+            pluginId: "test-plugin",
+            version: "0.9.0",
+            createdAt: 1700000000000,
+            path: ".obsidian/plugins/community-plugin-browser/backups/test-plugin/1700000000000-0.9.0",
+            files: ["main.js", "manifest.json"],
+          },
+        ]),
+        restoreBackup: vi.fn().mockResolvedValue(undefined),
+        deleteBackup: vi.fn().mockResolvedValue(undefined),
+      } as unknown as BackupService);
+
+      await installationService.revertToPreviousVersion(
+        "test-plugin",
+        "owner/repo",
+      );
+
+      expect(historyService.record).toHaveBeenCalledWith({
+        timestamp: expect.any(Number),
+        action: "downgrade",
+        pluginId: "test-plugin",
+        fromVersion: "1.0.0",
+        toVersion: "0.9.0",
+        repo: "owner/repo",
+        success: true,
+      });
+    });
+
+    it("should record failed installs with the error", async () => {
+      mockReleaseFiles({ "main.js": releaseFiles["main.js"] });
+
+      await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(historyService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "install",
+          fromVersion: null,
+          success: false,
+          error: expect.stringContaining("404"),
+        }),
+      );
+    });
+
+    it("should record uninstalls", async () => {
+      mockInstalledVersion("0.9.0");
+      vi.mocked(mockApp.vault.adapter.rmdir).mockResolvedValue();
+
+      await installationService.uninstallPlugin("test-plugin", "owner/repo");
+
+      expect(historyService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "uninstall",
+          pluginId: "test-plugin",
+          toVersion: null,
+          repo: "owner/repo",
+          success: true,
+        }),
+      );
+    });
+
+    it("should not fail the install when the history can't be written", async () => {
+      mockReleaseFiles(releaseFiles);
+      vi.mocked(historyService.record).mockRejectedValue(
+        new Error("Disk full"),
+      );
+
+      const result = await installationService.installPlugin(
+        "owner/repo",
+        "1.0.0",
+        mockManifest,
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("installed plugins", () => {
+    it("should read the manifests of all installed plugins", async () => {
+      const files: Record<string, string> = {
+        ".obsidian/plugins/kanban/manifest.json": JSON.stringify({
+          ...mockManifest,
+          id: "kanban",
+          name: "Kanban",
+        }),
+        ".obsidian/plugins/broken/manifest.json": "{ not json",
+        ".obsidian/plugins/.staging/manifest.json":
+          JSON.stringify(mockManifest),
+        ".obsidian/plugins/calendar/manifest.json": JSON.stringify({
+          ...mockManifest,
+          id: "calendar",
+          name: "Calendar",
+        }),
+      };
+      vi.mocked(mockApp.vault.adapter.exists).mockImplementation(
+        async (path: string) => path === ".obsidian/plugins" || path in files,
+      );
+      vi.mocked(mockApp.vault.adapter.read).mockImplementation(
+        async (path: string) => files[path],
+      );
+      vi.mocked(mockApp.vault.adapter.list).mockResolvedValue({
+        files: [],
+        folders: [
+          ".obsidian/plugins/kanban",
+          ".obsidian/plugins/broken",
+          ".obsidian/plugins/.staging",
+          ".obsidian/plugins/calendar",
+          ".obsidian/plugins/empty",
+        ],
+      });
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const manifests = await installationService.getInstalledManifests();
+
+      expect(manifests.map((manifest) => manifest.id)).toEqual([
+        "calendar",
+        "kanban",
+      ]);
+      warnSpy.mockRestore();
+    });
+
+    it("should read the enabled plugins from community-plugins.json", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(true);
+      vi.mocked(mockApp.vault.adapter.read).mockResolvedValue(
+        JSON.stringify(["kanban", 42, "calendar"]),
+      );
+
+      const enabled = await installationService.getEnabledPluginIds();
+
+      expect(mockApp.vault.adapter.read).toHaveBeenCalledWith(
+        ".obsidian/community-plugins.json",
+      );
+      expect([...enabled]).toEqual(["kanban", "calendar"]);
+    });
+
+    it("should report no enabled plugins when community-plugins.json is missing", async () => {
+      vi.mocked(mockApp.vault.adapter.exists).mockResolvedValue(false);
+
+      expect((await installationService.getEnabledPluginIds()).size).toBe(0);
+    });
+  });
+
   describe("enablePlugin", () => {
     it("should enable plugin if API is available", async () => {
       const enablePluginMock = vi.fn().mockResolvedValue(undefined);
@@ -425,5 +1053,29 @@ describe("InstallationService", () => {
       const service = new InstallationService(appWithEnable);
       await expect(service.enablePlugin("test-plugin")).resolves.not.toThrow();
     });
+
+    it("should report the result without notices when silent", async () => {
+      const enablePluginMock = vi
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error("Enable failed"));
+      const appWithEnable = {
+        ...mockApp,
+        plugins: {
+          enablePlugin: enablePluginMock,
+        },
+      } as unknown as App;
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const service = new InstallationService(appWithEnable);
+      await expect(
+        service.enablePlugin("test-plugin", { silent: true }),
+      ).resolves.toBe(true);
+      await expect(
+        service.enablePlugin("test-plugin", { silent: true }),
+      ).resolves.toBe(false);
+      expect(showSuccess).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
   });
 });
@@ -0,0 +1,219 @@
+/**
+ * Tests for ManifestPrefetchService
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ManifestPrefetchService } from "../../src/services/ManifestPrefetchService";
+import { PluginService } from "../../src/services/PluginService";
+import { FileStorageService } from "../../src/services/FileStorageService";
+import {
+  CommunityPlugin,
+  ManifestPrefetchSnapshot,
+  PluginManifest,
+} from "../../src/types";
+import { PLUGIN_CONFIG } from "../../src/config";
+
+describe("ManifestPrefetchService", () => {
+  let pluginService: {
+    isOffline: ReturnType<typeof vi.fn>;
+    fetchCommunityPlugins: ReturnType<typeof vi.fn>;
+    getCachedManifest: ReturnType<typeof vi.fn>;
+    prefetchManifest: ReturnType<typeof vi.fn>;
+    getPrefetchedManifests: ReturnType<typeof vi.fn>;
+    restorePrefetchedManifests: ReturnType<typeof vi.fn>;
+  };
+  let storage: {
+    readJson: ReturnType<typeof vi.fn>;
+    writeJson: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+  };
+  let service: ManifestPrefetchService;
+
+  const plugins: CommunityPlugin[] = [
+    {
+      id: "kanban",
+      name: "Kanban",
+      author: "Author",
+      description: "Boards",
+      repo: "owner/kanban",
+    },
+    {
+      id: "calendar",
+      name: "Calendar",
+      author: "Author",
+      description: "Dates",
+      repo: "owner/calendar",
+    },
+  ];
+
+  const manifestOf = (plugin: CommunityPlugin): PluginManifest => ({
+    id: plugin.id,
+    name: plugin.name,
+    version: "1.0.0",
+    minAppVersion: "1.0.0",
+    description: plugin.description,
+    author: plugin.author,
+  });
+
+  beforeEach(() => {
+    pluginService = {
+      isOffline: vi.fn().mockReturnValue(false),
+      fetchCommunityPlugins: vi.fn().mockResolvedValue(plugins),
+      getCachedManifest: vi.fn().mockReturnValue(null),
+      prefetchManifest: vi.fn(async (plugin: CommunityPlugin) =>
+        manifestOf(plugin),
+      ),
+      getPrefetchedManifests: vi
+        .fn()
+        .mockReturnValue({ kanban: manifestOf(plugins[0]) }),
+      restorePrefetchedManifests: vi.fn(),
+    };
+    storage = {
+      readJson: vi.fn().mockResolvedValue(null),
+      writeJson: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new ManifestPrefetchService(
+      pluginService as unknown as PluginService,
+      storage as unknown as FileStorageService,
+    );
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    vi.useRealTimers();
+  });
+
+  it("should fetch every manifest and report progress", async () => {
+    vi.useFakeTimers();
+    const progress = vi.fn();
+    service.onProgress(progress);
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(
+      PLUGIN_CONFIG.constants.manifestPrefetchDelay,
+    );
+
+    expect(pluginService.prefetchManifest).toHaveBeenCalledTimes(2);
+    expect(service.getProgress()).toEqual({ fetched: 2, total: 2 });
+    expect(progress).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fetch plugins without a cached manifest first", async () => {
+    vi.useFakeTimers();
+    pluginService.getCachedManifest.mockImplementation((id: string) =>
+      id === "kanban" ? manifestOf(plugins[0]) : null,
+    );
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pluginService.prefetchManifest).toHaveBeenCalledTimes(1);
+    expect(pluginService.prefetchManifest).toHaveBeenCalledWith(plugins[1]);
+  });
+
+  it("should not fetch manifests again until they are stale", async () => {
+    vi.useFakeTimers();
+    const snapshot: ManifestPrefetchSnapshot = {
+      version: 1,
+      savedAt: Date.now(),
+      fetchedAt: { kanban: Date.now(), calendar: 0 },
+    };
+    storage.readJson.mockImplementation(async (fileName: string) =>
+      fileName === "manifest-prefetch.json" ? snapshot : null,
+    );
+    await service.load();
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(
+      PLUGIN_CONFIG.constants.manifestPrefetchDelay,
+    );
+
+    expect(pluginService.prefetchManifest).toHaveBeenCalledTimes(1);
+    expect(pluginService.prefetchManifest).toHaveBeenCalledWith(plugins[1]);
+  });
+
+  it("should retry a manifest that failed because the connection dropped", async () => {
+    vi.useFakeTimers();
+    pluginService.prefetchManifest.mockImplementationOnce(async () => {
+      pluginService.isOffline.mockReturnValue(true);
+      return null;
+    });
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(service.getProgress().fetched).toBe(0);
+    pluginService.isOffline.mockReturnValue(false);
+    await vi.advanceTimersByTimeAsync(
+      PLUGIN_CONFIG.constants.manifestPrefetchDelay,
+    );
+    expect(pluginService.prefetchManifest).toHaveBeenNthCalledWith(
+      2,
+      plugins[0],
+    );
+    expect(service.getProgress().fetched).toBe(1);
+  });
+
+  it("should persist progress when stopped and forget it on clear", async () => {
+    vi.useFakeTimers();
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await service.stop();
+
+    expect(storage.writeJson).toHaveBeenCalledWith(
+      "manifest-prefetch.json",
+      expect.objectContaining({
+        version: 1,
+        fetchedAt: { kanban: expect.any(Number) },
+      }),
+    );
+    expect(storage.writeJson).toHaveBeenCalledWith(
+      "prefetched-manifests.json",
+      expect.objectContaining({
+        version: 1,
+        manifests: { kanban: manifestOf(plugins[0]) },
+      }),
+    );
+
+    await service.clear();
+    expect(service.getProgress().fetched).toBe(0);
+    expect(storage.remove).toHaveBeenCalledWith("manifest-prefetch.json");
+    expect(storage.remove).toHaveBeenCalledWith("prefetched-manifests.json");
+  });
+
+  it("should only write to disk every few manifests while prefetching", async () => {
+    vi.useFakeTimers();
+    const many = Array.from(
+      { length: PLUGIN_CONFIG.constants.manifestPrefetchPersistEvery + 1 },
+      (_, i) => ({ ...plugins[0], id: `plugin-${i}` }),
+    );
+    pluginService.fetchCommunityPlugins.mockResolvedValue([...many, ...many]);
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(
+      PLUGIN_CONFIG.constants.manifestPrefetchDelay * many.length,
+    );
+
+    // One write of the state and one of the manifests after the first batch
+    expect(storage.writeJson).toHaveBeenCalledTimes(2);
+  });
+
+  it("should restore the manifests prefetched by a previous session", async () => {
+    const manifests = { kanban: manifestOf(plugins[0]) };
+    storage.readJson.mockImplementation(async (fileName: string) =>
+      fileName === "prefetched-manifests.json"
+        ? { version: 1, savedAt: 0, manifests }
+        : null,
+    );
+
+    await service.load();
+
+    expect(pluginService.restorePrefetchedManifests).toHaveBeenCalledWith(
+      manifests,
+    );
+  });
+});
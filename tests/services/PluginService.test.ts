@@ -4,7 +4,8 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { PluginService } from "../../src/services/PluginService";
-import { CommunityPlugin } from "../../src/types";
+import { FileStorageService } from "../../src/services/FileStorageService";
+import { CommunityPlugin, PersistedCacheSnapshot } from "../../src/types";
 import { requestUrl } from "obsidian";
 import { PLUGIN_CONFIG } from "../../src/config";
 
@@ -360,6 +361,22 @@ describe("PluginService", () => {
       const result = pluginService.searchPlugins(mockPlugins, "  One  ");
       expect(result).toHaveLength(1);
     });
+
+    it("should tolerate typos in longer terms", () => {
+      const result = pluginService.searchPlugins(mockPlugins, "Descripton Two");
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe("plugin-2");
+    });
+
+    it("should rank name matches above description matches", () => {
+      const plugins = [
+        { ...mockPlugins[0], id: "a", name: "Notes", description: "Kanban" },
+        { ...mockPlugins[1], id: "b", name: "Kanban", description: "Boards" },
+      ];
+      const result = pluginService.searchPluginsRanked(plugins, "kanban");
+      expect(result.map((r) => r.plugin.id)).toEqual(["b", "a"]);
+      expect(result[0].score).toBeGreaterThan(result[1].score);
+    });
   });
 
   describe("fetchPluginManifest", () => {
@@ -406,6 +423,179 @@ describe("PluginService", () => {
       });
     });
 
+    it("should read the default branch when the plugin names none", async () => {
+      vi.resetAllMocks();
+      await pluginService.fetchPluginManifest(mockPlugins[0]);
+      expect(requestUrl).toHaveBeenCalledWith({
+        url: expect.stringContaining(
+          `/${PLUGIN_CONFIG.constants.defaultBranchRef}/manifest.json`,
+        ),
+        method: "GET",
+      });
+    });
+
+    describe("release manifest", () => {
+      const mockManifestRequests = (
+        releaseVersion: string | null,
+        branchVersion: string,
+      ) => {
+        vi.mocked(requestUrl).mockImplementation((async (request: {
+          url: string;
+        }) => {
+          const isRelease = request.url.includes("/releases/latest/download/");
+          if (isRelease && releaseVersion === null) {
+            throw new Error("Request failed, status 404");
+          }
+          return {
+            status: 200,
+            headers: {},
+            json: {
+              ...mockManifest,
+              version: isRelease ? releaseVersion : branchVersion,
+            },
+            text: "",
+            arrayBuffer: new ArrayBuffer(0),
+          };
+        }) as unknown as typeof requestUrl);
+      };
+
+      beforeEach(() => {
+        vi.resetAllMocks();
+      });
+
+      it("should prefer the manifest of the latest release", async () => {
+        mockManifestRequests("1.0.0", "1.0.0");
+
+        const resolution = await pluginService.resolvePluginManifest(
+          mockPlugins[0],
+        );
+
+        expect(resolution).toEqual({
+          manifest: { ...mockManifest, version: "1.0.0" },
+          source: "release",
+        });
+        expect(requestUrl).toHaveBeenCalledWith({
+          url: "https://github.com/owner1/plugin1/releases/latest/download/manifest.json",
+          method: "GET",
+        });
+      });
+
+      it("should report the branch version when it differs from the release", async () => {
+        mockManifestRequests("1.0.0", "1.1.0-dev");
+
+        const resolution = await pluginService.resolvePluginManifest(
+          mockPlugins[0],
+        );
+
+        expect(resolution?.manifest.version).toBe("1.0.0");
+        expect(resolution?.branchVersion).toBe("1.1.0-dev");
+      });
+
+      it("should fall back to the branch manifest without a release", async () => {
+        mockManifestRequests(null, "0.9.0");
+
+        const resolution = await pluginService.resolvePluginManifest(
+          mockPlugins[0],
+        );
+
+        expect(resolution?.source).toBe("branch");
+        expect(resolution?.manifest.version).toBe("0.9.0");
+        expect(resolution?.branchVersion).toBeUndefined();
+      });
+
+      it("should prefetch only the release manifest and cache it", async () => {
+        mockManifestRequests("1.0.0", "1.1.0-dev");
+
+        const manifest = await pluginService.prefetchManifest(mockPlugins[0]);
+
+        expect(manifest?.version).toBe("1.0.0");
+        expect(requestUrl).toHaveBeenCalledTimes(1);
+        expect(pluginService.getCachedManifest(mockPlugins[0].id)).toEqual(
+          manifest,
+        );
+        // Saved by ManifestPrefetchService, not with the cache snapshot
+        expect(pluginService.getPrefetchedManifests()).toEqual({
+          [mockPlugins[0].id]: manifest,
+        });
+      });
+
+      describe("findCompatibleRelease", () => {
+        const mockCompatibilityRequests = (
+          versions: unknown,
+          releases: Record<string, string>, // Tag -> minAppVersion
+        ) => {
+          vi.mocked(requestUrl).mockImplementation((async (request: {
+            url: string;
+          }) => {
+            const respond = (json: unknown) => ({
+              status: 200,
+              headers: {},
+              json,
+              text: "",
+              arrayBuffer: new ArrayBuffer(0),
+            });
+            if (request.url.endsWith("/versions.json")) {
+              return respond(versions);
+            }
+            const tag = request.url.match(/releases\/download\/([^/]+)\//)?.[1];
+            if (tag && releases[tag]) {
+              return respond({
+                ...mockManifest,
+                version: tag.replace(/^v/, ""),
+                minAppVersion: releases[tag],
+              });
+            }
+            throw new Error("Request failed, status 404");
+          }) as unknown as typeof requestUrl);
+        };
+
+        it("should pick the newest release that runs on the app version", async () => {
+          mockCompatibilityRequests(
+            { "1.0.0": "0.15.0", "1.1.0": "1.2.0", "2.0.0": "1.6.0" },
+            { "1.0.0": "0.15.0", "v1.1.0": "1.2.0", "2.0.0": "1.6.0" },
+          );
+
+          const release = await pluginService.findCompatibleRelease(
+            mockPlugins[0],
+            "1.4.0",
+          );
+
+          expect(release?.tag).toBe("v1.1.0");
+          expect(release?.manifest.version).toBe("1.1.0");
+        });
+
+        it("should skip releases whose manifest contradicts versions.json", async () => {
+          mockCompatibilityRequests(
+            { "1.0.0": "0.15.0", "1.1.0": "1.2.0" },
+            { "1.0.0": "0.15.0", "1.1.0": "1.6.0" },
+          );
+
+          const release = await pluginService.findCompatibleRelease(
+            mockPlugins[0],
+            "1.4.0",
+          );
+
+          expect(release?.tag).toBe("1.0.0");
+        });
+
+        it("should return null without a valid versions.json", async () => {
+          mockCompatibilityRequests(["1.0.0"], { "1.0.0": "0.15.0" });
+
+          expect(
+            await pluginService.findCompatibleRelease(mockPlugins[0], "1.4.0"),
+          ).toBeNull();
+        });
+      });
+
+      it("should prefetch the branch manifest without a release", async () => {
+        mockManifestRequests(null, "0.9.0");
+
+        const manifest = await pluginService.prefetchManifest(mockPlugins[0]);
+
+        expect(manifest?.version).toBe("0.9.0");
+      });
+    });
+
     it("should return null on fetch error", async () => {
       vi.resetAllMocks();
       vi.mocked(requestUrl).mockRejectedValue(new Error("Network error"));
@@ -458,6 +648,25 @@ describe("PluginService", () => {
       const result = await pluginService.fetchPluginReadme(mockPlugins[0]);
       expect(result).toBeNull();
     });
+
+    it("should not keep READMEs fetched with cache disabled", async () => {
+      vi.resetAllMocks();
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: {},
+        text: "# Indexed only",
+        arrayBuffer: new ArrayBuffer(0),
+      } as Awaited<ReturnType<typeof requestUrl>>);
+
+      await pluginService.fetchPluginReadme(mockPlugins[0], { cache: false });
+      pluginService.setOffline(true);
+      const offlineResult = await pluginService.fetchPluginReadme(
+        mockPlugins[0],
+      );
+      expect(offlineResult).toBeNull();
+      pluginService.setOffline(false);
+    });
   });
 
   describe("getPluginInfo", () => {
@@ -485,16 +694,17 @@ describe("PluginService", () => {
         arrayBuffer: new ArrayBuffer(0),
       };
 
-      vi.mocked(requestUrl)
-        .mockResolvedValueOnce(
-          manifestResponse as Awaited<ReturnType<typeof requestUrl>>,
-        )
-        .mockResolvedValueOnce(
-          readmeResponse as Awaited<ReturnType<typeof requestUrl>>,
-        );
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) =>
+        request.url.endsWith("README.md")
+          ? readmeResponse
+          : manifestResponse) as unknown as typeof requestUrl);
 
       const result = await pluginService.getPluginInfo(mockPlugins[0]);
       expect(result.manifest).toEqual(mockManifest);
+      expect(result.manifestSource).toBe("release");
+      expect(result.branchManifestVersion).toBeUndefined();
       expect(result.readme).toBe(readmeContent);
     });
   });
@@ -646,6 +856,142 @@ describe("PluginService", () => {
     });
   });
 
+  describe("GitHub token", () => {
+    const mockReleaseResponses = () => {
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => ({
+        status: 200,
+        headers: request.url.startsWith(PLUGIN_CONFIG.urls.githubApi)
+          ? {
+              "x-ratelimit-limit": "5000",
+              "x-ratelimit-remaining": "4999",
+              "x-ratelimit-reset": "1700000000",
+            }
+          : {},
+        json: request.url.startsWith(PLUGIN_CONFIG.urls.githubApi)
+          ? { published_at: "2024-01-15T12:00:00Z" }
+          : {},
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      })) as unknown as typeof requestUrl);
+    };
+
+    it("should send the token with GitHub API requests", async () => {
+      mockReleaseResponses();
+      pluginService.setGitHubToken("  secret-token ");
+
+      await pluginService.getLatestReleaseDate(mockPlugins[0]);
+
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: `${PLUGIN_CONFIG.urls.githubApi}/repos/owner1/plugin1/releases/latest`,
+          headers: { Authorization: "Bearer secret-token" },
+        }),
+      );
+      // Raw GitHub content is not an API call and gets no token
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: PLUGIN_CONFIG.urls.communityPluginStats,
+          headers: undefined,
+        }),
+      );
+    });
+
+    it("should not send an Authorization header without a token", async () => {
+      mockReleaseResponses();
+
+      await pluginService.getLatestReleaseDate(mockPlugins[0]);
+
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: `${PLUGIN_CONFIG.urls.githubApi}/repos/owner1/plugin1/releases/latest`,
+          headers: undefined,
+        }),
+      );
+    });
+
+    it("should record the quota reported by the API", async () => {
+      mockReleaseResponses();
+      expect(pluginService.getGitHubRateLimit()).toBeNull();
+
+      await pluginService.getLatestReleaseDate(mockPlugins[0]);
+
+      expect(pluginService.getGitHubRateLimit()).toEqual({
+        limit: 5000,
+        remaining: 4999,
+        reset: new Date(1700000000 * 1000),
+      });
+    });
+
+    it("should validate a token against the rate_limit endpoint", async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: {
+          resources: {
+            core: { limit: 5000, remaining: 4321, reset: 1700000000 },
+          },
+        },
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as Awaited<ReturnType<typeof requestUrl>>);
+      pluginService.setGitHubToken("token");
+
+      const result = await pluginService.validateGitHubToken("token");
+
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: `${PLUGIN_CONFIG.urls.githubApi}/rate_limit`,
+          headers: { Authorization: "Bearer token" },
+        }),
+      );
+      expect(result.valid).toBe(true);
+      expect(result.rateLimit?.remaining).toBe(4321);
+      expect(pluginService.getGitHubRateLimit()?.remaining).toBe(4321);
+    });
+
+    it("should hold background release lookups while rate limited", async () => {
+      vi.mocked(requestUrl).mockImplementation((async () => ({
+        status: 403,
+        headers: {
+          "x-ratelimit-limit": "60",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + 600),
+        },
+        json: {},
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      })) as unknown as typeof requestUrl);
+      await pluginService.getLatestReleaseDate(mockPlugins[0], true);
+      expect(pluginService.getRateLimitTracker().isPaused("user")).toBe(true);
+
+      vi.mocked(requestUrl).mockClear();
+      const controller = new AbortController();
+      const pending = pluginService.getLatestReleaseDate(mockPlugins[1], true, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      expect(await pending).toBeNull();
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+
+    it("should report rejected tokens", async () => {
+      vi.mocked(requestUrl).mockRejectedValueOnce(
+        new Error("Request failed, status 401"),
+      );
+
+      const result = await pluginService.validateGitHubToken("bad-token");
+
+      expect(result).toEqual({
+        valid: false,
+        rateLimit: null,
+        error: "GitHub rejected the token (401)",
+      });
+    });
+  });
+
   describe("getReleaseDateFromStats", () => {
     it("should extract release date from stats data", () => {
       const stats = {
@@ -927,4 +1273,808 @@ describe("PluginService", () => {
       consoleWarnSpy.mockRestore();
     });
   });
+
+  describe("registry sources", () => {
+    const teamUrl = "https://plugins.example.com/community-plugins.json";
+    const teamPlugins: CommunityPlugin[] = [
+      { ...mockPlugins[0], name: "Plugin One (internal build)" },
+      {
+        id: "internal-plugin",
+        name: "Internal Plugin",
+        author: "Team",
+        description: "Internal only",
+        repo: "team/internal-plugin",
+      },
+    ];
+
+    const mockSourceResponses = (team: unknown) => {
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => {
+        if (request.url === teamUrl && team instanceof Error) {
+          throw team;
+        }
+        return {
+          status: 200,
+          headers: {
+            ETag: request.url === teamUrl ? '"team-etag"' : '"official-etag"',
+          },
+          json: request.url === teamUrl ? team : mockPlugins,
+          text: "",
+          arrayBuffer: new ArrayBuffer(0),
+        };
+      }) as unknown as typeof requestUrl);
+    };
+
+    const setSources = (teamFirst: boolean) => {
+      const team = {
+        id: "team",
+        name: "Team",
+        url: teamUrl,
+        enabled: true,
+      };
+      const official = {
+        id: PLUGIN_CONFIG.constants.officialRegistrySourceId,
+        name: "Official",
+        url: PLUGIN_CONFIG.urls.communityPlugins,
+        enabled: true,
+      };
+      pluginService.setRegistrySources(
+        teamFirst ? [team, official] : [official, team],
+      );
+    };
+
+    it("should return the official list unchanged without additional sources", async () => {
+      mockSourceResponses(teamPlugins);
+      const result = await pluginService.fetchCommunityPlugins();
+      expect(result).toEqual(mockPlugins);
+      expect(pluginService.getPluginSourceName(result[0])).toBeNull();
+    });
+
+    it("should merge sources and resolve collisions by priority", async () => {
+      mockSourceResponses(teamPlugins);
+      setSources(true);
+
+      const result = await pluginService.fetchCommunityPlugins();
+
+      expect(result.map((p) => [p.id, p.source])).toEqual([
+        ["plugin-1", "team"],
+        ["internal-plugin", "team"],
+        ["plugin-2", "official"],
+      ]);
+      expect(result[0].name).toBe("Plugin One (internal build)");
+      expect(pluginService.getPluginSourceName(result[0])).toBe("Team");
+      expect(pluginService.getPluginSourceName(result[2])).toBe("Official");
+
+      // Lower priority: the official entry wins the collision
+      setSources(false);
+      const reordered = await pluginService.fetchCommunityPlugins();
+      expect(reordered.find((p) => p.id === "plugin-1")?.source).toBe(
+        "official",
+      );
+    });
+
+    it("should return the same merged array while sources are unchanged", async () => {
+      mockSourceResponses(teamPlugins);
+      setSources(false);
+
+      const first = await pluginService.fetchCommunityPlugins();
+      const second = await pluginService.fetchCommunityPlugins();
+
+      expect(second).toBe(first);
+      expect(requestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it("should revalidate each source with its own ETag", async () => {
+      mockSourceResponses(teamPlugins);
+      setSources(false);
+      await pluginService.fetchCommunityPlugins();
+
+      vi.mocked(requestUrl).mockClear();
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + PLUGIN_CONFIG.constants.cacheDuration + 1);
+      await pluginService.fetchCommunityPlugins();
+
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: teamUrl,
+          headers: { "If-None-Match": '"team-etag"' },
+        }),
+      );
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: PLUGIN_CONFIG.urls.communityPlugins,
+          headers: { "If-None-Match": '"official-etag"' },
+        }),
+      );
+    });
+
+    it("should keep official plugins when an additional source fails", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      mockSourceResponses(new Error("Request failed, status 404"));
+      setSources(true);
+
+      const result = await pluginService.fetchCommunityPlugins();
+
+      expect(result.map((p) => p.id)).toEqual(["plugin-1", "plugin-2"]);
+      expect(pluginService.isOffline()).toBe(false);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'Failed to fetch plugins from registry source "Team":',
+        expect.any(String),
+      );
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe("fetchRegistryStatus", () => {
+    const removedList = [
+      {
+        id: "plugin-1",
+        name: "Plugin One",
+        author: "Author One",
+        reason: "Malicious code",
+      },
+    ];
+    const deprecations = { "plugin-2": ["1.0.0", "1.0.1"] };
+
+    const mockRegistryResponses = (
+      removed: unknown,
+      deprecated: unknown,
+      status = 200,
+    ) => {
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => ({
+        status,
+        headers: {
+          ETag: request.url.includes("removed")
+            ? '"removed-etag"'
+            : '"deprecation-etag"',
+        },
+        json: request.url.includes("removed") ? removed : deprecated,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      })) as unknown as typeof requestUrl);
+    };
+
+    it("should fetch and index removal and deprecation lists", async () => {
+      mockRegistryResponses(removedList, deprecations);
+
+      const result = await pluginService.fetchRegistryStatus();
+
+      expect(result.removed["plugin-1"].reason).toBe("Malicious code");
+      expect(result.deprecations["plugin-2"]).toEqual(["1.0.0", "1.0.1"]);
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: PLUGIN_CONFIG.urls.communityPluginsRemoved,
+        }),
+      );
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: PLUGIN_CONFIG.urls.communityPluginDeprecations,
+        }),
+      );
+    });
+
+    it("should reuse previous lists on 304 responses", async () => {
+      mockRegistryResponses(removedList, deprecations);
+      await pluginService.fetchRegistryStatus();
+
+      vi.mocked(requestUrl).mockClear();
+      mockRegistryResponses(null, null, 304);
+      const result = await pluginService.fetchRegistryStatus(false);
+
+      // Cache is still fresh, so no request is made
+      expect(requestUrl).not.toHaveBeenCalled();
+      expect(result.removed["plugin-1"]).toBeDefined();
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + PLUGIN_CONFIG.constants.cacheDuration + 1);
+      const revalidated = await pluginService.fetchRegistryStatus();
+
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: { "If-None-Match": '"removed-etag"' },
+        }),
+      );
+      expect(revalidated.removed["plugin-1"]).toBeDefined();
+      expect(revalidated.deprecations["plugin-2"]).toEqual(["1.0.0", "1.0.1"]);
+    });
+
+    it("should return empty lists when the data is invalid", async () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, "warn")
+        .mockImplementation(() => {});
+      mockRegistryResponses({ not: "an array" }, deprecations);
+
+      const result = await pluginService.fetchRegistryStatus();
+
+      expect(result).toEqual({ removed: {}, deprecations: {} });
+      expect(consoleWarnSpy).toHaveBeenCalled();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it("should report status per plugin and installed version", async () => {
+      mockRegistryResponses(removedList, deprecations);
+      await pluginService.fetchRegistryStatus();
+
+      expect(pluginService.getRegistryStatus("plugin-1")).toEqual({
+        removed: true,
+        removalReason: "Malicious code",
+        deprecatedVersions: [],
+        installedVersionDeprecated: false,
+      });
+      expect(
+        pluginService.getRegistryStatus("plugin-2", "1.0.1")
+          ?.installedVersionDeprecated,
+      ).toBe(true);
+      expect(
+        pluginService.getRegistryStatus("plugin-2", "1.1.0")
+          ?.installedVersionDeprecated,
+      ).toBe(false);
+      expect(pluginService.getRegistryStatus("plugin-3")).toBeNull();
+    });
+  });
+
+  describe("persisted cache", () => {
+    let storage: {
+      readJson: ReturnType<typeof vi.fn>;
+      writeJson: ReturnType<typeof vi.fn>;
+      remove: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      storage = {
+        readJson: vi.fn().mockResolvedValue(null),
+        writeJson: vi.fn().mockResolvedValue(undefined),
+        remove: vi.fn().mockResolvedValue(undefined),
+      };
+      pluginService.setCacheStorage(storage as unknown as FileStorageService);
+    });
+
+    it("should rehydrate plugins and ETag from a snapshot", async () => {
+      const snapshot: PersistedCacheSnapshot = {
+        version: 1,
+        savedAt: Date.now(),
+        plugins: {
+          data: mockPlugins,
+          timestamp: Date.now() - PLUGIN_CONFIG.constants.cacheDuration - 1000,
+          etag: '"persisted"',
+        },
+        stats: null,
+        releaseDates: {},
+      };
+      storage.readJson.mockResolvedValueOnce(snapshot);
+
+      const loaded = await pluginService.loadPersistedCache();
+      expect(loaded).toBe(true);
+
+      // Cache is expired, so a conditional request is made with the persisted ETag
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 304,
+        headers: {},
+        json: null,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+
+      const result = await pluginService.fetchCommunityPlugins();
+      expect(result).toEqual(mockPlugins);
+      expect(requestUrl).toHaveBeenCalledWith({
+        url: PLUGIN_CONFIG.urls.communityPlugins,
+        method: "GET",
+        headers: { "If-None-Match": '"persisted"' },
+      });
+    });
+
+    it("should use a fresh persisted snapshot without any request", async () => {
+      storage.readJson.mockResolvedValueOnce({
+        version: 1,
+        savedAt: Date.now(),
+        plugins: { data: mockPlugins, timestamp: Date.now(), etag: null },
+        stats: null,
+        releaseDates: {
+          "plugin-1": {
+            date: "2024-01-15T12:00:00.000Z",
+            timestamp: Date.now(),
+            etag: '"rel"',
+          },
+        },
+      });
+
+      await pluginService.loadPersistedCache();
+      const plugins = await pluginService.fetchCommunityPlugins();
+      const date = await pluginService.getLatestReleaseDate(mockPlugins[0]);
+
+      expect(plugins).toEqual(mockPlugins);
+      expect(date).toEqual(new Date("2024-01-15T12:00:00.000Z"));
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+
+    it("should ignore snapshots with an unknown version", async () => {
+      storage.readJson.mockResolvedValueOnce({
+        version: 999,
+        plugins: { data: mockPlugins, timestamp: Date.now(), etag: null },
+      });
+
+      const loaded = await pluginService.loadPersistedCache();
+      expect(loaded).toBe(false);
+    });
+
+    it("should write fetched data to storage", async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: { ETag: '"abc"' },
+        json: mockPlugins,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as Awaited<ReturnType<typeof requestUrl>>);
+
+      await pluginService.fetchCommunityPlugins();
+      await pluginService.persistCache();
+
+      expect(storage.writeJson).toHaveBeenCalledWith(
+        "registry-cache.json",
+        expect.objectContaining({
+          plugins: expect.objectContaining({
+            data: mockPlugins,
+            etag: '"abc"',
+          }),
+        }),
+      );
+    });
+
+    it("should remove the persisted snapshot when the cache is cleared", () => {
+      pluginService.clearCache();
+      expect(storage.remove).toHaveBeenCalledWith("registry-cache.json");
+    });
+  });
+
+  describe("offline mode", () => {
+    async function populateCache(): Promise<void> {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: mockPlugins,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as Awaited<ReturnType<typeof requestUrl>>);
+      await pluginService.fetchCommunityPlugins();
+    }
+
+    it("should switch to offline mode on network errors and serve cached data", async () => {
+      await populateCache();
+      const listener = vi.fn();
+      pluginService.onConnectivityChange(listener);
+
+      vi.mocked(requestUrl).mockRejectedValue(
+        new Error("net::ERR_INTERNET_DISCONNECTED"),
+      );
+      const result = await pluginService.fetchCommunityPlugins(true);
+
+      expect(result).toEqual(mockPlugins);
+      expect(pluginService.isOffline()).toBe(true);
+      expect(listener).toHaveBeenCalledWith(true);
+    });
+
+    it("should not make requests while offline when a snapshot exists", async () => {
+      await populateCache();
+      pluginService.setOffline(true);
+      vi.clearAllMocks();
+
+      const result = await pluginService.fetchCommunityPlugins(true);
+      expect(result).toEqual(mockPlugins);
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+
+    it("should serve the last fetched manifest and README while offline", async () => {
+      const manifest = {
+        id: "plugin-1",
+        name: "Plugin One",
+        version: "1.0.0",
+        minAppVersion: "1.0.0",
+      };
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => ({
+        status: 200,
+        headers: {},
+        json: request.url.endsWith("manifest.json") ? manifest : {},
+        text: request.url.endsWith("README.md") ? "# Readme" : "",
+        arrayBuffer: new ArrayBuffer(0),
+      })) as unknown as typeof requestUrl);
+      await pluginService.fetchPluginManifest(mockPlugins[0]);
+      await pluginService.fetchPluginReadme(mockPlugins[0]);
+
+      pluginService.setOffline(true);
+      vi.clearAllMocks();
+
+      const info = await pluginService.getPluginInfo(mockPlugins[0]);
+      expect(info.manifest).toEqual(manifest);
+      expect(info.readme).toBe("# Readme");
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+
+    it("should go back online when the connectivity probe succeeds", async () => {
+      pluginService.setOffline(true);
+      const listener = vi.fn();
+      pluginService.onConnectivityChange(listener);
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: null,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+
+      const online = await pluginService.checkConnectivity();
+      expect(online).toBe(true);
+      expect(pluginService.isOffline()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe("release history", () => {
+    const releasesUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/owner1/plugin1/releases?per_page=${PLUGIN_CONFIG.constants.releasesPerPage}`;
+    const apiReleases = [
+      {
+        tag_name: "1.1.0",
+        name: "",
+        published_at: "2024-02-01T00:00:00Z",
+        body: "- Added things",
+        prerelease: false,
+        html_url: "https://github.com/owner1/plugin1/releases/tag/1.1.0",
+        assets: [{ name: "main.js" }, { name: "manifest.json" }],
+      },
+      { tag_name: "1.1.0-draft", draft: true },
+    ];
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it("should fetch and cache the release list", async () => {
+      vi.mocked(requestUrl).mockResolvedValue({
+        status: 200,
+        headers: { etag: '"releases-v1"' },
+        json: apiReleases,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+
+      const releases = await pluginService.fetchPluginReleases(mockPlugins[0]);
+      await pluginService.fetchPluginReleases(mockPlugins[0]);
+
+      expect(releases).toEqual([
+        {
+          tagName: "1.1.0",
+          name: "1.1.0",
+          publishedAt: "2024-02-01T00:00:00Z",
+          body: "- Added things",
+          prerelease: false,
+          htmlUrl: "https://github.com/owner1/plugin1/releases/tag/1.1.0",
+          assetNames: ["main.js", "manifest.json"],
+        },
+      ]);
+      expect(requestUrl).toHaveBeenCalledTimes(1);
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ url: releasesUrl }),
+      );
+    });
+
+    it("should reuse the cached list when the ETag still matches", async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: { etag: '"releases-v1"' },
+        json: apiReleases,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+      const first = await pluginService.fetchPluginReleases(mockPlugins[0]);
+
+      vi.mocked(requestUrl).mockRejectedValueOnce(
+        new Error("Request failed, status 304"),
+      );
+      const second = await pluginService.fetchPluginReleases(
+        mockPlugins[0],
+        true,
+      );
+
+      expect(second).toEqual(first);
+    });
+
+    it("should send the ETag of the cached list", async () => {
+      vi.useFakeTimers();
+      vi.mocked(requestUrl).mockResolvedValue({
+        status: 200,
+        headers: { etag: '"releases-v1"' },
+        json: apiReleases,
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+      await pluginService.fetchPluginReleases(mockPlugins[0]);
+
+      vi.advanceTimersByTime(PLUGIN_CONFIG.constants.cacheDuration + 1000);
+      await pluginService.fetchPluginReleases(mockPlugins[0]);
+
+      expect(requestUrl).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: { "If-None-Match": '"releases-v1"' },
+        }),
+      );
+    });
+
+    it("should fetch the manifest of a specific release", async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: { id: "plugin-1", name: "Plugin One", version: "0.9.0" },
+        text: "",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+
+      const manifest = await pluginService.fetchReleaseManifest(
+        mockPlugins[0],
+        "0.9.0",
+      );
+
+      expect(manifest?.version).toBe("0.9.0");
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://github.com/owner1/plugin1/releases/download/0.9.0/manifest.json",
+        }),
+      );
+    });
+
+    it("should fetch CHANGELOG.md from the plugin branch", async () => {
+      vi.mocked(requestUrl).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        json: {},
+        text: "## 1.0.0\n- First release",
+        arrayBuffer: new ArrayBuffer(0),
+      } as unknown as Awaited<ReturnType<typeof requestUrl>>);
+
+      const changelog = await pluginService.fetchPluginChangelog({
+        ...mockPlugins[0],
+        branch: "main",
+      });
+
+      expect(changelog).toBe("## 1.0.0\n- First release");
+      expect(requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://raw.githubusercontent.com/owner1/plugin1/main/CHANGELOG.md",
+        }),
+      );
+    });
+
+    it("should return null when the repo has no changelog", async () => {
+      vi.mocked(requestUrl).mockRejectedValue(
+        new Error("Request failed, status 404"),
+      );
+
+      expect(await pluginService.fetchPluginChangelog(mockPlugins[0])).toBe(
+        null,
+      );
+    });
+  });
+
+  describe("beta channel", () => {
+    const releasesUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/owner1/plugin1/releases?per_page=${PLUGIN_CONFIG.constants.releasesPerPage}`;
+    const betaManifestUrl =
+      "https://raw.githubusercontent.com/owner1/plugin1/main/manifest-beta.json";
+    const betaPlugin = { ...mockPlugins[0], branch: "main" };
+
+    const mockUrls = (responses: Record<string, unknown>) => {
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => {
+        if (!(request.url in responses)) {
+          throw new Error("Request failed, status 404");
+        }
+        return {
+          status: 200,
+          headers: {},
+          json: responses[request.url],
+          text: JSON.stringify(responses[request.url]),
+          arrayBuffer: new ArrayBuffer(0),
+        };
+      }) as unknown as typeof requestUrl);
+    };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it("should use the version named by manifest-beta.json", async () => {
+      mockUrls({
+        [betaManifestUrl]: {
+          id: "plugin-1",
+          name: "Plugin One",
+          version: "1.2.0-beta.1",
+        },
+        "https://github.com/owner1/plugin1/releases/download/1.2.0-beta.1/manifest.json":
+          { id: "plugin-1", name: "Plugin One", version: "1.2.0-beta.1" },
+      });
+
+      const release = await pluginService.resolveBetaRelease(betaPlugin);
+
+      expect(release?.tag).toBe("1.2.0-beta.1");
+      expect(release?.manifest.version).toBe("1.2.0-beta.1");
+    });
+
+    it("should fall back to the newest installable release", async () => {
+      mockUrls({
+        [releasesUrl]: [
+          {
+            tag_name: "1.3.0-beta.2",
+            prerelease: true,
+            assets: [{ name: "main.js" }],
+          },
+          {
+            tag_name: "1.3.0-beta.1",
+            prerelease: true,
+            assets: [{ name: "main.js" }, { name: "manifest.json" }],
+          },
+        ],
+        "https://github.com/owner1/plugin1/releases/download/1.3.0-beta.1/manifest.json":
+          { id: "plugin-1", name: "Plugin One", version: "1.3.0-beta.1" },
+      });
+
+      const release = await pluginService.resolveBetaRelease(betaPlugin);
+
+      expect(release?.tag).toBe("1.3.0-beta.1");
+    });
+
+    it("should return null when there is no beta release", async () => {
+      mockUrls({ [releasesUrl]: [] });
+
+      expect(await pluginService.resolveBetaRelease(betaPlugin)).toBeNull();
+    });
+  });
+
+  describe("sideloaded plugins", () => {
+    const latestReleaseUrl = `${PLUGIN_CONFIG.urls.githubApi}/repos/someone/side-plugin/releases/latest`;
+    const sideManifestUrl =
+      "https://github.com/someone/side-plugin/releases/download/0.3.0/manifest.json";
+    const sideManifest = {
+      id: "side-plugin",
+      name: "Side Plugin",
+      version: "0.3.0",
+      minAppVersion: "1.0.0",
+      description: "Not in the registry",
+      author: "Someone",
+    };
+
+    const mockUrls = (responses: Record<string, unknown>) => {
+      vi.mocked(requestUrl).mockImplementation((async (request: {
+        url: string;
+      }) => {
+        if (!(request.url in responses)) {
+          throw new Error("Request failed, status 404");
+        }
+        return {
+          status: 200,
+          headers: {},
+          json: responses[request.url],
+          text: "",
+          arrayBuffer: new ArrayBuffer(0),
+        };
+      }) as unknown as typeof requestUrl);
+    };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it("should find the latest release and its manifest", async () => {
+      mockUrls({
+        [latestReleaseUrl]: {
+          tag_name: "0.3.0",
+          assets: [{ name: "main.js" }, { name: "manifest.json" }],
+        },
+        [sideManifestUrl]: sideManifest,
+      });
+
+      const candidate = await pluginService.findInstallableRelease(
+        "someone/side-plugin",
+      );
+
+      expect(candidate.tag).toBe("0.3.0");
+      expect(candidate.manifest).toEqual(sideManifest);
+      expect(candidate.plugin).toMatchObject({
+        id: "side-plugin",
+        repo: "someone/side-plugin",
+        source: PLUGIN_CONFIG.constants.sideloadedSourceId,
+      });
+    });
+
+    it("should reject manifests whose ID isn't a safe folder name", async () => {
+      for (const id of ["../evil", "a/b", ".hidden"]) {
+        mockUrls({
+          [latestReleaseUrl]: {
+            tag_name: "0.3.0",
+            assets: [{ name: "main.js" }, { name: "manifest.json" }],
+          },
+          [sideManifestUrl]: { ...sideManifest, id },
+        });
+
+        await expect(
+          pluginService.findInstallableRelease("someone/side-plugin"),
+        ).rejects.toThrow("invalid plugin ID");
+      }
+    });
+
+    it("should reject releases without main.js or manifest.json", async () => {
+      mockUrls({
+        [latestReleaseUrl]: {
+          tag_name: "0.3.0",
+          assets: [{ name: "manifest.json" }],
+        },
+      });
+
+      await expect(
+        pluginService.findInstallableRelease("someone/side-plugin"),
+      ).rejects.toThrow("doesn't include main.js");
+    });
+
+    it("should report repositories without a release", async () => {
+      mockUrls({});
+
+      await expect(
+        pluginService.findInstallableRelease("someone/side-plugin"),
+      ).rejects.toThrow("has no published release");
+    });
+
+    it("should list sideloaded plugins after the registry", async () => {
+      mockUrls({ [PLUGIN_CONFIG.urls.communityPlugins]: mockPlugins });
+      pluginService.addSideloadedPlugin({
+        id: "side-plugin",
+        name: "Side Plugin",
+        author: "Someone",
+        description: "Not in the registry",
+        repo: "someone/side-plugin",
+      });
+      // Registry entries win once the plugin is published from the same repository
+      pluginService.addSideloadedPlugin({
+        ...mockPlugins[0],
+        repo: "Owner1/Plugin1",
+      });
+
+      const result = await pluginService.fetchCommunityPlugins();
+
+      expect(result.map((plugin) => plugin.id)).toEqual([
+        "plugin-1",
+        "plugin-2",
+        "side-plugin",
+      ]);
+      expect(result[0].repo).toBe("owner1/plugin1");
+      expect(pluginService.getPluginSourceName(result[2])).toBe("Sideloaded");
+      expect(pluginService.getPluginSourceName(result[0])).toBeNull();
+
+      pluginService.removeSideloadedPlugin("side-plugin");
+      expect(
+        pluginService.getSideloadedPlugins().map((plugin) => plugin.id),
+      ).toEqual(["plugin-1"]);
+    });
+
+    it("should keep a sideloaded fork of a registry plugin", async () => {
+      mockUrls({ [PLUGIN_CONFIG.urls.communityPlugins]: mockPlugins });
+      pluginService.addSideloadedPlugin({
+        ...mockPlugins[0],
+        repo: "fork/plugin1",
+      });
+
+      const result = await pluginService.fetchCommunityPlugins();
+      const plugin = result.find((entry) => entry.id === "plugin-1");
+
+      expect(result).toHaveLength(mockPlugins.length);
+      expect(plugin).toMatchObject({
+        repo: "fork/plugin1",
+        source: PLUGIN_CONFIG.constants.sideloadedSourceId,
+      });
+    });
+  });
 });
@@ -0,0 +1,261 @@
+/**
+ * Tests for PluginSetService
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PluginSetService } from "../../src/services/PluginSetService";
+import { PluginService } from "../../src/services/PluginService";
+import { InstallationService } from "../../src/services/InstallationService";
+import { CommunityPlugin, PluginManifest, PluginSet } from "../../src/types";
+import { PLUGIN_CONFIG } from "../../src/config";
+
+describe("PluginSetService", () => {
+  let pluginService: {
+    fetchCommunityPlugins: ReturnType<typeof vi.fn>;
+    fetchReleaseManifest: ReturnType<typeof vi.fn>;
+  };
+  let installationService: {
+    getInstalledManifests: ReturnType<typeof vi.fn>;
+    getEnabledPluginIds: ReturnType<typeof vi.fn>;
+    isUnavailableOnThisDevice: ReturnType<typeof vi.fn>;
+    checkCompatibility: ReturnType<typeof vi.fn>;
+    installPlugin: ReturnType<typeof vi.fn>;
+    enablePlugin: ReturnType<typeof vi.fn>;
+  };
+  let service: PluginSetService;
+
+  const plugins: CommunityPlugin[] = [
+    {
+      id: "kanban",
+      name: "Kanban",
+      author: "Author",
+      description: "Boards",
+      repo: "owner/kanban",
+    },
+    {
+      id: "calendar",
+      name: "Calendar",
+      author: "Author",
+      description: "Dates",
+      repo: "owner/calendar",
+    },
+  ];
+  const manifest = (id: string, version: string): PluginManifest => ({
+    id,
+    name: id,
+    version,
+    minAppVersion: "0.15.0",
+    description: "",
+    author: "Author",
+  });
+  const entry = (id: string, repo: string | null = null) => ({
+    id,
+    name: id,
+    version: "1.0.0",
+    repo,
+    enabled: true,
+  });
+
+  beforeEach(() => {
+    pluginService = {
+      fetchCommunityPlugins: vi.fn().mockResolvedValue(plugins),
+      fetchReleaseManifest: vi.fn(
+        async (plugin: CommunityPlugin, tag: string) =>
+          tag === "1.0.0" ? manifest(plugin.id, "1.0.0") : null,
+      ),
+    };
+    installationService = {
+      getInstalledManifests: vi
+        .fn()
+        .mockResolvedValue([
+          manifest("kanban", "1.2.0"),
+          manifest("local-plugin", "0.1.0"),
+        ]),
+      getEnabledPluginIds: vi.fn().mockResolvedValue(new Set(["kanban"])),
+      isUnavailableOnThisDevice: vi.fn().mockReturnValue(false),
+      checkCompatibility: vi.fn().mockReturnValue(true),
+      installPlugin: vi.fn(
+        async (_repo: string, _tag: string, m: PluginManifest) => ({
+          success: true,
+          pluginId: m.id,
+        }),
+      ),
+      enablePlugin: vi.fn().mockResolvedValue(true),
+    };
+    service = new PluginSetService(
+      pluginService as unknown as PluginService,
+      installationService as unknown as InstallationService,
+    );
+  });
+
+  it("should export installed plugins with repository, version and enabled state", async () => {
+    const set = await service.exportPluginSet();
+
+    expect(set.version).toBe(1);
+    expect(set.plugins).toEqual([
+      {
+        id: "kanban",
+        name: "kanban",
+        version: "1.2.0",
+        repo: "owner/kanban",
+        enabled: true,
+      },
+      {
+        id: "local-plugin",
+        name: "local-plugin",
+        version: "0.1.0",
+        repo: null,
+        enabled: false,
+      },
+    ]);
+  });
+
+  it("should export without repositories when the registry can't be loaded", async () => {
+    pluginService.fetchCommunityPlugins.mockRejectedValue(
+      new Error("Network error"),
+    );
+
+    const set = await service.exportPluginSet();
+
+    expect(set.plugins.map((plugin) => plugin.repo)).toEqual([null, null]);
+  });
+
+  describe("resolvePluginSet", () => {
+    beforeEach(() => {
+      installationService.getInstalledManifests.mockResolvedValue([
+        manifest("kanban", "1.2.0"),
+      ]);
+    });
+
+    it("should skip installed plugins and resolve the exported release of the others", async () => {
+      const set: PluginSet = {
+        version: 1,
+        exportedAt: "",
+        plugins: [entry("kanban"), entry("calendar")],
+      };
+
+      const items = await service.resolvePluginSet(set);
+
+      expect(items.map((item) => item.status)).toEqual(["present", "install"]);
+      expect(pluginService.fetchReleaseManifest).not.toHaveBeenCalledWith(
+        expect.objectContaining({ id: "kanban" }),
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(items[1]).toMatchObject({
+        plugin: plugins[1],
+        sideloaded: false,
+        tag: "1.0.0",
+        manifest: { id: "calendar", version: "1.0.0" },
+      });
+    });
+
+    it("should fall back to a v-prefixed tag", async () => {
+      pluginService.fetchReleaseManifest.mockImplementation(
+        async (plugin: CommunityPlugin, tag: string) =>
+          tag === "v1.0.0" ? manifest(plugin.id, "1.0.0") : null,
+      );
+
+      const [item] = await service.resolvePluginSet({
+        version: 1,
+        exportedAt: "",
+        plugins: [entry("calendar")],
+      });
+
+      expect(item).toMatchObject({ status: "install", tag: "v1.0.0" });
+    });
+
+    it("should install plugins no registry lists from the set's repository", async () => {
+      const [item] = await service.resolvePluginSet({
+        version: 1,
+        exportedAt: "",
+        plugins: [entry("local-plugin", "someone/local-plugin")],
+      });
+
+      expect(item).toMatchObject({
+        status: "install",
+        sideloaded: true,
+        plugin: {
+          id: "local-plugin",
+          repo: "someone/local-plugin",
+          source: PLUGIN_CONFIG.constants.sideloadedSourceId,
+        },
+      });
+    });
+
+    it("should explain why plugins can't be installed", async () => {
+      pluginService.fetchReleaseManifest.mockImplementation(
+        async (plugin: CommunityPlugin, tag: string) =>
+          plugin.id === "calendar" || tag !== "1.0.0"
+            ? null
+            : manifest(plugin.id, "1.0.0"),
+      );
+      installationService.checkCompatibility.mockReturnValue(false);
+
+      const items = await service.resolvePluginSet({
+        version: 1,
+        exportedAt: "",
+        plugins: [
+          entry("local-plugin"),
+          entry("calendar"),
+          entry("other", "someone/other"),
+        ],
+      });
+
+      expect(items.map((item) => item.status)).toEqual([
+        "unavailable",
+        "unavailable",
+        "unavailable",
+      ]);
+      expect(items[0].reason).toContain("no repository");
+      expect(items[1].reason).toBe("Release 1.0.0 not found in owner/calendar");
+      expect(items[2].reason).toBe("Requires Obsidian 0.15.0+");
+    });
+  });
+
+  it("should install resolved plugins in order and enable the ones that were enabled", async () => {
+    installationService.getInstalledManifests.mockResolvedValue([
+      manifest("kanban", "1.2.0"),
+    ]);
+    const items = await service.resolvePluginSet({
+      version: 1,
+      exportedAt: "",
+      plugins: [
+        entry("kanban"),
+        entry("calendar"),
+        { ...entry("local-plugin", "someone/local-plugin"), enabled: false },
+      ],
+    });
+    installationService.installPlugin.mockImplementation(
+      async (_repo: string, _tag: string, m: PluginManifest) =>
+        m.id === "local-plugin"
+          ? { success: false, error: "Download failed", pluginId: m.id }
+          : { success: true, pluginId: m.id },
+    );
+    const progress = vi.fn();
+
+    const results = await service.installPluginSet(items, progress);
+
+    expect(results.map((result) => result.item.entry.id)).toEqual([
+      "calendar",
+      "local-plugin",
+    ]);
+    expect(results[0]).toMatchObject({ success: true, enabled: true });
+    expect(results[1]).toMatchObject({
+      success: false,
+      enabled: false,
+      error: "Download failed",
+    });
+    expect(installationService.installPlugin).toHaveBeenCalledWith(
+      "owner/calendar",
+      "1.0.0",
+      items[1].manifest,
+      { silent: true },
+    );
+    expect(installationService.enablePlugin).toHaveBeenCalledTimes(1);
+    expect(installationService.enablePlugin).toHaveBeenCalledWith("calendar", {
+      silent: true,
+    });
+    expect(progress).toHaveBeenLastCalledWith(2, null);
+  });
+});
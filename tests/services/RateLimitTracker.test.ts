@@ -0,0 +1,119 @@
+/**
+ * Tests for RateLimitTracker
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimitTracker } from "../../src/services/RateLimitTracker";
+import { PLUGIN_CONFIG } from "../../src/config";
+
+describe("RateLimitTracker", () => {
+  const NOW = Date.UTC(2025, 0, 31, 12, 0, 0);
+  const RESET_SECONDS = NOW / 1000 + 600; // Quota resets in 10 minutes
+  let tracker: RateLimitTracker;
+
+  const quotaHeaders = (remaining: number, limit = 60) => ({
+    "x-ratelimit-limit": String(limit),
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-reset": String(RESET_SECONDS),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    tracker = new RateLimitTracker();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not pause anything before the quota is known", () => {
+    expect(tracker.getRateLimit()).toBeNull();
+    expect(tracker.isPaused("background")).toBe(false);
+    expect(tracker.isPaused("user")).toBe(false);
+  });
+
+  it("should record the quota from response headers", () => {
+    tracker.recordResponse(quotaHeaders(42));
+    expect(tracker.getRateLimit()).toEqual({
+      limit: 60,
+      remaining: 42,
+      reset: new Date(RESET_SECONDS * 1000),
+    });
+  });
+
+  it("should keep the reserve for user-initiated requests", () => {
+    const reserve = Math.ceil(
+      60 * PLUGIN_CONFIG.constants.rateLimitReserveFraction,
+    );
+    tracker.recordResponse(quotaHeaders(reserve));
+
+    expect(tracker.getReserve()).toBe(reserve);
+    expect(tracker.getResumeTime("background")).toEqual(
+      new Date(RESET_SECONDS * 1000),
+    );
+    expect(tracker.isPaused("user")).toBe(false);
+  });
+
+  it("should pause every request after a rate limit rejection", () => {
+    tracker.recordResponse(quotaHeaders(0), 403);
+    expect(tracker.isPaused("user")).toBe(true);
+    expect(tracker.isPaused("background")).toBe(true);
+  });
+
+  it("should use a fallback pause when the reset time is unknown", () => {
+    tracker.recordRateLimited();
+    expect(tracker.getResumeTime("user")).toEqual(
+      new Date(NOW + PLUGIN_CONFIG.constants.rateLimitFallbackPause),
+    );
+  });
+
+  it("should claim budget when acquiring", async () => {
+    tracker.recordResponse(quotaHeaders(30));
+    await tracker.acquire("background");
+    expect(tracker.getRateLimit()?.remaining).toBe(29);
+  });
+
+  it("should hold queued requests until the quota resets", async () => {
+    tracker.recordResponse(quotaHeaders(0), 403);
+    const acquired = vi.fn();
+    tracker.acquire("background").then(acquired);
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(acquired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(acquired).toHaveBeenCalled();
+  });
+
+  it("should stop waiting when the request is cancelled", async () => {
+    tracker.recordResponse(quotaHeaders(0), 403);
+    const controller = new AbortController();
+    const pending = tracker.acquire("background", controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("Request cancelled");
+  });
+
+  it("should release waiting requests when the quota is reset", async () => {
+    tracker.recordRateLimited();
+    const pending = tracker.acquire("user");
+
+    tracker.reset();
+
+    await expect(pending).resolves.toBeUndefined();
+    expect(tracker.getRateLimit()).toBeNull();
+  });
+
+  it("should notify listeners until unsubscribed", () => {
+    const listener = vi.fn();
+    const unsubscribe = tracker.onChange(listener);
+
+    tracker.recordResponse(quotaHeaders(10));
+    unsubscribe();
+    tracker.recordResponse(quotaHeaders(9));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
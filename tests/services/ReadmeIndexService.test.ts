@@ -0,0 +1,267 @@
+/**
+ * Tests for ReadmeIndexService
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  ReadmeIndexService,
+  readmeToPlainText,
+  extractIndexTerms,
+} from "../../src/services/ReadmeIndexService";
+import { PluginService } from "../../src/services/PluginService";
+import { FileStorageService } from "../../src/services/FileStorageService";
+import { CommunityPlugin, ReadmeIndexSnapshot } from "../../src/types";
+import { PLUGIN_CONFIG } from "../../src/config";
+
+describe("ReadmeIndexService", () => {
+  let pluginService: {
+    isOffline: ReturnType<typeof vi.fn>;
+    fetchCommunityPlugins: ReturnType<typeof vi.fn>;
+    fetchPluginReadme: ReturnType<typeof vi.fn>;
+  };
+  let storage: {
+    readJson: ReturnType<typeof vi.fn>;
+    writeJson: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+  };
+  let service: ReadmeIndexService;
+
+  const plugins: CommunityPlugin[] = [
+    {
+      id: "kanban",
+      name: "Kanban",
+      author: "Author",
+      description: "Boards",
+      repo: "owner/kanban",
+    },
+    {
+      id: "calendar",
+      name: "Calendar",
+      author: "Author",
+      description: "Dates",
+      repo: "owner/calendar",
+    },
+  ];
+
+  beforeEach(() => {
+    pluginService = {
+      isOffline: vi.fn().mockReturnValue(false),
+      fetchCommunityPlugins: vi.fn().mockResolvedValue(plugins),
+      fetchPluginReadme: vi.fn().mockResolvedValue(null),
+    };
+    storage = {
+      readJson: vi.fn().mockResolvedValue(null),
+      writeJson: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new ReadmeIndexService(
+      pluginService as unknown as PluginService,
+      storage as unknown as FileStorageService,
+    );
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    vi.useRealTimers();
+  });
+
+  describe("text processing", () => {
+    it("should strip markdown, code blocks and link targets", () => {
+      const text = readmeToPlainText(
+        "# Title\n\nSee [the docs](https://x.y) and ![img](a.png)\n\n```js\nconst hidden = 1;\n```\n- **Bold** item",
+      );
+      expect(text).toBe("Title See the docs and Bold item");
+    });
+
+    it("should skip stop words, short terms and numbers", () => {
+      const terms = extractIndexTerms("The plugin syncs 2024 to S3 buckets");
+      expect([...terms].sort()).toEqual(["buckets", "syncs"]);
+    });
+  });
+
+  describe("search", () => {
+    beforeEach(() => {
+      service.indexDocument(
+        "kanban",
+        "Drag cards between lanes. Supports WIP limits.",
+      );
+      service.indexDocument(
+        "calendar",
+        "Shows daily notes on a calendar with cards.",
+      );
+    });
+
+    it("should require every term and match prefixes", () => {
+      expect(service.search("lane cards").map((r) => r.pluginId)).toEqual([
+        "kanban",
+      ]);
+      expect(service.search("cards")).toHaveLength(2);
+      expect(service.search("cards zebra")).toEqual([]);
+    });
+
+    it("should rank exact term matches above prefix matches", () => {
+      service.indexDocument("other", "Uses cardstock textures.");
+      const results = service.search("cards");
+      expect(results[results.length - 1].pluginId).toBe("other");
+    });
+
+    it("should replace terms when a document is re-indexed", () => {
+      service.indexDocument("kanban", "Now about timelines.");
+      expect(service.search("lanes")).toEqual([]);
+      expect(service.search("timelines").map((r) => r.pluginId)).toEqual([
+        "kanban",
+      ]);
+    });
+
+    it("should build a snippet around the first match", () => {
+      service.indexDocument(
+        "long",
+        `${"intro ".repeat(30)}this feature exports tables to CSV files ${"outro ".repeat(30)}`,
+      );
+      const snippet = service.getSnippet("long", "csv");
+      expect(snippet).toContain("CSV");
+      expect(snippet?.startsWith("…")).toBe(true);
+      expect(snippet?.endsWith("…")).toBe(true);
+    });
+
+    it("should return no snippet when the term is not in the excerpt", () => {
+      expect(service.getSnippet("kanban", "zebra")).toBeNull();
+    });
+  });
+
+  describe("persistence", () => {
+    it("should round-trip the index through storage", async () => {
+      service.indexDocument("kanban", "Drag cards between lanes.");
+      await service.persist();
+      const snapshot = storage.writeJson.mock
+        .calls[0][1] as ReadmeIndexSnapshot;
+      expect(snapshot.postings.lanes).toEqual(["kanban"]);
+
+      const reloaded = new ReadmeIndexService(
+        pluginService as unknown as PluginService,
+        storage as unknown as FileStorageService,
+      );
+      storage.readJson.mockResolvedValueOnce(snapshot);
+      expect(await reloaded.load()).toBe(true);
+      expect(reloaded.search("lanes").map((r) => r.pluginId)).toEqual([
+        "kanban",
+      ]);
+    });
+
+    it("should ignore snapshots from another version", async () => {
+      storage.readJson.mockResolvedValueOnce({
+        version: 999,
+        savedAt: 0,
+        documents: {},
+        postings: {},
+      });
+      expect(await service.load()).toBe(false);
+    });
+
+    it("should remove the index file on clear", async () => {
+      service.indexDocument("kanban", "Drag cards between lanes.");
+      await service.clear();
+      expect(service.search("lanes")).toEqual([]);
+      expect(storage.remove).toHaveBeenCalledWith("readme-index.json");
+    });
+  });
+
+  describe("background indexing", () => {
+    it("should fetch READMEs without caching them and report progress", async () => {
+      vi.useFakeTimers();
+      pluginService.fetchPluginReadme.mockImplementation(
+        async (plugin: CommunityPlugin) => `${plugin.name} readme with lanes`,
+      );
+      const progress = vi.fn();
+      service.onProgress(progress);
+
+      service.start();
+      await vi.advanceTimersByTimeAsync(0);
+      await vi.advanceTimersByTimeAsync(
+        PLUGIN_CONFIG.constants.readmeIndexDelay,
+      );
+
+      expect(pluginService.fetchPluginReadme).toHaveBeenCalledTimes(2);
+      expect(pluginService.fetchPluginReadme).toHaveBeenCalledWith(plugins[0], {
+        cache: false,
+        priority: "background",
+      });
+      expect(service.getProgress()).toEqual({ indexed: 2, total: 2 });
+      expect(progress).toHaveBeenCalled();
+      expect(service.search("lanes")).toHaveLength(2);
+    });
+
+    it("should drop the README fetched while the index was cleared", async () => {
+      vi.useFakeTimers();
+      let resolveReadme: (readme: string) => void = () => {};
+      pluginService.fetchPluginReadme.mockImplementationOnce(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveReadme = resolve;
+          }),
+      );
+
+      service.start();
+      await vi.advanceTimersByTimeAsync(0);
+      await service.clear();
+      resolveReadme("Drag cards between lanes.");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(service.search("lanes")).toEqual([]);
+      expect(service.getProgress().indexed).toBe(0);
+      expect(storage.writeJson).not.toHaveBeenCalled();
+    });
+
+    it("should pause while offline", async () => {
+      vi.useFakeTimers();
+      pluginService.isOffline.mockReturnValue(true);
+
+      service.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(pluginService.fetchCommunityPlugins).not.toHaveBeenCalled();
+      expect(pluginService.fetchPluginReadme).not.toHaveBeenCalled();
+    });
+
+    it("should write the index at most once per persist interval while indexing", async () => {
+      vi.useFakeTimers();
+      service = new ReadmeIndexService(
+        pluginService as unknown as PluginService,
+        storage as unknown as FileStorageService,
+      );
+      pluginService.fetchCommunityPlugins.mockResolvedValue([
+        ...plugins,
+        { ...plugins[0], id: "tasks", repo: "owner/tasks" },
+      ]);
+      pluginService.fetchPluginReadme.mockResolvedValue("Some readme text");
+      const { readmeIndexDelay, readmeIndexPersistInterval } =
+        PLUGIN_CONFIG.constants;
+
+      service.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(storage.writeJson).not.toHaveBeenCalled();
+
+      vi.setSystemTime(Date.now() + readmeIndexPersistInterval);
+      await vi.advanceTimersByTimeAsync(readmeIndexDelay);
+      expect(storage.writeJson).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(readmeIndexDelay);
+      expect(service.getProgress().indexed).toBe(3);
+      expect(storage.writeJson).toHaveBeenCalledTimes(1);
+    });
+
+    it("should persist progress when stopped", async () => {
+      vi.useFakeTimers();
+      pluginService.fetchPluginReadme.mockResolvedValue("Some readme text");
+
+      service.start();
+      await vi.advanceTimersByTimeAsync(0);
+      await service.stop();
+
+      expect(storage.writeJson).toHaveBeenCalledWith(
+        "readme-index.json",
+        expect.objectContaining({ version: 1 }),
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for RequestScheduler
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { requestUrl, RequestUrlResponse } from "obsidian";
+import { RequestScheduler } from "../../src/services/RequestScheduler";
+
+vi.mock("obsidian", () => ({
+  requestUrl: vi.fn(),
+}));
+
+describe("RequestScheduler", () => {
+  // Requests stay pending until finish(url) is called
+  let pending: Map<string, (response: RequestUrlResponse) => void>;
+  let started: string[];
+
+  const finish = async (url: string) => {
+    pending.get(url)?.({
+      status: 200,
+      headers: {},
+      json: { url },
+      text: url,
+      arrayBuffer: new ArrayBuffer(0),
+    } as RequestUrlResponse);
+    pending.delete(url);
+    // Let the scheduler settle callers and start the next request
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+
+  beforeEach(() => {
+    pending = new Map();
+    started = [];
+    vi.mocked(requestUrl).mockReset();
+    vi.mocked(requestUrl).mockImplementation(((request: { url: string }) => {
+      started.push(request.url);
+      return new Promise<RequestUrlResponse>((resolve) => {
+        pending.set(request.url, resolve);
+      });
+    }) as unknown as typeof requestUrl);
+  });
+
+  it("should limit the number of concurrent requests", async () => {
+    const scheduler = new RequestScheduler(2);
+    scheduler.request({ url: "a" });
+    scheduler.request({ url: "b" });
+    scheduler.request({ url: "c" });
+
+    expect(started).toEqual(["a", "b"]);
+    expect(scheduler.getStats()).toEqual({ queued: 1, running: 2 });
+
+    await finish("a");
+    expect(started).toEqual(["a", "b", "c"]);
+  });
+
+  it("should run higher priority requests first", async () => {
+    const scheduler = new RequestScheduler(1);
+    scheduler.request({ url: "first" });
+    scheduler.request({ url: "prefetch" }, { priority: "background" });
+    scheduler.request({ url: "card" }, { priority: "visible" });
+    scheduler.request({ url: "details" }, { priority: "user" });
+
+    await finish("first");
+    await finish("details");
+    await finish("card");
+
+    expect(started).toEqual(["first", "details", "card", "prefetch"]);
+  });
+
+  it("should share identical in-flight GET requests", async () => {
+    const scheduler = new RequestScheduler();
+    const first = scheduler.request({ url: "a", method: "GET" });
+    const second = scheduler.request({ url: "a" });
+
+    await finish("a");
+
+    expect(requestUrl).toHaveBeenCalledTimes(1);
+    expect((await first).text).toBe("a");
+    expect((await second).text).toBe("a");
+  });
+
+  it("should not share requests with different headers or methods", () => {
+    const scheduler = new RequestScheduler();
+    scheduler.request({ url: "a" });
+    scheduler.request({ url: "a", headers: { "If-None-Match": "etag" } });
+    scheduler.request({ url: "a", method: "HEAD" });
+    scheduler.request({ url: "a", method: "HEAD" });
+
+    expect(requestUrl).toHaveBeenCalledTimes(4);
+  });
+
+  it("should move a queued request forward when joined with a higher priority", async () => {
+    const scheduler = new RequestScheduler(1);
+    scheduler.request({ url: "first" });
+    scheduler.request({ url: "prefetch" }, { priority: "background" });
+    scheduler.request({ url: "readme" }, { priority: "background" });
+    scheduler.request({ url: "readme" }, { priority: "user" });
+
+    await finish("first");
+
+    expect(started).toEqual(["first", "readme"]);
+  });
+
+  it("should drop a queued request once every caller cancelled", async () => {
+    const scheduler = new RequestScheduler(1);
+    const controller = new AbortController();
+    scheduler.request({ url: "first" });
+    const cancelled = scheduler.request(
+      { url: "stale" },
+      { signal: controller.signal },
+    );
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow("Request cancelled");
+
+    await finish("first");
+    expect(started).toEqual(["first"]);
+    expect(scheduler.getStats()).toEqual({ queued: 0, running: 0 });
+  });
+
+  it("should keep a shared request for callers that didn't cancel", async () => {
+    const scheduler = new RequestScheduler(1);
+    const controller = new AbortController();
+    scheduler.request({ url: "first" });
+    const cancelled = scheduler.request(
+      { url: "a" },
+      { signal: controller.signal },
+    );
+    const kept = scheduler.request({ url: "a" });
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow("Request cancelled");
+
+    await finish("first");
+    await finish("a");
+    expect((await kept).text).toBe("a");
+  });
+
+  it("should reject every caller when the request fails", async () => {
+    vi.mocked(requestUrl).mockRejectedValue(new Error("Network error"));
+    const scheduler = new RequestScheduler();
+
+    const first = scheduler.request({ url: "a" });
+    const second = scheduler.request({ url: "a" });
+
+    await expect(first).rejects.toThrow("Network error");
+    await expect(second).rejects.toThrow("Network error");
+    expect(scheduler.getStats()).toEqual({ queued: 0, running: 0 });
+  });
+});
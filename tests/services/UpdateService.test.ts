@@ -0,0 +1,283 @@
+/**
+ * Tests for UpdateService
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { UpdateService } from "../../src/services/UpdateService";
+import { PluginService } from "../../src/services/PluginService";
+import { InstallationService } from "../../src/services/InstallationService";
+import { CommunityPlugin, PluginManifest } from "../../src/types";
+import { compareVersions } from "../../src/utils";
+
+describe("UpdateService", () => {
+  let pluginService: {
+    fetchCommunityPlugins: ReturnType<typeof vi.fn>;
+    resolvePluginManifest: ReturnType<typeof vi.fn>;
+    resolveBetaRelease: ReturnType<typeof vi.fn>;
+    fetchPluginStats: ReturnType<typeof vi.fn>;
+    findCompatibleRelease: ReturnType<typeof vi.fn>;
+  };
+  let installationService: {
+    getInstalledManifests: ReturnType<typeof vi.fn>;
+    getReleaseChannel: ReturnType<typeof vi.fn>;
+    hasUpdateAvailable: ReturnType<typeof vi.fn>;
+    checkCompatibility: ReturnType<typeof vi.fn>;
+    getAppVersion: ReturnType<typeof vi.fn>;
+    installPlugin: ReturnType<typeof vi.fn>;
+  };
+  let service: UpdateService;
+
+  const plugins: CommunityPlugin[] = [
+    {
+      id: "kanban",
+      name: "Kanban",
+      author: "Author",
+      description: "Boards",
+      repo: "owner/kanban",
+    },
+    {
+      id: "calendar",
+      name: "Calendar",
+      author: "Author",
+      description: "Dates",
+      repo: "owner/calendar",
+    },
+    {
+      id: "dataview",
+      name: "Dataview",
+      author: "Author",
+      description: "Queries",
+      repo: "owner/dataview",
+    },
+  ];
+  const installedVersions: Record<string, string> = {
+    kanban: "1.0.0",
+    calendar: "2.0.0",
+  };
+  const manifest = (id: string, version: string): PluginManifest => ({
+    id,
+    name: id,
+    version,
+    minAppVersion: "0.15.0",
+    description: "",
+    author: "Author",
+  });
+
+  beforeEach(() => {
+    pluginService = {
+      fetchCommunityPlugins: vi.fn().mockResolvedValue(plugins),
+      resolvePluginManifest: vi.fn(async (plugin: CommunityPlugin) => ({
+        manifest: manifest(
+          plugin.id,
+          plugin.id === "kanban" ? "1.1.0" : "2.0.0",
+        ),
+        source: "release",
+      })),
+      resolveBetaRelease: vi.fn(),
+      fetchPluginStats: vi.fn().mockResolvedValue({}),
+      findCompatibleRelease: vi.fn().mockResolvedValue(null),
+    };
+    installationService = {
+      getInstalledManifests: vi.fn(async () =>
+        Object.entries(installedVersions).map(([id, version]) =>
+          manifest(id, version),
+        ),
+      ),
+      getReleaseChannel: vi.fn().mockReturnValue("stable"),
+      hasUpdateAvailable: vi.fn(
+        async (id: string, version: string) =>
+          compareVersions(version, installedVersions[id]) > 0,
+      ),
+      checkCompatibility: vi.fn(
+        (m: PluginManifest) => compareVersions("1.5.0", m.minAppVersion) >= 0,
+      ),
+      getAppVersion: vi.fn().mockReturnValue("1.5.0"),
+      installPlugin: vi.fn(
+        async (_repo: string, _tag: string, m: PluginManifest) => ({
+          success: true,
+          pluginId: m.id,
+        }),
+      ),
+    };
+    service = new UpdateService(
+      pluginService as unknown as PluginService,
+      installationService as unknown as InstallationService,
+    );
+  });
+
+  it("should report updates of installed plugins only", async () => {
+    const updates = await service.checkForUpdates();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      plugin: { id: "kanban" },
+      currentVersion: "1.0.0",
+      newVersion: "1.1.0",
+      tag: "1.1.0",
+      channel: "stable",
+    });
+    expect(pluginService.resolvePluginManifest).not.toHaveBeenCalledWith(
+      expect.objectContaining({ id: "dataview" }),
+      expect.anything(),
+    );
+    // Installed plugins are listed once from the plugins folder
+    expect(installationService.getInstalledManifests).toHaveBeenCalledTimes(1);
+  });
+
+  it("should check beta plugins against their beta release", async () => {
+    installationService.getReleaseChannel.mockImplementation((id: string) =>
+      id === "calendar" ? "beta" : "stable",
+    );
+    pluginService.resolveBetaRelease.mockResolvedValue({
+      tag: "v2.1.0-beta.1",
+      manifest: manifest("calendar", "2.1.0-beta.1"),
+    });
+
+    const updates = await service.checkForUpdates();
+
+    expect(updates.map((update) => update.plugin.id)).toEqual([
+      "calendar",
+      "kanban",
+    ]);
+    expect(updates[0]).toMatchObject({
+      tag: "v2.1.0-beta.1",
+      newVersion: "2.1.0-beta.1",
+      channel: "beta",
+    });
+  });
+
+  it("should skip releases that belong to another plugin", async () => {
+    pluginService.resolvePluginManifest.mockResolvedValue({
+      manifest: manifest("other-plugin", "9.0.0"),
+      source: "release",
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await service.checkForUpdates()).toEqual([]);
+  });
+
+  describe("releases that need a newer Obsidian", () => {
+    beforeEach(() => {
+      pluginService.resolvePluginManifest.mockImplementation(
+        async (plugin: CommunityPlugin) => ({
+          manifest: {
+            ...manifest(plugin.id, "3.0.0"),
+            minAppVersion: "9.0.0",
+          },
+          source: "release",
+        }),
+      );
+    });
+
+    it("should offer the newest compatible release instead", async () => {
+      pluginService.findCompatibleRelease.mockImplementation(
+        async (plugin: CommunityPlugin) =>
+          plugin.id === "kanban"
+            ? { tag: "v1.2.0", manifest: manifest("kanban", "1.2.0") }
+            : { tag: "2.0.0", manifest: manifest("calendar", "2.0.0") },
+      );
+
+      const updates = await service.checkForUpdates();
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toMatchObject({
+        plugin: { id: "kanban" },
+        newVersion: "1.2.0",
+        tag: "v1.2.0",
+      });
+      expect(pluginService.findCompatibleRelease).toHaveBeenCalledWith(
+        plugins[0],
+        "1.5.0",
+        expect.anything(),
+      );
+    });
+
+    it("should skip the update when no compatible release exists", async () => {
+      expect(await service.checkForUpdates()).toEqual([]);
+    });
+  });
+
+  it("should install updates one after another and report failures", async () => {
+    installationService.installPlugin.mockImplementation(
+      async (_repo: string, _tag: string, m: PluginManifest) =>
+        m.id === "calendar"
+          ? { success: false, error: "Download failed", pluginId: m.id }
+          : { success: true, pluginId: m.id },
+    );
+    const updates = [
+      {
+        plugin: plugins[0],
+        currentVersion: "1.0.0",
+        newVersion: "1.1.0",
+        tag: "1.1.0",
+        manifest: manifest("kanban", "1.1.0"),
+        channel: "stable" as const,
+      },
+      {
+        plugin: plugins[1],
+        currentVersion: "2.0.0",
+        newVersion: "2.1.0",
+        tag: "2.1.0",
+        manifest: manifest("calendar", "2.1.0"),
+        channel: "stable" as const,
+      },
+    ];
+    const progress = vi.fn();
+
+    const results = await service.installUpdates(updates, progress);
+
+    expect(results.map((result) => result.success)).toEqual([true, false]);
+    expect(results[1].error).toBe("Download failed");
+    expect(installationService.installPlugin).toHaveBeenCalledWith(
+      "owner/kanban",
+      "1.1.0",
+      updates[0].manifest,
+      { silent: true },
+    );
+    expect(progress.mock.calls.map(([completed]) => completed)).toEqual([
+      0, 1, 2,
+    ]);
+    expect(progress).toHaveBeenLastCalledWith(2, null);
+  });
+
+  describe("background detection", () => {
+    it("should only check plugins the stats file lists a newer version for", async () => {
+      pluginService.fetchPluginStats.mockResolvedValue({
+        kanban: { id: "kanban", downloads: 10, "1.0.0": 4, "1.1.0": 6 },
+        calendar: { id: "calendar", downloads: 10, "2.0.0": 10 },
+      });
+
+      const updates = await service.checkForUpdates({ useStats: true });
+
+      expect(updates.map((update) => update.plugin.id)).toEqual(["kanban"]);
+      expect(pluginService.resolvePluginManifest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the found updates and notify listeners", async () => {
+      const listener = vi.fn();
+      service.onUpdatesChange(listener);
+
+      await service.checkForUpdates();
+
+      expect(service.getAvailableUpdates()).toHaveLength(1);
+      expect(listener).toHaveBeenCalledWith([
+        expect.objectContaining({ newVersion: "1.1.0" }),
+      ]);
+    });
+
+    it("should drop updates that no longer apply", async () => {
+      await service.checkForUpdates();
+      installationService.hasUpdateAvailable.mockResolvedValue(false);
+
+      expect(await service.refreshAvailableUpdates()).toEqual([]);
+    });
+
+    it("should remove installed updates", async () => {
+      const [update] = await service.checkForUpdates();
+
+      await service.installUpdates([update]);
+
+      expect(service.getAvailableUpdates()).toEqual([]);
+    });
+  });
+});
@@ -48,6 +48,8 @@ vi.mock("obsidian", () => {
     PluginSettingTab: vi.fn(),
     Notice: vi.fn(),
     requestUrl: vi.fn(),
+    normalizePath: vi.fn((path: string) => path),
+    Platform: { isMobile: false, isDesktop: true },
     WorkspaceLeaf: vi.fn(),
     App: vi.fn(),
     Vault: vi.fn(),
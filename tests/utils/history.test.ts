@@ -0,0 +1,91 @@
+/**
+ * Tests for install history helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseHistory,
+  filterHistory,
+  historyToCsv,
+} from "../../src/utils/history";
+import { HistoryEntry } from "../../src/types";
+
+describe("history", () => {
+  const install: HistoryEntry = {
+    timestamp: Date.UTC(2024, 0, 1),
+    action: "install",
+    pluginId: "dataview",
+    fromVersion: null,
+    toVersion: "0.5.0",
+    repo: "blacksmithgu/obsidian-dataview",
+    success: true,
+  };
+  const failedUpdate: HistoryEntry = {
+    timestamp: Date.UTC(2024, 0, 2),
+    action: "update",
+    pluginId: "calendar",
+    fromVersion: "1.0.0",
+    toVersion: "1.1.0",
+    repo: "liamcain/obsidian-calendar-plugin",
+    success: false,
+    error: 'Failed, "quoted", reason',
+  };
+
+  describe("parseHistory", () => {
+    it("should parse entries newest first and skip malformed lines", () => {
+      const content = [
+        JSON.stringify(install),
+        "{not json",
+        JSON.stringify({ ...install, action: "unknown" }),
+        "",
+        JSON.stringify(failedUpdate),
+      ].join("\n");
+
+      expect(parseHistory(content)).toEqual([failedUpdate, install]);
+    });
+  });
+
+  describe("filterHistory", () => {
+    const entries = [failedUpdate, install];
+
+    it("should match the query against plugin, repository and versions", () => {
+      const filter = { action: "all", outcome: "all" } as const;
+      expect(filterHistory(entries, { ...filter, query: "DATA" })).toEqual([
+        install,
+      ]);
+      expect(filterHistory(entries, { ...filter, query: "liamcain" })).toEqual([
+        failedUpdate,
+      ]);
+      expect(filterHistory(entries, { ...filter, query: "1.1.0" })).toEqual([
+        failedUpdate,
+      ]);
+    });
+
+    it("should filter by action and outcome", () => {
+      expect(
+        filterHistory(entries, {
+          query: "",
+          action: "install",
+          outcome: "all",
+        }),
+      ).toEqual([install]);
+      expect(
+        filterHistory(entries, {
+          query: "",
+          action: "all",
+          outcome: "failure",
+        }),
+      ).toEqual([failedUpdate]);
+    });
+  });
+
+  describe("historyToCsv", () => {
+    it("should write a header and escape values", () => {
+      expect(historyToCsv([install, failedUpdate])).toBe(
+        "timestamp,action,pluginId,fromVersion,toVersion,repo,outcome,error\n" +
+          "2024-01-01T00:00:00.000Z,install,dataview,,0.5.0,blacksmithgu/obsidian-dataview,success,\n" +
+          '2024-01-02T00:00:00.000Z,update,calendar,1.0.0,1.1.0,liamcain/obsidian-calendar-plugin,failure,"Failed, ""quoted"", reason"\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Tests for integrity helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { sha256Hex, formatFileSize } from "../../src/utils/integrity";
+
+describe("integrity", () => {
+  describe("sha256Hex", () => {
+    it("should return the hex SHA-256 of the contents", async () => {
+      const data = new TextEncoder().encode("abc").buffer;
+      expect(await sha256Hex(data)).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      );
+    });
+  });
+
+  describe("formatFileSize", () => {
+    it("should use the largest fitting unit", () => {
+      expect(formatFileSize(512)).toBe("512 B");
+      expect(formatFileSize(1536)).toBe("1.5 KB");
+      expect(formatFileSize(20 * 1024 * 1024)).toBe("20 MB");
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for plugin set helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { parsePluginSet, pluginSetToNote } from "../../src/utils/pluginSets";
+import { PluginSet } from "../../src/types";
+
+describe("pluginSets", () => {
+  const set: PluginSet = {
+    version: 1,
+    exportedAt: "2024-01-01T00:00:00.000Z",
+    plugins: [
+      {
+        id: "dataview",
+        name: "Dataview",
+        version: "0.5.0",
+        repo: "blacksmithgu/obsidian-dataview",
+        enabled: true,
+      },
+      {
+        id: "local-plugin",
+        name: "Local | Plugin",
+        version: "1.0.0",
+        repo: null,
+        enabled: false,
+      },
+    ],
+  };
+
+  describe("parsePluginSet", () => {
+    it("should parse an exported JSON file", () => {
+      expect(parsePluginSet(JSON.stringify(set, null, 2))).toEqual(set);
+    });
+
+    it("should read the set back from an exported note", () => {
+      expect(parsePluginSet(pluginSetToNote(set))).toEqual(set);
+    });
+
+    it("should skip invalid and repeated entries and fill in defaults", () => {
+      const parsed = parsePluginSet(
+        JSON.stringify({
+          version: 1,
+          plugins: [
+            { id: "calendar", version: "1.0.0" },
+            { id: "calendar", version: "2.0.0" },
+            { id: "no-version" },
+            { version: "1.0.0" },
+            null,
+          ],
+        }),
+      );
+
+      expect(parsed.exportedAt).toBe("");
+      expect(parsed.plugins).toEqual([
+        {
+          id: "calendar",
+          name: "calendar",
+          version: "1.0.0",
+          repo: null,
+          enabled: false,
+        },
+      ]);
+    });
+
+    it("should reject content that isn't a plugin set", () => {
+      expect(() => parsePluginSet("# Just a note")).toThrow(
+        "No plugin set found",
+      );
+      expect(() => parsePluginSet("{ not json")).toThrow("not valid JSON");
+      expect(() => parsePluginSet('{"plugins": "none"}')).toThrow(
+        "not a plugin set",
+      );
+    });
+
+    it("should reject sets from a newer format version", () => {
+      expect(() =>
+        parsePluginSet(JSON.stringify({ ...set, version: 2 })),
+      ).toThrow("newer version");
+    });
+  });
+
+  describe("pluginSetToNote", () => {
+    it("should list the plugins in a table with escaped cells", () => {
+      const note = pluginSetToNote(set);
+
+      expect(note).toContain(
+        "| Dataview | 0.5.0 | Yes | blacksmithgu/obsidian-dataview |",
+      );
+      expect(note).toContain("| Local \\| Plugin | 1.0.0 | No |  |");
+      expect(note).toContain("```json\n{");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for structured search query parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseSearchQuery,
+  parseNumericRange,
+  parseDateRange,
+  matchesQueryFilters,
+  getQualifierSuggestions,
+  applyQualifierSuggestion,
+} from "../../src/utils/queryParser";
+import { CommunityPlugin } from "../../src/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31);
+
+const plugin: CommunityPlugin = {
+  id: "obsidian-excalidraw-plugin",
+  name: "Excalidraw",
+  author: "Zsolt Viczian",
+  description: "Sketch in Obsidian",
+  repo: "zsviczian/obsidian-excalidraw-plugin",
+};
+
+describe("queryParser", () => {
+  describe("parseSearchQuery", () => {
+    it("should map qualifiers and keep free text", () => {
+      const parsed = parseSearchQuery(
+        'author:zsviczian downloads:>10000 updated:<90d desktop:false installed:true "canvas"',
+        NOW,
+      );
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.text).toBe("canvas");
+      expect(parsed.qualifiers).toEqual({
+        author: "zsviczian",
+        downloads: { min: 10001 },
+        updated: { after: new Date(NOW - 90 * DAY_MS) },
+        desktopOnly: false,
+        installed: true,
+      });
+    });
+
+    it("should support quoted qualifier values", () => {
+      const parsed = parseSearchQuery('author:"Zsolt Viczian" sketch');
+      expect(parsed.qualifiers.author).toBe("Zsolt Viczian");
+      expect(parsed.text).toBe("sketch");
+    });
+
+    it("should keep unknown qualifier names as free text", () => {
+      const parsed = parseSearchQuery("todo:list re:zero stars:>10");
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.qualifiers).toEqual({});
+      expect(parsed.text).toBe("todo:list re:zero stars:>10");
+    });
+
+    it("should suggest the qualifier a near miss was meant to be", () => {
+      const parsed = parseSearchQuery("autor:zsviczian inst:true tasks");
+      expect(parsed.errors).toHaveLength(2);
+      expect(parsed.errors[0]).toContain('Unknown qualifier "autor:"');
+      expect(parsed.errors[0]).toContain('Did you mean "author:"?');
+      expect(parsed.errors[1]).toContain('Did you mean "installed:"?');
+      expect(parsed.text).toBe("autor:zsviczian inst:true tasks");
+    });
+
+    it("should report invalid values", () => {
+      const parsed = parseSearchQuery(
+        "downloads:lots updated:soon desktop:maybe",
+      );
+      expect(parsed.errors).toHaveLength(3);
+      expect(parsed.qualifiers).toEqual({});
+    });
+
+    it("should ignore qualifiers without a value while typing", () => {
+      const parsed = parseSearchQuery("author:");
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.qualifiers).toEqual({});
+      expect(parsed.text).toBe("");
+    });
+
+    it("should treat URLs as free text", () => {
+      const parsed = parseSearchQuery("https://github.com");
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.text).toBe("https://github.com");
+    });
+  });
+
+  describe("parseNumericRange", () => {
+    it("should parse comparisons and suffixes", () => {
+      expect(parseNumericRange(">=5k")).toEqual({ min: 5000 });
+      expect(parseNumericRange("<100")).toEqual({ max: 99 });
+      expect(parseNumericRange("1.5m")).toEqual({ min: 1500000, max: 1500000 });
+      expect(parseNumericRange("abc")).toBeNull();
+    });
+  });
+
+  describe("parseDateRange", () => {
+    it("should invert operators for relative ages", () => {
+      expect(parseDateRange(">1y", NOW)).toEqual({
+        before: new Date(NOW - 365 * DAY_MS),
+      });
+    });
+
+    it("should parse absolute dates", () => {
+      expect(parseDateRange(">2024-06-01", NOW)).toEqual({
+        after: new Date("2024-06-01T00:00:00Z"),
+      });
+      expect(parseDateRange("<2024-06-01", NOW)).toEqual({
+        before: new Date("2024-06-01T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("matchesQueryFilters", () => {
+    it("should match author and id case-insensitively", () => {
+      expect(matchesQueryFilters(plugin, { author: "viczian" })).toBe(true);
+      expect(matchesQueryFilters(plugin, { id: "DATAVIEW" })).toBe(false);
+    });
+
+    it("should filter by downloads and update date", () => {
+      const filters = {
+        downloads: { min: 1000 },
+        updated: { after: new Date("2024-01-01") },
+      };
+      expect(
+        matchesQueryFilters(plugin, filters, {
+          downloads: 5000,
+          updated: new Date("2024-05-01"),
+        }),
+      ).toBe(true);
+      expect(
+        matchesQueryFilters(plugin, filters, {
+          downloads: 500,
+          updated: new Date("2024-05-01"),
+        }),
+      ).toBe(false);
+      expect(
+        matchesQueryFilters(plugin, filters, {
+          downloads: 5000,
+          updated: null,
+        }),
+      ).toBe(false);
+    });
+
+    it("should treat plugins without isDesktopOnly as cross-platform", () => {
+      expect(matchesQueryFilters(plugin, { desktopOnly: false })).toBe(true);
+      expect(matchesQueryFilters(plugin, { desktopOnly: true })).toBe(false);
+    });
+
+    it("should prefer the desktop-only flag from the plugin's manifest", () => {
+      expect(
+        matchesQueryFilters(
+          plugin,
+          { desktopOnly: true },
+          { isDesktopOnly: true },
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("autocomplete", () => {
+    it("should suggest qualifiers matching the word at the caret", () => {
+      const { suggestions, tokenStart } = getQualifierSuggestions(
+        "canvas d",
+        8,
+      );
+      expect(suggestions.map((s) => s.name)).toEqual(["downloads", "desktop"]);
+      expect(tokenStart).toBe(7);
+    });
+
+    it("should not suggest once a colon is typed", () => {
+      expect(getQualifierSuggestions("author:", 7).suggestions).toEqual([]);
+    });
+
+    it("should replace the word with the qualifier", () => {
+      expect(applyQualifierSuggestion("canvas auth", 11, "author")).toEqual({
+        value: "canvas author:",
+        caret: 14,
+      });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for registry source helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getOfficialRegistrySource,
+  isValidRegistryUrl,
+  createRegistrySourceId,
+  normalizeRegistrySources,
+  mergeRegistryPlugins,
+} from "../../src/utils/registrySources";
+import { CommunityPlugin, RegistrySource } from "../../src/types";
+import { PLUGIN_CONFIG } from "../../src/config";
+
+const teamSource: RegistrySource = {
+  id: "team-abc",
+  name: "Team",
+  url: "https://plugins.example.com/community-plugins.json",
+  enabled: true,
+};
+
+const makePlugin = (id: string, name: string): CommunityPlugin => ({
+  id,
+  name,
+  author: "Author",
+  description: "Description",
+  repo: `owner/${id}`,
+});
+
+describe("registrySources", () => {
+  describe("isValidRegistryUrl", () => {
+    it("should accept http(s) URLs only", () => {
+      expect(isValidRegistryUrl("https://example.com/plugins.json")).toBe(true);
+      expect(isValidRegistryUrl("http://intranet/plugins.json")).toBe(true);
+      expect(isValidRegistryUrl("file:///plugins.json")).toBe(false);
+      expect(isValidRegistryUrl("plugins.json")).toBe(false);
+    });
+  });
+
+  describe("createRegistrySourceId", () => {
+    it("should slugify the name and add a unique suffix", () => {
+      const now = 1700000000000;
+      expect(createRegistrySourceId("Team Plugins!", now)).toBe(
+        `team-plugins-${now.toString(36)}`,
+      );
+      expect(createRegistrySourceId("???", now)).toBe(
+        `source-${now.toString(36)}`,
+      );
+    });
+  });
+
+  describe("normalizeRegistrySources", () => {
+    it("should add the official registry when missing", () => {
+      expect(normalizeRegistrySources(undefined)).toEqual([
+        getOfficialRegistrySource(),
+      ]);
+      expect(normalizeRegistrySources([teamSource])).toEqual([
+        getOfficialRegistrySource(),
+        teamSource,
+      ]);
+    });
+
+    it("should keep the configured priority order", () => {
+      const official = getOfficialRegistrySource();
+      expect(
+        normalizeRegistrySources([teamSource, official]).map((s) => s.id),
+      ).toEqual([teamSource.id, official.id]);
+    });
+
+    it("should keep the official registry enabled with the official URL", () => {
+      const [official] = normalizeRegistrySources([
+        {
+          id: PLUGIN_CONFIG.constants.officialRegistrySourceId,
+          name: "Official",
+          url: "https://example.com/other.json",
+          enabled: false,
+        },
+      ]);
+      expect(official.url).toBe(PLUGIN_CONFIG.urls.communityPlugins);
+      expect(official.enabled).toBe(true);
+    });
+
+    it("should drop duplicates and invalid URLs", () => {
+      const sources = normalizeRegistrySources([
+        teamSource,
+        { ...teamSource, name: "Duplicate" },
+        { id: "bad", name: "Bad", url: "not a url", enabled: true },
+      ]);
+      expect(sources.map((s) => s.name)).toEqual(["Official", "Team"]);
+    });
+  });
+
+  describe("mergeRegistryPlugins", () => {
+    it("should resolve ID collisions by priority and tag each source", () => {
+      const merged = mergeRegistryPlugins([
+        {
+          sourceId: "team",
+          plugins: [makePlugin("shared", "Team Build"), makePlugin("a", "A")],
+        },
+        {
+          sourceId: "official",
+          plugins: [makePlugin("shared", "Public Build"), makePlugin("b", "B")],
+        },
+      ]);
+
+      expect(merged.map((p) => [p.id, p.name, p.source])).toEqual([
+        ["shared", "Team Build", "team"],
+        ["a", "A", "team"],
+        ["b", "B", "official"],
+      ]);
+    });
+  });
+});
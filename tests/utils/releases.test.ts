@@ -0,0 +1,51 @@
+/**
+ * Tests for GitHub release helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseGitHubReleases, hasReleaseNotes } from "../../src/utils/releases";
+
+describe("releases", () => {
+  describe("parseGitHubReleases", () => {
+    it("should convert API entries and skip drafts", () => {
+      const releases = parseGitHubReleases([
+        {
+          tag_name: "2.0.0-beta.1",
+          name: " Beta ",
+          published_at: "2024-03-01T00:00:00Z",
+          body: "Notes",
+          prerelease: true,
+          html_url: "https://github.com/o/r/releases/tag/2.0.0-beta.1",
+          assets: [{ name: "main.js" }, { size: 1 }],
+        },
+        { tag_name: "draft", draft: true },
+        { name: "No tag" },
+      ]);
+
+      expect(releases).toEqual([
+        {
+          tagName: "2.0.0-beta.1",
+          name: "Beta",
+          publishedAt: "2024-03-01T00:00:00Z",
+          body: "Notes",
+          prerelease: true,
+          htmlUrl: "https://github.com/o/r/releases/tag/2.0.0-beta.1",
+          assetNames: ["main.js"],
+        },
+      ]);
+    });
+
+    it("should return an empty list for unexpected data", () => {
+      expect(parseGitHubReleases(null)).toEqual([]);
+      expect(parseGitHubReleases({ message: "Not Found" })).toEqual([]);
+    });
+  });
+
+  describe("hasReleaseNotes", () => {
+    it("should ignore blank release notes", () => {
+      const [release] = parseGitHubReleases([{ tag_name: "1.0.0", body: " " }]);
+      expect(hasReleaseNotes([release])).toBe(false);
+      expect(hasReleaseNotes([{ ...release, body: "Fixes" }])).toBe(true);
+    });
+  });
+});
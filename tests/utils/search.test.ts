@@ -0,0 +1,143 @@
+/**
+ * Tests for ranked fuzzy search
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeSearchText,
+  tokenizeSearchText,
+  levenshteinDistance,
+  getTypoTolerance,
+  scorePlugin,
+  rankPlugins,
+  findHighlightRanges,
+} from "../../src/utils/search";
+import { CommunityPlugin } from "../../src/types";
+
+function makePlugin(overrides: Partial<CommunityPlugin>): CommunityPlugin {
+  return {
+    id: "test-plugin",
+    name: "Test Plugin",
+    author: "Test Author",
+    description: "A plugin for testing",
+    repo: "owner/test-plugin",
+    ...overrides,
+  };
+}
+
+describe("search", () => {
+  describe("normalizeSearchText", () => {
+    it("should strip diacritics and lowercase", () => {
+      expect(normalizeSearchText("Café Crème")).toBe("cafe creme");
+    });
+
+    it("should apply Unicode compatibility normalization", () => {
+      expect(normalizeSearchText("ＴＡＳＫＳ")).toBe("tasks");
+    });
+  });
+
+  describe("tokenizeSearchText", () => {
+    it("should split on punctuation and whitespace", () => {
+      expect(tokenizeSearchText("obsidian-git  Sync!")).toEqual([
+        "obsidian",
+        "git",
+        "sync",
+      ]);
+    });
+
+    it("should keep non-Latin scripts", () => {
+      expect(tokenizeSearchText("日本語 ノート")).toEqual(["日本語", "ノート"]);
+    });
+  });
+
+  describe("levenshteinDistance", () => {
+    it("should compute edit distance", () => {
+      expect(levenshteinDistance("kitten", "sitting")).toBe(3);
+      expect(levenshteinDistance("same", "same")).toBe(0);
+    });
+
+    it("should stop early when exceeding the maximum", () => {
+      expect(levenshteinDistance("abc", "xyzxyz", 1)).toBe(2);
+    });
+  });
+
+  describe("getTypoTolerance", () => {
+    it("should scale with term length", () => {
+      expect(getTypoTolerance(3)).toBe(0);
+      expect(getTypoTolerance(5)).toBe(1);
+      expect(getTypoTolerance(10)).toBe(2);
+    });
+  });
+
+  describe("scorePlugin", () => {
+    it("should match with typos", () => {
+      const plugin = makePlugin({ name: "Excalidraw" });
+      expect(scorePlugin(plugin, "excalidrw")).not.toBeNull();
+    });
+
+    it("should match ignoring diacritics", () => {
+      const plugin = makePlugin({ author: "José Núñez" });
+      expect(scorePlugin(plugin, "jose nunez")).not.toBeNull();
+    });
+
+    it("should require every term to match", () => {
+      const plugin = makePlugin({ name: "Calendar" });
+      expect(scorePlugin(plugin, "calendar zebra")).toBeNull();
+    });
+
+    it("should not apply typo tolerance to short terms", () => {
+      const plugin = makePlugin({ name: "Git", description: "" });
+      expect(scorePlugin(plugin, "got")).toBeNull();
+    });
+
+    it("should return null for queries without terms", () => {
+      expect(scorePlugin(makePlugin({}), "  --  ")).toBeNull();
+    });
+  });
+
+  describe("rankPlugins", () => {
+    it("should rank exact name matches first", () => {
+      const plugins = [
+        makePlugin({ id: "a", name: "Daily Tasks", description: "tasks" }),
+        makePlugin({ id: "b", name: "Tasks" }),
+        makePlugin({ id: "c", name: "Other", description: "Manage tasks" }),
+      ];
+      const ids = rankPlugins(plugins, "tasks").map((r) => r.plugin.id);
+      expect(ids).toEqual(["b", "a", "c"]);
+    });
+
+    it("should weight id matches above author matches", () => {
+      const plugins = [
+        makePlugin({ id: "a", name: "One", author: "dataview fan" }),
+        makePlugin({ id: "dataview-tools", name: "Two" }),
+      ];
+      const ids = rankPlugins(plugins, "dataview").map((r) => r.plugin.id);
+      expect(ids).toEqual(["dataview-tools", "a"]);
+    });
+  });
+
+  describe("findHighlightRanges", () => {
+    it("should find all occurrences of terms", () => {
+      expect(findHighlightRanges("Git sync for git", ["git"])).toEqual([
+        [0, 3],
+        [13, 16],
+      ]);
+    });
+
+    it("should map ranges back to the original text with diacritics", () => {
+      const text = "Café notes";
+      const [[start, end]] = findHighlightRanges(text, ["cafe"]);
+      expect(text.slice(start, end)).toBe("Café");
+    });
+
+    it("should merge overlapping ranges", () => {
+      expect(findHighlightRanges("dataview", ["data", "taview"])).toEqual([
+        [0, 8],
+      ]);
+    });
+
+    it("should return no ranges without terms", () => {
+      expect(findHighlightRanges("text", [])).toEqual([]);
+    });
+  });
+});
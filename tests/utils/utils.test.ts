@@ -9,9 +9,14 @@ import {
   parseRepo,
   getGitHubRawUrl,
   getGitHubReleaseUrl,
+  getGitHubLatestReleaseUrl,
   isCompatible,
+  getCompatibleVersions,
   compareVersions,
+  getLatestStatsVersion,
   isValidRepoFormat,
+  isValidPluginId,
+  parseGitHubRepoInput,
   escapeHtml,
   sanitizeSearchQuery,
   getHeaderCaseInsensitive,
@@ -27,6 +32,10 @@ import {
   getResponseHeaders,
   retryRequest,
   shouldRetryHttpError,
+  isNetworkError,
+  getOfflineMessage,
+  parseRateLimitHeaders,
+  formatCountdown,
 } from "../../src/utils";
 import { Notice } from "obsidian";
 import { CommunityPlugin, PluginInfo } from "../../src/types";
@@ -192,6 +201,14 @@ describe("getGitHubReleaseUrl", () => {
   });
 });
 
+describe("getGitHubLatestReleaseUrl", () => {
+  it("should construct the latest release download URL", () => {
+    expect(getGitHubLatestReleaseUrl("owner/repo", "manifest.json")).toBe(
+      "https://github.com/owner/repo/releases/latest/download/manifest.json",
+    );
+  });
+});
+
 describe("isCompatible", () => {
   it("should return true when versions are equal", () => {
     expect(isCompatible("1.0.0", "1.0.0")).toBe(true);
@@ -218,6 +235,23 @@ describe("isCompatible", () => {
   });
 });
 
+describe("getCompatibleVersions", () => {
+  it("should list versions that run on the app version, newest first", () => {
+    const versions = {
+      "1.0.0": "0.15.0",
+      "1.10.0": "1.4.0",
+      "1.2.0": "1.0.0",
+      "2.0.0": "1.6.0",
+    };
+    expect(getCompatibleVersions(versions, "1.4.5")).toEqual([
+      "1.10.0",
+      "1.2.0",
+      "1.0.0",
+    ]);
+    expect(getCompatibleVersions(versions, "0.14.0")).toEqual([]);
+  });
+});
+
 describe("compareVersions", () => {
   it("should return 0 for equal versions", () => {
     expect(compareVersions("1.0.0", "1.0.0")).toBe(0);
@@ -250,12 +284,59 @@ describe("compareVersions", () => {
   });
 
   it("should handle pre-release versions", () => {
-    // The current implementation compares pre-release parts as strings
-    // "1.0.0" vs "1.0.0-alpha" - both have same numeric parts, so compares "0" vs "alpha"
-    // Since "0" < "alpha" alphabetically, 1.0.0 is considered less than 1.0.0-alpha
-    // This is actually incorrect semantically, but matches current implementation
-    expect(compareVersions("1.0.0", "1.0.0-alpha")).toBeLessThan(0);
+    // A release is greater than its pre-releases (semver precedence)
+    expect(compareVersions("1.0.0", "1.0.0-alpha")).toBeGreaterThan(0);
     expect(compareVersions("1.0.0-beta", "1.0.0-alpha")).toBeGreaterThan(0);
+    expect(compareVersions("1.0.0-beta.2", "1.0.0-beta.10")).toBeLessThan(0);
+    expect(compareVersions("1.0.0-beta", "1.0.0-beta.1")).toBeLessThan(0);
+    expect(compareVersions("1.0.0-1", "1.0.0-alpha")).toBeLessThan(0);
+    expect(compareVersions("1.0.1-beta.1", "1.0.0")).toBeGreaterThan(0);
+  });
+});
+
+describe("getLatestStatsVersion", () => {
+  it("should return the highest version listed in the stats entry", () => {
+    expect(
+      getLatestStatsVersion({
+        id: "plugin",
+        downloads: 300,
+        updated: "2024-01-01T00:00:00Z",
+        "1.9.0": 100,
+        "1.10.0": 150,
+        "1.2.0": 50,
+      }),
+    ).toBe("1.10.0");
+  });
+
+  it("should ignore pre-releases and other fields", () => {
+    expect(
+      getLatestStatsVersion({
+        id: "plugin",
+        downloads: 10,
+        "2.0.0-beta.1": 5,
+        "v1.1.0": 5,
+      }),
+    ).toBe("1.1.0");
+    expect(getLatestStatsVersion({ id: "plugin", downloads: 1 })).toBeNull();
+    expect(getLatestStatsVersion(undefined)).toBeNull();
+  });
+});
+
+describe("isValidPluginId", () => {
+  it("should accept regular plugin IDs", () => {
+    expect(isValidPluginId("dataview")).toBe(true);
+    expect(isValidPluginId("obsidian-kanban")).toBe(true);
+    expect(isValidPluginId("Plugin_2")).toBe(true);
+  });
+
+  it("should reject IDs that aren't safe folder names", () => {
+    expect(isValidPluginId("")).toBe(false);
+    expect(isValidPluginId("../x")).toBe(false);
+    expect(isValidPluginId("a/b")).toBe(false);
+    expect(isValidPluginId("a\\b")).toBe(false);
+    expect(isValidPluginId(".hidden")).toBe(false);
+    expect(isValidPluginId("-flag")).toBe(false);
+    expect(isValidPluginId(null as unknown as string)).toBe(false);
   });
 });
 
@@ -283,6 +364,38 @@ describe("isValidRepoFormat", () => {
   });
 });
 
+describe("parseGitHubRepoInput", () => {
+  it("should accept owner/repo", () => {
+    expect(parseGitHubRepoInput("owner/repo")).toBe("owner/repo");
+    expect(parseGitHubRepoInput("  owner/my.plugin_2  ")).toBe(
+      "owner/my.plugin_2",
+    );
+  });
+
+  it("should extract the repository from GitHub URLs", () => {
+    expect(parseGitHubRepoInput("https://github.com/owner/repo")).toBe(
+      "owner/repo",
+    );
+    expect(parseGitHubRepoInput("https://github.com/owner/repo.git")).toBe(
+      "owner/repo",
+    );
+    expect(
+      parseGitHubRepoInput("github.com/owner/repo/releases/tag/1.0.0"),
+    ).toBe("owner/repo");
+    expect(
+      parseGitHubRepoInput("https://www.github.com/owner/repo#readme"),
+    ).toBe("owner/repo");
+  });
+
+  it("should reject input that isn't a GitHub repository", () => {
+    expect(parseGitHubRepoInput("")).toBeNull();
+    expect(parseGitHubRepoInput("owner")).toBeNull();
+    expect(parseGitHubRepoInput("owner/repo/sub")).toBeNull();
+    expect(parseGitHubRepoInput("owner / repo")).toBeNull();
+    expect(parseGitHubRepoInput("https://gitlab.com/owner/repo")).toBeNull();
+  });
+});
+
 describe("escapeHtml", () => {
   it("should escape HTML special characters", () => {
     // Note: escapeHtml uses textContent which escapes <, >, & but behavior varies by browser
@@ -362,6 +475,46 @@ describe("getHeaderCaseInsensitive", () => {
   });
 });
 
+describe("parseRateLimitHeaders", () => {
+  it("should parse GitHub quota headers case-insensitively", () => {
+    expect(
+      parseRateLimitHeaders({
+        "X-RateLimit-Limit": "5000",
+        "x-ratelimit-remaining": "4990",
+        "X-RateLimit-Reset": "1700000000",
+      }),
+    ).toEqual({
+      limit: 5000,
+      remaining: 4990,
+      reset: new Date(1700000000 * 1000),
+    });
+  });
+
+  it("should return null when headers are missing or invalid", () => {
+    expect(parseRateLimitHeaders(undefined)).toBeNull();
+    expect(
+      parseRateLimitHeaders({
+        "x-ratelimit-limit": "60",
+        "x-ratelimit-remaining": "n/a",
+        "x-ratelimit-reset": "1700000000",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("formatCountdown", () => {
+  it("should format minutes and seconds below an hour", () => {
+    expect(formatCountdown(0)).toBe("0:00");
+    expect(formatCountdown(-5000)).toBe("0:00");
+    expect(formatCountdown(61 * 1000)).toBe("1:01");
+    expect(formatCountdown(59 * 60 * 1000 + 500)).toBe("59:01");
+  });
+
+  it("should format hours and minutes from an hour up", () => {
+    expect(formatCountdown(65 * 60 * 1000)).toBe("1h 05m");
+  });
+});
+
 describe("showError", () => {
   it("should create a Notice with error message", () => {
     showError("Test error message");
@@ -829,6 +982,11 @@ describe("shouldRetryHttpError", () => {
     expect(shouldRetryHttpError(error, 1)).toBe(false);
   });
 
+  it("should not retry cancelled requests", () => {
+    const error = new Error("Request cancelled");
+    expect(shouldRetryHttpError(error, 1)).toBe(false);
+  });
+
   it("should not retry after max attempts", () => {
     const error = new Error("Network error");
     expect(shouldRetryHttpError(error, 3)).toBe(false);
@@ -845,3 +1003,31 @@ describe("shouldRetryHttpError", () => {
     expect(shouldRetryHttpError({ message: "object error" }, 1)).toBe(true);
   });
 });
+
+describe("isNetworkError", () => {
+  it("should detect connection failures", () => {
+    expect(isNetworkError(new Error("net::ERR_INTERNET_DISCONNECTED"))).toBe(
+      true,
+    );
+    expect(isNetworkError(new Error("getaddrinfo ENOTFOUND github.com"))).toBe(
+      true,
+    );
+    expect(isNetworkError("Network error")).toBe(true);
+  });
+
+  it("should not treat HTTP errors as network errors", () => {
+    expect(isNetworkError(new Error("Request failed, status 404"))).toBe(false);
+    expect(isNetworkError(new Error("500 Internal Server Error"))).toBe(false);
+  });
+});
+
+describe("getOfflineMessage", () => {
+  it("should include the age of the snapshot", () => {
+    const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+    expect(getOfflineMessage(twoHoursAgo)).toContain("saved 2 hours ago");
+  });
+
+  it("should explain when no snapshot is available", () => {
+    expect(getOfflineMessage(null)).toContain("no saved plugin data");
+  });
+});